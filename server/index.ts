@@ -0,0 +1,343 @@
+/**
+ * Auto Guard 로컬 백엔드 서버
+ *
+ * 로그 저장소, 트래픽 집계, 리소스 지표, 포트 상태를 서버에서 한 번만 생성·보관하고
+ * REST API와 실시간 피드(WebSocket, SSE)로 대시보드에 제공
+ *
+ * REST:
+ * - GET /api/snapshot               전체 상태
+ * - GET /api/logs?limit=&since=     최신 로그 (최신순)
+ * - GET /api/traffic?limit=&bucket= 트래픽 샘플 (bucket: 집계 간격, 초)
+ * - GET /api/flows | /api/resources | /api/ports | /api/system
+ * - POST /api/ingest?format=        센서 로그 수집 (syslog | cef | ndjson | suricata, 기본값: 자동 감지)
+ *                                   본문이 MAX_BODY_BYTES 환경 변수(기본값 10MB)보다 크면 413
+ * - POST /api/rules                  탐지 규칙 문서(YAML/JSON)로 규칙을 바꿈 (오류가 있으면 400, 적용하지 않음)
+ * - POST /api/indicators             대시보드의 지표 목록(JSON 배열)으로 바꿈 (IOC_FILES의 지표는 유지)
+ *   대시보드를 서버에 연결하면 화면에서 저장한 규칙과 가져온 지표를 이 경로로 보내므로
+ *   모든 대시보드가 마지막으로 보낸 규칙과 지표로 탐지함
+ *
+ * 실시간 피드 ({ channel, payload } JSON 메시지):
+ * - WebSocket /api/live
+ * - SSE       /api/events
+ * - 데이터 채널과 함께 서버에서 평가한 alerts(탐지 규칙, 위협 인텔리전스), baseline, anomalies(트래픽 기준선)를 전송
+ *
+ * 환경 변수:
+ * - PORT: 대기 포트 (기본값 4000)
+ * - RULES_FILE: 탐지 규칙 문서 (기본값: public/rules/default.yml)
+ * - IOC_FILES: 쉼표로 구분한 위협 인텔리전스 지표 파일 (목록, CSV, STIX 2.1, 기본값: 없음)
+ *
+ * 실행: npm run server
+ */
+import fs from "fs"
+import http from "http"
+import path from "path"
+import { WebSocketServer } from "ws"
+import type { Indicator } from "../src/types/ioc"
+import { parseRuleDocument, type CompiledRule } from "../src/utils/detectionRules"
+import { detectIocFormat, normalizeIndicatorValue, parseIocText } from "../src/utils/iocParsers"
+import { createMockTelemetrySource } from "../src/utils/mockTelemetrySource"
+import { LOG_FORMAT_LABELS, parseLogText, type LogFormat } from "../src/utils/logParsers"
+import { aggregateTraffic, createLiveStore, type LiveMessage, type LiveStore } from "./liveStore"
+
+const PORT = Number(process.env.PORT) || 4000
+
+const RULES_FILE = process.env.RULES_FILE || path.resolve(__dirname, "../public/rules/default.yml")
+
+// 파일에 신뢰도가 없는 지표의 기본 신뢰도 (지표 가져오기 화면의 기본값과 같음)
+const DEFAULT_IOC_CONFIDENCE = 70
+
+// 수집 요청 본문의 최대 크기 (바이트)
+const MAX_BODY_BYTES = Number(process.env.MAX_BODY_BYTES) || 10 * 1024 * 1024
+
+// 요청 본문이 최대 크기를 넘었을 때의 오류
+class PayloadTooLargeError extends Error {
+  constructor(limit: number) {
+    super(`요청 본문이 최대 크기(${limit}바이트)를 넘었습니다`)
+    this.name = "PayloadTooLargeError"
+  }
+}
+
+// JSON 응답 전송 (개발 서버에서 접근할 수 있도록 CORS 허용)
+const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, {
+    "Content-Type": "application/json; charset=utf-8",
+    "Access-Control-Allow-Origin": "*",
+  })
+  res.end(JSON.stringify(body))
+}
+
+// 쿼리 파라미터를 양의 정수로 읽는 함수
+const readPositiveInt = (params: URLSearchParams, name: string, fallback: number) => {
+  const value = Number(params.get(name))
+  return Number.isFinite(value) && value > 0 ? Math.floor(value) : fallback
+}
+
+// 요청 본문 전체를 문자열로 읽음 (limit를 넘으면 나머지는 버리고 PayloadTooLargeError)
+const readBody = (req: http.IncomingMessage, limit = MAX_BODY_BYTES) =>
+  new Promise<string>((resolve, reject) => {
+    if (Number(req.headers["content-length"]) > limit) {
+      req.resume()
+      reject(new PayloadTooLargeError(limit))
+      return
+    }
+    let chunks: Buffer[] | null = []
+    let size = 0
+    req.on("data", (chunk: Buffer) => {
+      if (!chunks) return
+      size += chunk.length
+      if (size > limit) {
+        chunks = null
+        reject(new PayloadTooLargeError(limit))
+        return
+      }
+      chunks.push(chunk)
+    })
+    req.on("end", () => {
+      if (chunks) resolve(Buffer.concat(chunks).toString("utf8"))
+    })
+    req.on("error", reject)
+  })
+
+// 센서 로그를 파싱해 저장소에 추가하고 줄별 오류를 응답
+const handleIngest = async (store: LiveStore, req: http.IncomingMessage, res: http.ServerResponse, url: URL) => {
+  const format = url.searchParams.get("format") ?? "auto"
+  if (format !== "auto" && !(format in LOG_FORMAT_LABELS)) {
+    sendJson(res, 400, { error: `지원하지 않는 로그 형식입니다: ${format}` })
+    return
+  }
+  const { entries, errors } = parseLogText(await readBody(req), format as LogFormat | "auto")
+  if (entries.length > 0) store.ingestLogs(entries)
+  sendJson(res, 200, { accepted: entries.length, errors })
+}
+
+// 대시보드가 보낸 규칙 문서로 탐지 규칙을 바꿈 (오류가 있으면 적용하지 않고 오류 목록을 응답)
+const handleRules = async (store: LiveStore, req: http.IncomingMessage, res: http.ServerResponse) => {
+  const { rules, errors } = parseRuleDocument(await readBody(req))
+  if (errors.length > 0) {
+    sendJson(res, 400, { errors })
+    return
+  }
+  store.setRules(rules)
+  console.log(`[rules] 대시보드가 보낸 규칙 ${rules.length}개를 적용합니다`)
+  sendJson(res, 200, { rules: rules.length })
+}
+
+// 문자열 또는 숫자로 받은 날짜 (그 외에는 Invalid Date)
+const toDate = (value: unknown) => new Date(typeof value === "string" || typeof value === "number" ? value : NaN)
+
+// JSON으로 받은 지표를 검증하여 Indicator로 변환 (올바르지 않으면 null)
+const reviveIndicator = (value: unknown): Indicator | null => {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return null
+  const record: Record<string, unknown> = { ...value }
+  const normalized = typeof record.value === "string" ? normalizeIndicatorValue(record.value) : null
+  const source = typeof record.source === "string" ? record.source.trim() : ""
+  const confidence = Number(record.confidence)
+  const addedAt = toDate(record.addedAt)
+  const expiresAt = record.expiresAt === null ? null : toDate(record.expiresAt)
+  if (!normalized || !source || !Number.isFinite(confidence) || Number.isNaN(addedAt.getTime())) return null
+  if (expiresAt && Number.isNaN(expiresAt.getTime())) return null
+  return {
+    id: `${source}|${normalized.value}`,
+    ...normalized,
+    source,
+    confidence: Math.min(100, Math.max(0, confidence)),
+    expiresAt,
+    addedAt,
+    ...(typeof record.description === "string" ? { description: record.description } : {}),
+  }
+}
+
+// 대시보드가 보낸 지표 목록과 파일에서 읽은 지표로 비교기를 바꿈
+const handleIndicators = async (
+  store: LiveStore,
+  fileIndicators: Indicator[],
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+) => {
+  let body: unknown
+  try {
+    body = JSON.parse(await readBody(req))
+  } catch (error) {
+    if (error instanceof PayloadTooLargeError) throw error
+    sendJson(res, 400, { error: "JSON 형식이 아닙니다" })
+    return
+  }
+  if (!Array.isArray(body)) {
+    sendJson(res, 400, { error: "지표 배열이 아닙니다" })
+    return
+  }
+  const indicators = body.map(reviveIndicator).filter((indicator): indicator is Indicator => indicator !== null)
+  store.setIndicators([...fileIndicators, ...indicators])
+  console.log(`[ioc] 대시보드가 보낸 지표 ${indicators.length}개를 적용합니다`)
+  sendJson(res, 200, { accepted: indicators.length, rejected: body.length - indicators.length })
+}
+
+// POST 요청의 오류 응답 (본문이 너무 크면 413)
+const respondToPost = (res: http.ServerResponse, task: Promise<void>) => {
+  task.catch((error) => {
+    if (error instanceof PayloadTooLargeError) {
+      res.setHeader("Connection", "close") // 남은 본문을 받지 않도록 응답 후 연결 종료
+      sendJson(res, 413, { error: error.message })
+      return
+    }
+    sendJson(res, 500, { error: String(error) })
+  })
+}
+
+// REST 요청 처리 (fileIndicators: IOC_FILES에서 읽은 지표)
+const handleRequest = (
+  store: LiveStore,
+  fileIndicators: Indicator[],
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+) => {
+  const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`)
+  const state = store.snapshot()
+
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type",
+    })
+    res.end()
+    return
+  }
+  if (req.method === "POST" && url.pathname === "/api/ingest") {
+    respondToPost(res, handleIngest(store, req, res, url))
+    return
+  }
+  if (req.method === "POST" && url.pathname === "/api/rules") {
+    respondToPost(res, handleRules(store, req, res))
+    return
+  }
+  if (req.method === "POST" && url.pathname === "/api/indicators") {
+    respondToPost(res, handleIndicators(store, fileIndicators, req, res))
+    return
+  }
+  if (req.method !== "GET") {
+    sendJson(res, 405, { error: "지원하지 않는 메서드입니다" })
+    return
+  }
+
+  switch (url.pathname) {
+    case "/api/snapshot":
+      sendJson(res, 200, state)
+      return
+    case "/api/logs": {
+      const limit = readPositiveInt(url.searchParams, "limit", 100)
+      const since = url.searchParams.get("since")
+      const sinceTime = since ? new Date(since).getTime() : NaN
+      const logs = Number.isNaN(sinceTime) ? state.logs : state.logs.filter((log) => log.timestamp.getTime() > sinceTime)
+      sendJson(res, 200, logs.slice(0, limit))
+      return
+    }
+    case "/api/traffic": {
+      const limit = readPositiveInt(url.searchParams, "limit", 30)
+      const bucket = readPositiveInt(url.searchParams, "bucket", 0)
+      sendJson(res, 200, aggregateTraffic(state.traffic, bucket).slice(-limit))
+      return
+    }
+    case "/api/flows":
+      sendJson(res, 200, state.flows)
+      return
+    case "/api/resources":
+      sendJson(res, 200, state.resources)
+      return
+    case "/api/ports":
+      sendJson(res, 200, state.ports)
+      return
+    case "/api/system":
+      sendJson(res, 200, state.system)
+      return
+    case "/api/events":
+      streamEvents(store, req, res)
+      return
+    default:
+      sendJson(res, 404, { error: "존재하지 않는 경로입니다" })
+  }
+}
+
+// SSE 연결에 실시간 메시지를 전송
+const streamEvents = (store: LiveStore, req: http.IncomingMessage, res: http.ServerResponse) => {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "Access-Control-Allow-Origin": "*",
+  })
+  const unsubscribe = store.onMessage((message: LiveMessage) => {
+    res.write(`data: ${JSON.stringify(message)}\n\n`)
+  })
+  req.on("close", unsubscribe)
+}
+
+// 탐지 규칙 문서를 읽어 컴파일 (오류가 있는 규칙은 제외)
+const loadRules = (file: string): CompiledRule[] => {
+  try {
+    const { rules, errors } = parseRuleDocument(fs.readFileSync(file, "utf8"))
+    errors.forEach((error) => console.warn(`[rules] ${error.path}: ${error.message}`))
+    console.log(`[rules] ${file}: 규칙 ${rules.length}개`)
+    return rules
+  } catch (error) {
+    console.warn(`[rules] ${file}을 읽지 못해 탐지 규칙 없이 시작합니다`, error)
+    return []
+  }
+}
+
+// 위협 인텔리전스 지표 파일을 읽음 (피드 이름은 파일 이름)
+const loadIndicators = (files: string[]): Indicator[] =>
+  files.flatMap((file) => {
+    try {
+      const text = fs.readFileSync(file, "utf8")
+      const { indicators, errors } = parseIocText(text, detectIocFormat(file, text), {
+        source: path.basename(file),
+        confidence: DEFAULT_IOC_CONFIDENCE,
+        expiresAt: null,
+      })
+      errors.forEach((error) => console.warn(`[ioc] ${file} ${error.location}: ${error.message}`))
+      console.log(`[ioc] ${file}: 지표 ${indicators.length}개`)
+      return indicators
+    } catch (error) {
+      console.warn(`[ioc] ${file}을 읽지 못했습니다`, error)
+      return []
+    }
+  })
+
+// 서버 시작
+const start = () => {
+  const iocFiles = (process.env.IOC_FILES || "")
+    .split(",")
+    .map((file) => file.trim())
+    .filter(Boolean)
+  const fileIndicators = loadIndicators(iocFiles)
+  const store = createLiveStore(createMockTelemetrySource(), {
+    rules: loadRules(RULES_FILE),
+    indicators: fileIndicators,
+  })
+  const server = http.createServer((req, res) => handleRequest(store, fileIndicators, req, res))
+  const wss = new WebSocketServer({ server, path: "/api/live" })
+
+  // 모든 WebSocket 연결에 실시간 메시지를 전송
+  store.onMessage((message) => {
+    const data = JSON.stringify(message)
+    wss.clients.forEach((client) => {
+      if (client.readyState === client.OPEN) client.send(data)
+    })
+  })
+
+  server.listen(PORT, () => {
+    console.log(`[server] http://localhost:${PORT} 에서 대기 중`)
+  })
+
+  // 종료 신호를 받으면 정리 후 종료
+  const shutdown = () => {
+    store.close()
+    wss.close()
+    server.close(() => process.exit(0))
+  }
+  process.on("SIGINT", shutdown)
+  process.on("SIGTERM", shutdown)
+}
+
+start()
@@ -0,0 +1,203 @@
+/**
+ * 서버가 보관하는 대시보드 데이터 저장소
+ *
+ * 텔레메트리 소스(기본: 목 데이터 생성기)를 한 번만 구독하여
+ * 로그, 트래픽, 플로우, 리소스, 포트, 시스템 정보를 메모리에 유지하고
+ * 새 데이터가 들어올 때마다 구독자(WebSocket/SSE 연결)에게 전달
+ *
+ * 탐지도 서버에서 한 번만 수행하여 모든 대시보드가 같은 결과를 받음
+ * - 로그(수집한 로그 포함)를 위협 인텔리전스 지표와 비교해 iocMatches를 붙이고, 탐지 규칙으로 평가하여 alerts로 전달
+ * - 트래픽 샘플을 기준선으로 평가하여 baseline, 예상 범위를 벗어나면 anomalies로 전달
+ * - 대시보드가 보낸 규칙과 지표로 실행 중에 바꿀 수 있음 (setRules, setIndicators)
+ *
+ * @module liveStore
+ */
+import type { Indicator } from "../src/types/ioc"
+import type {
+  FlowEntry,
+  LogEntry,
+  PortStatus,
+  ResourceMetrics,
+  SystemInfo,
+  TelemetryChannel,
+  TelemetryChannels,
+  TelemetrySource,
+  TrafficBaselinePoint,
+  TrafficSample,
+} from "../src/types/telemetry"
+import { toTrafficAnomalies } from "../src/utils/baselineTelemetrySource"
+import type { CompiledRule } from "../src/utils/detectionRules"
+import { createIocMatcher, markIocFlows, matchLogBatch } from "../src/utils/iocMatcher"
+import { createRuleEngine } from "../src/utils/ruleEngine"
+import { createTrafficBaseline, DEFAULT_BASELINE_OPTIONS } from "../src/utils/trafficBaseline"
+
+export interface LiveStoreOptions {
+  maxLogs: number // 보관할 최대 로그 수
+  maxTrafficSamples: number // 보관할 최대 트래픽 샘플 수
+  rules: CompiledRule[] // 로그를 평가할 탐지 규칙
+  indicators: Indicator[] // 로그와 흐름의 주소를 비교할 위협 인텔리전스 지표
+}
+
+export interface LiveSnapshot {
+  logs: LogEntry[] // 최신 로그가 앞에 오도록 정렬
+  traffic: TrafficSample[] // 오래된 샘플부터 정렬
+  baseline: TrafficBaselinePoint[] // 트래픽 샘플별 기준선 평가 결과 (traffic과 같은 순서)
+  flows: FlowEntry[]
+  resources: ResourceMetrics | null
+  ports: PortStatus[]
+  system: SystemInfo | null
+}
+
+export interface LiveMessage<K extends TelemetryChannel = TelemetryChannel> {
+  channel: K
+  payload: TelemetryChannels[K]
+}
+
+export interface LiveStore {
+  snapshot(): LiveSnapshot
+  ingestLogs(logs: LogEntry[]): void
+  setRules(rules: CompiledRule[]): void // 탐지 규칙을 바꾸고 누적된 구간을 초기화
+  setIndicators(indicators: Indicator[]): void // 비교할 지표 전체를 바꿈
+  onMessage(listener: (message: LiveMessage) => void): () => void
+  close(): void
+}
+
+const DEFAULT_OPTIONS: LiveStoreOptions = {
+  maxLogs: 5000,
+  maxTrafficSamples: 1800, // 2초 간격 기준 1시간
+  rules: [],
+  indicators: [],
+}
+
+// 텔레메트리 소스를 구독하는 저장소를 생성하는 함수
+export function createLiveStore(source: TelemetrySource, options: Partial<LiveStoreOptions> = {}): LiveStore {
+  const { maxLogs, maxTrafficSamples, rules, indicators } = { ...DEFAULT_OPTIONS, ...options }
+  const state: LiveSnapshot = {
+    logs: [],
+    traffic: [],
+    baseline: [],
+    flows: [],
+    resources: null,
+    ports: [],
+    system: null,
+  }
+  const listeners = new Set<(message: LiveMessage) => void>()
+  const engine = createRuleEngine(rules)
+  let matcher = createIocMatcher(indicators)
+  const baseline = createTrafficBaseline(DEFAULT_BASELINE_OPTIONS)
+
+  // 구독자에게 채널 메시지 전달
+  const publish = <K extends TelemetryChannel>(channel: K, payload: TelemetryChannels[K]) => {
+    const message = { channel, payload } as LiveMessage
+    listeners.forEach((listener) => listener(message))
+  }
+
+  // 로그 묶음(최신순)을 지표와 비교해 저장하고, 지표 일치와 탐지 규칙 알림을 전달
+  const acceptLogs = (logs: LogEntry[]) => {
+    const { logs: enriched, alerts } = matchLogBatch(matcher, logs)
+    state.logs = [...enriched, ...state.logs].slice(0, maxLogs)
+    publish("logs", enriched)
+    alerts.forEach((alert) => publish("alerts", alert))
+    // 규칙은 오래된 순으로 평가
+    engine.evaluate([...enriched].reverse()).forEach((alert) => publish("alerts", alert))
+  }
+
+  // 트래픽 샘플을 저장하고 기준선 평가 결과와 이상 징후를 전달
+  const acceptTraffic = (sample: TrafficSample) => {
+    const point = baseline.evaluate(sample)
+    state.traffic = [...state.traffic, sample].slice(-maxTrafficSamples)
+    state.baseline = [...state.baseline, point].slice(-maxTrafficSamples)
+    publish("traffic", sample)
+    publish("baseline", point)
+    toTrafficAnomalies(point, sample).forEach((anomaly) => publish("anomalies", anomaly))
+  }
+
+  // 채널 데이터를 상태에 반영하고 구독자에게 전달
+  const track = <K extends TelemetryChannel>(channel: K, apply: (payload: TelemetryChannels[K]) => void) =>
+    source.subscribe(channel, (payload) => {
+      apply(payload)
+      publish(channel, payload)
+    })
+
+  const unsubscribers = [
+    source.subscribe("logs", acceptLogs),
+    source.subscribe("traffic", acceptTraffic),
+    source.subscribe("flows", (flows) => {
+      state.flows = markIocFlows(matcher, flows)
+      publish("flows", state.flows)
+    }),
+    track("resources", (resources) => {
+      state.resources = resources
+    }),
+    track("ports", (ports) => {
+      state.ports = ports
+    }),
+    track("system", (system) => {
+      state.system = system
+    }),
+  ]
+
+  source.start()
+
+  return {
+    snapshot: () => ({ ...state }),
+    ingestLogs(logs) {
+      // 외부에서 수집한 로그는 최신순으로 정렬해 소스의 로그와 같이 처리
+      acceptLogs([...logs].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime()))
+    },
+    setRules(rules) {
+      engine.setRules(rules)
+    },
+    setIndicators(indicators) {
+      matcher = createIocMatcher(indicators)
+    },
+    onMessage(listener) {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+    close() {
+      unsubscribers.forEach((unsubscribe) => unsubscribe())
+      listeners.clear()
+      source.stop()
+    },
+  }
+}
+
+// 트래픽 샘플을 지정한 간격(초)의 평균값으로 묶는 함수
+export function aggregateTraffic(samples: TrafficSample[], bucketSeconds: number): TrafficSample[] {
+  if (bucketSeconds <= 0) return samples
+  const bucketMs = bucketSeconds * 1000
+  const buckets = new Map<
+    number,
+    { inbound: number; outbound: number; count: number; inboundPps: number; outboundPps: number; ppsCount: number }
+  >()
+
+  for (const sample of samples) {
+    const key = Math.floor(sample.time.getTime() / bucketMs) * bucketMs
+    const bucket = buckets.get(key) ?? { inbound: 0, outbound: 0, count: 0, inboundPps: 0, outboundPps: 0, ppsCount: 0 }
+    bucket.inbound += sample.inbound
+    bucket.outbound += sample.outbound
+    bucket.count += 1
+    // 초당 패킷 수는 제공된 샘플끼리만 평균
+    if (sample.inboundPps !== undefined && sample.outboundPps !== undefined) {
+      bucket.inboundPps += sample.inboundPps
+      bucket.outboundPps += sample.outboundPps
+      bucket.ppsCount += 1
+    }
+    buckets.set(key, bucket)
+  }
+
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([key, bucket]) => ({
+      time: new Date(key),
+      inbound: bucket.inbound / bucket.count,
+      outbound: bucket.outbound / bucket.count,
+      ...(bucket.ppsCount > 0 && {
+        inboundPps: bucket.inboundPps / bucket.ppsCount,
+        outboundPps: bucket.outboundPps / bucket.ppsCount,
+      }),
+    }))
+}
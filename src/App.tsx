@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect, useCallback } from "react"
+import { useRef, useState } from "react"
 import Sidebar from "./components/Sidebar"
 import TrafficGraph from "./components/TrafficGraph"
 import GlobeTrafficFlow from "./components/GlobeTrafficFlow"
@@ -9,57 +9,133 @@ import ResourceMonitoring from "./components/ResourceMonitoring"
 import Statistics from "./components/Statistics"
 import SystemInfo from "./components/SystemInfo"
 import NetworkPorts from "./components/NetworkPorts"
-import { LayoutGrid } from "lucide-react"
-import { generateTrafficData } from "./utils/dataGenerators"
+import CaptureDropZone from "./components/CaptureDropZone"
+import DetectionRules from "./components/DetectionRules"
+import AlertCenter from "./components/AlertCenter"
+import AlertBadge from "./components/AlertBadge"
+import Incidents from "./components/Incidents"
+import FirewallRules from "./components/FirewallRules"
+import ThreatIntel from "./components/ThreatIntel"
+import { LayoutGrid, FileUp, ShieldCheck, ShieldHalf, Radar, BellRing, ClipboardList, X, type LucideIcon } from "lucide-react"
+import { useHashRoute } from "./components/hash-router"
+import { useLiveSelector } from "./components/telemetry-provider"
+import type { CaptureImport } from "./utils/captureAnalysis"
+import { selectBaseline, selectTraffic } from "./utils/liveStore"
 
-function App() {
-  const [trafficData, setTrafficData] = useState<{ inbound: number; outbound: number; time: Date }[]>([])
+// 화면 제목과 미확인 알림 배지
+const PageHeader = ({ icon: Icon, title }: { icon: LucideIcon; title: string }) => (
+  <div className="flex items-center justify-between mb-6">
+    <h1 className="text-3xl font-bold text-gray-800 flex items-center">
+      <Icon className="mr-2 text-blue-600" /> {title}
+    </h1>
+    <AlertBadge />
+  </div>
+)
 
-  const updateTrafficData = useCallback(() => {
-    const newData = generateTrafficData()[0]
-    if (newData) {
-      setTrafficData((prevData) => {
-        const updatedData = [...(prevData || []).slice(-29), newData]
-        return updatedData.filter(
-          (data): data is { inbound: number; outbound: number; time: Date } =>
-            data !== null &&
-            data !== undefined &&
-            typeof data.inbound === "number" &&
-            typeof data.outbound === "number" &&
-            data.time instanceof Date,
-        )
-      })
-    }
-  }, [])
+function App() {
+  const route = useHashRoute()
+  // 실시간 저장소의 최근 트래픽 샘플과 기준선 평가 결과
+  const trafficData = useLiveSelector(selectTraffic)
+  const baselineData = useLiveSelector(selectBaseline)
+  // 끌어다 놓은 캡처 파일의 분석 결과 (있으면 실시간 데이터 대신 표시)
+  const [capture, setCapture] = useState<CaptureImport | null>(null)
+  const [captureError, setCaptureError] = useState<string | null>(null)
+  // 실시간 로그의 검색 질의 (통계 차트의 항목이나 지구본의 흐름을 누르면 바뀜)
+  const [logQuery, setLogQuery] = useState("")
+  const logTableRef = useRef<HTMLDivElement>(null)
 
-  useEffect(() => {
-    updateTrafficData()
-    const interval = setInterval(updateTrafficData, 2000)
-    return () => clearInterval(interval)
-  }, [updateTrafficData])
+  // 위젯에서 누른 항목의 검색 질의를 적용하고 로그 테이블로 스크롤
+  const showLogs = (query: string) => {
+    setLogQuery(query)
+    logTableRef.current?.scrollIntoView({ behavior: "smooth", block: "start" })
+  }
 
   return (
     <div className="flex h-screen bg-gray-100">
       <Sidebar />
       <main className="flex-1 p-6 overflow-auto">
-        <div className="max-w-[1920px] mx-auto space-y-6">
-          <h1 className="text-3xl font-bold text-gray-800 flex items-center mb-6">
-            <LayoutGrid className="mr-2 text-blue-600" /> 대시보드
-          </h1>
-          <LogTable trafficData={trafficData} />
-          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-            <ResourceMonitoring />
-            <Statistics />
+        {route === "/firewall" ? (
+          <div className="max-w-[1920px] mx-auto space-y-6">
+            <PageHeader icon={ShieldHalf} title="방화벽 규칙" />
+            <FirewallRules />
           </div>
-          <TrafficGraph trafficData={trafficData} />
-          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-            <GlobeTrafficFlow />
-            <div className="grid grid-cols-1 gap-6">
-              <SystemInfo />
-              <NetworkPorts />
-            </div>
+        ) : route === "/rules" ? (
+          <div className="max-w-[1920px] mx-auto space-y-6">
+            <PageHeader icon={ShieldCheck} title="탐지 규칙" />
+            <DetectionRules />
+          </div>
+        ) : route === "/ioc" ? (
+          <div className="max-w-[1920px] mx-auto space-y-6">
+            <PageHeader icon={Radar} title="위협 인텔리전스" />
+            <ThreatIntel />
           </div>
-        </div>
+        ) : route === "/alerts" ? (
+          <div className="max-w-[1920px] mx-auto space-y-6">
+            <PageHeader icon={BellRing} title="알림 센터" />
+            <AlertCenter />
+          </div>
+        ) : route === "/incidents" || route.startsWith("/incidents/") ? (
+          <div className="max-w-[1920px] mx-auto space-y-6">
+            <PageHeader icon={ClipboardList} title="인시던트" />
+            <Incidents selectedId={route.split("/")[2] || null} />
+          </div>
+        ) : (
+          <CaptureDropZone
+            onCapture={(result) => {
+              setCapture(result)
+              setCaptureError(null)
+            }}
+            onError={setCaptureError}
+          >
+            <div className="max-w-[1920px] mx-auto space-y-6">
+              <PageHeader icon={LayoutGrid} title="대시보드" />
+              {/* 캡처 파일 분석 결과 표시 중 안내 */}
+              {capture && (
+                <div className="flex items-center justify-between p-3 rounded-lg bg-blue-50 border border-blue-200 text-sm text-blue-800">
+                  <span className="flex items-center">
+                    <FileUp className="w-4 h-4 mr-2" />
+                    {capture.fileName}: 패킷 {capture.logs.length}개 ({capture.bucketSeconds}초 간격 트래픽)
+                    {capture.skipped > 0 && `, IP가 아닌 패킷 ${capture.skipped}개 제외`}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => setCapture(null)}
+                    className="flex items-center text-blue-700 hover:text-blue-900"
+                  >
+                    <X className="w-4 h-4 mr-1" /> 실시간으로 돌아가기
+                  </button>
+                </div>
+              )}
+              {captureError && (
+                <div className="flex items-center justify-between p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">
+                  <span>{captureError}</span>
+                  <button type="button" onClick={() => setCaptureError(null)}>
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+              <div ref={logTableRef}>
+                <LogTable capturedLogs={capture?.logs} query={logQuery} onQueryChange={setLogQuery} />
+              </div>
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <ResourceMonitoring />
+                <Statistics onFilter={showLogs} />
+              </div>
+              <TrafficGraph
+                trafficData={capture ? capture.traffic : trafficData}
+                baseline={capture ? undefined : baselineData}
+                allowHistory={!capture}
+              />
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <GlobeTrafficFlow onFilter={showLogs} />
+                <div className="grid grid-cols-1 gap-6">
+                  <SystemInfo />
+                  <NetworkPorts />
+                </div>
+              </div>
+            </div>
+          </CaptureDropZone>
+        )}
       </main>
     </div>
   )
@@ -0,0 +1,78 @@
+/**
+ * 선택한 알림 그룹이나 로그를 새 인시던트 또는 진행 중인 인시던트에 묶는 컴포넌트
+ *
+ * 묶은 뒤에는 해당 인시던트로 이동하는 링크를 표시
+ *
+ * @component
+ * @example
+ * <AddToIncident alerts={selectedGroups} defaultTitle="SSH 무차별 대입 시도" />
+ */
+"use client"
+
+import { useState } from "react"
+import { FolderPlus } from "lucide-react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select"
+import { useAlertOperator } from "./alert-center-provider"
+import { useIncidentManager, useIncidents } from "./incident-provider"
+import type { AlertGroup } from "../types/alert"
+import type { Incident } from "../types/incident"
+import type { LogEntry } from "../types/log"
+import { isIncidentActive } from "../utils/incidentManager"
+
+// 새 인시던트를 만드는 선택 항목의 값
+const NEW_INCIDENT = "__new__"
+
+interface AddToIncidentProps {
+  alerts?: AlertGroup[]
+  logs?: LogEntry[]
+  defaultTitle: string // 새 인시던트의 제목
+}
+
+const AddToIncident: React.FC<AddToIncidentProps> = ({ alerts = [], logs = [], defaultTitle }) => {
+  const manager = useIncidentManager()
+  const incidents = useIncidents()
+  const [operator] = useAlertOperator()
+  const [added, setAdded] = useState<Incident | null>(null)
+  // 선택한 뒤 다시 고를 수 있도록 Select를 초기화하는 키
+  const [resetKey, setResetKey] = useState(0)
+
+  const disabled = alerts.length === 0 && logs.length === 0
+  const actor = operator.trim() || "analyst"
+
+  const handleSelect = (target: string) => {
+    if (target === NEW_INCIDENT) {
+      setAdded(manager.create({ title: defaultTitle }, actor, { alerts, logs }))
+    } else {
+      manager.attachAlerts(target, alerts, actor)
+      manager.attachLogs(target, logs, actor)
+      setAdded(incidents.find((incident) => incident.id === target) ?? null)
+    }
+    setResetKey((key) => key + 1)
+  }
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <Select key={resetKey} onValueChange={handleSelect} disabled={disabled}>
+        <SelectTrigger className="w-[200px] h-9">
+          <FolderPlus className="w-4 h-4 mr-2 shrink-0" />
+          <SelectValue placeholder="인시던트에 추가" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NEW_INCIDENT}>새 인시던트 만들기</SelectItem>
+          {incidents.filter(isIncidentActive).map((incident) => (
+            <SelectItem key={incident.id} value={incident.id}>
+              {incident.title}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {added && (
+        <a href={`#/incidents/${added.id}`} className="text-blue-600 hover:underline truncate max-w-[240px]">
+          {added.title}에 추가됨
+        </a>
+      )}
+    </div>
+  )
+}
+
+export default AddToIncident
@@ -0,0 +1,27 @@
+"use client"
+
+import { Bell } from "lucide-react"
+import { useAlertGroups } from "./alert-center-provider"
+
+// 머리글에 표시하는 미확인 알림 수 배지 (누르면 알림 센터로 이동)
+const AlertBadge = () => {
+  const groups = useAlertGroups()
+  const unacknowledged = groups.filter((group) => group.status === "open").length
+
+  return (
+    <a
+      href="#/alerts"
+      title={`미확인 알림 ${unacknowledged}개`}
+      className="relative flex items-center justify-center w-10 h-10 rounded-full bg-white shadow hover:bg-blue-50"
+    >
+      <Bell className="w-5 h-5 text-gray-700" />
+      {unacknowledged > 0 && (
+        <span className="absolute -top-1 -right-1 min-w-[20px] h-5 px-1 rounded-full bg-red-600 text-white text-xs font-semibold flex items-center justify-center">
+          {unacknowledged > 99 ? "99+" : unacknowledged}
+        </span>
+      )}
+    </a>
+  )
+}
+
+export default AlertBadge
@@ -0,0 +1,332 @@
+/**
+ * 탐지 규칙 알림과 트래픽 이상 징후를 모아 처리하는 알림 센터 화면 컴포넌트
+ *
+ * 주요 기능:
+ * - 같은 알림이 반복되면 한 행으로 묶어 발생 횟수와 처음/마지막 발생 시각 표시
+ * - 상태(미확인, 확인, 해결, 억제), 심각도, 검색어로 필터링
+ * - 여러 행을 선택하여 확인, 해결, 억제(1시간, 24시간, 계속), 다시 열기
+ * - 선택한 알림을 새 인시던트나 진행 중인 인시던트에 묶기
+ * - 상태를 바꾼 처리자와 시각을 기록하고 행을 펼쳐 변경 이력 확인
+ *
+ * @component
+ * @example
+ * <AlertCenterProvider>
+ *   <AlertCenter />
+ * </AlertCenterProvider>
+ */
+"use client"
+
+import { Fragment, useMemo, useState } from "react"
+import { BellRing, CheckCheck, ChevronDown, ChevronRight, CircleCheck, EyeOff, RotateCcw, UserRound } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select"
+import { useAlertCenter, useAlertGroups, useAlertOperator } from "./alert-center-provider"
+import AddToIncident from "./AddToIncident"
+import SeverityBadge from "./SeverityBadge"
+import { ALERT_STATUSES, type AlertGroup, type AlertStatus } from "../types/alert"
+import { RULE_SEVERITIES, type RuleField, type RuleSeverity } from "../types/rule"
+import type { AlertStatusOptions } from "../utils/alertCenter"
+import { ALERT_STATUS_BADGE_COLORS, ALERT_STATUS_LABELS } from "../utils/alertLabels"
+import { RULE_SEVERITY_LABELS } from "../utils/ruleLabels"
+
+// 한 번에 표시할 최대 행 수
+const MAX_VISIBLE_GROUPS = 300
+
+// 상태 필터 ("active"는 해결되지 않은 알림)
+type StatusFilter = "active" | "all" | AlertStatus
+
+// 억제 기간 선택지 (null이면 직접 해제할 때까지)
+const SUPPRESS_OPTIONS: { label: string; ms: number | null }[] = [
+  { label: "1시간", ms: 60 * 60 * 1000 },
+  { label: "24시간", ms: 24 * 60 * 60 * 1000 },
+  { label: "계속", ms: null },
+]
+
+// 그룹을 나눈 필드 값을 "sourceIP=203.0.113.7" 형태로 표시
+const describeGroup = (group: AlertGroup) => {
+  const fields = Object.keys(group.group) as RuleField[]
+  if (fields.length === 0) return "-"
+  return fields.map((field) => `${field}=${group.group[field]}`).join(", ")
+}
+
+// 마지막 상태 변경 (없으면 null)
+const lastChange = (group: AlertGroup) => group.history[group.history.length - 1] ?? null
+
+// 상태 배지
+const StatusBadge = ({ group }: { group: AlertGroup }) => (
+  <span
+    className={`px-2 py-0.5 rounded-full text-xs font-semibold whitespace-nowrap ${ALERT_STATUS_BADGE_COLORS[group.status]}`}
+    title={group.suppressedUntil ? `${group.suppressedUntil.toLocaleString()}까지 억제` : undefined}
+  >
+    {ALERT_STATUS_LABELS[group.status]}
+  </span>
+)
+
+const AlertCenter: React.FC = () => {
+  const center = useAlertCenter()
+  const groups = useAlertGroups()
+  const [operator, setOperator] = useAlertOperator()
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("active")
+  const [severityFilter, setSeverityFilter] = useState<"all" | RuleSeverity>("all")
+  const [search, setSearch] = useState("")
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [expanded, setExpanded] = useState<string | null>(null)
+
+  // 상태별 그룹 수
+  const statusCounts = useMemo(() => {
+    const counts: Record<AlertStatus, number> = { open: 0, acknowledged: 0, resolved: 0, suppressed: 0 }
+    groups.forEach((group) => (counts[group.status] += 1))
+    return counts
+  }, [groups])
+
+  // 필터를 적용한 그룹
+  const filteredGroups = useMemo(() => {
+    const keyword = search.trim().toLowerCase()
+    return groups.filter((group) => {
+      if (statusFilter === "active" && group.status === "resolved") return false
+      if (statusFilter !== "active" && statusFilter !== "all" && group.status !== statusFilter) return false
+      if (severityFilter !== "all" && group.severity !== severityFilter) return false
+      if (!keyword) return true
+      return [group.title, group.ruleId, group.sourceIP, group.destinationIP, describeGroup(group)].some((value) =>
+        value?.toLowerCase().includes(keyword),
+      )
+    })
+  }, [groups, statusFilter, severityFilter, search])
+
+  const visibleGroups = filteredGroups.slice(0, MAX_VISIBLE_GROUPS)
+  // 목록에서 사라진 그룹은 선택에서 제외
+  const selectedGroups = visibleGroups.filter((group) => selected.has(group.id))
+  const selectedIds = selectedGroups.map((group) => group.id)
+  const allSelected = visibleGroups.length > 0 && selectedIds.length === visibleGroups.length
+
+  const toggleSelected = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  // 선택한 그룹의 상태를 바꾸고 선택을 해제
+  const changeStatus = (status: AlertStatus, options?: AlertStatusOptions) => {
+    center.setStatus(selectedIds, status, operator.trim() || "analyst", options)
+    setSelected(new Set())
+  }
+
+  const actionClass =
+    "flex items-center h-9 px-3 rounded-md border border-input text-gray-700 hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed"
+
+  return (
+    <Card className="shadow-lg overflow-hidden">
+      <CardHeader className="bg-gradient-to-r from-blue-600 to-blue-800 border-b border-blue-700">
+        <CardTitle className="text-lg text-white flex items-center">
+          <BellRing className="mr-2" /> 알림 목록
+          <span className="ml-auto text-sm font-normal text-blue-100">
+            {ALERT_STATUSES.map((status) => `${ALERT_STATUS_LABELS[status]} ${statusCounts[status]}`).join(" · ")}
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="bg-white p-6 space-y-4">
+        {/* 필터 */}
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="active">해결되지 않은 알림</SelectItem>
+              <SelectItem value="all">모든 상태</SelectItem>
+              {ALERT_STATUSES.map((status) => (
+                <SelectItem key={status} value={status}>
+                  {ALERT_STATUS_LABELS[status]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={severityFilter} onValueChange={(value) => setSeverityFilter(value as "all" | RuleSeverity)}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">모든 심각도</SelectItem>
+              {[...RULE_SEVERITIES].reverse().map((severity) => (
+                <SelectItem key={severity} value={severity}>
+                  {RULE_SEVERITY_LABELS[severity]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <input
+            value={search}
+            onChange={(event) => setSearch(event.target.value)}
+            placeholder="규칙, IP 검색"
+            className="h-10 flex-1 min-w-[200px] px-3 rounded-md border border-input focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <label className="flex items-center gap-2 text-gray-600">
+            <UserRound className="w-4 h-4" />
+            <input
+              value={operator}
+              onChange={(event) => setOperator(event.target.value)}
+              placeholder="처리자"
+              className="h-10 w-32 px-3 rounded-md border border-input focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </label>
+        </div>
+
+        {/* 선택한 알림 처리 */}
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-gray-600 mr-2">{selectedIds.length}개 선택</span>
+          <button
+            type="button"
+            disabled={selectedIds.length === 0}
+            onClick={() => changeStatus("acknowledged")}
+            className={actionClass}
+          >
+            <CheckCheck className="w-4 h-4 mr-2" /> 확인
+          </button>
+          <button
+            type="button"
+            disabled={selectedIds.length === 0}
+            onClick={() => changeStatus("resolved")}
+            className={actionClass}
+          >
+            <CircleCheck className="w-4 h-4 mr-2" /> 해결
+          </button>
+          {SUPPRESS_OPTIONS.map(({ label, ms }) => (
+            <button
+              key={label}
+              type="button"
+              disabled={selectedIds.length === 0}
+              onClick={() =>
+                changeStatus("suppressed", { suppressUntil: ms === null ? null : new Date(Date.now() + ms) })
+              }
+              className={actionClass}
+            >
+              <EyeOff className="w-4 h-4 mr-2" /> {label} 억제
+            </button>
+          ))}
+          <button
+            type="button"
+            disabled={selectedIds.length === 0}
+            onClick={() => changeStatus("open")}
+            className={actionClass}
+          >
+            <RotateCcw className="w-4 h-4 mr-2" /> 다시 열기
+          </button>
+          <div className="ml-auto">
+            <AddToIncident alerts={selectedGroups} defaultTitle={selectedGroups[0]?.title ?? ""} />
+          </div>
+        </div>
+
+        {visibleGroups.length === 0 ? (
+          <p className="text-sm text-gray-500">조건에 맞는 알림이 없습니다</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    onChange={() => setSelected(allSelected ? new Set() : new Set(visibleGroups.map(({ id }) => id)))}
+                  />
+                </TableHead>
+                <TableHead className="w-8" />
+                <TableHead>심각도</TableHead>
+                <TableHead>상태</TableHead>
+                <TableHead>알림</TableHead>
+                <TableHead>대상</TableHead>
+                <TableHead>처음 발생</TableHead>
+                <TableHead>마지막 발생</TableHead>
+                <TableHead>횟수</TableHead>
+                <TableHead>처리</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleGroups.map((group) => {
+                const change = lastChange(group)
+                const isExpanded = expanded === group.id
+                return (
+                  <Fragment key={group.id}>
+                    <TableRow data-state={selected.has(group.id) ? "selected" : undefined}>
+                      <TableCell>
+                        <input
+                          type="checkbox"
+                          checked={selected.has(group.id)}
+                          onChange={() => toggleSelected(group.id)}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <button
+                          type="button"
+                          onClick={() => setExpanded(isExpanded ? null : group.id)}
+                          className="text-gray-500 hover:text-gray-800"
+                          aria-label="변경 이력"
+                        >
+                          {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                        </button>
+                      </TableCell>
+                      <TableCell>
+                        <SeverityBadge severity={group.severity} />
+                      </TableCell>
+                      <TableCell>
+                        <StatusBadge group={group} />
+                      </TableCell>
+                      <TableCell>
+                        {group.title} <span className="font-mono text-xs text-gray-400">{group.ruleId}</span>
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{describeGroup(group)}</TableCell>
+                      <TableCell className="whitespace-nowrap">{group.firstSeen.toLocaleString()}</TableCell>
+                      <TableCell className="whitespace-nowrap">{group.lastSeen.toLocaleString()}</TableCell>
+                      <TableCell>{group.count.toLocaleString()}</TableCell>
+                      <TableCell className="whitespace-nowrap text-xs text-gray-600">
+                        {change ? `${change.actor} · ${change.at.toLocaleString()}` : "-"}
+                      </TableCell>
+                    </TableRow>
+                    {isExpanded && (
+                      <TableRow>
+                        <TableCell />
+                        <TableCell colSpan={9} className="bg-gray-50 text-sm">
+                          <div className="space-y-2">
+                            <div className="text-gray-600">
+                              최근 출발지 <span className="font-mono">{group.sourceIP ?? "-"}</span> → 도착지{" "}
+                              <span className="font-mono">{group.destinationIP ?? "-"}</span>
+                              {group.logIds.length > 0 && `, 관련 로그 ${group.logIds.length}건`}
+                            </div>
+                            {group.history.length === 0 ? (
+                              <div className="text-gray-500">아직 상태를 바꾼 기록이 없습니다</div>
+                            ) : (
+                              <ul className="space-y-1">
+                                {[...group.history].reverse().map((entry, index) => (
+                                  <li key={index}>
+                                    <span className="text-gray-500">{entry.at.toLocaleString()}</span>{" "}
+                                    <span className="font-medium">{entry.actor}</span>님이{" "}
+                                    {ALERT_STATUS_LABELS[entry.status]} 상태로 변경
+                                    {entry.note && <span className="text-gray-500"> ({entry.note})</span>}
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                )
+              })}
+            </TableBody>
+          </Table>
+        )}
+        {filteredGroups.length > visibleGroups.length && (
+          <p className="text-sm text-gray-500">
+            최근 {MAX_VISIBLE_GROUPS}개만 표시합니다 (전체 {filteredGroups.length.toLocaleString()}개)
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default AlertCenter
@@ -0,0 +1,82 @@
+/**
+ * 대시보드에 pcap/pcapng 파일을 끌어다 놓으면 패킷을 분석하는 컴포넌트
+ *
+ * 주요 기능:
+ * - 파일을 끌고 있는 동안 대시보드 위에 안내 오버레이 표시
+ * - 놓은 파일을 파싱하여 로그와 트래픽 시계열(CaptureImport)로 변환한 뒤 onCapture로 전달
+ * - 캡처 파일이 아니거나 파싱에 실패하면 onError로 원인 전달
+ *
+ * @component
+ * @example
+ * <CaptureDropZone onCapture={setCapture} onError={setCaptureError}>
+ *   <Dashboard />
+ * </CaptureDropZone>
+ */
+"use client"
+
+import { useState, type ReactNode } from "react"
+import { FileUp } from "lucide-react"
+import { importCaptureFile, type CaptureImport } from "../utils/captureAnalysis"
+
+interface CaptureDropZoneProps {
+  children: ReactNode
+  onCapture: (capture: CaptureImport) => void
+  onError: (message: string) => void
+}
+
+const CaptureDropZone: React.FC<CaptureDropZoneProps> = ({ children, onCapture, onError }) => {
+  const [dragging, setDragging] = useState(false)
+  const [loading, setLoading] = useState(false)
+
+  // 파일을 끌고 있는지 확인 (텍스트 선택 등은 무시)
+  const hasFiles = (event: React.DragEvent) => Array.from(event.dataTransfer.types).includes("Files")
+
+  // 놓은 파일을 분석
+  const handleDrop = async (event: React.DragEvent) => {
+    if (!hasFiles(event)) return
+    event.preventDefault()
+    setDragging(false)
+
+    const file = event.dataTransfer.files[0]
+    if (!file) return
+    setLoading(true)
+    try {
+      onCapture(await importCaptureFile(file))
+    } catch (error) {
+      onError(`${file.name}: ${error instanceof Error ? error.message : String(error)}`)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div
+      className="relative"
+      onDragOver={(event) => {
+        if (!hasFiles(event)) return
+        event.preventDefault()
+        setDragging(true)
+      }}
+      onDragLeave={(event) => {
+        // 자식 요소 사이를 이동할 때는 오버레이를 유지
+        if (!event.currentTarget.contains(event.relatedTarget as Node)) setDragging(false)
+      }}
+      onDrop={handleDrop}
+    >
+      {children}
+      {/* 드래그 중 또는 분석 중에 표시되는 오버레이 */}
+      {(dragging || loading) && (
+        <div className="absolute inset-0 z-50 flex items-center justify-center rounded-lg border-4 border-dashed border-blue-500 bg-blue-50/80 pointer-events-none">
+          <div className="flex flex-col items-center text-blue-700">
+            <FileUp className="w-12 h-12 mb-2" />
+            <span className="text-lg font-semibold">
+              {loading ? "캡처 파일을 분석하는 중..." : "pcap / pcapng 파일을 놓아 분석"}
+            </span>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default CaptureDropZone
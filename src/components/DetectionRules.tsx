@@ -0,0 +1,259 @@
+/**
+ * 탐지 규칙을 작성하고 검증하는 화면 컴포넌트
+ *
+ * 주요 기능:
+ * - YAML/JSON 규칙 문서를 편집하면 바로 스키마를 검증하여 오류 위치와 원인을 표시
+ * - 검증을 통과한 규칙 목록(심각도, 임계값, 사용 여부) 표시
+ * - 저장하면 브라우저에 보관되고 실행 중인 규칙 엔진에 즉시 적용
+ *   (로컬 백엔드 서버에 연결한 경우에는 서버로 보내 서버의 규칙 엔진에 적용하고 안내 문구 표시)
+ * - 규칙 파일 불러오기, 저장된 상태로 되돌리기, 기본 규칙으로 초기화
+ * - 규칙과 일치하여 만들어진 최근 알림 표시
+ *
+ * @component
+ * @example
+ * <DetectionRules />
+ */
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import { AlertTriangle, CheckCircle2, FileCode, RotateCcw, Save, Upload } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table"
+import { useTelemetrySource } from "./telemetry-provider"
+import SeverityBadge from "./SeverityBadge"
+import type { RuleAlert } from "../types/rule"
+import { parseRuleDocument, type RuleThreshold } from "../utils/detectionRules"
+import { loadRuleText, resetRuleText, saveRuleText } from "../utils/ruleStore"
+
+// 화면에 유지할 최근 알림 수
+const RECENT_ALERT_LIMIT = 50
+
+// 구간 길이를 읽기 쉬운 문자열로 변환
+const formatWindow = (ms: number) => {
+  if (ms % 3_600_000 === 0) return `${ms / 3_600_000}시간`
+  if (ms % 60_000 === 0) return `${ms / 60_000}분`
+  return `${ms / 1000}초`
+}
+
+// 임계값 설명 (예: "1분 동안 sourceIP별 20회 이상")
+const describeThreshold = (threshold: RuleThreshold | null) => {
+  if (!threshold) return "일치할 때마다"
+  const group = threshold.groupBy.length > 0 ? ` ${threshold.groupBy.join(", ")}별` : ""
+  const counted = threshold.distinct ? `서로 다른 ${threshold.distinct} ${threshold.count}개` : `${threshold.count}회`
+  return `${formatWindow(threshold.windowMs)} 동안${group} ${counted} 이상`
+}
+
+const DetectionRules: React.FC = () => {
+  const telemetry = useTelemetrySource()
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [text, setText] = useState("")
+  const [savedText, setSavedText] = useState<string | null>(null)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [alerts, setAlerts] = useState<RuleAlert[]>([])
+
+  // 사용 중인 규칙 문서를 불러옴
+  useEffect(() => {
+    let active = true
+    loadRuleText()
+      .then((loaded) => {
+        if (!active) return
+        setText(loaded)
+        setSavedText(loaded)
+      })
+      .catch((error) => active && setLoadError(error instanceof Error ? error.message : String(error)))
+    return () => {
+      active = false
+    }
+  }, [])
+
+  // 규칙과 일치한 최근 알림
+  useEffect(
+    () => telemetry.subscribe("alerts", (alert) => setAlerts((prev) => [alert, ...prev].slice(0, RECENT_ALERT_LIMIT))),
+    [telemetry],
+  )
+
+  const { rules, errors } = useMemo(() => parseRuleDocument(text), [text])
+  const dirty = savedText !== null && text !== savedText
+
+  const handleSave = () => {
+    saveRuleText(text)
+    setSavedText(text)
+  }
+
+  const handleReset = async () => {
+    try {
+      const defaults = await resetRuleText()
+      setText(defaults)
+      setSavedText(defaults)
+      setLoadError(null)
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="shadow-lg overflow-hidden">
+        <CardHeader className="bg-gradient-to-r from-blue-600 to-blue-800 border-b border-blue-700">
+          <CardTitle className="text-lg text-white flex items-center">
+            <FileCode className="mr-2" /> 규칙 문서
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="bg-white p-6 space-y-4">
+          {/* 도구 모음 */}
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={!dirty || errors.length > 0}
+              className="flex items-center h-10 px-3 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Save className="w-4 h-4 mr-2" /> 저장하고 적용
+            </button>
+            <button
+              type="button"
+              onClick={() => savedText !== null && setText(savedText)}
+              disabled={!dirty}
+              className="flex items-center h-10 px-3 rounded-md border border-input text-gray-700 hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <RotateCcw className="w-4 h-4 mr-2" /> 되돌리기
+            </button>
+            <button
+              type="button"
+              onClick={() => inputRef.current?.click()}
+              className="flex items-center h-10 px-3 rounded-md border border-input text-gray-700 hover:bg-blue-50"
+            >
+              <Upload className="w-4 h-4 mr-2" /> 규칙 파일 불러오기
+            </button>
+            <input
+              ref={inputRef}
+              type="file"
+              accept=".yml,.yaml,.json"
+              className="hidden"
+              onChange={async (event) => {
+                const file = event.target.files?.[0]
+                event.target.value = ""
+                if (file) setText(await file.text())
+              }}
+            />
+            <button
+              type="button"
+              onClick={handleReset}
+              className="flex items-center h-10 px-3 rounded-md border border-input text-gray-700 hover:bg-blue-50"
+            >
+              기본 규칙으로 초기화
+            </button>
+            <span className="ml-auto text-gray-600">
+              {dirty ? "저장하지 않은 변경 사항이 있습니다" : `규칙 ${rules.filter(({ rule }) => rule.enabled).length}개 사용 중`}
+            </span>
+          </div>
+
+          {telemetry.kind === "server" && (
+            <div className="p-3 rounded-lg bg-blue-50 border border-blue-200 text-sm text-blue-800">
+              로컬 백엔드 서버에 연결되어 있어 저장한 규칙은 서버로 보내 적용되며, 연결된 모든 대시보드의 탐지에 쓰입니다
+            </div>
+          )}
+
+          {loadError && <div className="p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">{loadError}</div>}
+
+          <textarea
+            value={text}
+            onChange={(event) => setText(event.target.value)}
+            spellCheck={false}
+            className="w-full h-[420px] p-3 rounded-md border border-input font-mono text-sm bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+
+          {/* 검증 결과 */}
+          {errors.length > 0 ? (
+            <ul className="p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700 space-y-1">
+              {errors.map((error, index) => (
+                <li key={index} className="flex items-start">
+                  <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 shrink-0" />
+                  <span>
+                    {error.path && <code className="mr-2 font-mono">{error.path}</code>}
+                    {error.message}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <div className="flex items-center text-sm text-green-700">
+              <CheckCircle2 className="w-4 h-4 mr-2" /> 규칙 문서가 올바릅니다
+            </div>
+          )}
+
+          {/* 규칙 목록 */}
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>ID</TableHead>
+                <TableHead>제목</TableHead>
+                <TableHead>심각도</TableHead>
+                <TableHead>알림 조건</TableHead>
+                <TableHead>사용</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.map(({ rule, threshold }) => (
+                <TableRow key={rule.id} className={rule.enabled ? "" : "text-gray-400"}>
+                  <TableCell className="font-mono">{rule.id}</TableCell>
+                  <TableCell title={rule.description}>{rule.title}</TableCell>
+                  <TableCell>
+                    <SeverityBadge severity={rule.severity} />
+                  </TableCell>
+                  <TableCell>{describeThreshold(threshold)}</TableCell>
+                  <TableCell>{rule.enabled ? "사용" : "사용 안 함"}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* 최근 알림 */}
+      <Card className="shadow-lg overflow-hidden">
+        <CardHeader className="bg-gradient-to-r from-blue-600 to-blue-800 border-b border-blue-700">
+          <CardTitle className="text-lg text-white flex items-center">
+            <AlertTriangle className="mr-2" /> 최근 탐지
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="bg-white p-6">
+          {alerts.length === 0 ? (
+            <p className="text-sm text-gray-500">아직 규칙과 일치한 로그가 없습니다</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>시간</TableHead>
+                  <TableHead>규칙</TableHead>
+                  <TableHead>심각도</TableHead>
+                  <TableHead>출발지</TableHead>
+                  <TableHead>도착지</TableHead>
+                  <TableHead>건수</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {alerts.map((alert) => (
+                  <TableRow key={alert.id}>
+                    <TableCell className="whitespace-nowrap">{alert.time.toLocaleString()}</TableCell>
+                    <TableCell>
+                      {alert.ruleTitle} <span className="font-mono text-xs text-gray-400">{alert.ruleId}</span>
+                    </TableCell>
+                    <TableCell>
+                      <SeverityBadge severity={alert.severity} />
+                    </TableCell>
+                    <TableCell className="font-mono">{alert.sourceIP}</TableCell>
+                    <TableCell className="font-mono">{alert.destinationIP}</TableCell>
+                    <TableCell>{alert.count}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export default DetectionRules
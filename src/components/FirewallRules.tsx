@@ -0,0 +1,434 @@
+/**
+ * 방화벽 규칙을 편집하고 규칙 순서의 문제를 점검하는 화면 컴포넌트
+ *
+ * 주요 기능:
+ * - 순서가 있는 규칙 편집 (동작, 방향, 프로토콜, 출발지/도착지 주소와 포트, 사용 여부, 순서 이동, 추가·삭제)
+ * - 주소와 포트 형식을 바로 검증하고, 가려진·불필요한·충돌하는 규칙을 표시
+ * - 최근 로그를 편집 중인 정책에 통과시켜 규칙별로 허용/차단했을 건수를 보여주는 시뮬레이션
+ * - 저장하면 브라우저에 보관되며, 저장된 상태로 되돌리거나 기본 정책으로 초기화
+ *
+ * @component
+ * @example
+ * <FirewallRules />
+ */
+"use client"
+
+import { useMemo, useState } from "react"
+import {
+  AlertTriangle,
+  ArrowDown,
+  ArrowUp,
+  CheckCircle2,
+  FlaskConical,
+  Plus,
+  RotateCcw,
+  Save,
+  ShieldHalf,
+  Trash2,
+} from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table"
+import { useHistoryStore, useLiveStore } from "./telemetry-provider"
+import {
+  FIREWALL_ACTIONS,
+  FIREWALL_DIRECTIONS,
+  FIREWALL_PROTOCOLS,
+  type FirewallAction,
+  type FirewallFindingKind,
+  type FirewallPolicy,
+  type FirewallRule,
+} from "../types/firewall"
+import {
+  analyzeFirewallRules,
+  compileFirewallPolicy,
+  FIREWALL_ACTION_LABELS,
+  simulateFirewall,
+  type FirewallSimulation,
+} from "../utils/firewall"
+import { createFirewallRule, loadFirewallPolicy, resetFirewallPolicy, saveFirewallPolicy } from "../utils/firewallStore"
+import { selectLogs } from "../utils/liveStore"
+
+// 시뮬레이션에 사용할 최근 로그 수
+const SIMULATION_LOG_LIMIT = 50_000
+
+const DIRECTION_LABELS = { any: "모든 방향", inbound: "인바운드", outbound: "아웃바운드" }
+
+const FINDING_LABELS: Record<FirewallFindingKind, string> = {
+  shadowed: "가려짐",
+  redundant: "불필요",
+  conflict: "충돌",
+}
+
+const FINDING_COLORS: Record<FirewallFindingKind, string> = {
+  shadowed: "bg-red-100 text-red-700",
+  redundant: "bg-yellow-100 text-yellow-800",
+  conflict: "bg-orange-100 text-orange-800",
+}
+
+const ACTION_COLORS: Record<FirewallAction, string> = {
+  allow: "text-green-700",
+  deny: "text-red-700",
+}
+
+const inputClass =
+  "h-8 w-full px-2 rounded border border-input text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+const selectClass =
+  "h-8 px-1 rounded border border-input text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+const buttonClass =
+  "flex items-center h-10 px-3 rounded-md border border-input text-gray-700 hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed"
+
+// 시뮬레이션 결과와 실행한 정책
+interface SimulationRun {
+  policy: FirewallPolicy
+  result: FirewallSimulation
+}
+
+const FirewallRules: React.FC = () => {
+  const live = useLiveStore()
+  const history = useHistoryStore()
+  const [policy, setPolicy] = useState<FirewallPolicy>(loadFirewallPolicy)
+  const [savedPolicy, setSavedPolicy] = useState<FirewallPolicy>(policy)
+  const [simulation, setSimulation] = useState<SimulationRun | null>(null)
+  const [simulating, setSimulating] = useState(false)
+  const { rules, errors } = useMemo(() => compileFirewallPolicy(policy), [policy])
+  const findings = useMemo(() => analyzeFirewallRules(rules), [rules])
+  const dirty = policy !== savedPolicy
+
+  const updateRule = (id: string, patch: Partial<FirewallRule>) =>
+    setPolicy((prev) => ({ ...prev, rules: prev.rules.map((rule) => (rule.id === id ? { ...rule, ...patch } : rule)) }))
+
+  const moveRule = (index: number, offset: number) =>
+    setPolicy((prev) => {
+      const next = [...prev.rules]
+      const [rule] = next.splice(index, 1)
+      next.splice(index + offset, 0, rule)
+      return { ...prev, rules: next }
+    })
+
+  const handleSave = () => {
+    saveFirewallPolicy(policy)
+    setSavedPolicy(policy)
+  }
+
+  const handleReset = () => {
+    const defaults = resetFirewallPolicy()
+    setPolicy(defaults)
+    setSavedPolicy(defaults)
+  }
+
+  // 최근 로그(기록 저장소가 있으면 저장된 로그)를 편집 중인 정책에 통과시킴
+  const handleSimulate = async () => {
+    setSimulating(true)
+    try {
+      // 기록 저장소가 없으면 실시간 저장소에 보관된 최근 로그
+      const logs = history
+        ? await history.loadRecentLogs(SIMULATION_LOG_LIMIT)
+        : selectLogs(live.getSnapshot()).slice(0, SIMULATION_LOG_LIMIT)
+      setSimulation({ policy, result: simulateFirewall(rules, policy.defaultAction, logs) })
+    } finally {
+      setSimulating(false)
+    }
+  }
+
+  const ruleName = (ruleId: string | null) =>
+    ruleId === null ? "기본 동작" : policy.rules.find((rule) => rule.id === ruleId)?.name ?? "삭제된 규칙"
+
+  return (
+    <div className="space-y-6">
+      <Card className="shadow-lg overflow-hidden">
+        <CardHeader className="bg-gradient-to-r from-blue-600 to-blue-800 border-b border-blue-700">
+          <CardTitle className="text-lg text-white flex items-center">
+            <ShieldHalf className="mr-2" /> 방화벽 정책
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="bg-white p-6 space-y-4">
+          {/* 도구 모음 */}
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={!dirty || errors.length > 0}
+              className="flex items-center h-10 px-3 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Save className="w-4 h-4 mr-2" /> 저장
+            </button>
+            <button type="button" onClick={() => setPolicy(savedPolicy)} disabled={!dirty} className={buttonClass}>
+              <RotateCcw className="w-4 h-4 mr-2" /> 되돌리기
+            </button>
+            <button
+              type="button"
+              onClick={() => setPolicy((prev) => ({ ...prev, rules: [...prev.rules, createFirewallRule()] }))}
+              className={buttonClass}
+            >
+              <Plus className="w-4 h-4 mr-2" /> 규칙 추가
+            </button>
+            <button type="button" onClick={handleReset} className={buttonClass}>
+              기본 정책으로 초기화
+            </button>
+            <label className="ml-auto flex items-center gap-2 text-gray-700">
+              일치하는 규칙이 없으면
+              <select
+                value={policy.defaultAction}
+                onChange={(event) => setPolicy((prev) => ({ ...prev, defaultAction: event.target.value as FirewallAction }))}
+                className={selectClass}
+              >
+                {FIREWALL_ACTIONS.map((action) => (
+                  <option key={action} value={action}>
+                    {FIREWALL_ACTION_LABELS[action]}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {/* 규칙 목록 (위에서부터 평가) */}
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16">순서</TableHead>
+                  <TableHead className="w-12">사용</TableHead>
+                  <TableHead className="min-w-[160px]">이름</TableHead>
+                  <TableHead>동작</TableHead>
+                  <TableHead>방향</TableHead>
+                  <TableHead>프로토콜</TableHead>
+                  <TableHead className="min-w-[160px]">출발지</TableHead>
+                  <TableHead className="min-w-[100px]">출발 포트</TableHead>
+                  <TableHead className="min-w-[160px]">도착지</TableHead>
+                  <TableHead className="min-w-[100px]">도착 포트</TableHead>
+                  <TableHead>점검</TableHead>
+                  <TableHead className="w-10" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {policy.rules.map((rule, index) => {
+                  const ruleErrors = errors.filter((error) => error.ruleId === rule.id)
+                  const ruleFindings = findings.filter((finding) => finding.ruleId === rule.id)
+                  const fieldClass = (field: keyof FirewallRule) =>
+                    `${inputClass} ${ruleErrors.some((error) => error.field === field) ? "border-red-500 bg-red-50" : ""}`
+                  return (
+                    <TableRow key={rule.id} className={rule.enabled ? "" : "opacity-50"}>
+                      <TableCell>
+                        <div className="flex items-center gap-1">
+                          <span className="w-5 text-right text-gray-500">{index + 1}</span>
+                          <button
+                            type="button"
+                            onClick={() => moveRule(index, -1)}
+                            disabled={index === 0}
+                            className="text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                            aria-label="위로"
+                          >
+                            <ArrowUp className="w-4 h-4" />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => moveRule(index, 1)}
+                            disabled={index === policy.rules.length - 1}
+                            className="text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                            aria-label="아래로"
+                          >
+                            <ArrowDown className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <input
+                          type="checkbox"
+                          checked={rule.enabled}
+                          onChange={(event) => updateRule(rule.id, { enabled: event.target.checked })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <input
+                          value={rule.name}
+                          onChange={(event) => updateRule(rule.id, { name: event.target.value })}
+                          className={`${fieldClass("name")} font-sans`}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <select
+                          value={rule.action}
+                          onChange={(event) => updateRule(rule.id, { action: event.target.value as FirewallAction })}
+                          className={`${selectClass} ${ACTION_COLORS[rule.action]}`}
+                        >
+                          {FIREWALL_ACTIONS.map((action) => (
+                            <option key={action} value={action}>
+                              {FIREWALL_ACTION_LABELS[action]}
+                            </option>
+                          ))}
+                        </select>
+                      </TableCell>
+                      <TableCell>
+                        <select
+                          value={rule.direction}
+                          onChange={(event) =>
+                            updateRule(rule.id, { direction: event.target.value as FirewallRule["direction"] })
+                          }
+                          className={selectClass}
+                        >
+                          {FIREWALL_DIRECTIONS.map((direction) => (
+                            <option key={direction} value={direction}>
+                              {DIRECTION_LABELS[direction]}
+                            </option>
+                          ))}
+                        </select>
+                      </TableCell>
+                      <TableCell>
+                        <select
+                          value={rule.protocol}
+                          onChange={(event) =>
+                            updateRule(rule.id, { protocol: event.target.value as FirewallRule["protocol"] })
+                          }
+                          className={selectClass}
+                        >
+                          {FIREWALL_PROTOCOLS.map((protocol) => (
+                            <option key={protocol} value={protocol}>
+                              {protocol === "any" ? "모두" : protocol}
+                            </option>
+                          ))}
+                        </select>
+                      </TableCell>
+                      {(["source", "sourcePorts", "destination", "destinationPorts"] as const).map((field) => (
+                        <TableCell key={field}>
+                          <input
+                            value={rule[field]}
+                            onChange={(event) => updateRule(rule.id, { [field]: event.target.value })}
+                            placeholder="any"
+                            className={fieldClass(field)}
+                          />
+                        </TableCell>
+                      ))}
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {ruleErrors.length > 0 && (
+                            <span title={ruleErrors.map((error) => error.message).join("\n")}>
+                              <AlertTriangle className="w-4 h-4 text-red-600" />
+                            </span>
+                          )}
+                          {ruleFindings.map((finding) => (
+                            <span
+                              key={finding.kind}
+                              title={finding.message}
+                              className={`px-2 py-0.5 rounded-full text-xs font-semibold whitespace-nowrap ${FINDING_COLORS[finding.kind]}`}
+                            >
+                              {FINDING_LABELS[finding.kind]}
+                            </span>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setPolicy((prev) => ({ ...prev, rules: prev.rules.filter((item) => item.id !== rule.id) }))
+                          }
+                          className="text-gray-400 hover:text-red-600"
+                          aria-label="삭제"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          </div>
+
+          {/* 검증과 점검 결과 */}
+          {errors.length === 0 && findings.length === 0 ? (
+            <div className="flex items-center text-sm text-green-700">
+              <CheckCircle2 className="w-4 h-4 mr-2" /> 규칙 형식과 순서에 문제가 없습니다
+            </div>
+          ) : (
+            <ul className="p-3 rounded-lg bg-yellow-50 border border-yellow-200 text-sm text-gray-800 space-y-1">
+              {errors.map((error, index) => (
+                <li key={`error-${index}`} className="text-red-700">
+                  <strong>{ruleName(error.ruleId)}</strong>: {error.message}
+                </li>
+              ))}
+              {findings.map((finding) => (
+                <li key={`${finding.kind}-${finding.ruleId}`}>
+                  <span className={`mr-2 px-2 py-0.5 rounded-full text-xs font-semibold ${FINDING_COLORS[finding.kind]}`}>
+                    {FINDING_LABELS[finding.kind]}
+                  </span>
+                  <strong>{ruleName(finding.ruleId)}</strong>: {finding.message}
+                </li>
+              ))}
+            </ul>
+          )}
+          <p className="text-xs text-gray-500">
+            주소는 쉼표로 구분한 IP 또는 CIDR(10.0.0.0/8), 포트는 쉼표로 구분한 번호 또는 범위(8000-8080)이며 비우거나
+            any면 모두 일치합니다. 방향은 사설망을 내부로 보고 판단합니다.
+          </p>
+        </CardContent>
+      </Card>
+
+      {/* 시뮬레이션 */}
+      <Card className="shadow-lg overflow-hidden">
+        <CardHeader className="bg-gradient-to-r from-blue-600 to-blue-800 border-b border-blue-700">
+          <CardTitle className="text-lg text-white flex items-center">
+            <FlaskConical className="mr-2" /> 시뮬레이션
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="bg-white p-6 space-y-4">
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <button type="button" onClick={handleSimulate} disabled={simulating} className={buttonClass}>
+              <FlaskConical className="w-4 h-4 mr-2" /> {simulating ? "실행 중..." : "최근 로그로 시뮬레이션"}
+            </button>
+            <span className="text-gray-600">
+              편집 중인 정책에 {history ? "저장된" : "이 화면을 연 뒤 받은"} 최근 로그를 최대{" "}
+              {SIMULATION_LOG_LIMIT.toLocaleString()}건 통과시킵니다
+            </span>
+            {simulation && simulation.policy !== policy && (
+              <span className="text-orange-700">정책이 바뀌었습니다. 다시 실행하세요</span>
+            )}
+          </div>
+
+          {simulation && (
+            <>
+              <p className="text-sm text-gray-700">
+                로그 {simulation.result.total.toLocaleString()}건 중 허용 {simulation.result.allowed.toLocaleString()}건,
+                차단 {simulation.result.denied.toLocaleString()}건
+                {simulation.result.maliciousAllowed > 0 && (
+                  <span className="text-red-700">
+                    {" "}
+                    (허용된 악성 로그 {simulation.result.maliciousAllowed.toLocaleString()}건)
+                  </span>
+                )}
+              </p>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>규칙</TableHead>
+                    <TableHead>동작</TableHead>
+                    <TableHead>일치</TableHead>
+                    <TableHead>악성</TableHead>
+                    <TableHead>새로운 패턴</TableHead>
+                    <TableHead>주요 출발지</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {simulation.result.hits.map((hits) => (
+                    <TableRow key={hits.ruleId ?? "default"} className={hits.matched === 0 ? "text-gray-400" : ""}>
+                      <TableCell>{ruleName(hits.ruleId)}</TableCell>
+                      <TableCell className={ACTION_COLORS[hits.action]}>{FIREWALL_ACTION_LABELS[hits.action]}</TableCell>
+                      <TableCell>{hits.matched.toLocaleString()}</TableCell>
+                      <TableCell>{hits.malicious.toLocaleString()}</TableCell>
+                      <TableCell>{hits.novel.toLocaleString()}</TableCell>
+                      <TableCell className="font-mono text-xs">
+                        {hits.topSources.map(({ ip, count }) => `${ip} (${count})`).join(", ") || "-"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export default FirewallRules
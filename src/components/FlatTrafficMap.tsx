@@ -0,0 +1,112 @@
+/**
+ * @component
+ * FlatTrafficMap 컴포넌트는 트래픽 흐름을 등장방형 도법 평면 지도에 2D 캔버스로 표시
+ *
+ * 지구본(3D)과 같은 흐름 데이터와 색상, 굵기, 흐려짐 규칙을 사용하며, WebGL과 애니메이션 없이 그리므로
+ * 저전력 키오스크나 인쇄용으로 사용
+ *
+ * 주요 기능:
+ * - 지구본과 같은 지구 사진(앱과 함께 제공)을 배경으로 사용하고, 불러오지 못하면 바다 색과 경위선만 표시
+ * - 흐름 목록이 바뀌거나 흐려지는 흐름이 있을 때, 크기가 바뀔 때만 다시 그림
+ * - 곡선이나 끝점에 마우스를 올리면 onHover, 누르면 onSelect 호출
+ *
+ * @param {FlowEntry[]} flows - 표시할 흐름
+ * @param {(hover: FlowHover | null) => void} onHover - 마우스를 올린 대상이 바뀔 때 호출
+ * @param {(target: FlowTarget) => void} onSelect - 대상을 눌렀을 때 호출
+ */
+"use client"
+
+import type React from "react"
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import type { FlowEntry } from "../types/telemetry"
+import { createFlatFlowLayer } from "../utils/flatFlowLayer"
+import { EARTH_TEXTURE_URL, type FlowHover, type FlowTarget } from "../utils/flowStyle"
+
+// 흐려지는 흐름을 다시 그리는 간격 (ms)
+const FADE_REDRAW_MS = 250
+
+interface FlatTrafficMapProps {
+  flows: FlowEntry[]
+  onHover: (hover: FlowHover | null) => void
+  onSelect: (target: FlowTarget) => void
+}
+
+const FlatTrafficMap = ({ flows, onHover, onSelect }: FlatTrafficMapProps) => {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const layer = useMemo(() => createFlatFlowLayer(), [])
+  const [size, setSize] = useState({ width: 0, height: 0 })
+  const [background, setBackground] = useState<HTMLImageElement | null>(null)
+
+  // 배경 지구 사진 불러오기
+  useEffect(() => {
+    const image = new Image()
+    image.onload = () => setBackground(image)
+    image.src = EARTH_TEXTURE_URL
+    return () => {
+      image.onload = null
+    }
+  }, [])
+
+  // 컨테이너 크기에 캔버스 크기를 맞춤
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+    const observer = new ResizeObserver(([entry]) =>
+      setSize({ width: Math.floor(entry.contentRect.width), height: Math.floor(entry.contentRect.height) }),
+    )
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [])
+
+  // 캔버스 전체를 다시 그림 (고해상도 화면에서는 픽셀 비율만큼 크게 그림)
+  const draw = useCallback(() => {
+    const canvas = canvasRef.current
+    const context = canvas?.getContext("2d")
+    if (!canvas || !context || size.width === 0 || size.height === 0) return
+    const ratio = window.devicePixelRatio || 1
+    if (canvas.width !== size.width * ratio || canvas.height !== size.height * ratio) {
+      canvas.width = size.width * ratio
+      canvas.height = size.height * ratio
+    }
+    context.setTransform(ratio, 0, 0, ratio, 0, 0)
+    layer.draw(context, size.width, size.height, background)
+  }, [layer, size, background])
+
+  // 새 흐름 목록 반영
+  useEffect(() => layer.sync(flows), [layer, flows])
+  useEffect(draw, [draw, flows])
+
+  // 흐려지는 흐름이 있을 때만 다시 그림
+  useEffect(() => {
+    const timer = setInterval(() => {
+      if (layer.age()) draw()
+    }, FADE_REDRAW_MS)
+    return () => clearInterval(timer)
+  }, [layer, draw])
+
+  // 마우스 위치의 흐름 또는 국가
+  const hitTest = (event: React.MouseEvent<HTMLCanvasElement>) =>
+    layer.hitTest(event.nativeEvent.offsetX, event.nativeEvent.offsetY)
+
+  return (
+    <div ref={containerRef} className="w-full h-full">
+      <canvas
+        ref={canvasRef}
+        style={{ width: size.width, height: size.height }}
+        className="block"
+        onPointerMove={(event) => {
+          const target = hitTest(event)
+          onHover(target ? { target, x: event.nativeEvent.offsetX, y: event.nativeEvent.offsetY } : null)
+        }}
+        onPointerLeave={() => onHover(null)}
+        onClick={(event) => {
+          const target = hitTest(event)
+          if (target) onSelect(target)
+        }}
+      />
+    </div>
+  )
+}
+
+export default FlatTrafficMap
@@ -3,11 +3,15 @@
  * 
  * 주요 컴포넌트:
  * - Earth: 지구본을 렌더링하고, 주기적으로 회전시키며, 트래픽 흐름 데이터를 기반으로 선을 표시시
- * - GlobeTrafficFlow: 지구본과 트래픽 흐름을 포함하는 전체 카드 레이아웃을 렌더링
+ * - FlowLayer: 모든 흐름의 곡선, 펄스, 끝점을 미리 만든 버퍼에 그리는 레이어(utils/globeFlowLayer)를 장면에 연결
+ * - GlobeTooltip: 마우스를 올린 흐름 또는 국가의 흐름 수, 로그 수, 용량, 분류 구성을 표시
+ * - GlobeLegend: 흐름 분류별 색상과 굵기 안내
+ * - FlatTrafficMap: 같은 흐름을 등장방형 도법 2D 평면 지도에 표시 (저전력 키오스크, 인쇄용)
+ * - GlobeTrafficFlow: 지구본 또는 평면 지도와 트래픽 흐름을 포함하는 전체 카드 레이아웃을 렌더링
  * 
  * 주요 함수:
- * - getCoordinates: 국가 코드에 따른 위도와 경도를 반환
- * - latLonToVector3: 위도와 경도를 3D 벡터로 변환
+ * - getFlowEndpoints: 흐름의 도시 좌표 또는 국가 중심 좌표를 반환 (utils/flowStyle)
+ * - createGlobeFlowLayer: 흐름 풀(utils/flowPool)의 자리마다 곡선 띠와 인스턴스 펄스, 끝점을 쓰는 레이어 (utils/globeFlowLayer)
  * 
  * 주요 라이브러리:
  * - @react-three/fiber: React와 Three.js를 통합하여 3D 그래픽을 렌더링
@@ -15,143 +19,295 @@
  * - three: Three.js 라이브러리로 3D 그래픽을 생성
  * 
  * 주요 기능:
- * - 지구본 텍스처 로드 및 렌더링
+ * - 지구본 텍스처 로드 및 렌더링 (public/assets/3d의 파일을 사용하여 외부 네트워크 없이 표시)
  * - 지구본 회전 애니메이션
- * - 주기적으로 트래픽 흐름 데이터 생성
+ * - 실시간 저장소에서 텔레메트리 소스의 flows 채널로 받은 흐름 표시 (GeoIP 데이터베이스가 있으면 로그 주소에서 만든 도시 단위 흐름)
  * - 트래픽 흐름 데이터를 기반으로 3D 곡선 및 선 렌더링
+ *   (색상은 흐름의 분류, 굵기와 펄스 수는 용량, 위치를 모르는 국가의 흐름은 그리지 않음)
+ * - 새 목록에서 빠진 흐름은 서서히 흐려진 뒤 사라지며, 수천 개의 흐름도 같은 버퍼를 다시 써서 그림
+ * - 곡선이나 끝점의 구에 마우스를 올리면 툴팁 표시, 누르면 흐름 또는 국가의 검색 질의로 로그 테이블을 필터링
+ * - 카드 머리글의 버튼으로 지구본 회전 멈춤/재개 (마우스를 올린 동안에도 회전을 멈춤)
+ * - 카드 머리글에서 3D 지구본과 2D 평면 지도 전환 (고른 방식은 localStorage에 보관)
  * - 카드 레이아웃을 통해 지구본과 트래픽 흐름 시각화
+ *
+ * @param {(query: string) => void} [onFilter] - 흐름이나 국가를 눌렀을 때 로그 테이블에 적용할 검색 질의를 받는 함수
  */
 "use client"
 
-import { useRef, Suspense, useEffect, useState } from "react"
-import { Canvas, useFrame, useLoader } from "@react-three/fiber"
+import { useCallback, useEffect, useMemo, useRef, useState, Suspense } from "react"
+import { Canvas, useFrame, useLoader, type ThreeEvent } from "@react-three/fiber"
 import { OrbitControls, Stars } from "@react-three/drei"
 import { TextureLoader } from "three/src/loaders/TextureLoader"
 import { Card, CardHeader, CardTitle, CardContent } from "./ui/card"
-import { generateFlowData } from "../utils/dataGenerators"
-import { Globe } from "lucide-react"
-import { BufferGeometry, Vector3, QuadraticBezierCurve3, LineBasicMaterial } from "three"
+import FlatTrafficMap from "./FlatTrafficMap"
+import { useLiveSelector } from "./telemetry-provider"
+import { Globe, Map as MapIcon, Pause, Play, type LucideIcon } from "lucide-react"
 import type * as THREE from "three"
+import { LOG_TYPES } from "../types/log"
+import type { FlowEntry } from "../types/telemetry"
+import {
+  EARTH_TEXTURE_URL,
+  FLOW_CLASS_COLORS,
+  FLOW_CLASS_LABELS,
+  FLOW_CLASSES,
+  flowTargetQuery,
+  formatFlowVolume,
+  summarizeFlows,
+  type FlowHover,
+  type FlowTarget,
+} from "../utils/flowStyle"
+import { createGlobeFlowLayer } from "../utils/globeFlowLayer"
+import { getCountryLabel } from "../utils/geoLabels"
+import { LOG_TYPE_LABELS } from "../utils/logLabels"
+import { selectFlows } from "../utils/liveStore"
 
+// 지구본 반지름과 흐름 곡선의 최대 높이 (지구 중심에서의 거리)
+const GLOBE_RADIUS = 3
+const ARC_HEIGHT = 4
 
+// 대상에 마우스를 올리거나 누를 때 호출되는 함수
+interface GlobeHandlers {
+  onHover: (hover: FlowHover | null) => void
+  onSelect: (target: FlowTarget) => void
+}
+
+// 끌어서 돌리는 동작을 클릭으로 보지 않는 이동 거리 (px)
+const CLICK_TOLERANCE = 4
+
+// 가리킨 곡선이나 끝점의 대상을 찾는 함수 (비어 있는 자리면 undefined)
+type TargetResolver = (event: ThreeEvent<PointerEvent | MouseEvent>) => FlowTarget | undefined
+
+// 흐름 레이어에 포인터 이벤트를 연결하는 props (가장 가까운 대상만 반응하도록 전파를 멈춤)
+const pointerProps = (resolve: TargetResolver, { onHover, onSelect }: GlobeHandlers) => ({
+  onPointerMove: (event: ThreeEvent<PointerEvent>) => {
+    const target = resolve(event)
+    if (!target) return
+    event.stopPropagation()
+    onHover({ target, x: event.nativeEvent.offsetX, y: event.nativeEvent.offsetY })
+  },
+  onPointerOut: () => onHover(null),
+  onClick: (event: ThreeEvent<MouseEvent>) => {
+    const target = resolve(event)
+    if (!target) return
+    event.stopPropagation()
+    if (event.delta <= CLICK_TOLERANCE) onSelect(target)
+  },
+})
+
+interface FlowLayerProps extends GlobeHandlers {
+  flows: FlowEntry[]
+}
+
+// 흐름 레이어 컴포넌트 (모든 흐름을 미리 만든 버퍼 하나에 그림, 언마운트 시 GPU 자원 해제)
+const FlowLayer = ({ flows, ...handlers }: FlowLayerProps) => {
+  const layer = useMemo(() => createGlobeFlowLayer({ globeRadius: GLOBE_RADIUS, arcHeight: ARC_HEIGHT }), [])
+  useEffect(() => () => layer.dispose(), [layer])
+
+  // 새 흐름 목록을 받으면 바뀐 흐름의 자리만 다시 씀
+  useEffect(() => layer.sync(flows), [layer, flows])
 
-// 국가 코드에 따른 위도와 경도를 반환하는 함수
-const getCoordinates = (countryCode: string) => {
-  // 간단한 버전의 데이터셋. 실제 애플리케이션에서는 더 완전한 데이터셋을 사용하는 것이 좋음음
-  const coordinates: { [key: string]: { lat: number; lon: number } } = {
-    KR: { lat: 37.5665, lon: 126.978 }, // 대한민국 서울
-    US: { lat: 37.0902, lon: -95.7129 }, // 미국
-    CN: { lat: 35.8617, lon: 104.1954 }, // 중국
-    JP: { lat: 36.2048, lon: 138.2529 }, // 일본
-    UK: { lat: 55.3781, lon: -3.436 }, // 영국
-    DE: { lat: 51.1657, lon: 10.4515 }, // 독일
-    FR: { lat: 46.2276, lon: 2.2137 }, // 프랑스
-    IN: { lat: 20.5937, lon: 78.9629 }, // 인도
-    BR: { lat: -14.235, lon: -51.9253 }, // 브라질
-    AU: { lat: -25.2744, lon: 133.7751 }, // 호주
+  // 펄스 이동과 목록에서 빠진 흐름의 흐려짐
+  useFrame(({ clock }) => layer.update(clock.elapsedTime))
+
+  // 가리킨 곡선의 흐름
+  const resolveArc: TargetResolver = (event) => {
+    const entry = typeof event.faceIndex === "number" ? layer.flowAtFace(event.faceIndex) : undefined
+    return entry && { kind: "flow", flow: entry.flow }
   }
-  // 주어진 국가 코드에 해당하는 위도와 경도를 반환
-  // 만약 국가 코드가 데이터셋에 없으면 기본값 { lat: 0, lon: 0 } 반환
-  return coordinates[countryCode] || { lat: 0, lon: 0 }
+
+  // 가리킨 끝점의 국가
+  const resolveEndpoint: TargetResolver = (event) => {
+    const hit = typeof event.instanceId === "number" ? layer.endpointAt(event.instanceId) : undefined
+    return hit && { kind: "country", country: hit.end === "start" ? hit.entry.flow.start : hit.entry.flow.end }
+  }
+
+  return (
+    <>
+      <primitive object={layer.arcs} {...pointerProps(resolveArc, handlers)} />
+      <primitive object={layer.pulses} />
+      <primitive object={layer.endpoints} {...pointerProps(resolveEndpoint, handlers)} />
+    </>
+  )
+}
+
+interface EarthProps extends GlobeHandlers {
+  flows: FlowEntry[]
+  rotating: boolean
 }
 
 // 지구본 컴포넌트
-const Earth = () => {
+const Earth = ({ flows, rotating, ...handlers }: EarthProps) => {
   const earthRef = useRef<THREE.Group>(null) // 지구본을 참조하기 위한 ref
-  const [flowData, setFlowData] = useState<Array<{ start: string; end: string } | null>>([]) // 흐름 데이터를 저장하는 상태
-  const texture = useLoader(
-    TextureLoader,
-    "https://hebbkx1anhila5yf.public.blob.vercel-storage.com/texture_earth.jpg-TvjarqIZVmH1Iq48yvbG8D6acPBTwt.jpeg",
-  ) // 지구본 텍스처 로드
+  const texture = useLoader(TextureLoader, EARTH_TEXTURE_URL) // 지구본 텍스처 로드 (앱과 함께 제공하는 파일)
 
-  // 지구본을 회전시키는 애니메이션 프레임
+  // 지구본을 회전시키는 애니메이션 프레임 (회전을 멈췄거나 흐름을 가리키는 동안은 멈춤)
   useFrame(() => {
-    if (earthRef.current) {
+    if (earthRef.current && rotating) {
       earthRef.current.rotation.y += 0.001
     }
   })
 
-  // 5초마다 새로운 흐름 데이터를 생성하는 useEffect
-  useEffect(() => {
-    const interval = setInterval(() => {
-      const newFlowData = generateFlowData()
-      setFlowData(newFlowData || [])
-    }, 5000)
-
-    return () => clearInterval(interval)
-  }, [])
-
-  // 위도와 경도를 3D 벡터로 변환하는 함수
-  const latLonToVector3 = (lat: number, lon: number, radius: number) => {
-    // 위도(lat)와 경도(lon)를 3D 벡터로 변환하는 함수
-    // 위도와 경도를 라디안으로 변환
-    const phi = (90 - lat) * (Math.PI / 180) // 위도 변환
-    const theta = (lon + 180) * (Math.PI / 180) // 경도 변환
-
-    // 구의 표면 위의 점을 계산
-    const x = -(radius * Math.sin(phi) * Math.cos(theta)) // x 좌표
-    const z = radius * Math.sin(phi) * Math.sin(theta) // z 좌표
-    const y = radius * Math.cos(phi) // y 좌표
-
-    // 계산된 좌표를 사용하여 새로운 3D 벡터를 반환
-    return new Vector3(x, y, z)
-  }
-
   return (
     <group ref={earthRef}>
       {/* 지구본 메쉬 */}
       <mesh>
-        <sphereGeometry args={[3, 64, 64]} /> {/* 지구본의 구형 지오메트리, 반지름 3, 세그먼트 64 */}
+        <sphereGeometry args={[GLOBE_RADIUS, 64, 64]} /> {/* 지구본의 구형 지오메트리, 세그먼트 64 */}
         <meshStandardMaterial map={texture} /> {/* 지구본의 텍스처를 적용 */}
       </mesh>
-      {/* 흐름 데이터를 기반으로 선을 그리는 부분 */}
-      {flowData.map((flow, index) => {
-        if (!flow || !flow.start || !flow.end) return null // 흐름 데이터가 유효하지 않으면 null 반환
-
-        const start = getCoordinates(flow.start) // 시작 지점의 위도와 경도 가져오기
-        const end = getCoordinates(flow.end) // 끝 지점의 위도와 경도 가져오기
-        const startVec = latLonToVector3(start.lat, start.lon, 3) // 시작 지점을 3D 벡터로 변환
-        const endVec = latLonToVector3(end.lat, end.lon, 3) // 끝 지점을 3D 벡터로 변환
-        const midVec = new Vector3().copy(startVec).lerp(endVec, 0.5).normalize().multiplyScalar(4) // 시작과 끝의 중간 지점을 계산
-        const curve = new QuadraticBezierCurve3(startVec, midVec, endVec) // 시작, 중간, 끝 지점을 사용하여 곡선 생성
-        const points = curve.getPoints(50) // 곡선을 따라 50개의 점을 생성
-        const geometry = new BufferGeometry().setFromPoints(points) // 생성된 점들을 사용하여 지오메트리 생성
-        const material = new LineBasicMaterial({ color: 0x3b82f6 }) // 선의 재질 설정
-
-        return (
-          <group key={index}>
-            <lineSegments geometry={geometry} material={material} /> {/* 흐름을 나타내는 선 */}
-            <mesh position={endVec}>
-              <sphereGeometry args={[0.05, 16, 16]} /> {/* 도착 지점을 나타내는 작은 구 */}
-              <meshBasicMaterial color={0x3b82f6} /> {/* 구의 색상 설정 */}
-            </mesh>
-          </group>
-        )
-      })}
+      {/* 흐름 데이터를 기반으로 곡선을 그리는 부분 (위치를 모르는 국가의 흐름은 그리지 않음) */}
+      <FlowLayer flows={flows} {...handlers} />
     </group>
   )
 }
 
+// 흐름도 표시 방식 (3D 지구본, 2D 평면 지도)
+type FlowView = "globe" | "map"
+
+// 마우스를 올린 흐름 또는 국가의 요약을 보여주는 툴팁
+const GlobeTooltip = ({ hover, flows, selectable }: { hover: FlowHover; flows: FlowEntry[]; selectable: boolean }) => {
+  const { target } = hover
+  const title =
+    target.kind === "flow"
+      ? `${getCountryLabel(target.flow.start)} → ${getCountryLabel(target.flow.end)}`
+      : `${getCountryLabel(target.country)} (${target.country})`
+  const summary = summarizeFlows(
+    target.kind === "flow"
+      ? [target.flow]
+      : flows.filter((flow) => flow.start === target.country || flow.end === target.country),
+  )
+  const classified = LOG_TYPES.filter((type) => summary.typeCounts[type] > 0)
+
+  return (
+    <div
+      className="absolute z-10 pointer-events-none bg-white/95 border border-gray-200 rounded-md shadow-lg px-3 py-2 text-xs text-gray-700 space-y-0.5"
+      style={{ left: hover.x + 12, top: hover.y + 12 }}
+    >
+      <div className="font-semibold text-gray-900">{title}</div>
+      {target.kind === "country" && <div>흐름 {summary.flows.toLocaleString()}개</div>}
+      <div>로그 {summary.count.toLocaleString()}건</div>
+      {summary.trafficVolume > 0 && <div>용량 {formatFlowVolume(summary.trafficVolume)}</div>}
+      {classified.length > 0 && (
+        <div>
+          {classified
+            .map((type) => `${LOG_TYPE_LABELS[type]} ${summary.typeCounts[type].toLocaleString()}`)
+            .join(" · ")}
+        </div>
+      )}
+      {summary.ioc && <div className="text-red-600 font-medium">위협 인텔리전스 지표 일치</div>}
+      {selectable && <div className="text-gray-400 pt-1">눌러서 로그 필터링</div>}
+    </div>
+  )
+}
+
+// 흐름 분류별 색상과 굵기 안내 (지구본은 펄스, 평면 지도는 도착지의 큰 점으로 방향 표시)
+const GlobeLegend = ({ view }: { view: FlowView }) => (
+  <div className="absolute left-3 bottom-3 bg-white/90 rounded-md shadow px-3 py-2 text-xs text-gray-700 space-y-1">
+    {FLOW_CLASSES.map((flowClass) => (
+      <div key={flowClass} className="flex items-center">
+        <span className="w-3 h-1 rounded-full mr-2" style={{ backgroundColor: FLOW_CLASS_COLORS[flowClass] }} />
+        {FLOW_CLASS_LABELS[flowClass]}
+      </div>
+    ))}
+    <div className="text-gray-400 pt-1">
+      굵기: 트래픽 용량 · {view === "globe" ? "점: 이동 방향" : "큰 점: 도착지"}
+    </div>
+  </div>
+)
+
+interface GlobeTrafficFlowProps {
+  onFilter?: (query: string) => void // 흐름이나 국가를 눌렀을 때 로그 테이블에 적용할 검색 질의를 받는 함수
+}
+
+// 마지막으로 고른 표시 방식을 보관하는 localStorage 키
+const VIEW_STORAGE_KEY = "auto-guard-flow-view"
+
+// 저장된 표시 방식 (없거나 올바르지 않으면 지구본)
+const loadView = (): FlowView => (localStorage.getItem(VIEW_STORAGE_KEY) === "map" ? "map" : "globe")
+
+const VIEW_OPTIONS: { view: FlowView; label: string; icon: LucideIcon }[] = [
+  { view: "globe", label: "3D 지구본", icon: Globe },
+  { view: "map", label: "2D 지도", icon: MapIcon },
+]
+
 // 전체 컴포넌트
-const GlobeTrafficFlow = () => {
+const GlobeTrafficFlow = ({ onFilter }: GlobeTrafficFlowProps) => {
+  const flowData: Array<FlowEntry | null> = useLiveSelector(selectFlows) // 실시간 저장소의 흐름 데이터
+  const [view, setView] = useState<FlowView>(loadView)
+  const [rotating, setRotating] = useState(true)
+  const [hover, setHover] = useState<FlowHover | null>(null)
+
+  // 올바른 흐름만 사용
+  const flows = useMemo(
+    () => flowData.filter((flow): flow is FlowEntry => !!flow && !!flow.start && !!flow.end),
+    [flowData],
+  )
+
+  // 누른 흐름 또는 국가의 검색 질의로 로그 테이블을 필터링
+  const handleSelect = useCallback((target: FlowTarget) => onFilter?.(flowTargetQuery(target)), [onFilter])
+
+  // 표시 방식을 바꾸고 다음 방문을 위해 보관
+  const selectView = (next: FlowView) => {
+    setView(next)
+    setHover(null)
+    localStorage.setItem(VIEW_STORAGE_KEY, next)
+  }
+
   return (
     <Card className="shadow-lg overflow-hidden">
       <CardHeader className="bg-gradient-to-r from-blue-600 to-blue-800 border-b border-blue-700">
-        <CardTitle className="text-lg text-white flex items-center">
-          <Globe className="mr-2" /> 트래픽 흐름도 {/* 카드 제목 */}
+        <CardTitle className="text-lg text-white flex items-center justify-between">
+          <span className="flex items-center">
+            <Globe className="mr-2" /> 트래픽 흐름도 {/* 카드 제목 */}
+          </span>
+          <span className="flex items-center space-x-2 print:hidden">
+            {/* 지구본 회전 멈춤/재개 */}
+            {view === "globe" && (
+              <button
+                type="button"
+                onClick={() => setRotating((prev) => !prev)}
+                className="flex items-center text-sm font-normal px-2 py-1 rounded border border-white/40 hover:bg-white/10"
+              >
+                {rotating ? <Pause className="w-4 h-4 mr-1" /> : <Play className="w-4 h-4 mr-1" />}
+                {rotating ? "회전 멈춤" : "회전"}
+              </button>
+            )}
+            {/* 3D 지구본 / 2D 지도 전환 */}
+            <span className="flex rounded border border-white/40 overflow-hidden">
+              {VIEW_OPTIONS.map(({ view: option, label, icon: Icon }) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => selectView(option)}
+                  aria-pressed={view === option}
+                  className={`flex items-center text-sm font-normal px-2 py-1 ${
+                    view === option ? "bg-white text-blue-800" : "hover:bg-white/10"
+                  }`}
+                >
+                  <Icon className="w-4 h-4 mr-1" />
+                  {label}
+                </button>
+              ))}
+            </span>
+          </span>
         </CardTitle>
       </CardHeader>
       <CardContent className="p-0 bg-gray-50">
-        <div className="h-[600px]">
-          <Canvas camera={{ position: [0, 0, 9] }}>
-            <ambientLight intensity={0.5} /> {/* 주변 조명 */}
-            <pointLight position={[10, 10, 10]} /> {/* 포인트 조명 */}
-            <Suspense fallback={null}>
-              <Earth /> {/* 지구본 컴포넌트 */}
-            </Suspense>
-            <OrbitControls enableZoom={false} /> {/* 궤도 컨트롤 */}
-            <Stars radius={100} depth={50} count={5000} factor={4} saturation={0} fade speed={1} /> {/* 별 효과 */}
-          </Canvas>
+        <div className={`h-[600px] relative ${hover && onFilter ? "cursor-pointer" : ""}`}>
+          {view === "globe" ? (
+            <Canvas camera={{ position: [0, 0, 9] }} onPointerMissed={() => setHover(null)}>
+              <ambientLight intensity={0.5} /> {/* 주변 조명 */}
+              <pointLight position={[10, 10, 10]} /> {/* 포인트 조명 */}
+              <Suspense fallback={null}>
+                <Earth flows={flows} rotating={rotating && !hover} onHover={setHover} onSelect={handleSelect} />
+              </Suspense>
+              <OrbitControls enableZoom={false} /> {/* 궤도 컨트롤 */}
+              <Stars radius={100} depth={50} count={5000} factor={4} saturation={0} fade speed={1} /> {/* 별 효과 */}
+            </Canvas>
+          ) : (
+            <FlatTrafficMap flows={flows} onHover={setHover} onSelect={handleSelect} />
+          )}
+          {hover && <GlobeTooltip hover={hover} flows={flows} selectable={!!onFilter} />}
+          <GlobeLegend view={view} />
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,317 @@
+/**
+ * 관련 알림과 로그를 묶어 조사 과정을 기록하는 인시던트 관리 화면 컴포넌트
+ *
+ * 주요 기능:
+ * - 인시던트 목록 (상태 필터, 새 인시던트 만들기)
+ * - 선택한 인시던트의 상태, 심각도, 담당자 변경
+ * - 묶은 알림과 로그, 분석 메모, 변경 기록을 시간 순으로 표시하는 타임라인
+ * - Markdown, HTML 보고서로 내보내기
+ *
+ * 알림 센터와 로그 상세 드로어의 "인시던트에 추가"로 알림과 로그를 묶을 수 있음
+ *
+ * @component
+ * @example
+ * <IncidentProvider>
+ *   <Incidents selectedId={id} />
+ * </IncidentProvider>
+ *
+ * @param {string | null} selectedId - 주소(#/incidents/<id>)에서 선택한 인시던트 ID
+ */
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import {
+  Bell,
+  CircleDot,
+  ClipboardList,
+  Download,
+  FileText,
+  Flag,
+  MessageSquare,
+  Plus,
+  Sparkles,
+  UserRound,
+  type LucideIcon,
+} from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select"
+import { useAlertOperator } from "./alert-center-provider"
+import { useIncidentManager, useIncidents } from "./incident-provider"
+import SeverityBadge from "./SeverityBadge"
+import { INCIDENT_STATUSES, type Incident, type IncidentStatus, type IncidentTimelineKind } from "../types/incident"
+import { RULE_SEVERITIES, type RuleSeverity } from "../types/rule"
+import { isIncidentActive } from "../utils/incidentManager"
+import { INCIDENT_STATUS_BADGE_COLORS, INCIDENT_STATUS_LABELS } from "../utils/incidentLabels"
+import { createIncidentReport, incidentReportFileName, type IncidentReportFormat } from "../utils/incidentReport"
+import { downloadBlob } from "../utils/logExport"
+import { RULE_SEVERITY_LABELS } from "../utils/ruleLabels"
+
+// 목록 상태 필터 ("active"는 해결·종료되지 않은 인시던트)
+type StatusFilter = "active" | "all" | IncidentStatus
+
+// 타임라인 항목 종류별 아이콘과 색상
+const TIMELINE_ICONS: Record<IncidentTimelineKind, { icon: LucideIcon; color: string }> = {
+  created: { icon: Sparkles, color: "text-blue-600 bg-blue-50" },
+  status: { icon: CircleDot, color: "text-gray-600 bg-gray-100" },
+  assignment: { icon: UserRound, color: "text-gray-600 bg-gray-100" },
+  severity: { icon: Flag, color: "text-gray-600 bg-gray-100" },
+  note: { icon: MessageSquare, color: "text-green-700 bg-green-50" },
+  alert: { icon: Bell, color: "text-red-600 bg-red-50" },
+  log: { icon: FileText, color: "text-orange-600 bg-orange-50" },
+}
+
+// 상태 배지
+const StatusBadge = ({ status }: { status: IncidentStatus }) => (
+  <span className={`px-2 py-0.5 rounded-full text-xs font-semibold whitespace-nowrap ${INCIDENT_STATUS_BADGE_COLORS[status]}`}>
+    {INCIDENT_STATUS_LABELS[status]}
+  </span>
+)
+
+// 선택한 인시던트의 상세 정보와 타임라인
+const IncidentDetail: React.FC<{ incident: Incident; actor: string }> = ({ incident, actor }) => {
+  const manager = useIncidentManager()
+  const [assignee, setAssignee] = useState(incident.assignee ?? "")
+  const [note, setNote] = useState("")
+
+  // 다른 인시던트를 고르거나 담당자가 바뀌면 입력값을 맞춤
+  useEffect(() => setAssignee(incident.assignee ?? ""), [incident.id, incident.assignee])
+
+  const handleExport = (format: IncidentReportFormat) =>
+    downloadBlob(createIncidentReport(incident, format), incidentReportFileName(incident, format))
+
+  const handleAddNote = () => {
+    manager.addNote(incident.id, note, actor)
+    setNote("")
+  }
+
+  const buttonClass =
+    "flex items-center h-9 px-3 rounded-md border border-input text-gray-700 hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed"
+
+  return (
+    <Card className="shadow-lg overflow-hidden">
+      <CardHeader className="bg-gradient-to-r from-blue-600 to-blue-800 border-b border-blue-700">
+        <CardTitle className="text-lg text-white flex items-center">
+          <ClipboardList className="mr-2 shrink-0" />
+          <span className="truncate">{incident.title}</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="bg-white p-6 space-y-6">
+        {/* 상태, 심각도, 담당자 */}
+        <div className="flex flex-wrap items-end gap-4 text-sm">
+          <label className="space-y-1">
+            <span className="block text-gray-500">상태</span>
+            <Select
+              value={incident.status}
+              onValueChange={(value) => manager.setStatus(incident.id, value as IncidentStatus, actor)}
+            >
+              <SelectTrigger className="w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {INCIDENT_STATUSES.map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {INCIDENT_STATUS_LABELS[status]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </label>
+          <label className="space-y-1">
+            <span className="block text-gray-500">심각도</span>
+            <Select
+              value={incident.severity}
+              onValueChange={(value) => manager.setSeverity(incident.id, value as RuleSeverity, actor)}
+            >
+              <SelectTrigger className="w-[120px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[...RULE_SEVERITIES].reverse().map((severity) => (
+                  <SelectItem key={severity} value={severity}>
+                    {RULE_SEVERITY_LABELS[severity]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </label>
+          <form
+            className="space-y-1"
+            onSubmit={(event) => {
+              event.preventDefault()
+              manager.assign(incident.id, assignee, actor)
+            }}
+          >
+            <span className="block text-gray-500">담당자</span>
+            <div className="flex gap-2">
+              <input
+                value={assignee}
+                onChange={(event) => setAssignee(event.target.value)}
+                placeholder="미지정"
+                className="h-10 w-40 px-3 rounded-md border border-input focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button type="submit" disabled={assignee.trim() === (incident.assignee ?? "")} className={buttonClass}>
+                지정
+              </button>
+            </div>
+          </form>
+          <div className="ml-auto flex gap-2">
+            <button type="button" onClick={() => handleExport("markdown")} className={buttonClass}>
+              <Download className="w-4 h-4 mr-2" /> Markdown
+            </button>
+            <button type="button" onClick={() => handleExport("html")} className={buttonClass}>
+              <Download className="w-4 h-4 mr-2" /> HTML
+            </button>
+          </div>
+        </div>
+
+        <p className="text-sm text-gray-600">
+          알림 {incident.alertGroupIds.length}개 · 로그 {incident.logIds.length}건 · 생성{" "}
+          {incident.createdAt.toLocaleString()} · 최종 변경 {incident.updatedAt.toLocaleString()}
+        </p>
+
+        {/* 분석 메모 */}
+        <div className="space-y-2">
+          <textarea
+            value={note}
+            onChange={(event) => setNote(event.target.value)}
+            placeholder="분석 메모를 입력하세요"
+            rows={3}
+            className="w-full p-3 rounded-md border border-input text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button type="button" onClick={handleAddNote} disabled={!note.trim()} className={buttonClass}>
+            <MessageSquare className="w-4 h-4 mr-2" /> 메모 추가
+          </button>
+        </div>
+
+        {/* 타임라인 (최근 항목이 위) */}
+        <ol className="relative border-l border-gray-200 ml-3 space-y-4">
+          {[...incident.timeline].reverse().map((entry) => {
+            const { icon: Icon, color } = TIMELINE_ICONS[entry.kind]
+            return (
+              <li key={entry.id} className="ml-6">
+                <span className={`absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full ${color}`}>
+                  <Icon className="w-3.5 h-3.5" />
+                </span>
+                <div className="text-xs text-gray-500">
+                  {entry.at.toLocaleString()} · {entry.actor}
+                </div>
+                <div className={`text-sm ${entry.kind === "note" ? "whitespace-pre-wrap" : ""}`}>
+                  {entry.alert && <SeverityBadge severity={entry.alert.severity} />} {entry.text}
+                </div>
+              </li>
+            )
+          })}
+        </ol>
+      </CardContent>
+    </Card>
+  )
+}
+
+const Incidents: React.FC<{ selectedId: string | null }> = ({ selectedId }) => {
+  const manager = useIncidentManager()
+  const incidents = useIncidents()
+  const [operator] = useAlertOperator()
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("active")
+  const [title, setTitle] = useState("")
+
+  const actor = operator.trim() || "analyst"
+  const selected = incidents.find((incident) => incident.id === selectedId) ?? null
+
+  const filteredIncidents = useMemo(
+    () =>
+      incidents.filter((incident) => {
+        if (statusFilter === "active") return isIncidentActive(incident)
+        return statusFilter === "all" || incident.status === statusFilter
+      }),
+    [incidents, statusFilter],
+  )
+
+  const handleCreate = () => {
+    const incident = manager.create({ title }, actor)
+    setTitle("")
+    window.location.hash = `#/incidents/${incident.id}`
+  }
+
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-[420px_1fr] gap-6 items-start">
+      <Card className="shadow-lg overflow-hidden">
+        <CardHeader className="bg-gradient-to-r from-blue-600 to-blue-800 border-b border-blue-700">
+          <CardTitle className="text-lg text-white flex items-center">
+            <ClipboardList className="mr-2" /> 인시던트 목록
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="bg-white p-6 space-y-4">
+          <form
+            className="flex gap-2"
+            onSubmit={(event) => {
+              event.preventDefault()
+              handleCreate()
+            }}
+          >
+            <input
+              value={title}
+              onChange={(event) => setTitle(event.target.value)}
+              placeholder="새 인시던트 제목"
+              className="h-10 flex-1 px-3 rounded-md border border-input text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              type="submit"
+              disabled={!title.trim()}
+              className="flex items-center h-10 px-3 rounded-md bg-blue-600 text-white text-sm hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Plus className="w-4 h-4 mr-1" /> 만들기
+            </button>
+          </form>
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="active">진행 중인 인시던트</SelectItem>
+              <SelectItem value="all">모든 상태</SelectItem>
+              {INCIDENT_STATUSES.map((status) => (
+                <SelectItem key={status} value={status}>
+                  {INCIDENT_STATUS_LABELS[status]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {filteredIncidents.length === 0 ? (
+            <p className="text-sm text-gray-500">인시던트가 없습니다</p>
+          ) : (
+            <ul className="divide-y divide-gray-100 border rounded">
+              {filteredIncidents.map((incident) => (
+                <li key={incident.id}>
+                  <a
+                    href={`#/incidents/${incident.id}`}
+                    className={`block px-3 py-2 hover:bg-blue-50 ${incident.id === selectedId ? "bg-blue-100" : ""}`}
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate flex-1">{incident.title}</span>
+                      <SeverityBadge severity={incident.severity} />
+                      <StatusBadge status={incident.status} />
+                    </div>
+                    <div className="text-xs text-gray-500 mt-1">
+                      {incident.assignee ?? "담당자 없음"} · 알림 {incident.alertGroupIds.length} · 로그{" "}
+                      {incident.logIds.length} · {incident.updatedAt.toLocaleString()}
+                    </div>
+                  </a>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      {selected ? (
+        <IncidentDetail incident={selected} actor={actor} />
+      ) : (
+        <p className="text-sm text-gray-500 p-6">
+          목록에서 인시던트를 선택하거나 알림 센터, 로그 상세에서 알림과 로그를 인시던트로 묶으세요
+        </p>
+      )}
+    </div>
+  )
+}
+
+export default Incidents
@@ -0,0 +1,17 @@
+"use client"
+
+import type { IocMatch } from "../types/ioc"
+
+// 주소가 위협 인텔리전스 지표와 일치했음을 알리는 배지 (해당 필드의 일치가 없으면 표시하지 않음)
+const IocBadge = ({ matches, field }: { matches?: IocMatch[]; field: IocMatch["field"] }) => {
+  const hits = matches?.filter((match) => match.field === field) ?? []
+  if (hits.length === 0) return null
+  const title = hits.map((match) => `${match.value} · ${match.source} · 신뢰도 ${match.confidence}`).join("\n")
+  return (
+    <span title={title} className="ml-1 px-1.5 py-0.5 rounded text-[10px] font-semibold bg-red-600 text-white">
+      IOC
+    </span>
+  )
+}
+
+export default IocBadge
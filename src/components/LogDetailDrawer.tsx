@@ -0,0 +1,235 @@
+/**
+ * 로그 테이블에서 선택한 로그의 상세 정보를 보여주는 사이드 드로어
+ *
+ * 주요 기능:
+ * - LogEntry의 모든 필드와 공격 유형(악성 로그의 세부 분류) 표시
+ * - 같은 출발 IP, 같은 도착 포트의 다른 이벤트와 출발 IP의 미니 타임라인 표시
+ * - 필드 값 옆의 필터 버튼을 누르면 해당 값을 로그 테이블의 질의에 조건으로 덧붙임 (피벗)
+ * - 관련 이벤트를 누르면 그 로그의 상세 정보로 이동
+ * - 로그를 새 인시던트나 진행 중인 인시던트에 증거로 묶기
+ *
+ * @component
+ * @example
+ * <LogDetailDrawer
+ *   log={selectedLog}
+ *   logs={relatedLogs}
+ *   onSelect={setSelectedLog}
+ *   onClose={() => setSelectedLog(null)}
+ *   onPivot={handlePivot}
+ * />
+ */
+"use client"
+
+import { useMemo } from "react"
+import { Filter } from "lucide-react"
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "./ui/sheet"
+import AddToIncident from "./AddToIncident"
+import type { LogEntry } from "../types/log"
+import {
+  ATTACK_CATEGORY_LABELS,
+  getLogLabel,
+  LOG_TYPE_CHART_COLORS,
+  LOG_TYPE_LABELS,
+  LOG_TYPE_TEXT_COLORS,
+} from "../utils/logLabels"
+import { formatGeoLocation } from "../utils/geoLabels"
+import { findRelatedActivity, type TimelineBucket } from "../utils/logRelations"
+import { quoteQueryValue } from "../utils/logQuery"
+
+interface LogDetailDrawerProps {
+  log: LogEntry | null
+  logs: LogEntry[] // 관련 이벤트를 찾을 로그 목록 (최신순, 같은 배열이면 다시 계산하지 않음)
+  onSelect: (log: LogEntry) => void
+  onClose: () => void
+  onPivot: (clause: string) => void // 누른 값의 조건 (예: src:10.0.0.1)
+}
+
+// 필드 값으로 로그 테이블을 필터링하는 버튼
+const PivotButton: React.FC<{ query: string; onPivot: (query: string) => void }> = ({ query, onPivot }) => (
+  <button
+    type="button"
+    onClick={() => onPivot(query)}
+    title={`${query} 로 필터`}
+    className="p-1 rounded text-gray-400 hover:text-blue-600 hover:bg-blue-50"
+  >
+    <Filter className="w-3.5 h-3.5" />
+  </button>
+)
+
+// 출발 IP의 이벤트 수를 시간 구간별 막대로 표시 (분류별로 쌓아서 표시)
+const MiniTimeline: React.FC<{ buckets: TimelineBucket[] }> = ({ buckets }) => {
+  const maxTotal = Math.max(1, ...buckets.map((bucket) => bucket.counts.normal + bucket.counts.malicious + bucket.counts.novel))
+
+  return (
+    <div>
+      <div className="flex items-end gap-0.5 h-16 border-b border-gray-200">
+        {buckets.map((bucket) => {
+          const total = bucket.counts.normal + bucket.counts.malicious + bucket.counts.novel
+          return (
+            <div
+              key={bucket.start.getTime()}
+              className="flex-1 flex flex-col-reverse"
+              style={{ height: `${(total / maxTotal) * 100}%` }}
+              title={`${bucket.start.toLocaleTimeString()} ~ ${bucket.end.toLocaleTimeString()}: ${total}건`}
+            >
+              {(["normal", "malicious", "novel"] as const).map((type) =>
+                bucket.counts[type] > 0 ? (
+                  <div
+                    key={type}
+                    style={{ height: `${(bucket.counts[type] / total) * 100}%`, backgroundColor: LOG_TYPE_CHART_COLORS[type] }}
+                  />
+                ) : null,
+              )}
+            </div>
+          )
+        })}
+      </div>
+      {buckets.length > 0 && (
+        <div className="flex justify-between mt-1 text-xs text-gray-500">
+          <span>{buckets[0].start.toLocaleTimeString()}</span>
+          <span>{buckets[buckets.length - 1].end.toLocaleTimeString()}</span>
+        </div>
+      )}
+    </div>
+  )
+}
+
+// 관련 이벤트 목록 (누르면 해당 로그의 상세 정보로 이동)
+const RelatedList: React.FC<{
+  title: string
+  logs: LogEntry[]
+  total: number
+  query: string
+  onSelect: (log: LogEntry) => void
+  onPivot: (query: string) => void
+}> = ({ title, logs, total, query, onSelect, onPivot }) => (
+  <section>
+    <div className="flex items-center justify-between mb-2">
+      <h3 className="text-sm font-semibold text-gray-700">
+        {title} <span className="font-normal text-gray-500">({total.toLocaleString()}건)</span>
+      </h3>
+      {total > 0 && (
+        <button type="button" onClick={() => onPivot(query)} className="text-xs text-blue-600 hover:underline">
+          테이블에서 모두 보기
+        </button>
+      )}
+    </div>
+    {logs.length === 0 ? (
+      <p className="text-xs text-gray-500">관련 이벤트가 없습니다</p>
+    ) : (
+      <ul className="max-h-48 overflow-y-auto divide-y divide-gray-100 border rounded">
+        {logs.map((log) => (
+          <li key={log.id}>
+            <button
+              type="button"
+              onClick={() => onSelect(log)}
+              className="w-full grid grid-cols-[auto_1fr_auto] gap-2 px-2 py-1.5 text-left text-xs hover:bg-gray-50"
+            >
+              <span className="text-gray-500">{log.timestamp.toLocaleTimeString()}</span>
+              <span className="font-mono truncate">
+                {log.sourceIP}:{log.sourcePort} → {log.destinationIP}:{log.destinationPort}
+              </span>
+              <span className={LOG_TYPE_TEXT_COLORS[log.type]}>{getLogLabel(log)}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    )}
+  </section>
+)
+
+const LogDetailDrawer: React.FC<LogDetailDrawerProps> = ({ log, logs, onSelect, onClose, onPivot }) => {
+  // 선택한 로그와 관련된 활동 (선택한 로그나 로그 목록이 바뀔 때만 다시 계산)
+  const related = useMemo(() => (log ? findRelatedActivity(logs, log) : null), [logs, log])
+
+  // 필드 이름, 값, 피벗 질의
+  const fields = log
+    ? [
+        { label: "ID", value: log.id },
+        { label: "시간", value: log.timestamp.toLocaleString() },
+        { label: "출발 IP", value: log.sourceIP, query: `src:${quoteQueryValue(log.sourceIP)}` },
+        { label: "출발 Port", value: String(log.sourcePort), query: `sport:${log.sourcePort}` },
+        { label: "도착 IP", value: log.destinationIP, query: `dst:${quoteQueryValue(log.destinationIP)}` },
+        { label: "도착 Port", value: String(log.destinationPort), query: `dport:${log.destinationPort}` },
+        { label: "프로토콜", value: log.protocol, query: `proto:${quoteQueryValue(log.protocol)}` },
+        { label: "유형", value: LOG_TYPE_LABELS[log.type], query: `type:${log.type}` },
+        ...(log.type === "malicious"
+          ? [{ label: "공격 유형", value: ATTACK_CATEGORY_LABELS[log.attack], query: `attack:${log.attack}` }]
+          : []),
+        { label: "트래픽 용량", value: `${log.trafficVolume} KB` },
+        ...(log.sourceGeo ? [{ label: "출발 위치", value: formatGeoLocation(log.sourceGeo) }] : []),
+        ...(log.destinationGeo ? [{ label: "도착 위치", value: formatGeoLocation(log.destinationGeo) }] : []),
+        ...(log.iocMatches ?? []).map((match) => ({
+          label: match.field === "sourceIP" ? "출발 IP 지표" : "도착 IP 지표",
+          value: `${match.value} (${match.source}, 신뢰도 ${match.confidence})`,
+        })),
+      ]
+    : []
+
+  // 피벗하면 드로어를 닫고 테이블에 필터 적용
+  const handlePivot = (query: string) => {
+    onPivot(query)
+    onClose()
+  }
+
+  return (
+    <Sheet open={log !== null} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto bg-white">
+        {log && related && (
+          <div className="space-y-6">
+            <SheetHeader>
+              <SheetTitle className={LOG_TYPE_TEXT_COLORS[log.type]}>{getLogLabel(log)}</SheetTitle>
+              <SheetDescription>
+                {log.sourceIP}:{log.sourcePort} → {log.destinationIP}:{log.destinationPort} ({log.protocol})
+              </SheetDescription>
+            </SheetHeader>
+
+            <AddToIncident key={log.id} logs={[log]} defaultTitle={`${getLogLabel(log)} (${log.sourceIP})`} />
+
+            {/* 로그 필드 */}
+            <dl className="grid grid-cols-[auto_1fr_auto] items-center gap-x-3 gap-y-1 text-sm">
+              {fields.map((field) => (
+                <div key={`${field.label}:${field.value}`} className="contents">
+                  <dt className="text-gray-500">{field.label}</dt>
+                  <dd className="font-mono break-all">{field.value}</dd>
+                  <dd>{field.query ? <PivotButton query={field.query} onPivot={handlePivot} /> : null}</dd>
+                </div>
+              ))}
+            </dl>
+
+            {/* 출발 IP의 시간대별 활동 */}
+            <section>
+              <h3 className="text-sm font-semibold text-gray-700 mb-2">출발 IP 활동 타임라인</h3>
+              <MiniTimeline buckets={related.timeline} />
+            </section>
+
+            <RelatedList
+              title="같은 출발 IP의 이벤트"
+              logs={related.sameSource}
+              total={related.sameSourceTotal}
+              query={`src:${quoteQueryValue(log.sourceIP)}`}
+              onSelect={onSelect}
+              onPivot={handlePivot}
+            />
+            <RelatedList
+              title="같은 도착 포트의 이벤트"
+              logs={related.sameDestinationPort}
+              total={related.sameDestinationPortTotal}
+              query={`dport:${log.destinationPort}`}
+              onSelect={onSelect}
+              onPivot={handlePivot}
+            />
+
+            {/* 원본 데이터 */}
+            <details className="text-xs">
+              <summary className="cursor-pointer text-gray-600">원본 JSON</summary>
+              <pre className="mt-2 p-2 bg-gray-50 rounded overflow-x-auto">{JSON.stringify(log, null, 2)}</pre>
+            </details>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
+
+export default LogDetailDrawer
@@ -0,0 +1,116 @@
+/**
+ * 현재 필터링된 로그를 파일로 내보내는 컴포넌트
+ *
+ * 주요 기능:
+ * - 형식(CSV, NDJSON, CEF)과 시간대 선택
+ * - 로그 테이블에 표시된 것과 같은 로그 집합을 그대로 내보냄
+ * - 대량 내보내기 중에는 진행률과 취소 버튼 표시
+ *
+ * @component
+ * @example
+ * <LogExport logs={filteredLogs} />
+ */
+"use client"
+
+import { useRef, useState } from "react"
+import { Download, X } from "lucide-react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select"
+import type { LogEntry } from "../types/log"
+import {
+  downloadBlob,
+  EXPORT_FORMAT_LABELS,
+  EXPORT_TIME_ZONES,
+  exportFileName,
+  exportLogs,
+  resolveTimeZone,
+  type ExportFormat,
+  type LogExportProgress,
+} from "../utils/logExport"
+
+interface LogExportProps {
+  logs: LogEntry[]
+}
+
+// 시간대 선택 항목의 표시 이름
+const timeZoneLabel = (timeZone: string) =>
+  timeZone === "local" ? `브라우저 시간대 (${resolveTimeZone("local")})` : timeZone
+
+const LogExport: React.FC<LogExportProps> = ({ logs }) => {
+  const [format, setFormat] = useState<ExportFormat>("csv")
+  const [timeZone, setTimeZone] = useState("local")
+  const [progress, setProgress] = useState<LogExportProgress | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  // 로그를 직렬화하여 파일로 내려받음
+  const handleExport = async () => {
+    const controller = new AbortController()
+    abortRef.current = controller
+    setError(null)
+    setProgress({ written: 0, total: logs.length })
+    try {
+      const blob = await exportLogs(logs, { format, timeZone }, setProgress, controller.signal)
+      downloadBlob(blob, exportFileName(format))
+    } catch (exportError) {
+      if (!controller.signal.aborted) {
+        setError(exportError instanceof Error ? exportError.message : String(exportError))
+      }
+    } finally {
+      abortRef.current = null
+      setProgress(null)
+    }
+  }
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <div className="flex items-center gap-2">
+        <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+          <SelectTrigger className="w-[110px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map((key) => (
+              <SelectItem key={key} value={key}>
+                {EXPORT_FORMAT_LABELS[key]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={timeZone} onValueChange={setTimeZone}>
+          <SelectTrigger className="w-[200px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {EXPORT_TIME_ZONES.map((zone) => (
+              <SelectItem key={zone} value={zone}>
+                {timeZoneLabel(zone)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {progress ? (
+          <button
+            type="button"
+            onClick={() => abortRef.current?.abort()}
+            className="flex items-center h-10 px-3 rounded-md border border-input text-sm text-gray-700 hover:bg-red-50 transition-colors"
+          >
+            <X className="w-4 h-4 mr-1" />
+            {progress.total > 0 ? Math.floor((progress.written / progress.total) * 100) : 100}% (취소)
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={logs.length === 0}
+            className="flex items-center h-10 px-3 rounded-md border border-input text-sm text-gray-700 hover:bg-blue-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download className="w-4 h-4 mr-1" /> 내보내기 ({logs.length.toLocaleString()}건)
+          </button>
+        )}
+      </div>
+      {error && <div className="text-xs text-red-600">{error}</div>}
+    </div>
+  )
+}
+
+export default LogExport
@@ -0,0 +1,117 @@
+/**
+ * 외부 로그 파일(syslog, CEF, NDJSON, Suricata eve.json)을 가져오는 컴포넌트
+ *
+ * 주요 기능:
+ * - 로그 형식 선택 (자동 감지 포함)
+ * - 파일을 읽어 LogEntry로 변환한 뒤 onImport로 전달
+ * - 파싱에 실패한 줄의 번호와 원인을 펼쳐 볼 수 있는 보고서 표시
+ * - 파일을 읽지 못하면 보고서에 원인을 표시
+ *
+ * @component
+ * @example
+ * <LogImport onImport={(entries) => setImportedLogs(entries)} />
+ */
+"use client"
+
+import { useRef, useState } from "react"
+import { Upload } from "lucide-react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select"
+import type { LogEntry } from "../types/log"
+import { LOG_FORMAT_LABELS, parseLogText, type LogFormat, type LogParseError } from "../utils/logParsers"
+
+// 보고서에 표시할 최대 오류 수
+const MAX_REPORTED_ERRORS = 50
+
+// 가져오기 결과 (failure: 파일을 읽거나 처리하지 못한 원인)
+interface ImportReport {
+  fileName: string
+  imported: number
+  errors: LogParseError[]
+  failure?: string
+}
+
+interface LogImportProps {
+  onImport: (entries: LogEntry[]) => void
+}
+
+const LogImport: React.FC<LogImportProps> = ({ onImport }) => {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [format, setFormat] = useState<LogFormat | "auto">("auto")
+  const [report, setReport] = useState<ImportReport | null>(null)
+
+  // 선택한 파일을 읽어 파싱
+  const handleFile = async (file: File) => {
+    try {
+      const { entries, errors } = parseLogText(await file.text(), format)
+      setReport({ fileName: file.name, imported: entries.length, errors })
+      if (entries.length > 0) onImport(entries)
+    } catch (error) {
+      const failure = error instanceof Error ? error.message : String(error)
+      setReport({ fileName: file.name, imported: 0, errors: [], failure })
+    }
+  }
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <div className="flex items-center gap-2">
+        <Select value={format} onValueChange={(value) => setFormat(value as LogFormat | "auto")}>
+          <SelectTrigger className="w-[200px]">
+            <SelectValue placeholder="로그 형식" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="auto">자동 감지</SelectItem>
+            {(Object.keys(LOG_FORMAT_LABELS) as LogFormat[]).map((key) => (
+              <SelectItem key={key} value={key}>
+                {LOG_FORMAT_LABELS[key]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          className="flex items-center h-10 px-3 rounded-md border border-input text-sm text-gray-700 hover:bg-blue-50 transition-colors"
+        >
+          <Upload className="w-4 h-4 mr-1" /> 로그 파일 가져오기
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".log,.txt,.json,.jsonl,.ndjson,.cef"
+          className="hidden"
+          onChange={(event) => {
+            const file = event.target.files?.[0]
+            if (file) handleFile(file)
+            event.target.value = "" // 같은 파일을 다시 선택할 수 있도록 초기화
+          }}
+        />
+      </div>
+      {/* 가져오기 결과 보고서 */}
+      {report && (
+        <div className="text-xs text-gray-600 text-right">
+          {report.failure ? (
+            <span className="text-red-600">
+              {report.fileName}: 가져오기 실패 ({report.failure})
+            </span>
+          ) : (
+            `${report.fileName}: ${report.imported}건 가져옴`
+          )}
+          {report.errors.length > 0 && (
+            <details className="mt-1 text-left">
+              <summary className="cursor-pointer text-red-600">{report.errors.length}줄 파싱 실패</summary>
+              <ul className="mt-1 max-h-32 overflow-auto font-mono">
+                {report.errors.slice(0, MAX_REPORTED_ERRORS).map((error) => (
+                  <li key={error.line}>
+                    {error.line}행: {error.message}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default LogImport
@@ -0,0 +1,71 @@
+/**
+ * 로그 검색 질의를 입력하는 검색창 컴포넌트
+ *
+ * 주요 기능:
+ * - 질의 문자열 입력 (예: src:10.0.0.0/8 dport:22 type:malicious vol>500)
+ * - 문법 오류가 있으면 입력창 아래에 오류 위치와 원인을 표시
+ * - 사용할 수 있는 필드 도움말 표시
+ *
+ * @component
+ * @example
+ * <LogQueryBar value={queryText} onChange={setQueryText} error={queryError} />
+ */
+"use client"
+
+import { Search, X } from "lucide-react"
+import { Input } from "./ui/input"
+import type { LogQuerySyntaxError } from "../utils/logQuery"
+
+// 도움말에 표시할 필드 설명
+const FIELD_HELP = [
+  "src / dst / ip: IP 또는 CIDR",
+  "sport / dport / port: 22, 80,443, 1000-2000",
+  "proto: TCP, UDP, HTTP ...",
+  "type: normal, malicious, novel, sqli, xss ...",
+  "vol: 트래픽 용량(KB), vol>500",
+  "scountry / dcountry / country: US, KR, unknown",
+  "age: 지난 시간, age<5m",
+  "AND / OR / NOT, ( )",
+]
+
+interface LogQueryBarProps {
+  value: string
+  onChange: (value: string) => void
+  error: LogQuerySyntaxError | null
+}
+
+const LogQueryBar: React.FC<LogQueryBarProps> = ({ value, onChange, error }) => {
+  return (
+    <div className="flex-1 min-w-[280px]">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+        <Input
+          value={value}
+          onChange={(event) => onChange(event.target.value)}
+          placeholder="src:10.0.0.0/8 dport:22 proto:TCP type:malicious vol>500 NOT dst:192.168.1.1"
+          className={`pl-9 pr-9 font-mono text-sm ${error ? "border-red-500 focus-visible:ring-red-500" : ""}`}
+          spellCheck={false}
+          title={FIELD_HELP.join("\n")}
+        />
+        {value && (
+          <button
+            type="button"
+            onClick={() => onChange("")}
+            className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+      {/* 문법 오류 표시 (오류 위치를 ^로 표시) */}
+      {error && (
+        <div className="mt-1 text-xs text-red-600 font-mono">
+          <div className="whitespace-pre overflow-hidden text-gray-500">{value}</div>
+          <div className="whitespace-pre">{`${" ".repeat(error.position)}^ ${error.message}`}</div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default LogQueryBar
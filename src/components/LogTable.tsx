@@ -1,13 +1,20 @@
 /**
  * 실시간 로그 데이터를 표시하는 React 컴포넌트
- * 주기적으로 새로운 로그 데이터를 생성하여 상태를 업데이트하고, 
- * 필터를 통해 로그를 유형별로 분류하여 표시
+ * 실시간 저장소가 텔레메트리 소스의 logs 채널에서 받아 원형 버퍼에 보관한 로그를 
+ * 필터를 통해 유형별로 분류하여 표시
  * 
  * 주요 기능:
- * - 주기적으로 로그 데이터를 생성하여 상태 업데이트
+ * - 실시간 저장소에 보관된 최근 로그(최대 20만 건) 표시 (실시간 추적 중에는 새로 들어온 로그만 필터링하여 앞에 붙임)
+ * - 화면에 보이는 행만 렌더링하는 가상 스크롤 테이블
+ * - 실시간 추적 일시정지/재개 (일시정지 중에는 새로 들어온 로그 수 표시)
+ * - 열 머리글을 눌러 정렬 (실시간 로그는 정렬하는 동안 화면을 고정하여 새 로그가 순서를 흐트러뜨리지 않음)
  * - 필터를 통해 로그를 유형별로 분류하여 표시
+ * - 질의 언어(src:10.0.0.0/8 dport:22 ...)로 로그 검색 (query를 주면 바깥에서 질의를 지정, 예: 통계 차트의 항목)
+ * - 현재 필터링된 로그를 CSV, NDJSON, CEF 파일로 내보내기
+ * - 행을 누르면 상세 드로어에서 관련 이벤트를 보고, 값을 눌러 현재 질의에 조건으로 덧붙임 (피벗)
+ * - 외부 로그 파일(syslog, CEF, NDJSON, Suricata)이나 캡처 파일(pcap)의 패킷을 실시간 로그 대신 표시
  * - 로그 유형에 따른 색상과 아이콘 적용
- * - 테이블 스크롤을 맨 위로 설정
+ * - 위협 인텔리전스 지표와 일치한 주소에 IOC 배지 표시
  * 
  * 사용된 주요 라이브러리:
  * - React: 상태 관리 및 컴포넌트 생명주기 관리
@@ -16,110 +23,241 @@
  * 
  * @component
  * @example
- * const trafficData = [
- *   { inbound: 100, outbound: 200, time: new Date() },
- *   // ...더 많은 트래픽 데이터
- * ];
+ * <TelemetryProvider>
+ *   <LogTable capturedLogs={capture?.logs} />
+ * </TelemetryProvider>
  * 
- * <LogTable trafficData={trafficData} />
- * 
- * @param {Object[]} trafficData - 트래픽 데이터 배열
- * @param {number} trafficData[].inbound - 인바운드 트래픽 양
- * @param {number} trafficData[].outbound - 아웃바운드 트래픽 양
- * @param {Date} trafficData[].time - 트래픽 데이터의 시간
+ * @param {LogEntry[]} [capturedLogs] - 캡처 파일에서 만든 로그 (주어지면 가져온 로그로 표시)
+ * @param {string} [query] - 검색 질의 문자열 (주어지면 onQueryChange와 함께 바깥에서 관리)
+ * @param {(query: string) => void} [onQueryChange] - 검색 질의가 바뀔 때 호출되는 함수
  * 
  * @returns {JSX.Element} 실시간 로그 테이블 컴포넌트
  */
 "use client"
 
 // 필요한 React 훅과 컴포넌트들을 import
-import { useState, useEffect, useRef } from "react"
+import { useState, useEffect, useLayoutEffect, useRef, useMemo } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select"
-import { AlertTriangle, CheckCircle, FileText } from "lucide-react"
-import { generateLogData } from "../utils/dataGenerators"
-
-// 로그 항목의 타입 정의
-interface LogEntry {
-  timestamp: Date
-  sourceIP: string
-  sourcePort: number
-  destinationIP: string
-  destinationPort: number
-  protocol: string
-  type: string
-  trafficVolume: number
+import { AlertTriangle, ArrowDown, ArrowUp, ArrowUpDown, CheckCircle, FileText, Pause, Play } from "lucide-react"
+import { useLiveSelector } from "./telemetry-provider"
+import IocBadge from "./IocBadge"
+import LogDetailDrawer from "./LogDetailDrawer"
+import LogExport from "./LogExport"
+import LogImport from "./LogImport"
+import LogQueryBar from "./LogQueryBar"
+import type { LogEntry, LogType } from "../types/log"
+import { LOG_TYPE_LABELS, LOG_TYPE_TEXT_COLORS } from "../utils/logLabels"
+import {
+  appendQueryClause,
+  matchesLogQuery,
+  parseLogQuery,
+  tryParseLogQuery,
+  type LogQuery,
+} from "../utils/logQuery"
+import { DEFAULT_LOG_SORT, isDefaultLogSort, sortLogs, type LogSort, type LogSortKey } from "../utils/logSort"
+import { createLiveLogFilter, selectLiveLogs } from "../utils/liveStore"
+
+// 필터 값 ("all" 또는 로그 분류)
+type LogFilter = "all" | LogType
+
+// 가상 스크롤 설정 (행 높이는 렌더링 후 실제 높이로 보정)
+const VIEWPORT_HEIGHT = 400
+const HEADER_HEIGHT = 48
+const DEFAULT_ROW_HEIGHT = 41
+const OVERSCAN_ROWS = 10
+
+// 테이블 열 (머리글을 누르면 해당 필드로 정렬)
+const COLUMNS: { key: LogSortKey; label: string }[] = [
+  { key: "timestamp", label: "시간" },
+  { key: "sourceIP", label: "출발 IP" },
+  { key: "sourcePort", label: "출발 Port" },
+  { key: "destinationIP", label: "도착 IP" },
+  { key: "destinationPort", label: "도착 Port" },
+  { key: "protocol", label: "프로토콜" },
+  { key: "type", label: "유형" },
+  { key: "trafficVolume", label: "트래픽 용량" },
+]
+
+// 일시정지 시점에 고정한 로그 목록과 그때까지 들어온 로그 수
+interface LogSnapshot {
+  logs: LogEntry[]
+  total: number
 }
 
 // 컴포넌트에 전달될 props 타입 정의
 interface LogTableProps {
-  trafficData: { inbound: number; outbound: number; time: Date }[]
+  capturedLogs?: LogEntry[]
+  query?: string
+  onQueryChange?: (query: string) => void
 }
 
 // LogTable 컴포넌트 정의
-const LogTable: React.FC<LogTableProps> = ({ trafficData }) => {
-  // 로그 상태와 필터 상태 정의
-  const [logs, setLogs] = useState<LogEntry[]>([])
-  const [filter, setFilter] = useState("all")
+const LogTable: React.FC<LogTableProps> = ({ capturedLogs, query, onQueryChange }) => {
+  // 실시간 저장소의 로그 버퍼와 지금까지 들어온 로그 수
+  const liveLogs = useLiveSelector(selectLiveLogs)
+  const logTotal = liveLogs.total
+  // 일시정지 중이면 고정된 로그 목록, 실시간 추적 중이면 null
+  const [snapshot, setSnapshot] = useState<LogSnapshot | null>(null)
+  const [sort, setSort] = useState<LogSort>(DEFAULT_LOG_SORT)
+  const [filter, setFilter] = useState<LogFilter>("all")
+  // 가져온 로그와 표시 대상 (실시간 / 가져온 로그)
+  const [importedLogs, setImportedLogs] = useState<LogEntry[]>([])
+  const [view, setView] = useState<"live" | "imported">("live")
+  // 상세 드로어에 표시할 로그
+  const [selectedLog, setSelectedLog] = useState<LogEntry | null>(null)
+  // 검색 질의 문자열 (query가 주어지면 바깥에서 관리)과 마지막으로 파싱에 성공한 질의
+  const [localQueryText, setLocalQueryText] = useState("")
+  const queryText = query ?? localQueryText
+  const lastValidQuery = useRef<LogQuery>(parseLogQuery(""))
+  const parsedQuery = useMemo(() => tryParseLogQuery(queryText), [queryText])
+  if (parsedQuery.query) lastValidQuery.current = parsedQuery.query
+  const appliedQuery = lastValidQuery.current
+  const queryError = parsedQuery.error
+  // 가상 스크롤 상태
+  const [scrollTop, setScrollTop] = useState(0)
+  const [rowHeight, setRowHeight] = useState(DEFAULT_ROW_HEIGHT)
   const tableRef = useRef<HTMLDivElement>(null)
+  const firstRowRef = useRef<HTMLTableRowElement>(null)
 
-  // 주기적으로 로그 데이터를 생성하여 상태 업데이트
-  useEffect(() => {
-    // 1초마다 실행되는 인터벌 설정
-    const interval = setInterval(() => {
-      setLogs((prevLogs) => {
-        // trafficData의 마지막 항목을 기반으로 새로운 로그 데이터 생성
-        const newLogs = generateLogData(trafficData.slice(-1), [])
-        // 새로운 로그가 존재하면 기존 로그와 합쳐서 최대 100개까지 유지
-        return Array.isArray(newLogs) && newLogs.length > 0
-          ? [...newLogs, ...(prevLogs || [])].slice(0, 100)
-          : prevLogs || []
-      })
-    }, 1000)
-
-    // 컴포넌트가 언마운트될 때 인터벌 정리
-    return () => clearInterval(interval)
-  }, [trafficData])
-
-  // 컴포넌트가 처음 렌더링될 때 테이블 스크롤을 맨 위로 설정
+  const paused = snapshot !== null
+
+  // 캡처 파일 분석 결과가 들어오면 가져온 로그로 표시하고, 해제되면 실시간 로그로 돌아감
   useEffect(() => {
-    if (tableRef.current) {
-      tableRef.current.scrollTop = 0
+    if (capturedLogs) {
+      setImportedLogs(capturedLogs)
+      setView("imported")
+    } else {
+      setView("live")
     }
-  }, [])
-
-  // 필터링된 로그를 반환하는 함수
-  const getFilteredLogs = () => {
-    if (!Array.isArray(logs) || logs.length === 0) return []
-
-    return logs.filter((log) => {
-      if (!log || typeof log.type !== "string") return false
-      if (filter === "all") return true
-      if (filter === "normal") return log.type === "정상"
-      if (filter === "malicious") return log.type.startsWith("악성")
-      if (filter === "new") return log.type === "새로운 패턴"
-      return false
-    })
+  }, [capturedLogs])
+
+  // 테이블 스크롤을 맨 위로 이동
+  const scrollToTop = () => {
+    if (tableRef.current) tableRef.current.scrollTop = 0
+    setScrollTop(0)
   }
 
-  // 로그 유형에 따른 색상을 반환하는 함수
-  const getTypeColor = (type: string) => {
-    if (type === "정상") return "text-green-600"
-    if (type === "악성") return "text-red-600"
-    if (type === "새로운 패턴") return "text-yellow-600"
-    return "text-gray-600"
+  // 현재 버퍼 내용을 고정하여 실시간 추적을 멈춤
+  const pause = () => setSnapshot({ logs: liveLogs.buffer.toArray(), total: logTotal })
+
+  // 기본 정렬(최신순)로 돌아가 실시간 추적을 다시 시작
+  const resume = () => {
+    setSnapshot(null)
+    setSort(DEFAULT_LOG_SORT)
+    scrollToTop()
   }
 
+  // 새 로그 알림을 누르면 기본 정렬에서는 실시간 추적을 재개하고, 다른 정렬에서는 고정 목록만 갱신
+  const refresh = () => {
+    if (isDefaultLogSort(sort)) {
+      resume()
+    } else {
+      pause()
+      scrollToTop()
+    }
+  }
+
+  // 열 머리글을 누르면 같은 열은 방향을 바꾸고, 다른 열은 새로 정렬
+  const handleSort = (key: LogSortKey) => {
+    const next: LogSort =
+      sort.key === key
+        ? { key, direction: sort.direction === "asc" ? "desc" : "asc" }
+        : { key, direction: key === "timestamp" || key === "trafficVolume" ? "desc" : "asc" }
+    // 실시간 로그를 기본 정렬이 아닌 순서로 볼 때는 새 로그가 순서를 흐트러뜨리지 않도록 고정
+    if (view === "live" && !paused && !isDefaultLogSort(next)) pause()
+    setSort(next)
+  }
+
+  // 스크롤 위치를 기록하고, 실시간 추적 중 아래로 스크롤하면 보고 있는 행이 밀리지 않도록 일시정지
+  const handleScroll = (event: React.UIEvent<HTMLDivElement>) => {
+    const top = event.currentTarget.scrollTop
+    setScrollTop(top)
+    if (view === "live" && !paused && top > rowHeight) pause()
+  }
+
+  // 질의 문자열을 바꿈 (문법이 올바르면 필터에 적용)
+  const handleQueryChange = (text: string) => {
+    setLocalQueryText(text)
+    onQueryChange?.(text)
+  }
+
+  // 드로어에서 누른 값을 현재 질의에 AND 조건으로 덧붙임
+  const handlePivot = (clause: string) => handleQueryChange(appendQueryClause(queryText, clause))
+
+  // 가져온 로그를 최신순으로 정렬하여 표시
+  const handleImport = (entries: LogEntry[]) => {
+    setImportedLogs(
+      [...entries, ...importedLogs].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime()),
+    )
+    setView("imported")
+  }
+
+  // 질의와 유형 필터를 모두 만족하는지 확인하는 함수
+  // (문법 오류가 있는 동안에는 마지막으로 올바르게 입력된 질의를 적용)
+  const matches = useMemo(
+    () => (log: LogEntry) => (filter === "all" || log.type === filter) && matchesLogQuery(appliedQuery, log),
+    [appliedQuery, filter],
+  )
+
+  // 실시간 추적 중인 로그의 필터 결과 (조건이 바뀔 때만 버퍼 전체를 다시 평가)
+  const liveFilter = useMemo(() => createLiveLogFilter(matches), [matches])
+  const tracking = view === "live" && !snapshot
+
+  // 고정된 목록(일시정지 중인 실시간 로그 / 가져온 로그)의 필터 결과
+  const fixedLogs = view === "live" ? snapshot?.logs : importedLogs
+  const filteredFixedLogs = useMemo(() => {
+    if (!fixedLogs) return []
+    const filtered = fixedLogs.filter(matches)
+    // 고정된 목록은 이미 최신순이므로 기본 정렬이면 그대로 사용
+    return isDefaultLogSort(sort) ? filtered : sortLogs(filtered, sort)
+  }, [fixedLogs, matches, sort])
+
+  // 필터링하고 정렬한 로그 데이터 (실시간 추적 중에는 항상 기본 정렬)
+  const filteredLogs = tracking ? liveFilter.update(liveLogs) : filteredFixedLogs
+
+  // 상세 드로어에서 관련 이벤트를 찾을 로그 (선택한 로그와 출발 IP나 도착 포트가 같은 로그)
+  // 실시간 추적 중에는 선택할 때 버퍼를 한 번 훑고, 이후에는 새로 들어온 로그만 확인하여 이어 붙임
+  const relatedFilter = useMemo(
+    () =>
+      selectedLog &&
+      createLiveLogFilter(
+        (log) => log.sourceIP === selectedLog.sourceIP || log.destinationPort === selectedLog.destinationPort,
+      ),
+    [selectedLog],
+  )
+  const relatedLogs = fixedLogs ?? (relatedFilter ? relatedFilter.update(liveLogs) : [])
+
+  // 화면에 보이는 구간(앞뒤 여유 행 포함)만 렌더링
+  const firstIndex = Math.max(0, Math.floor((scrollTop - HEADER_HEIGHT) / rowHeight) - OVERSCAN_ROWS)
+  const lastIndex = Math.min(filteredLogs.length, firstIndex + Math.ceil(VIEWPORT_HEIGHT / rowHeight) + OVERSCAN_ROWS * 2)
+  const visibleLogs = filteredLogs.slice(firstIndex, lastIndex)
+  const hasRows = visibleLogs.length > 0
+
+  // 실제로 렌더링된 행 높이로 가상 스크롤 계산을 보정
+  // (셀은 줄바꿈하지 않아 행 높이가 같으므로 행이 처음 그려질 때만 측정)
+  useLayoutEffect(() => {
+    const height = firstRowRef.current?.getBoundingClientRect().height
+    if (height && Math.abs(height - rowHeight) > 0.5) setRowHeight(height)
+  }, [hasRows, rowHeight])
+  const newLogCount = snapshot ? logTotal - snapshot.total : 0
+
+  // 로그 유형에 따른 색상을 반환하는 함수
+  const getTypeColor = (type: LogType) => LOG_TYPE_TEXT_COLORS[type] ?? "text-gray-600"
+
   // 로그 유형에 따른 아이콘을 반환하는 함수
-  const getTypeIcon = (type: string) => {
-    if (type === "정상") return <CheckCircle className="w-4 h-4" />
-    if (type.startsWith("악성")) return <AlertTriangle className="w-4 h-4" />
+  const getTypeIcon = (type: LogType) => {
+    if (type === "normal") return <CheckCircle className="w-4 h-4" />
+    if (type === "malicious") return <AlertTriangle className="w-4 h-4" />
     return null
   }
 
-  // 필터링된 로그 데이터
-  const filteredLogs = getFilteredLogs()
+  // 정렬 상태에 따른 머리글 아이콘
+  const getSortIcon = (key: LogSortKey) => {
+    if (sort.key !== key) return <ArrowUpDown className="w-3 h-3 opacity-40" />
+    return sort.direction === "asc" ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />
+  }
 
   return (
     // 카드 컴포넌트로 전체 로그 테이블을 감쌈
@@ -134,58 +272,134 @@ const LogTable: React.FC<LogTableProps> = ({ trafficData }) => {
       {/* 카드 내용 부분 */}
       <CardContent className="bg-white p-6">
         {/* 필터 선택 부분 */}
-        <div className="flex justify-between items-center mb-4">
-          <Select value={filter} onValueChange={setFilter}>
-            <SelectTrigger className="w-[180px]">
-              <SelectValue placeholder="필터 선택" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all">모든 로그</SelectItem>
-              <SelectItem value="normal">정상 로그</SelectItem>
-              <SelectItem value="malicious">악성 로그</SelectItem>
-              <SelectItem value="new">새로운 패턴</SelectItem>
-            </SelectContent>
-          </Select>
+        <div className="flex justify-between items-start gap-4 mb-4">
+          <div className="flex flex-1 items-start gap-2">
+            <Select value={filter} onValueChange={(value) => setFilter(value as LogFilter)}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue placeholder="필터 선택" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">모든 로그</SelectItem>
+                <SelectItem value="normal">정상 로그</SelectItem>
+                <SelectItem value="malicious">악성 로그</SelectItem>
+                <SelectItem value="novel">새로운 패턴</SelectItem>
+              </SelectContent>
+            </Select>
+            {/* 가져온 로그가 있으면 표시 대상을 선택 */}
+            {importedLogs.length > 0 && (
+              <Select value={view} onValueChange={(value) => setView(value as "live" | "imported")}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="live">실시간 로그</SelectItem>
+                  <SelectItem value="imported">가져온 로그 ({importedLogs.length}건)</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+            <LogQueryBar value={queryText} onChange={handleQueryChange} error={queryError} />
+          </div>
+          <div className="flex flex-col items-end gap-2">
+            <LogImport onImport={handleImport} />
+            <LogExport logs={filteredLogs} />
+          </div>
+        </div>
+        {/* 실시간 추적 상태 표시줄 */}
+        <div className="flex items-center justify-between mb-2 text-sm text-gray-600">
+          {view === "live" ? (
+            <div className="flex items-center gap-3">
+              <button
+                type="button"
+                onClick={paused ? resume : pause}
+                className="flex items-center gap-1 px-2 py-1 rounded border border-gray-300 hover:bg-gray-100"
+              >
+                {paused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+                {paused ? "재개" : "일시정지"}
+              </button>
+              <span className={`flex items-center gap-1 ${paused ? "text-gray-500" : "text-green-600"}`}>
+                <span className={`w-2 h-2 rounded-full ${paused ? "bg-gray-400" : "bg-green-500 animate-pulse"}`} />
+                {paused ? "일시정지됨" : "실시간 추적 중"}
+              </span>
+              {/* 일시정지 중에 들어온 로그 수 (누르면 갱신) */}
+              {newLogCount > 0 && (
+                <button
+                  type="button"
+                  onClick={refresh}
+                  className="px-2 py-1 rounded-full bg-blue-100 text-blue-700 hover:bg-blue-200"
+                >
+                  새 로그 {newLogCount.toLocaleString()}건
+                </button>
+              )}
+            </div>
+          ) : (
+            <span>가져온 로그</span>
+          )}
+          <span>
+            표시 {filteredLogs.length.toLocaleString()}건
+            {view === "live" && ` / 보관 ${liveLogs.buffer.size().toLocaleString()}건`}
+          </span>
         </div>
-        {/* 로그 테이블 부분 */}
-        <div ref={tableRef} className="overflow-auto h-[400px]">
+        {/* 로그 테이블 부분 (보이는 행만 렌더링하고 나머지는 빈 행으로 높이만 유지) */}
+        <div ref={tableRef} className="overflow-auto" style={{ height: VIEWPORT_HEIGHT }} onScroll={handleScroll}>
           <Table>
             <TableHeader>
               <TableRow>
-                <TableHead>시간</TableHead>
-                <TableHead>출발 IP</TableHead>
-                <TableHead>출발 Port</TableHead>
-                <TableHead>도착 IP</TableHead>
-                <TableHead>도착 Port</TableHead>
-                <TableHead>프로토콜</TableHead>
-                <TableHead>유형</TableHead>
-                <TableHead>트래픽 용량</TableHead>
+                {COLUMNS.map((column) => (
+                  <TableHead key={column.key} className="whitespace-nowrap">
+                    <button
+                      type="button"
+                      onClick={() => handleSort(column.key)}
+                      className="flex items-center gap-1 hover:text-gray-900"
+                    >
+                      {column.label}
+                      {getSortIcon(column.key)}
+                    </button>
+                  </TableHead>
+                ))}
               </TableRow>
             </TableHeader>
             <TableBody>
-              {filteredLogs.map((log, index) => (
-              <TableRow key={index} className="transition-all duration-300 ease-in-out">
+              {firstIndex > 0 && <tr aria-hidden style={{ height: firstIndex * rowHeight }} />}
+              {visibleLogs.map((log, index) => (
+              <TableRow
+                key={log.id}
+                ref={index === 0 ? firstRowRef : undefined}
+                onClick={() => setSelectedLog(log)}
+                data-state={selectedLog?.id === log.id ? "selected" : undefined}
+                className="cursor-pointer"
+              >
                 <>
-                <TableCell>{log.timestamp instanceof Date ? log.timestamp.toLocaleTimeString() : "N/A"}</TableCell> {/* 로그의 타임스탬프를 시간 형식으로 표시 */}
-                <TableCell>{log.sourceIP || "N/A"}</TableCell> {/* 로그의 출발 IP 주소를 표시 */}
-                <TableCell>{typeof log.sourcePort === "number" ? log.sourcePort : "N/A"}</TableCell> {/* 로그의 출발 포트를 표시 */}
-                <TableCell>{log.destinationIP || "N/A"}</TableCell> {/* 로그의 도착 IP 주소를 표시 */}
-                <TableCell>{typeof log.destinationPort === "number" ? log.destinationPort : "N/A"}</TableCell> {/* 로그의 도착 포트를 표시 */}
-                <TableCell>{log.protocol || "N/A"}</TableCell> {/* 로그의 프로토콜을 표시 */}
-                <TableCell>
-                <span className={`flex items-center ${getTypeColor(log.type || "")}`}>
-                {getTypeIcon(log.type || "")}
-                <span className="ml-1">{log.type.startsWith("악성") ? "악성" : log.type || "N/A"}</span>
+                <TableCell className="py-2 whitespace-nowrap">{log.timestamp instanceof Date ? log.timestamp.toLocaleTimeString() : "N/A"}</TableCell> {/* 로그의 타임스탬프를 시간 형식으로 표시 */}
+                <TableCell className="py-2 whitespace-nowrap">{log.sourceIP || "N/A"}<IocBadge matches={log.iocMatches} field="sourceIP" /></TableCell> {/* 로그의 출발 IP 주소와 위협 인텔리전스 일치 배지를 표시 */}
+                <TableCell className="py-2 whitespace-nowrap">{typeof log.sourcePort === "number" ? log.sourcePort : "N/A"}</TableCell> {/* 로그의 출발 포트를 표시 */}
+                <TableCell className="py-2 whitespace-nowrap">{log.destinationIP || "N/A"}<IocBadge matches={log.iocMatches} field="destinationIP" /></TableCell> {/* 로그의 도착 IP 주소와 위협 인텔리전스 일치 배지를 표시 */}
+                <TableCell className="py-2 whitespace-nowrap">{typeof log.destinationPort === "number" ? log.destinationPort : "N/A"}</TableCell> {/* 로그의 도착 포트를 표시 */}
+                <TableCell className="py-2 whitespace-nowrap">{log.protocol || "N/A"}</TableCell> {/* 로그의 프로토콜을 표시 */}
+                <TableCell className="py-2 whitespace-nowrap">
+                <span className={`flex items-center ${getTypeColor(log.type)}`}>
+                {getTypeIcon(log.type)}
+                <span className="ml-1">{LOG_TYPE_LABELS[log.type] ?? "N/A"}</span>
                 </span>
                 </TableCell> {/* 로그 유형에 따른 색상과 아이콘 적용 */}
-                <TableCell>{`${typeof log.trafficVolume === "number" ? log.trafficVolume : 0} KB`}</TableCell> {/* 로그의 트래픽 용량을 KB 단위로 표시 */}
+                <TableCell className="py-2 whitespace-nowrap">{`${typeof log.trafficVolume === "number" ? log.trafficVolume : 0} KB`}</TableCell> {/* 로그의 트래픽 용량을 KB 단위로 표시 */}
                 </>
               </TableRow>
               ))}
+              {lastIndex < filteredLogs.length && (
+                <tr aria-hidden style={{ height: (filteredLogs.length - lastIndex) * rowHeight }} />
+              )}
             </TableBody>
           </Table>
         </div>
       </CardContent>
+      {/* 선택한 로그의 상세 정보와 관련 이벤트 */}
+      <LogDetailDrawer
+        log={selectedLog}
+        logs={relatedLogs}
+        onSelect={setSelectedLog}
+        onClose={() => setSelectedLog(null)}
+        onPivot={handlePivot}
+      />
     </Card>
   )
 }
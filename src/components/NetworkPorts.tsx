@@ -2,7 +2,7 @@
  * 이 컴포넌트는 네트워크 포트의 연결 상태와 속도를 시각적으로 표시
  * 
  * 주요 기능:
- * - 네트워크 포트 정보를 배열로 정의하고 이를 기반으로 UI를 구성
+ * - 실시간 저장소에서 텔레메트리 소스의 ports 채널로 받은 네트워크 포트 정보로 UI를 구성
  * - Card 컴포넌트를 사용하여 전체 레이아웃을 구성
  * - CardHeader와 CardTitle 컴포넌트를 사용하여 헤더 영역을 구성하고, 네트워크 아이콘과 제목을 표시
  * - CardContent 컴포넌트를 사용하여 내용 영역을 구성하고, 그리드 레이아웃으로 포트 정보를 표시
@@ -18,15 +18,18 @@ import type React from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card" // Card 컴포넌트 관련 import
 import { Badge } from "./ui/badge" // Badge 컴포넌트 import
 import { Network } from "lucide-react" // Network 아이콘 import
+import { useLiveSelector } from "./telemetry-provider" // 실시간 저장소 선택 훅 import
+import { selectPorts } from "../utils/liveStore" // 포트 상태 선택자 import
+
+// 포트 속도(Mbps)를 표시용 문자열로 변환
+const formatSpeed = (speedMbps: number | null) => {
+  if (speedMbps === null) return "-"
+  return speedMbps >= 1000 ? `${speedMbps / 1000} Gbps` : `${speedMbps} Mbps`
+}
 
 const NetworkPorts: React.FC = () => {
   // 네트워크 포트 정보 배열
-  const ports = [
-    { id: 0, name: "Eth 0", status: "연결됨", speed: "1 Gbps" },
-    { id: 1, name: "Eth 1", status: "연결됨", speed: "10 Gbps" },
-    { id: 2, name: "Eth 2", status: "연결 안됨", speed: "-" },
-    { id: 3, name: "Eth 3", status: "연결됨", speed: "100 Mbps" },
-  ]
+  const ports = useLiveSelector(selectPorts)
 
   return (
     <Card className="shadow-lg overflow-hidden"> {/* Card 컴포넌트로 전체 레이아웃 구성 */}
@@ -41,8 +44,8 @@ const NetworkPorts: React.FC = () => {
             <div key={port.id} className="flex items-center justify-between p-4 bg-gray-50 rounded-lg shadow"> {/* 각 포트 정보를 개별 카드로 표시 */}
               <span className="font-medium text-gray-700">{port.name}</span> {/* 포트 이름 표시 */}
               <div className="flex items-center space-x-2"> {/* 포트 상태와 속도 표시 */}
-                <Badge variant={port.status === "연결됨" ? "default" : "destructive"}>{port.status}</Badge> {/* 상태에 따라 Badge 색상 변경 */}
-                <span className="text-sm text-gray-500">{port.speed}</span>
+                <Badge variant={port.connected ? "default" : "destructive"}>{port.connected ? "연결됨" : "연결 안됨"}</Badge> {/* 상태에 따라 Badge 색상 변경 */}
+                <span className="text-sm text-gray-500">{formatSpeed(port.speedMbps)}</span>
               </div>
             </div>
           ))}
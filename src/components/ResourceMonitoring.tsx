@@ -10,11 +10,8 @@
  * - `color`: 게이지 색상 (string)
  * - `unit`: 단위 (string)
  * 
- * `ResourceMonitoring` 컴포넌트는 내부 상태로 리소스 목록을 관리하며, 2초마다 리소스 값을 업데이트
- * 각 리소스 항목은 이름, 현재 값, 최대 값, 단위, 아이콘, 색상 등의 속성을 가짐짐
- * 
- * `useEffect` 훅을 사용하여 컴포넌트가 마운트될 때 2초 간격으로 리소스 값을 업데이트하는 인터벌을 설정하고,
- * 컴포넌트가 언마운트될 때 인터벌을 클리어
+ * `ResourceMonitoring` 컴포넌트는 실시간 저장소에서 텔레메트리 소스의 resources 채널로 받은 리소스 값을 표시
+ * 각 리소스 항목은 지표 키, 이름, 최대 값, 단위, 아이콘, 색상 등의 속성을 가짐짐
  * 
  * `Card`, `CardHeader`, `CardTitle`, `CardContent` 컴포넌트를 사용하여 대시보드의 레이아웃과 스타일을 구성
  * 
@@ -23,10 +20,13 @@
 "use client"
 
 import type React from "react"
-import { useEffect, useState } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card"
 import { PieChart, Pie, Cell, ResponsiveContainer, Label } from "recharts"
 import { Cpu, Thermometer, MemoryStick, Fan, Activity, Gauge } from "lucide-react"
+import { useLiveSelector } from "./telemetry-provider"
+import type { ResourceMetrics } from "../types/telemetry"
+import { RESOURCE_METRIC_MAX } from "../utils/dataGenerators"
+import { selectResources } from "../utils/liveStore"
 
 // SemiCircleGauge 컴포넌트는 반원형 게이지를 렌더링함
 const SemiCircleGauge = ({
@@ -107,79 +107,42 @@ const SemiCircleGauge = ({
   )
 }
 
+// 리소스 항목별 표시 정보 (지표 키, 이름, 단위, 아이콘, 색상)
+const RESOURCE_ITEMS: {
+  key: keyof ResourceMetrics
+  name: string
+  unit: string
+  icon: React.ElementType
+  color: string
+}[] = [
+  { key: "cpuUsage", name: "CPU 점유율", unit: "%", icon: Cpu, color: "#3B82F6" },
+  { key: "cpuTemperature", name: "CPU 온도", unit: "°C", icon: Thermometer, color: "#EF4444" },
+  { key: "fanSpeed", name: "쿨러 팬 상태", unit: "RPM", icon: Fan, color: "#10B981" },
+  { key: "memoryUsage", name: "메모리 점유율", unit: "%", icon: MemoryStick, color: "#8B5CF6" },
+  { key: "memoryTemperature", name: "메모리 온도", unit: "°C", icon: Thermometer, color: "#F59E0B" },
+  { key: "bandwidth", name: "대역폭", unit: "Mbps", icon: Activity, color: "#6366F1" },
+]
+
+// 첫 데이터가 도착하기 전에 표시할 값
+const EMPTY_METRICS: ResourceMetrics = {
+  cpuUsage: 0,
+  cpuTemperature: 0,
+  fanSpeed: 0,
+  memoryUsage: 0,
+  memoryTemperature: 0,
+  bandwidth: 0,
+}
+
 // ResourceMonitoring 컴포넌트는 리소스 모니터링 대시보드를 렌더링함
 const ResourceMonitoring: React.FC = () => {
-  const [resources, setResources] = useState([
-    {
-      name: "CPU 점유율",
-      value: 45,
-      maxValue: 100,
-      unit: "%",
-      icon: Cpu,
-      color: "#3B82F6",
-    },
-    {
-      name: "CPU 온도",
-      value: 55,
-      maxValue: 100,
-      unit: "°C",
-      icon: Thermometer,
-      color: "#EF4444",
-    },
-    {
-      name: "쿨러 팬 상태",
-      value: 3500,
-      maxValue: 3500,
-      unit: "RPM",
-      icon: Fan,
-      color: "#10B981",
-    },
-    {
-      name: "메모리 점유율",
-      value: 60,
-      maxValue: 100,
-      unit: "%",
-      icon: MemoryStick,
-      color: "#8B5CF6",
-    },
-    {
-      name: "메모리 온도",
-      value: 40,
-      maxValue: 100,
-      unit: "°C",
-      icon: Thermometer,
-      color: "#F59E0B",
-    },
-    {
-      name: "대역폭",
-      value: 75,
-      maxValue: 100,
-      unit: "Mbps",
-      icon: Activity,
-      color: "#6366F1",
-    },
-  ])
-
-  // useEffect 훅을 사용하여 2초마다 리소스 값을 업데이트함
-  useEffect(() => {
-    // 2초마다 실행되는 인터벌 설정
-    const interval = setInterval(() => {
-      // 이전 리소스 상태를 기반으로 새로운 리소스 상태를 설정
-      setResources((prevResources) =>
-        prevResources.map((resource) => ({
-          ...resource, // 기존 리소스 속성 유지
-          // 값 업데이트 (최대값과 최소값 사이에서 랜덤하게 변경)
-          value: Math.min(
-            resource.maxValue,
-            Math.max(0, resource.value + (Math.random() - 0.5) * 10)
-          ),
-        }))
-      )
-    }, 2000) // 2초 간격
+  // 텔레메트리 소스의 최신 리소스 지표
+  const metrics = useLiveSelector(selectResources) ?? EMPTY_METRICS
 
-    // 컴포넌트 언마운트 시 인터벌 클리어
-    return () => clearInterval(interval)
-  }, []) // 빈 배열을 의존성으로 설정하여 컴포넌트 마운트 시 한 번만 실행
+  const resources = RESOURCE_ITEMS.map((item) => ({
+    ...item,
+    value: metrics[item.key],
+    maxValue: RESOURCE_METRIC_MAX[item.key],
+  }))
 
   return (
     <Card className="shadow-lg overflow-hidden h-full"> {/* 카드 컴포넌트를 사용하여 리소스 모니터링 대시보드를 렌더링 */}
@@ -190,9 +153,9 @@ const ResourceMonitoring: React.FC = () => {
       </CardHeader>
       <CardContent className="p-3 bg-white"> {/* 카드 콘텐츠 설정 */}
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3"> {/* 그리드 레이아웃을 사용하여 리소스 항목들을 배치 */}
-          {resources.map((resource, index) => (
+          {resources.map((resource) => (
             <div
-              key={index} // 각 항목에 고유 키 설정
+              key={resource.key} // 각 항목에 고유 키 설정
               className="bg-gray-50 rounded-lg shadow flex flex-col h-[100px] sm:h-[120px] md:h-[140px] lg:h-[160px]"
             >
               <div className="px-3 pt-2"> {/* 리소스 이름과 아이콘을 표시 */}
@@ -0,0 +1,13 @@
+"use client"
+
+import type { RuleSeverity } from "../types/rule"
+import { RULE_SEVERITY_BADGE_COLORS, RULE_SEVERITY_LABELS } from "../utils/ruleLabels"
+
+// 탐지 규칙과 알림의 심각도 배지
+const SeverityBadge = ({ severity }: { severity: RuleSeverity }) => (
+  <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${RULE_SEVERITY_BADGE_COLORS[severity]}`}>
+    {RULE_SEVERITY_LABELS[severity]}
+  </span>
+)
+
+export default SeverityBadge
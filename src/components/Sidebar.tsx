@@ -3,6 +3,7 @@
  * - 메뉴 아이템을 클릭하여 서브 메뉴를 열고 닫을 수 있음음
  * - 각 메뉴 아이템은 아이콘과 라벨을 포함하며, 서브 메뉴가 있는 경우 토글 기능을 제공
  * - 서브 메뉴 아이템은 클릭 시 배경색이 변경되는 효과를 가짐짐
+ * - 화면이 있는 메뉴는 해시 경로(#/rules 등)로 이동하고, 현재 화면의 메뉴를 강조
  * 
  * 사용된 주요 라이브러리:
  * - React: 컴포넌트 상태 관리 및 렌더링
@@ -36,11 +37,22 @@ import {
   FileText,
   Database,
 } from "lucide-react"
+import { useHashRoute } from "./hash-router"
+
+// 메뉴 링크 (href가 없으면 아직 화면이 없는 메뉴)
+interface MenuLink {
+  label: string
+  href?: string
+}
 
 // Sidebar 컴포넌트 정의
 const Sidebar = () => {
   // 메뉴의 열림/닫힘 상태를 관리하는 상태 변수
   const [openMenus, setOpenMenus] = useState<string[]>([])
+  const route = useHashRoute()
+  // 하위 경로(#/incidents/<id>)도 해당 메뉴의 화면으로 취급
+  const isActive = (href?: string) =>
+    href !== undefined && (href === `#${route}` || `#${route}`.startsWith(`${href}/`))
 
   // 메뉴를 토글하는 함수
   const toggleMenu = (menu: string) => {
@@ -48,17 +60,31 @@ const Sidebar = () => {
   }
 
   // 개별 메뉴 아이템 컴포넌트
-  const MenuItem = ({ icon: Icon, label, subItems = [] }: { icon: any; label: string; subItems?: string[] }) => {
+  const MenuItem = ({
+    icon: Icon,
+    label,
+    href,
+    subItems = [],
+  }: {
+    icon: any
+    label: string
+    href?: string
+    subItems?: MenuLink[]
+  }) => {
     const hasSubItems = subItems.length > 0 // 서브 아이템이 있는지 여부
-    const isOpen = openMenus.includes(label) // 현재 메뉴가 열려 있는지 여부
+    // 현재 메뉴가 열려 있는지 여부 (현재 화면의 서브 아이템이 있으면 항상 열림)
+    const isOpen = openMenus.includes(label) || subItems.some((item) => isActive(item.href))
 
     return (
       <li>
         <div
           className={`flex items-center justify-between p-2 rounded-lg hover:bg-blue-100 cursor-pointer transition-colors ${
-            isOpen ? "bg-blue-100" : ""
+            isOpen || isActive(href) ? "bg-blue-100" : ""
           }`}
-          onClick={() => hasSubItems && toggleMenu(label)} // 서브 아이템이 있는 경우에만 토글
+          onClick={() => {
+            if (hasSubItems) toggleMenu(label) // 서브 아이템이 있는 경우에만 토글
+            else if (href) window.location.hash = href
+          }}
         >
           <div className="flex items-center space-x-2">
             <Icon className="h-5 w-5 text-blue-600" /> {/* 메뉴 아이콘 */}
@@ -75,8 +101,14 @@ const Sidebar = () => {
           <ul className="ml-6 mt-2 space-y-1">
             {subItems.map((item, index) => (
               <li key={index}>
-                <a href="#" className="block p-2 rounded-lg hover:bg-blue-100 text-gray-600 transition-colors">
-                  {item} {/* 서브 아이템 */}
+                <a
+                  href={item.href ?? "#"}
+                  onClick={(event) => !item.href && event.preventDefault()}
+                  className={`block p-2 rounded-lg hover:bg-blue-100 text-gray-600 transition-colors ${
+                    isActive(item.href) ? "bg-blue-100 text-blue-700 font-medium" : ""
+                  }`}
+                >
+                  {item.label} {/* 서브 아이템 */}
                 </a>
               </li>
             ))}
@@ -92,13 +124,34 @@ const Sidebar = () => {
       <nav>
         <ul className="space-y-2">
           {/* 각 메뉴 아이템 */}
-          <MenuItem icon={Home} label="홈" />
-          <MenuItem icon={BarChart2} label="트래픽 분석" subItems={["실시간 트래픽", "트래픽 보고서"]} />
-          <MenuItem icon={Shield} label="보안 관리" subItems={["방화벽 규칙", "위협 탐지", "취약점 스캔"]} />
-          <MenuItem icon={AlertTriangle} label="인시던트 관리" subItems={["알림 센터", "인시던트 로그"]} />
-          <MenuItem icon={Users} label="사용자 관리" subItems={["사용자 목록", "권한 설정"]} />
-          <MenuItem icon={Server} label="자산 관리" subItems={["네트워크 장비", "서버", "엔드포인트"]} />
-          <MenuItem icon={FileText} label="보고서" subItems={["보안 보고서", "감사 로그"]} />
+          <MenuItem icon={Home} label="홈" href="#/" />
+          <MenuItem
+            icon={BarChart2}
+            label="트래픽 분석"
+            subItems={[{ label: "실시간 트래픽" }, { label: "트래픽 보고서" }]}
+          />
+          <MenuItem
+            icon={Shield}
+            label="보안 관리"
+            subItems={[
+              { label: "방화벽 규칙", href: "#/firewall" },
+              { label: "탐지 규칙", href: "#/rules" },
+              { label: "위협 인텔리전스", href: "#/ioc" },
+              { label: "취약점 스캔" },
+            ]}
+          />
+          <MenuItem
+            icon={AlertTriangle}
+            label="인시던트 관리"
+            subItems={[{ label: "알림 센터", href: "#/alerts" }, { label: "인시던트 로그", href: "#/incidents" }]}
+          />
+          <MenuItem icon={Users} label="사용자 관리" subItems={[{ label: "사용자 목록" }, { label: "권한 설정" }]} />
+          <MenuItem
+            icon={Server}
+            label="자산 관리"
+            subItems={[{ label: "네트워크 장비" }, { label: "서버" }, { label: "엔드포인트" }]}
+          />
+          <MenuItem icon={FileText} label="보고서" subItems={[{ label: "보안 보고서" }, { label: "감사 로그" }]} />
           <MenuItem icon={Database} label="백업" />
           <MenuItem icon={Settings} label="설정" />
         </ul>
@@ -1,129 +1,189 @@
 /**
  * @component
- * Statistics 컴포넌트는 두 가지 주요 데이터를 시각화
- * 1. attackData: 정상 패킷, 악성 패킷, 새로운 패턴으로 분류된 패킷 데이터
- * 2. trafficData: 국가별 트래픽 빈도 데이터
- * 
- * 이 컴포넌트는 useState와 useEffect 훅을 사용하여 상태를 관리하고, 일정 간격으로 데이터를 업데이트
- * 
+ * Statistics 컴포넌트는 실시간 로그에서 두 가지 주요 데이터를 계산하여 시각화
+ * 1. attackData: 정상 패킷, 악성 패킷, 새로운 패턴으로 분류된 로그 수
+ * 2. trafficData: 국가별 트래픽 빈도 (로그 출발지 주소를 GeoIP로 찾은 국가 기준, 상위 국가와 기타, 위치 불명)
+ *
+ * 두 차트 모두 실시간 로그 테이블과 같은 실시간 저장소의 로그에서 선택한 기간(최근 1분 ~ 1시간)의 로그로 계산하므로
+ * 로그 테이블과 같은 수치를 보여줌
+ *
  * PieChart와 같은 Recharts 라이브러리의 컴포넌트를 사용하여 데이터를 시각화하며, 각 데이터 항목에 대해 색상을 지정
- * 
+ *
  * 주요 기능:
- * - 일정 간격으로 attackData와 trafficData를 업데이트
- * - PieChart를 사용하여 데이터를 시각화
- * - Tooltip과 Legend를 사용하여 차트에 대한 추가 정보를 제공
- * 
+ * - 실시간 저장소가 1초 구간별로 누적한 유형, 출발 국가별 로그 수를 로그가 들어오거나 저장소 시계가 움직일 때마다 다시 계산
+ * - 각 항목의 로그 수와 비율(%)을 툴팁과 차트 아래 목록에 표시
+ * - 조각이나 목록 항목을 누르면 해당 기간과 유형 또는 국가의 검색 질의로 로그 테이블을 필터링
+ *
+ * @param {(query: string) => void} [onFilter] - 항목을 눌렀을 때 로그 테이블에 적용할 검색 질의를 받는 함수
+ *
  * @returns {React.FC} 통계 데이터를 시각화하는 React 함수형 컴포넌트
  */
 "use client"
 
 // React와 필요한 훅, 컴포넌트들을 임포트
 import type React from "react"
-import { useState, useEffect } from "react"
+import { useState, useMemo } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card"
-import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend } from "recharts"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select"
+import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip } from "recharts"
 import { BarChart2 } from "lucide-react"
+import { LOG_TYPES, type LogType } from "../types/log"
+import { LOG_TYPE_CHART_COLORS } from "../utils/logLabels"
+import { getCountryLabel } from "../utils/geoLabels"
+import { countrySliceQuery, formatQueryDuration, toCountrySlices, type LogCounts } from "../utils/logStatistics"
+import { createLogCountsSelector, LOG_COUNT_RETENTION_MS } from "../utils/liveStore"
+import { useLiveSelector } from "./telemetry-provider"
+
+// 유형별 차트 항목 이름
+const ATTACK_DATA_NAMES: Record<LogType, string> = {
+  normal: "정상 패킷",
+  malicious: "악성 패킷",
+  novel: "새로운 패턴",
+}
+
+// 집계 기간 선택지 (실시간 저장소가 보관하는 기간 이내)
+const WINDOW_OPTIONS: { key: string; label: string; durationMs: number }[] = [
+  { key: "1m", label: "최근 1분", durationMs: 60 * 1000 },
+  { key: "5m", label: "최근 5분", durationMs: 5 * 60 * 1000 },
+  { key: "15m", label: "최근 15분", durationMs: 15 * 60 * 1000 },
+  { key: "1h", label: "최근 1시간", durationMs: LOG_COUNT_RETENTION_MS },
+]
+const DEFAULT_WINDOW = "5m"
+
+// 국가별 차트에 따로 표시하는 국가 수 (나머지는 기타)
+const TOP_COUNTRIES = 5
+
+// 국가별 차트 색상 (상위 국가 순서, 기타, 위치 불명)
+const COUNTRY_COLORS = ["#3B82F6", "#10B981", "#F59E0B", "#8B5CF6", "#EC4899"]
+const OTHER_COUNTRY_COLOR = "#64748B"
+const UNKNOWN_COUNTRY_COLOR = "#9CA3AF"
+
+// 차트 항목 (query: 항목을 눌렀을 때 적용할 검색 조건)
+interface ChartItem {
+  name: string
+  value: number
+  color: string
+  query: string
+}
+
+// 로그 수를 유형별 차트 항목으로 변환 (로그가 없는 유형은 제외)
+const toAttackItems = (counts: LogCounts): ChartItem[] =>
+  LOG_TYPES.filter((type) => counts.types[type] > 0).map((type) => ({
+    name: ATTACK_DATA_NAMES[type],
+    value: counts.types[type],
+    color: LOG_TYPE_CHART_COLORS[type],
+    query: `type:${type}`,
+  }))
+
+// 로그 수를 국가별 차트 항목으로 변환
+const toCountryItems = (counts: LogCounts): ChartItem[] => {
+  const slices = toCountrySlices(counts.countries, TOP_COUNTRIES)
+  return slices.map((slice, index) => ({
+    name: slice.key === "other" ? "기타" : slice.key === "unknown" ? "위치 불명" : getCountryLabel(slice.key),
+    value: slice.count,
+    color:
+      slice.key === "other"
+        ? OTHER_COUNTRY_COLOR
+        : slice.key === "unknown"
+          ? UNKNOWN_COUNTRY_COLOR
+          : COUNTRY_COLORS[index % COUNTRY_COLORS.length],
+    query: countrySliceQuery(slice, slices),
+  }))
+}
+
+// 비율(%) 표시
+const formatShare = (value: number, total: number) => `${total > 0 ? ((value / total) * 100).toFixed(1) : "0.0"}%`
 
 // Statistics 컴포넌트 정의
-const Statistics: React.FC = () => {
-  // attackData와 trafficData 상태 정의 및 초기값 설정
-  const [attackData, setAttackData] = useState([
-    { name: "정상 패킷", value: 60 },
-    { name: "악성 패킷", value: 30 },
-    { name: "새로운 패턴", value: 10 },
-  ])
-
-  const [trafficData, setTrafficData] = useState([
-    { name: "미국", value: 35 },
-    { name: "중국", value: 25 },
-    { name: "한국", value: 20 },
-    { name: "기타", value: 20 },
-  ])
-
-  // useEffect를 사용해 일정 간격으로 데이터 업데이트
-  useEffect(() => {
-    const interval = setInterval(() => {
-      // attackData 업데이트
-      setAttackData((prevData) =>
-        prevData.map((item) => ({
-          ...item,
-          value: Math.max(0, item.value + (Math.random() - 0.5) * 5),
-        })),
-      )
-
-      // trafficData 업데이트
-      setTrafficData((prevData) =>
-        prevData.map((item) => ({
-          ...item,
-          value: Math.max(0, item.value + (Math.random() - 0.5) * 5),
-        })),
-      )
-    }, 3000)
-
-    // 컴포넌트 언마운트 시 인터벌 클리어
-    return () => clearInterval(interval)
-  }, [])
-
-  // 차트에 사용할 색상 배열
-  const COLORS = ["#10B981", "#EF4444", "#F59E0B", "#3B82F6"]
+const Statistics: React.FC<{ onFilter?: (query: string) => void }> = ({ onFilter }) => {
+  const [windowKey, setWindowKey] = useState(DEFAULT_WINDOW)
+  const selectedWindow = WINDOW_OPTIONS.find((option) => option.key === windowKey) ?? WINDOW_OPTIONS[0]
+
+  // 선택한 기간의 로그 수
+  const selectCounts = useMemo(() => createLogCountsSelector(selectedWindow.durationMs), [selectedWindow])
+  const counts = useLiveSelector(selectCounts)
+  const attackData = useMemo(() => toAttackItems(counts), [counts])
+  const trafficData = useMemo(() => toCountryItems(counts), [counts])
+
+  // 항목을 누르면 선택한 기간과 항목의 조건으로 로그 테이블을 필터링
+  const selectItem = (item: ChartItem) =>
+    onFilter?.(`age<${formatQueryDuration(selectedWindow.durationMs)} ${item.query}`)
 
   // 파이 차트를 렌더링하는 함수
-  const renderPieChart = (data: any[], title: string) => {
-    // 데이터의 전체 트래픽 계산
-    const totalTraffic = data.reduce((sum, item) => sum + item.value, 0)
+  const renderPieChart = (data: ChartItem[], title: string) => {
+    // 기간 안의 전체 로그 수
+    const total = data.reduce((sum, item) => sum + item.value, 0)
 
     return (
       <div className="flex flex-col h-full">
         {/* 차트 제목 */}
         <h3 className="text-sm font-medium mb-4 text-gray-700">{title}</h3>
         <div className="flex-1">
-          {/* 반응형 컨테이너로 차트 크기 조절 */}
-          <ResponsiveContainer width="100%" height={280}>
-            <PieChart>
-              {/* 파이 차트 설정 */}
-              <Pie
-                data={data} // 차트에 사용할 데이터
-                cx="50%" // 차트의 중심 x 좌표
-                cy="45%" // 차트의 중심 y 좌표
-                labelLine={false} // 라벨 라인 표시 여부
-                outerRadius={100} // 파이 차트의 외부 반지름
-                fill="#8884d8" // 파이 차트의 기본 색상
-                dataKey="value" // 데이터에서 값을 가져올 키
-                animationBegin={0} // 애니메이션 시작 시간
-                animationDuration={1500} // 애니메이션 지속 시간
-              >
-                {/* 데이터 항목별 색상 설정 */}
-                {data.map((entry, index) => (
-                  <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
-                ))}
-              </Pie>
-              {/* 툴팁 설정 */}
-              <Tooltip
-                formatter={(value: number) => [`${value.toFixed(2)}%`, "비율"]} // 툴팁에 표시할 값 포맷
-                contentStyle={{
-                  backgroundColor: "white", // 툴팁 배경색
-                  border: "1px solid #ccc", // 툴팁 테두리
-                  borderRadius: "4px", // 툴팁 모서리 둥글기
-                  fontSize: "12px", // 툴팁 폰트 크기
-                }}
-              />
-              {/* 범례 설정 */}
-              <Legend
-                layout="horizontal" // 범례 레이아웃
-                align="center" // 범례 정렬
-                verticalAlign="bottom" // 범례 수직 정렬
-                iconType="circle" // 범례 아이콘 모양
-                iconSize={8} // 범례 아이콘 크기
-                wrapperStyle={{
-                  fontSize: "12px", // 범례 폰트 크기
-                  paddingTop: "20px", // 범례 상단 여백
-                }}
-              />
-            </PieChart>
-          </ResponsiveContainer>
+          {total === 0 ? (
+            <div className="h-[240px] flex items-center justify-center text-sm text-gray-400">
+              선택한 기간에 들어온 로그가 없습니다
+            </div>
+          ) : (
+            // 반응형 컨테이너로 차트 크기 조절
+            <ResponsiveContainer width="100%" height={240}>
+              <PieChart>
+                {/* 파이 차트 설정 */}
+                <Pie
+                  data={data} // 차트에 사용할 데이터
+                  cx="50%" // 차트의 중심 x 좌표
+                  cy="50%" // 차트의 중심 y 좌표
+                  labelLine={false} // 라벨 라인 표시 여부
+                  outerRadius={100} // 파이 차트의 외부 반지름
+                  fill="#8884d8" // 파이 차트의 기본 색상
+                  dataKey="value" // 데이터에서 값을 가져올 키
+                  isAnimationActive={false} // 1초마다 다시 계산하므로 애니메이션 끔
+                  onClick={(_, index) => selectItem(data[index])} // 조각을 누르면 로그 테이블 필터링
+                  className={onFilter ? "cursor-pointer" : undefined}
+                >
+                  {/* 데이터 항목별 색상 설정 */}
+                  {data.map((entry) => (
+                    <Cell key={entry.query} fill={entry.color} />
+                  ))}
+                </Pie>
+                {/* 툴팁 설정 */}
+                <Tooltip
+                  formatter={(value: number) => [`${value.toLocaleString()}건 (${formatShare(value, total)})`, "로그"]}
+                  contentStyle={{
+                    backgroundColor: "white", // 툴팁 배경색
+                    border: "1px solid #ccc", // 툴팁 테두리
+                    borderRadius: "4px", // 툴팁 모서리 둥글기
+                    fontSize: "12px", // 툴팁 폰트 크기
+                  }}
+                />
+              </PieChart>
+            </ResponsiveContainer>
+          )}
         </div>
-        {/* 전체 트래픽 표시 */}
-        <div className="text-center mt-2 text-sm text-gray-600">전체 트래픽: {totalTraffic.toFixed(2)}</div>
+        {/* 항목별 로그 수와 비율 (범례 겸 필터 버튼) */}
+        <ul className="mt-2 space-y-1 text-xs text-gray-700">
+          {data.map((item) => (
+            <li key={item.query}>
+              <button
+                type="button"
+                onClick={() => selectItem(item)}
+                disabled={!onFilter}
+                className={`w-full flex items-center justify-between px-2 py-1 rounded ${
+                  onFilter ? "hover:bg-gray-100" : ""
+                }`}
+              >
+                <span className="flex items-center">
+                  <span className="w-2 h-2 rounded-full mr-2" style={{ backgroundColor: item.color }} />
+                  {item.name}
+                </span>
+                <span className="tabular-nums">
+                  {item.value.toLocaleString()}건 · {formatShare(item.value, total)}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+        {/* 전체 로그 수 표시 */}
+        <div className="text-center mt-2 text-sm text-gray-600">전체 로그: {total.toLocaleString()}건</div>
       </div>
     )
   }
@@ -132,8 +192,23 @@ const Statistics: React.FC = () => {
   return (
     <Card className="shadow-lg overflow-hidden">
       <CardHeader className="bg-gradient-to-r from-blue-600 to-blue-800 border-b border-blue-700">
-        <CardTitle className="text-lg text-white flex items-center">
-          <BarChart2 className="mr-2" /> 통계
+        <CardTitle className="text-lg text-white flex items-center justify-between">
+          <span className="flex items-center">
+            <BarChart2 className="mr-2" /> 통계
+          </span>
+          {/* 집계 기간 선택 */}
+          <Select value={windowKey} onValueChange={setWindowKey}>
+            <SelectTrigger className="w-[140px] bg-white text-gray-800 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WINDOW_OPTIONS.map((option) => (
+                <SelectItem key={option.key} value={option.key}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </CardTitle>
       </CardHeader>
       <CardContent className="p-6 bg-white">
@@ -3,7 +3,7 @@
  * 
  * 이 컴포넌트는 시스템의 모델명, 펌웨어 버전, 마지막 업그레이드 날짜, 마지막 백업 날짜 등의 정보를 카드 레이아웃으로 표시
  * 
- * - `systemInfo` 객체를 통해 시스템 정보를 정의
+ * - 실시간 저장소에서 텔레메트리 소스의 system 채널로 받은 시스템 정보를 가져옴
  * - `Card`, `CardHeader`, `CardTitle`, `CardContent` 컴포넌트를 사용하여 레이아웃을 구성
  * - `lucide-react` 라이브러리의 아이콘을 사용하여 각 정보 항목에 아이콘을 추가
  * - Tailwind CSS 클래스를 사용하여 스타일을 적용
@@ -11,16 +11,21 @@
 import type React from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card"
 import { Server, Cpu, Calendar, Database } from "lucide-react"
+import { useLiveSelector } from "./telemetry-provider"
+import { selectSystem } from "../utils/liveStore"
+
+// 데이터가 도착하기 전에 표시할 값
+const EMPTY_SYSTEM_INFO = {
+  modelName: "-",
+  firmwareVersion: "-",
+  lastUpgrade: "-",
+  lastBackup: "-",
+}
 
 // 시스템 정보를 표시하는 컴포넌트
 const SystemInfo: React.FC = () => {
   // 시스템 정보 객체
-  const systemInfo = {
-    modelName: "AutoGuard X1", // 모델명
-    firmwareVersion: "v2.3.1", // 펌웨어 버전
-    lastUpgrade: "2025-01-15", // 마지막 업그레이드 날짜
-    lastBackup: "2025-01-24", // 마지막 백업 날짜
-  }
+  const systemInfo = useLiveSelector(selectSystem) ?? EMPTY_SYSTEM_INFO
 
   return (
     <Card className="shadow-lg overflow-hidden h-full"> {/* 카드 컴포넌트로 전체 레이아웃을 구성 */}
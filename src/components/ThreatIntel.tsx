@@ -0,0 +1,368 @@
+/**
+ * 위협 인텔리전스 피드를 가져오고 보관 중인 지표(IOC)를 관리하는 화면 컴포넌트
+ *
+ * 주요 기능:
+ * - IP/CIDR/도메인 목록, CSV, STIX 2.1 번들 파일 가져오기 (형식 자동 감지)
+ * - 피드 이름, 기본 신뢰도, 만료 기간 지정 (파일에 값이 있으면 파일의 값을 사용)
+ * - 피드별 지표 수와 만료 현황, 피드 삭제, 만료된 지표 정리
+ * - 지표 검색과 목록
+ * - 로컬 백엔드 서버에 연결한 경우 지표가 서버로 보내져 서버의 탐지에 쓰인다는 안내 표시
+ *
+ * @component
+ * @example
+ * <ThreatIntel />
+ */
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import { Database, Radar, Search, Trash2, Upload } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "./ui/table"
+import { useTelemetrySource } from "./telemetry-provider"
+import type { Indicator, IocFileFormat, IocType } from "../types/ioc"
+import { isIndicatorLive } from "../utils/iocMatcher"
+import { detectIocFormat, parseIocText, type IocParseError } from "../utils/iocParsers"
+import {
+  importIndicators,
+  loadIndicators,
+  removeExpiredIndicators,
+  removeIndicatorSource,
+  subscribeIndicators,
+} from "../utils/iocStore"
+
+// 목록에 표시할 최대 지표 수와 보고서에 표시할 최대 오류 수
+const MAX_VISIBLE_INDICATORS = 300
+const MAX_REPORTED_ERRORS = 50
+
+const FORMAT_LABELS: Record<IocFileFormat, string> = { plain: "목록", csv: "CSV", stix: "STIX 2.1" }
+
+const TYPE_LABELS: Record<IocType, string> = { ip: "IP", cidr: "CIDR", domain: "도메인" }
+
+// 만료 기간 선택지 (일, 0이면 만료 없음)
+const EXPIRY_OPTIONS = [0, 7, 30, 90]
+
+const inputClass =
+  "h-10 px-3 rounded-md border border-input text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+const buttonClass =
+  "flex items-center h-10 px-3 rounded-md border border-input text-gray-700 hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed"
+
+// 가져오기 결과 보고서
+interface ImportReport {
+  fileName: string
+  source: string
+  format: IocFileFormat
+  imported: number
+  errors: IocParseError[]
+}
+
+// 피드별 요약
+interface FeedSummary {
+  source: string
+  total: number
+  expired: number
+  byType: Record<IocType, number>
+  lastAdded: Date
+}
+
+// 파일 이름에서 확장자를 뺀 피드 이름
+const sourceFromFileName = (fileName: string) => fileName.replace(/\.[^.]+$/, "") || fileName
+
+const ThreatIntel: React.FC = () => {
+  const telemetry = useTelemetrySource()
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [indicators, setIndicators] = useState<Indicator[]>([])
+  const [source, setSource] = useState("")
+  const [confidence, setConfidence] = useState(70)
+  const [expiryDays, setExpiryDays] = useState(30)
+  const [reports, setReports] = useState<ImportReport[]>([])
+  const [search, setSearch] = useState("")
+
+  useEffect(() => {
+    let active = true
+    loadIndicators()
+      .then((stored) => active && setIndicators(stored))
+      .catch((error) => console.warn("[ioc] 지표를 불러오지 못했습니다", error))
+    const unsubscribe = subscribeIndicators(setIndicators)
+    return () => {
+      active = false
+      unsubscribe()
+    }
+  }, [])
+
+  const feeds = useMemo(() => {
+    const now = new Date()
+    const summaries = new Map<string, FeedSummary>()
+    for (const indicator of indicators) {
+      const summary = summaries.get(indicator.source) ?? {
+        source: indicator.source,
+        total: 0,
+        expired: 0,
+        byType: { ip: 0, cidr: 0, domain: 0 },
+        lastAdded: indicator.addedAt,
+      }
+      summary.total++
+      summary.byType[indicator.type]++
+      if (!isIndicatorLive(indicator, now)) summary.expired++
+      if (indicator.addedAt > summary.lastAdded) summary.lastAdded = indicator.addedAt
+      summaries.set(indicator.source, summary)
+    }
+    return Array.from(summaries.values()).sort((a, b) => a.source.localeCompare(b.source))
+  }, [indicators])
+
+  const expiredCount = feeds.reduce((sum, feed) => sum + feed.expired, 0)
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase()
+    const matches = term
+      ? indicators.filter(
+          (indicator) =>
+            indicator.value.includes(term) ||
+            indicator.source.toLowerCase().includes(term) ||
+            !!indicator.description?.toLowerCase().includes(term),
+        )
+      : indicators
+    return [...matches].sort((a, b) => b.addedAt.getTime() - a.addedAt.getTime())
+  }, [indicators, search])
+
+  // 선택한 파일을 읽어 지표로 변환한 뒤 저장 (피드 이름이 비어 있으면 파일 이름 사용)
+  const handleFiles = async (files: File[]) => {
+    const importedAt = new Date()
+    const expiresAt = expiryDays > 0 ? new Date(importedAt.getTime() + expiryDays * 86_400_000) : null
+    const results: ImportReport[] = []
+    for (const file of files) {
+      const text = await file.text()
+      const format = detectIocFormat(file.name, text)
+      const feed = source.trim() || sourceFromFileName(file.name)
+      const { indicators: parsed, errors } = parseIocText(text, format, {
+        source: feed,
+        confidence,
+        expiresAt,
+        now: importedAt,
+      })
+      await importIndicators(parsed)
+      results.push({ fileName: file.name, source: feed, format, imported: parsed.length, errors })
+    }
+    setReports(results)
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* 가져오기 */}
+      <Card className="shadow-lg overflow-hidden">
+        <CardHeader className="bg-gradient-to-r from-blue-600 to-blue-800 border-b border-blue-700">
+          <CardTitle className="text-lg text-white flex items-center">
+            <Upload className="mr-2" /> 피드 가져오기
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="bg-white p-6 space-y-4">
+          {telemetry.kind === "server" && (
+            <div className="p-3 rounded-lg bg-blue-50 border border-blue-200 text-sm text-blue-800">
+              로컬 백엔드 서버에 연결되어 있어 가져온 지표는 서버로 보내 적용되며, 연결된 모든 대시보드의 탐지에 쓰입니다
+            </div>
+          )}
+          <div className="flex flex-wrap items-end gap-3 text-sm">
+            <label className="flex flex-col gap-1">
+              <span className="text-gray-600">피드 이름</span>
+              <input
+                value={source}
+                onChange={(event) => setSource(event.target.value)}
+                placeholder="비우면 파일 이름"
+                className={`${inputClass} w-[200px]`}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-gray-600">기본 신뢰도 (0~100)</span>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={confidence}
+                onChange={(event) => setConfidence(Math.min(100, Math.max(0, Number(event.target.value) || 0)))}
+                className={`${inputClass} w-[140px]`}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-gray-600">만료</span>
+              <select
+                value={expiryDays}
+                onChange={(event) => setExpiryDays(Number(event.target.value))}
+                className={`${inputClass} bg-white`}
+              >
+                {EXPIRY_OPTIONS.map((days) => (
+                  <option key={days} value={days}>
+                    {days === 0 ? "만료 없음" : `${days}일 후`}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button type="button" onClick={() => inputRef.current?.click()} className={buttonClass}>
+              <Upload className="w-4 h-4 mr-2" /> 파일 선택
+            </button>
+            <input
+              ref={inputRef}
+              type="file"
+              multiple
+              accept=".txt,.csv,.json,.list,text/plain,text/csv,application/json"
+              className="hidden"
+              onChange={(event) => {
+                const files = Array.from(event.target.files ?? [])
+                if (files.length > 0) handleFiles(files)
+                event.target.value = "" // 같은 파일을 다시 선택할 수 있도록 초기화
+              }}
+            />
+          </div>
+          <p className="text-xs text-gray-500">
+            한 줄에 하나씩 적은 IP/CIDR/도메인 목록, CSV, STIX 2.1 번들(JSON)을 가져옵니다. 파일에 신뢰도나 만료
+            시각이 있으면 파일의 값을 사용하며, 같은 피드의 같은 값은 덮어씁니다. 로그에는 IP 주소만 있으므로 도메인
+            지표는 보관만 하고 로그와 비교하지 않습니다.
+          </p>
+
+          {reports.map((report) => (
+            <div key={report.fileName} className="text-sm">
+              <p className={report.errors.length > 0 ? "text-orange-700" : "text-green-700"}>
+                {report.fileName} ({FORMAT_LABELS[report.format]}) → {report.source}: 지표{" "}
+                {report.imported.toLocaleString()}개 가져옴
+                {report.errors.length > 0 && `, ${report.errors.length.toLocaleString()}개 항목 건너뜀`}
+              </p>
+              {report.errors.length > 0 && (
+                <details className="mt-1">
+                  <summary className="cursor-pointer text-gray-600">건너뛴 항목 보기</summary>
+                  <ul className="mt-1 max-h-40 overflow-y-auto font-mono text-xs text-gray-700">
+                    {report.errors.slice(0, MAX_REPORTED_ERRORS).map((error, index) => (
+                      <li key={index}>
+                        {error.location}: {error.message}
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {/* 피드 */}
+      <Card className="shadow-lg overflow-hidden">
+        <CardHeader className="bg-gradient-to-r from-blue-600 to-blue-800 border-b border-blue-700">
+          <CardTitle className="text-lg text-white flex items-center">
+            <Database className="mr-2" /> 피드
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="bg-white p-6 space-y-4">
+          <div className="flex items-center gap-3 text-sm">
+            <span className="text-gray-600">
+              지표 {indicators.length.toLocaleString()}개, 만료 {expiredCount.toLocaleString()}개
+            </span>
+            <button
+              type="button"
+              onClick={() => removeExpiredIndicators()}
+              disabled={expiredCount === 0}
+              className={buttonClass}
+            >
+              <Trash2 className="w-4 h-4 mr-2" /> 만료된 지표 삭제
+            </button>
+          </div>
+          {feeds.length === 0 ? (
+            <p className="text-sm text-gray-500">가져온 피드가 없습니다</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>피드</TableHead>
+                  <TableHead>IP</TableHead>
+                  <TableHead>CIDR</TableHead>
+                  <TableHead>도메인</TableHead>
+                  <TableHead>만료</TableHead>
+                  <TableHead>마지막 가져오기</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {feeds.map((feed) => (
+                  <TableRow key={feed.source}>
+                    <TableCell className="font-medium">{feed.source}</TableCell>
+                    <TableCell>{feed.byType.ip.toLocaleString()}</TableCell>
+                    <TableCell>{feed.byType.cidr.toLocaleString()}</TableCell>
+                    <TableCell>{feed.byType.domain.toLocaleString()}</TableCell>
+                    <TableCell className={feed.expired > 0 ? "text-orange-700" : ""}>
+                      {feed.expired.toLocaleString()}
+                    </TableCell>
+                    <TableCell>{feed.lastAdded.toLocaleString()}</TableCell>
+                    <TableCell>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          if (window.confirm(`${feed.source} 피드의 지표를 모두 삭제할까요?`)) {
+                            removeIndicatorSource(feed.source)
+                          }
+                        }}
+                        className="p-1 text-gray-500 hover:text-red-600"
+                        title="피드 삭제"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* 지표 목록 */}
+      <Card className="shadow-lg overflow-hidden">
+        <CardHeader className="bg-gradient-to-r from-blue-600 to-blue-800 border-b border-blue-700">
+          <CardTitle className="text-lg text-white flex items-center">
+            <Radar className="mr-2" /> 지표
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="bg-white p-6 space-y-4">
+          <div className="relative w-full max-w-sm">
+            <Search className="absolute left-3 top-3 w-4 h-4 text-gray-400" />
+            <input
+              value={search}
+              onChange={(event) => setSearch(event.target.value)}
+              placeholder="값, 피드, 설명 검색"
+              className={`${inputClass} w-full pl-9`}
+            />
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>값</TableHead>
+                <TableHead>종류</TableHead>
+                <TableHead>피드</TableHead>
+                <TableHead>신뢰도</TableHead>
+                <TableHead>만료</TableHead>
+                <TableHead>설명</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filtered.slice(0, MAX_VISIBLE_INDICATORS).map((indicator) => (
+                <TableRow key={indicator.id} className={isIndicatorLive(indicator) ? "" : "text-gray-400"}>
+                  <TableCell className="font-mono text-xs">{indicator.value}</TableCell>
+                  <TableCell>{TYPE_LABELS[indicator.type]}</TableCell>
+                  <TableCell>{indicator.source}</TableCell>
+                  <TableCell>{indicator.confidence}</TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {indicator.expiresAt ? indicator.expiresAt.toLocaleString() : "없음"}
+                  </TableCell>
+                  <TableCell className="text-xs">{indicator.description ?? "-"}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {filtered.length > MAX_VISIBLE_INDICATORS && (
+            <p className="text-xs text-gray-500">
+              {filtered.length.toLocaleString()}개 중 최근 {MAX_VISIBLE_INDICATORS}개만 표시합니다. 검색으로 범위를
+              좁히세요
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export default ThreatIntel
@@ -1,205 +1,673 @@
 /**
  * 이 파일은 TrafficGraph 컴포넌트를 정의
  * TrafficGraph 컴포넌트는 인바운드와 아웃바운드 트래픽 데이터를 시각화하는 라인 차트를 렌더링
- * 
+ *
  * 주요 기능:
  * - Chart.js를 사용하여 트래픽 데이터를 시각화
- * - 인바운드와 아웃바운드 트래픽을 각각 다른 색상으로 표시
+ * - 인바운드와 아웃바운드 트래픽을 각각 다른 색상으로 표시 (나눠 보기 또는 한 차트에 겹쳐 보기)
+ * - 초당 비트(bps)와 초당 패킷(pps) 전환, 값의 크기에 맞춰 bps/Kbps/Mbps/Gbps 단위를 자동으로 선택
+ * - 마우스를 올린 시각에 세로선을 그리고 모든 차트의 툴팁을 같은 시각으로 맞춤
+ * - 학습한 기준선의 예상 범위를 회색 띠로 그리고, 범위를 벗어난 점을 강조
+ * - 구간 선택(실시간, 5분, 1시간, 24시간, 7일, 직접 지정)으로 IndexedDB에 저장된 과거 트래픽 조회
+ * - 긴 구간은 1분/10분/1시간 롤업의 평균을 선으로, 최소~최대를 음영 띠로 표시
+ * - X축을 Ctrl + 휠/핀치로 확대하거나 끌어서 이동하면 해당 구간에 맞는 해상도로 다시 조회
  * - 반응형 디자인을 지원하여 다양한 화면 크기에서 적절하게 표시
- * 
+ *
  * 사용된 주요 라이브러리:
  * - React: 컴포넌트 기반 UI 라이브러리
  * - Chart.js: 차트 생성 라이브러리
  * - chartjs-adapter-date-fns: Chart.js의 날짜 형식 어댑터
+ * - chartjs-plugin-zoom: X축 확대/이동
  * - lucide-react: 아이콘 라이브러리
- * 
+ *
  * 컴포넌트 구조:
  * - TrafficGraph: 메인 컴포넌트로, 트래픽 데이터를 받아 차트를 생성 및 업데이트
  * - TrafficCard: 각 트래픽 차트를 포함하는 카드 컴포넌트
- * 
+ * - SegmentedControl: 지표와 보기 방식을 고르는 버튼 묶음
+ *
  * 주요 함수:
- * - createOrUpdateChart: 차트를 생성하거나 업데이트하는 함수
- * 
- * 주요 훅:
- * - useEffect: 컴포넌트가 마운트되거나 trafficData가 변경될 때 차트를 생성 또는 업데이트하고, 언마운트될 때 차트를 파괴
- * - useMemo: createOrUpdateChart 함수를 메모이제이션하여 불필요한 재생성을 방지
- * 
+ * - createChartConfig: 계열마다 평균 선과 최소~최대 띠를 그리는 차트 설정을 만드는 함수
+ * - createCrosshairPlugin: 차트 사이에 마우스 위치의 시각을 공유하는 플러그인
+ * - updateChart: 차트의 데이터, 단위, X축 구간을 갱신하는 함수
+ *
  * props:
- * - trafficData: 인바운드와 아웃바운드 트래픽 데이터를 포함하는 배열
+ * - trafficData: 인바운드와 아웃바운드 트래픽 데이터를 포함하는 배열 (실시간 구간에 표시)
+ * - baseline: trafficData의 기준선 평가 결과 (없거나 과거 구간이면 표시하는 구간을 처음부터 학습하여 계산)
+ * - allowHistory: 과거 구간 조회 허용 여부 (캡처 파일을 표시하는 동안에는 false)
  */
 "use client"
 
 // 필요한 라이브러리와 컴포넌트들을 import
-import { useEffect, useRef, useMemo } from "react"
+import { useEffect, useMemo, useRef, useState } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card"
-import { Chart, type ChartConfiguration, registerables } from "chart.js/auto"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select"
+import { Chart, type ChartConfiguration, type Plugin, registerables } from "chart.js/auto"
 import "chartjs-adapter-date-fns"
-import { ArrowDownToLine, ArrowUpFromLine } from "lucide-react"
+import zoomPlugin from "chartjs-plugin-zoom"
+import { AlertTriangle, ArrowDownToLine, ArrowUpDown, ArrowUpFromLine } from "lucide-react"
 import type React from "react"
+import { useHistoryStore } from "./telemetry-provider"
+import type { TrafficBaselinePoint, TrafficDirection, TrafficSample } from "../types/telemetry"
+import { anomalousDirections, evaluateBaselineSeries } from "../utils/trafficBaseline"
+import {
+  samplesToSeriesPoints,
+  type SeriesStats,
+  type TrafficSeries,
+  type TrafficSeriesPoint,
+} from "../utils/trafficRollup"
+import {
+  chooseTrafficUnit,
+  formatTrafficValue,
+  mbpsToBps,
+  TRAFFIC_METRIC_LABELS,
+  type TrafficMetric,
+} from "../utils/trafficUnits"
 
 // Chart.js의 플러그인들을 등록
-Chart.register(...registerables)
+Chart.register(...registerables, zoomPlugin)
+
+// 그래프에 표시할 최대 점 수 (이보다 많으면 더 넓은 해상도의 롤업을 사용)
+const MAX_CHART_POINTS = 500
+// 확대할 수 있는 최소 구간 (1분)
+const MIN_ZOOM_RANGE_MS = 60 * 1000
+// 확대/이동이 끝난 뒤 조회할 때까지 기다리는 시간
+const LOAD_DELAY_MS = 200
+
+// 구간 선택 항목
+type TrafficRange = "live" | "5m" | "1h" | "24h" | "7d" | "custom"
+
+const RANGE_OPTIONS: { key: TrafficRange; label: string; durationMs?: number }[] = [
+  { key: "live", label: "실시간" },
+  { key: "5m", label: "최근 5분", durationMs: 5 * 60 * 1000 },
+  { key: "1h", label: "최근 1시간", durationMs: 60 * 60 * 1000 },
+  { key: "24h", label: "최근 24시간", durationMs: 24 * 60 * 60 * 1000 },
+  { key: "7d", label: "최근 7일", durationMs: 7 * 24 * 60 * 60 * 1000 },
+  { key: "custom", label: "직접 지정" },
+]
+
+// 해상도 표시 이름
+const RESOLUTION_LABELS: Record<number, string> = { 2: "2초", 60: "1분", 600: "10분", 3600: "1시간" }
+
+interface TimeWindow {
+  from: Date
+  to: Date
+}
+
+// 차트의 한 점 (평균 선의 점에 최소/최대와 기준선 예상 범위를 함께 담아 툴팁에 표시)
+interface ChartPoint {
+  x: number
+  y: number
+  min: number
+  max: number
+  lower: number | null // 기준선이 없으면 null (띠를 그리지 않음)
+  upper: number | null
+  anomalous: boolean
+}
+
+type Direction = TrafficDirection
+
+// 나눠 보기 (방향별 차트 두 개) 또는 겹쳐 보기 (한 차트에 두 방향)
+type ViewMode = "split" | "overlay"
+
+const VIEW_MODE_OPTIONS: [ViewMode, string][] = [
+  ["split", "나눠 보기"],
+  ["overlay", "겹쳐 보기"],
+]
 
 // 컴포넌트의 props 타입 정의
 interface TrafficGraphProps {
-  trafficData: { inbound: number; outbound: number; time: Date }[]
+  trafficData: TrafficSample[]
+  baseline?: TrafficBaselinePoint[] // 실시간 기준선 평가 결과 (없으면 표시하는 구간만으로 학습)
+  allowHistory?: boolean
+}
+
+// Date를 datetime-local 입력값(YYYY-MM-DDTHH:mm)으로 변환
+const toInputValue = (date: Date) => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000)
+  return local.toISOString().slice(0, 16)
+}
+
+// 방향별 계열의 색상과 이름
+interface SeriesSpec {
+  direction: Direction
+  color: string
+  label: string
+}
+
+const SERIES: Record<Direction, SeriesSpec> = {
+  inbound: { direction: "inbound", color: "#3B82F6", label: "인바운드" },
+  outbound: { direction: "outbound", color: "#EF4444", label: "아웃바운드" },
+}
+
+// 기준선을 벗어난 점의 강조 색상
+const ANOMALY_COLOR = "#F59E0B"
+
+// 계열 하나가 차지하는 데이터셋 수 (예상 상한, 예상 하한, 최대, 최소, 평균)
+const DATASETS_PER_SERIES = 5
+const isAverageDataset = (datasetIndex: number) => datasetIndex % DATASETS_PER_SERIES === DATASETS_PER_SERIES - 1
+
+// 여러 차트가 같은 시각에 세로선과 툴팁을 표시하도록 공유하는 상태
+interface CrosshairSync {
+  time: number | null
+  move(source: Chart, time: number | null): void
+}
+
+// 시간순 점 목록에서 주어진 시각에 가장 가까운 점의 위치 (이진 탐색)
+const nearestIndex = (points: ChartPoint[], time: number) => {
+  let low = 0
+  let high = points.length - 1
+  while (low < high) {
+    const mid = (low + high) >> 1
+    if (points[mid].x < time) low = mid + 1
+    else high = mid
+  }
+  if (low > 0 && Math.abs(points[low - 1].x - time) < Math.abs(points[low].x - time)) return low - 1
+  return low
+}
+
+// 다른 차트에서 가리킨 시각의 툴팁을 표시 (time이 null이면 숨김)
+const showTooltipAt = (chart: Chart, time: number | null) => {
+  if (!chart.tooltip) return
+  if (time === null) {
+    chart.tooltip.setActiveElements([], { x: 0, y: 0 })
+  } else {
+    const elements = chart.data.datasets.flatMap((dataset, datasetIndex) => {
+      const points = dataset.data as unknown as ChartPoint[]
+      if (!isAverageDataset(datasetIndex) || points.length === 0) return []
+      return [{ datasetIndex, index: nearestIndex(points, time) }]
+    })
+    chart.tooltip.setActiveElements(elements, { x: chart.scales.x.getPixelForValue(time), y: chart.chartArea.top })
+  }
+  chart.update("none")
+}
+
+// 차트 목록을 받아 십자선 공유 상태를 생성
+const createCrosshairSync = (getCharts: () => Chart[]): CrosshairSync => {
+  const sync: CrosshairSync = {
+    time: null,
+    move(source, time) {
+      if (sync.time === time) return
+      sync.time = time
+      for (const chart of getCharts()) {
+        if (chart === source) chart.draw()
+        else showTooltipAt(chart, time)
+      }
+    },
+  }
+  return sync
+}
+
+// 마우스 위치의 시각을 공유하고 그 시각에 세로선을 그리는 플러그인
+const createCrosshairPlugin = (crosshair: CrosshairSync): Plugin<"line", ChartPoint[]> => ({
+  id: "crosshair",
+  afterEvent(chart, args) {
+    const { event } = args
+    if (event.type === "mouseout") crosshair.move(chart, null)
+    else if (event.type === "mousemove" && event.x !== null) crosshair.move(chart, chart.scales.x.getValueForPixel(event.x) ?? null)
+  },
+  afterDatasetsDraw(chart) {
+    if (crosshair.time === null) return
+    const x = chart.scales.x.getPixelForValue(crosshair.time)
+    const { top, bottom, left, right } = chart.chartArea
+    if (x < left || x > right) return
+    const { ctx } = chart
+    ctx.save()
+    ctx.strokeStyle = "rgba(0, 0, 0, 0.4)"
+    ctx.setLineDash([4, 4])
+    ctx.beginPath()
+    ctx.moveTo(x, top)
+    ctx.lineTo(x, bottom)
+    ctx.stroke()
+    ctx.restore()
+  },
+})
+
+// 생성한 차트와 그 차트에 그리는 계열
+interface ChartEntry {
+  chart: Chart<"line", ChartPoint[]>
+  specs: SeriesSpec[]
+}
+
+// 계열마다 평균 선과 최소~최대 띠를 그리는 차트 설정 생성
+const createChartConfig = (
+  specs: SeriesSpec[], // 차트에 그릴 계열 (겹쳐 보기에서는 인바운드와 아웃바운드)
+  onViewportChange: (chart: Chart) => void, // 확대/이동이 끝났을 때 호출
+  crosshair: CrosshairSync,
+): ChartConfiguration<"line", ChartPoint[]> => ({
+  type: "line", // 차트 타입을 라인 차트로 설정
+  data: {
+    datasets: specs.flatMap((spec) => [
+      // 기준선 예상 범위의 상한 (점선)
+      {
+        data: [],
+        borderColor: `${spec.color}66`,
+        borderDash: [4, 4],
+        borderWidth: 1,
+        pointRadius: 0,
+        fill: false,
+        parsing: { yAxisKey: "upper" },
+      },
+      // 기준선 예상 범위의 하한 (상한까지 회색 띠를 채움)
+      {
+        data: [],
+        borderColor: `${spec.color}66`,
+        borderDash: [4, 4],
+        borderWidth: 1,
+        pointRadius: 0,
+        fill: "-1",
+        backgroundColor: "rgba(107, 114, 128, 0.08)",
+        parsing: { yAxisKey: "lower" },
+      },
+      // 최대 (띠의 위쪽 경계, 선은 그리지 않음)
+      { data: [], borderWidth: 0, pointRadius: 0, fill: false, parsing: { yAxisKey: "max" } },
+      // 최소 (최대까지 띠를 채움)
+      {
+        data: [],
+        borderWidth: 0,
+        pointRadius: 0,
+        fill: "-1",
+        backgroundColor: `${spec.color}33`,
+        parsing: { yAxisKey: "min" },
+      },
+      // 평균
+      {
+        label: spec.label,
+        data: [],
+        borderColor: spec.color, // 선 색상 설정
+        backgroundColor: `${spec.color}1A`, // 배경 색상 설정 (투명도 포함)
+        fill: specs.length === 1 ? "origin" : false, // 겹쳐 보기에서는 영역을 채우지 않음
+        tension: 0.4, // 곡선의 장력 설정
+        borderWidth: 2, // 선 두께 설정
+        // 기준선을 벗어난 점만 강조하여 표시
+        pointRadius: (context) => ((context.raw as ChartPoint | undefined)?.anomalous ? 4 : 0),
+        pointHoverRadius: (context) => ((context.raw as ChartPoint | undefined)?.anomalous ? 6 : 3),
+        pointBackgroundColor: ANOMALY_COLOR,
+        pointBorderColor: ANOMALY_COLOR,
+      },
+    ]),
+  },
+  options: {
+    responsive: true, // 반응형 설정
+    maintainAspectRatio: false, // 종횡비 유지 설정
+    interaction: { mode: "index", intersect: false },
+    scales: {
+      y: {
+        beginAtZero: true, // Y축이 0부터 시작하도록 설정 (최대값은 데이터에 맞춰 자동 조정)
+        grid: {
+          color: "rgba(0, 0, 0, 0.1)", // 그리드 색상 설정
+        },
+        ticks: {
+          color: "#666", // 눈금 색상 설정 (라벨 포맷은 단위에 맞춰 updateChart에서 설정)
+        },
+        title: {
+          display: true, // Y축 제목 표시 설정
+          color: "#666", // Y축 제목 색상 설정
+        },
+      },
+      x: {
+        type: "time", // X축 타입을 시간으로 설정
+        time: {
+          // 구간 길이에 따라 단위가 바뀌므로 단위별 표시 형식 설정
+          displayFormats: {
+            second: "HH:mm:ss",
+            minute: "HH:mm",
+            hour: "MM-dd HH:mm",
+            day: "MM-dd",
+          },
+        },
+        grid: {
+          color: "rgba(0, 0, 0, 0.1)", // 그리드 색상 설정
+        },
+        ticks: {
+          source: "auto", // 눈금 소스를 자동으로 설정
+          maxRotation: 0, // 눈금 라벨 최대 회전 각도 설정
+          color: "#666", // 눈금 색상 설정
+        },
+        title: {
+          display: true, // X축 제목 표시 설정
+          text: "시간", // X축 제목 텍스트 설정
+          color: "#666", // X축 제목 색상 설정
+        },
+      },
+    },
+    plugins: {
+      legend: {
+        display: specs.length > 1, // 겹쳐 보기에서만 범례 표시
+        labels: { filter: (item) => isAverageDataset(item.datasetIndex ?? 0) },
+      },
+      tooltip: {
+        // 평균 선의 점에만 툴팁을 표시 (최소/최대는 라벨에 함께 표시)
+        filter: (item) => isAverageDataset(item.datasetIndex),
+      },
+      zoom: {
+        limits: { x: { minRange: MIN_ZOOM_RANGE_MS } },
+        pan: { enabled: true, mode: "x", onPanComplete: ({ chart }) => onViewportChange(chart) },
+        zoom: {
+          wheel: { enabled: true, modifierKey: "ctrl" }, // 페이지 스크롤과 겹치지 않도록 Ctrl + 휠로 확대
+          pinch: { enabled: true },
+          drag: { enabled: true, modifierKey: "shift" }, // Shift + 끌기로 구간 확대
+          mode: "x",
+          onZoomComplete: ({ chart }) => onViewportChange(chart),
+        },
+      },
+    },
+    animation: {
+      duration: 0, // 애니메이션 지속 시간 설정
+    },
+  },
+  plugins: [createCrosshairPlugin(crosshair)],
+})
+
+// 지표에 맞는 점의 통계 (bps는 Mbps를 환산, pps는 값이 없으면 null)
+const metricStats = (point: TrafficSeriesPoint, direction: Direction, metric: TrafficMetric): SeriesStats | null => {
+  if (metric === "pps") return direction === "inbound" ? point.inboundPps : point.outboundPps
+  const stats = point[direction]
+  return { min: mbpsToBps(stats.min), avg: mbpsToBps(stats.avg), max: mbpsToBps(stats.max) }
+}
+
+// 차트의 데이터, 단위, X축 구간을 갱신 (viewWindow가 없으면 데이터 범위에 맞춤)
+// 기준선은 대역폭으로 학습하므로 bps 지표에서만 예상 범위를 표시
+const updateChart = (
+  { chart, specs }: ChartEntry,
+  points: TrafficSeriesPoint[],
+  baseline: Map<number, TrafficBaselinePoint>,
+  metric: TrafficMetric,
+  viewWindow: TimeWindow | null,
+) => {
+  let maxValue = 0
+  specs.forEach((spec, specIndex) => {
+    const data = points.flatMap((point) => {
+      const stats = metricStats(point, spec.direction, metric)
+      if (!stats) return []
+      const band = metric === "bps" ? baseline.get(point.time.getTime())?.[spec.direction] : null
+      const upper = band ? mbpsToBps(band.upper) : null
+      maxValue = Math.max(maxValue, stats.max, upper ?? 0)
+      return [
+        {
+          x: point.time.getTime(),
+          y: stats.avg,
+          min: stats.min,
+          max: stats.max,
+          lower: band ? mbpsToBps(band.lower) : null,
+          upper,
+          anomalous: band?.anomalous ?? false,
+        },
+      ]
+    })
+    for (let i = 0; i < DATASETS_PER_SERIES; i++) chart.data.datasets[specIndex * DATASETS_PER_SERIES + i].data = data
+  })
+
+  // 데이터의 최대값에 맞는 단위로 눈금과 툴팁을 표시
+  const unit = chooseTrafficUnit(maxValue, metric)
+  const yScale = chart.options.scales!.y!
+  yScale.ticks!.callback = (value) => formatTrafficValue(Number(value), metric, unit)
+  yScale.title!.text = `트래픽 (${unit.label})`
+  chart.options.plugins!.tooltip!.callbacks = {
+    label: (item) => {
+      const point = item.raw as ChartPoint
+      const prefix = specs.length > 1 ? `${item.dataset.label}: ` : ""
+      const value =
+        point.min === point.max
+          ? `${prefix}${formatTrafficValue(point.y, metric)}`
+          : `${prefix}평균 ${formatTrafficValue(point.y, metric)} / ` +
+            `최소 ${formatTrafficValue(point.min, metric)} / 최대 ${formatTrafficValue(point.max, metric)}`
+      if (point.lower === null || point.upper === null) return value
+      const expected = `예상 ${formatTrafficValue(point.lower, metric)} ~ ${formatTrafficValue(point.upper, metric)}`
+      return [value, point.anomalous ? `${expected} (기준선 이탈)` : expected]
+    },
+  }
+
+  const xScale = chart.options.scales!.x!
+  xScale.min = viewWindow ? viewWindow.from.getTime() : undefined
+  xScale.max = viewWindow ? viewWindow.to.getTime() : undefined
+  chart.update()
 }
 
+// 몇 개의 선택지 중 하나를 고르는 버튼 묶음
+const SegmentedControl = <T extends string>({
+  value,
+  options,
+  onChange,
+}: {
+  value: T
+  options: [T, string][]
+  onChange: (value: T) => void
+}) => (
+  <div className="inline-flex rounded-md border border-input bg-white p-0.5">
+    {options.map(([key, label]) => (
+      <button
+        key={key}
+        type="button"
+        onClick={() => onChange(key)}
+        className={`px-3 py-1.5 rounded text-sm ${value === key ? "bg-blue-600 text-white" : "text-gray-600 hover:bg-gray-100"}`}
+      >
+        {label}
+      </button>
+    ))}
+  </div>
+)
+
+// TrafficCard 컴포넌트 정의 (렌더링마다 캔버스가 다시 만들어지지 않도록 모듈 수준에 정의)
+const TrafficCard = ({
+  title, // 카드의 제목
+  icon: Icon, // 카드에 표시할 아이콘
+  chartRef, // 차트를 참조하는 ref
+}: {
+  title: string // 제목의 타입 정의
+  icon: React.ElementType // 아이콘의 타입 정의
+  chartRef: React.RefObject<HTMLCanvasElement> // 차트 ref의 타입 정의
+}) => (
+  <Card className="shadow-lg overflow-hidden">
+    <CardHeader className="bg-gradient-to-r from-blue-600 to-blue-800 border-b border-blue-700">
+      <CardTitle className="text-lg text-white flex items-center">
+        <Icon className="mr-2" /> {title}
+      </CardTitle>
+    </CardHeader>
+    <CardContent className="p-6 bg-white">
+      <div className="h-[200px] w-full bg-gray-50 rounded-lg p-4">
+        <canvas ref={chartRef}></canvas>
+      </div>
+    </CardContent>
+  </Card>
+)
+
 // TrafficGraph 컴포넌트 정의
-const TrafficGraph: React.FC<TrafficGraphProps> = ({ trafficData }) => {
-  // 캔버스와 차트 인스턴스를 참조하기 위한 ref 생성
+const TrafficGraph: React.FC<TrafficGraphProps> = ({ trafficData, baseline, allowHistory = true }) => {
+  // 캔버스와 차트 인스턴스를 참조하기 위한 ref 생성 (나눠 보기: 인바운드/아웃바운드, 겹쳐 보기: 통합 차트 하나)
   const inboundChartRef = useRef<HTMLCanvasElement | null>(null)
   const outboundChartRef = useRef<HTMLCanvasElement | null>(null)
-  const inboundChartInstance = useRef<Chart | null>(null)
-  const outboundChartInstance = useRef<Chart | null>(null)
-
-  // 차트를 생성하거나 업데이트하는 함수 정의
-  const createOrUpdateChart = useMemo(
-    () =>
-      (
-        canvasRef: React.RefObject<HTMLCanvasElement>, // 캔버스 엘리먼트를 참조하는 ref
-        chartInstance: React.MutableRefObject<Chart | null>, // 차트 인스턴스를 참조하는 ref
-        data: number[], // 차트에 표시할 데이터 배열
-        color: string, // 차트의 색상
-      ) => {
-        if (canvasRef.current) { // 캔버스 엘리먼트가 존재하는지 확인
-          const ctx = canvasRef.current.getContext("2d") // 2D 컨텍스트를 가져옴
-          if (ctx) { // 컨텍스트가 유효한지 확인
-            if (chartInstance.current) { // 차트 인스턴스가 이미 존재하는지 확인
-              // 차트가 이미 존재하면 데이터를 업데이트
-              chartInstance.current.data.labels = trafficData.map((d) => d?.time ?? new Date()) // 라벨을 업데이트
-              chartInstance.current.data.datasets[0].data = data // 데이터셋을 업데이트
-              chartInstance.current.update() // 차트를 업데이트
-            } else {
-              // 차트가 존재하지 않으면 새로 생성
-              const chartConfig: ChartConfiguration = {
-                type: "line", // 차트 타입을 라인 차트로 설정
-                data: {
-                  labels: trafficData.map((d) => d?.time ?? new Date()), // 라벨 설정
-                  datasets: [
-                    {
-                      data: data, // 데이터 설정
-                      borderColor: color, // 선 색상 설정
-                      backgroundColor: `${color}33`, // 배경 색상 설정 (투명도 포함)
-                      fill: true, // 영역 채우기 설정
-                      tension: 0.4, // 곡선의 장력 설정
-                      borderWidth: 2, // 선 두께 설정
-                    },
-                  ],
-                },
-                options: {
-                  responsive: true, // 반응형 설정
-                  maintainAspectRatio: false, // 종횡비 유지 설정
-                  scales: {
-                    y: {
-                      beginAtZero: true, // Y축이 0부터 시작하도록 설정
-                      max: 30, // Y축 최대값 설정
-                      grid: {
-                        color: "rgba(0, 0, 0, 0.1)", // 그리드 색상 설정
-                      },
-                      ticks: {
-                        color: "#666", // 눈금 색상 설정
-                        callback: (value) => `${value} Mbps`, // 눈금 라벨 포맷 설정
-                      },
-                      title: {
-                        display: true, // Y축 제목 표시 설정
-                        text: "트래픽 (Mbps)", // Y축 제목 텍스트 설정
-                        color: "#666", // Y축 제목 색상 설정
-                      },
-                    },
-                    x: {
-                      type: "time", // X축 타입을 시간으로 설정
-                      time: {
-                        unit: "second", // 시간 단위를 초로 설정
-                        displayFormats: {
-                          second: "HH:mm:ss", // 시간 표시 형식 설정
-                        },
-                      },
-                      grid: {
-                        color: "rgba(0, 0, 0, 0.1)", // 그리드 색상 설정
-                      },
-                      ticks: {
-                        source: "auto", // 눈금 소스를 자동으로 설정
-                        maxRotation: 0, // 눈금 라벨 최대 회전 각도 설정
-                        color: "#666", // 눈금 색상 설정
-                      },
-                      title: {
-                        display: true, // X축 제목 표시 설정
-                        text: "시간", // X축 제목 텍스트 설정
-                        color: "#666", // X축 제목 색상 설정
-                      },
-                    },
-                  },
-                  plugins: {
-                    legend: {
-                      display: false, // 범례 표시 설정
-                    },
-                  },
-                  animation: {
-                    duration: 0, // 애니메이션 지속 시간 설정
-                  },
-                },
-              }
-              chartInstance.current = new Chart(ctx, chartConfig) // 새로운 차트 인스턴스 생성
-            }
-          }
-        }
-      },
-    [trafficData], // trafficData가 변경될 때마다 함수가 재생성됨
+  const combinedChartRef = useRef<HTMLCanvasElement | null>(null)
+  const chartsRef = useRef<ChartEntry[]>([])
+  const history = useHistoryStore()
+
+  // 선택한 구간과 조회 결과
+  const [range, setRange] = useState<TrafficRange>("live")
+  const [viewWindow, setViewWindow] = useState<TimeWindow | null>(null)
+  const [series, setSeries] = useState<TrafficSeries | null>(null)
+  const [loading, setLoading] = useState(false)
+  // 표시 지표 (비트/패킷)와 보기 방식 (나눠 보기/겹쳐 보기)
+  const [metric, setMetric] = useState<TrafficMetric>("bps")
+  const [viewMode, setViewMode] = useState<ViewMode>("split")
+
+  const showHistory = allowHistory && range !== "live" && viewWindow !== null
+  const points = useMemo(
+    () => (showHistory ? series?.points ?? [] : samplesToSeriesPoints(Array.isArray(trafficData) ? trafficData : [])),
+    [showHistory, series, trafficData],
   )
+  // 표시하는 점의 기준선 평가 결과 (시각으로 찾음)
+  const baselineByTime = useMemo(() => {
+    const evaluated =
+      !showHistory && baseline
+        ? baseline
+        : evaluateBaselineSeries(
+            points.map((point) => ({ time: point.time, inbound: point.inbound.avg, outbound: point.outbound.avg })),
+          )
+    return new Map(evaluated.map((point) => [point.time.getTime(), point]))
+  }, [showHistory, baseline, points])
+  const anomalyCount = points.filter((point) => {
+    const evaluated = baselineByTime.get(point.time.getTime())
+    return evaluated && anomalousDirections(evaluated).length > 0
+  }).length
+  const missingPackets = metric === "pps" && points.length > 0 && points.every((point) => !point.inboundPps && !point.outboundPps)
 
-  // 컴포넌트가 마운트되거나 trafficData가 변경될 때 실행
+  // 확대/이동이 끝나면 보이는 구간을 직접 지정 구간으로 바꿔 다시 조회 (차트 생성 시점의 콜백에서 최신 상태를 쓰도록 ref 사용)
+  const viewportChangeRef = useRef<(chart: Chart) => void>(() => {})
+  viewportChangeRef.current = (chart: Chart) => {
+    if (!allowHistory || !history) return
+    const { min, max } = chart.scales.x
+    const to = Math.min(max, Date.now())
+    setRange("custom")
+    setViewWindow({ from: new Date(Math.min(min, to - MIN_ZOOM_RANGE_MS)), to: new Date(to) })
+  }
+
+  // 보기 방식에 맞는 차트를 생성하고, 보기 방식이 바뀌거나 언마운트될 때 차트 인스턴스를 파괴
   useEffect(() => {
-    if (Array.isArray(trafficData) && trafficData.length > 0) {
-      const validInboundData = trafficData.map((d) => (typeof d?.inbound === "number" ? d.inbound : 0)) // 유효한 인바운드 데이터를 추출
-      const validOutboundData = trafficData.map((d) => (typeof d?.outbound === "number" ? d.outbound : 0)) // 유효한 아웃바운드 데이터를 추출
+    const onViewportChange = (chart: Chart) => viewportChangeRef.current(chart)
+    const crosshair = createCrosshairSync(() => chartsRef.current.map((entry) => entry.chart))
+    const targets: [HTMLCanvasElement | null, SeriesSpec[]][] =
+      viewMode === "overlay"
+        ? [[combinedChartRef.current, [SERIES.inbound, SERIES.outbound]]]
+        : [
+            [inboundChartRef.current, [SERIES.inbound]],
+            [outboundChartRef.current, [SERIES.outbound]],
+          ]
+    chartsRef.current = targets.flatMap(([canvas, specs]) =>
+      canvas ? [{ chart: new Chart(canvas, createChartConfig(specs, onViewportChange, crosshair)), specs }] : [],
+    )
 
-      createOrUpdateChart(inboundChartRef, inboundChartInstance, validInboundData, "#3B82F6") // 인바운드 차트를 생성하거나 업데이트
-      createOrUpdateChart(outboundChartRef, outboundChartInstance, validOutboundData, "#EF4444") // 아웃바운드 차트를 생성하거나 업데이트
+    return () => {
+      chartsRef.current.forEach((entry) => entry.chart.destroy())
+      chartsRef.current = []
     }
+  }, [viewMode])
+
+  // 과거 구간이 바뀌면 (확대/이동이 잦을 수 있으므로 잠시 기다렸다가) 맞는 해상도로 조회
+  useEffect(() => {
+    if (!showHistory || !history || !viewWindow) return
+    let active = true
+    const timer = setTimeout(() => {
+      setLoading(true)
+      history
+        .loadTrafficSeries(viewWindow.from, viewWindow.to, MAX_CHART_POINTS)
+        .then((result) => {
+          if (active) setSeries(result)
+        })
+        .catch((error) => console.warn("[history] 트래픽 기록을 불러오지 못했습니다", error))
+        .finally(() => {
+          if (active) setLoading(false)
+        })
+    }, LOAD_DELAY_MS)
 
-    // 컴포넌트가 언마운트될 때 차트 인스턴스를 파괴
     return () => {
-      if (inboundChartInstance.current) {
-        inboundChartInstance.current.destroy() // 인바운드 차트 인스턴스를 파괴
-        inboundChartInstance.current = null // 인바운드 차트 인스턴스를 null로 설정
-      }
-      if (outboundChartInstance.current) {
-        outboundChartInstance.current.destroy() // 아웃바운드 차트 인스턴스를 파괴
-        outboundChartInstance.current = null // 아웃바운드 차트 인스턴스를 null로 설정
-      }
+      active = false
+      clearTimeout(timer)
     }
-  }, [trafficData, createOrUpdateChart]) // trafficData 또는 createOrUpdateChart가 변경될 때마다 useEffect 실행
-
-  // TrafficCard 컴포넌트 정의
-  const TrafficCard = ({
-    title, // 카드의 제목
-    icon: Icon, // 카드에 표시할 아이콘
-    chartRef, // 차트를 참조하는 ref
-  }: {
-    title: string // 제목의 타입 정의
-    icon: React.ElementType // 아이콘의 타입 정의
-    chartRef: React.RefObject<HTMLCanvasElement> // 차트 ref의 타입 정의
-  }) => (
-    <Card className="shadow-lg overflow-hidden">
-      <CardHeader className="bg-gradient-to-r from-blue-600 to-blue-800 border-b border-blue-700">
-        <CardTitle className="text-lg text-white flex items-center">
-          <Icon className="mr-2" /> {title}
-        </CardTitle>
-      </CardHeader>
-      <CardContent className="p-6 bg-white">
-        <div className="h-[200px] w-full bg-gray-50 rounded-lg p-4">
-          <canvas ref={chartRef}></canvas>
-        </div>
-      </CardContent>
-    </Card>
-  )
+  }, [showHistory, history, viewWindow])
+
+  // 표시할 데이터나 지표, 보기 방식이 바뀌면 모든 차트를 같은 구간으로 갱신
+  useEffect(() => {
+    const chartWindow = showHistory ? viewWindow : null
+    chartsRef.current.forEach((entry) => updateChart(entry, points, baselineByTime, metric, chartWindow))
+  }, [showHistory, points, baselineByTime, viewWindow, metric, viewMode])
+
+  // 구간 선택 (미리 정한 구간은 현재 시각 기준으로 계산)
+  const handleRangeChange = (value: TrafficRange) => {
+    setRange(value)
+    setSeries(null)
+    const option = RANGE_OPTIONS.find((item) => item.key === value)
+    if (value === "live") {
+      setViewWindow(null)
+    } else if (option?.durationMs) {
+      const now = Date.now()
+      setViewWindow({ from: new Date(now - option.durationMs), to: new Date(now) })
+    } else if (!viewWindow) {
+      // 직접 지정은 최근 1시간에서 시작
+      const now = Date.now()
+      setViewWindow({ from: new Date(now - 60 * 60 * 1000), to: new Date(now) })
+    }
+  }
+
+  // 직접 지정 구간의 시작/끝 입력
+  const handleCustomChange = (edge: "from" | "to", value: string) => {
+    const date = new Date(value)
+    if (!viewWindow || Number.isNaN(date.getTime())) return
+    const next = { ...viewWindow, [edge]: date }
+    if (next.from.getTime() < next.to.getTime()) setViewWindow(next)
+  }
 
   // TrafficGraph 컴포넌트의 반환값
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-      <TrafficCard title="인바운드 트래픽" icon={ArrowDownToLine} chartRef={inboundChartRef} />
-      <TrafficCard title="아웃바운드 트래픽" icon={ArrowUpFromLine} chartRef={outboundChartRef} />
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+        {/* 구간 선택 (기록 저장소를 사용할 수 있을 때만 표시) */}
+        {allowHistory && history && (
+          <>
+            <Select value={range} onValueChange={(value) => handleRangeChange(value as TrafficRange)}>
+              <SelectTrigger className="w-[160px] bg-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RANGE_OPTIONS.map((option) => (
+                  <SelectItem key={option.key} value={option.key}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {range === "custom" && viewWindow && (
+              <>
+                <input
+                  type="datetime-local"
+                  value={toInputValue(viewWindow.from)}
+                  onChange={(event) => handleCustomChange("from", event.target.value)}
+                  className="h-10 px-2 rounded-md border border-input bg-white"
+                />
+                <span>~</span>
+                <input
+                  type="datetime-local"
+                  value={toInputValue(viewWindow.to)}
+                  onChange={(event) => handleCustomChange("to", event.target.value)}
+                  className="h-10 px-2 rounded-md border border-input bg-white"
+                />
+              </>
+            )}
+          </>
+        )}
+        {/* 지표와 보기 방식 전환 */}
+        <SegmentedControl
+          value={metric}
+          options={Object.entries(TRAFFIC_METRIC_LABELS) as [TrafficMetric, string][]}
+          onChange={setMetric}
+        />
+        <SegmentedControl value={viewMode} options={VIEW_MODE_OPTIONS} onChange={setViewMode} />
+        {showHistory && (
+          <span>
+            {loading
+              ? "불러오는 중..."
+              : series &&
+                `해상도 ${RESOLUTION_LABELS[series.resolutionSeconds] ?? `${series.resolutionSeconds}초`}` +
+                  (series.resolutionSeconds > 2 ? " (선: 평균, 음영: 최소~최대)" : "") +
+                  `, ${series.points.length}개 구간`}
+          </span>
+        )}
+        {anomalyCount > 0 && (
+          <span className="flex items-center text-amber-600">
+            <AlertTriangle className="w-4 h-4 mr-1" /> 기준선 이탈 {anomalyCount}개 구간
+          </span>
+        )}
+        {missingPackets && <span className="text-amber-600">이 구간에는 패킷 수 정보가 없습니다</span>}
+        {allowHistory && history && (
+          <span className="text-xs text-gray-400">Ctrl + 휠로 확대, 끌어서 이동, Shift + 끌기로 구간 확대</span>
+        )}
+      </div>
+      {viewMode === "overlay" ? (
+        <TrafficCard title="인바운드 / 아웃바운드 트래픽" icon={ArrowUpDown} chartRef={combinedChartRef} />
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <TrafficCard title="인바운드 트래픽" icon={ArrowDownToLine} chartRef={inboundChartRef} />
+          <TrafficCard title="아웃바운드 트래픽" icon={ArrowUpFromLine} chartRef={outboundChartRef} />
+        </div>
+      )}
     </div>
   )
 }
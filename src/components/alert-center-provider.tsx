@@ -0,0 +1,86 @@
+"use client"
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+  useSyncExternalStore,
+  type ReactNode,
+} from "react"
+import type { AlertGroup } from "../types/alert"
+import { anomalyToOccurrence, createAlertCenter, ruleAlertToOccurrence, type AlertCenter } from "../utils/alertCenter"
+import { useHistoryStore, useTelemetrySource } from "./telemetry-provider"
+
+// 시작 시 기록 저장소에서 복원할 그룹 수
+const HYDRATE_ALERT_LIMIT = 2000
+// 바뀐 그룹을 기록 저장소에 저장하는 간격 (ms)
+const SAVE_INTERVAL_MS = 1000
+// 처리자 이름을 보관하는 localStorage 키
+const OPERATOR_STORAGE_KEY = "auto-guard-alert-operator"
+const DEFAULT_OPERATOR = "analyst"
+
+const AlertCenterContext = createContext<AlertCenter | null>(null)
+
+// 텔레메트리의 탐지 알림과 이상 징후를 알림 센터에 모으고 하위 컴포넌트에 제공
+export function AlertCenterProvider({ children }: { children: ReactNode }) {
+  const telemetry = useTelemetrySource()
+  const history = useHistoryStore()
+  const center = useMemo(() => createAlertCenter(), [])
+
+  useEffect(() => {
+    const unsubscribes = [
+      telemetry.subscribe("alerts", (alert) => center.ingest(ruleAlertToOccurrence(alert))),
+      telemetry.subscribe("anomalies", (anomaly) => center.ingest(anomalyToOccurrence(anomaly))),
+    ]
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe())
+  }, [telemetry, center])
+
+  // 저장된 그룹을 복원하고 바뀐 그룹을 주기적으로 저장
+  useEffect(() => {
+    if (!history) return
+    history
+      .loadAlerts(HYDRATE_ALERT_LIMIT)
+      .then((groups) => center.hydrate(groups))
+      .catch((error) => console.warn("[alerts] 저장된 알림을 불러오지 못했습니다", error))
+
+    const save = () => {
+      history.saveAlerts(center.takeChanges()).catch((error) => console.warn("[alerts] 알림을 저장하지 못했습니다", error))
+    }
+    const timer = setInterval(save, SAVE_INTERVAL_MS)
+    return () => {
+      clearInterval(timer)
+      save()
+    }
+  }, [history, center])
+
+  return <AlertCenterContext.Provider value={center}>{children}</AlertCenterContext.Provider>
+}
+
+// 현재 알림 센터를 반환
+export function useAlertCenter(): AlertCenter {
+  const center = useContext(AlertCenterContext)
+  if (!center) throw new Error("useAlertCenter는 AlertCenterProvider 안에서 사용해야 합니다")
+  return center
+}
+
+// 알림 그룹 목록을 반환 (마지막 발생 시각의 최신순)
+export function useAlertGroups(): AlertGroup[] {
+  const center = useAlertCenter()
+  return useSyncExternalStore(center.subscribe, center.getSnapshot)
+}
+
+// 상태를 바꿀 때 기록할 처리자 이름과 변경 함수를 반환
+export function useAlertOperator(): [string, (name: string) => void] {
+  const [operator, setOperator] = useState(() => localStorage.getItem(OPERATOR_STORAGE_KEY) || DEFAULT_OPERATOR)
+
+  const update = useCallback((name: string) => {
+    setOperator(name)
+    if (name.trim()) localStorage.setItem(OPERATOR_STORAGE_KEY, name.trim())
+    else localStorage.removeItem(OPERATOR_STORAGE_KEY)
+  }, [])
+
+  return [operator, update]
+}
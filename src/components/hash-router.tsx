@@ -0,0 +1,19 @@
+"use client"
+
+import { useEffect, useState } from "react"
+
+// 주소의 해시에서 화면 경로를 읽음 (#/rules → "/rules", 없으면 "/")
+const readHashRoute = () => window.location.hash.replace(/^#/, "") || "/"
+
+// 현재 화면 경로를 반환하고 해시가 바뀌면 갱신
+export function useHashRoute(): string {
+  const [route, setRoute] = useState(readHashRoute)
+
+  useEffect(() => {
+    const handleChange = () => setRoute(readHashRoute())
+    window.addEventListener("hashchange", handleChange)
+    return () => window.removeEventListener("hashchange", handleChange)
+  }, [])
+
+  return route
+}
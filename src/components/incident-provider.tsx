@@ -0,0 +1,52 @@
+"use client"
+
+import { createContext, useContext, useEffect, useMemo, useSyncExternalStore, type ReactNode } from "react"
+import type { Incident } from "../types/incident"
+import { createIncidentManager, type IncidentManager } from "../utils/incidentManager"
+import { useHistoryStore } from "./telemetry-provider"
+
+// 바뀐 인시던트를 기록 저장소에 저장하는 간격 (ms)
+const SAVE_INTERVAL_MS = 1000
+
+const IncidentContext = createContext<IncidentManager | null>(null)
+
+// 인시던트 관리자를 만들어 기록 저장소와 동기화하고 하위 컴포넌트에 제공
+export function IncidentProvider({ children }: { children: ReactNode }) {
+  const history = useHistoryStore()
+  const manager = useMemo(() => createIncidentManager(), [])
+
+  // 저장된 인시던트를 복원하고 바뀐 인시던트를 주기적으로 저장
+  useEffect(() => {
+    if (!history) return
+    history
+      .loadIncidents()
+      .then((incidents) => manager.hydrate(incidents))
+      .catch((error) => console.warn("[incidents] 저장된 인시던트를 불러오지 못했습니다", error))
+
+    const save = () => {
+      history
+        .saveIncidents(manager.takeChanges())
+        .catch((error) => console.warn("[incidents] 인시던트를 저장하지 못했습니다", error))
+    }
+    const timer = setInterval(save, SAVE_INTERVAL_MS)
+    return () => {
+      clearInterval(timer)
+      save()
+    }
+  }, [history, manager])
+
+  return <IncidentContext.Provider value={manager}>{children}</IncidentContext.Provider>
+}
+
+// 현재 인시던트 관리자를 반환
+export function useIncidentManager(): IncidentManager {
+  const manager = useContext(IncidentContext)
+  if (!manager) throw new Error("useIncidentManager는 IncidentProvider 안에서 사용해야 합니다")
+  return manager
+}
+
+// 인시던트 목록을 반환 (마지막 변경 시각의 최신순)
+export function useIncidents(): Incident[] {
+  const manager = useIncidentManager()
+  return useSyncExternalStore(manager.subscribe, manager.getSnapshot)
+}
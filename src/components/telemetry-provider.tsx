@@ -0,0 +1,82 @@
+"use client"
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+  useSyncExternalStore,
+  type ReactNode,
+} from "react"
+import type { TelemetrySource } from "../types/telemetry"
+import { isHistorySupported, openHistoryStore, type HistoryStore } from "../utils/historyStore"
+import { createLiveStore, type LiveSelector, type LiveStore } from "../utils/liveStore"
+import { createTelemetrySource, readHistoryRetention } from "../utils/telemetrySource"
+
+const TelemetryContext = createContext<TelemetrySource | null>(null)
+const LiveStoreContext = createContext<LiveStore | null>(null)
+
+// 텔레메트리 소스를 생성·시작하고, 소스를 구독하는 실시간 저장소와 함께 하위 컴포넌트에 제공
+export function TelemetryProvider({ children, source }: { children: ReactNode; source?: TelemetrySource }) {
+  const value = useMemo(() => source ?? createTelemetrySource(), [source])
+  const store = useMemo(() => createLiveStore(), [])
+
+  // 소스보다 저장소를 먼저 연결하여 시작하자마자 발행된 값도 받음
+  useEffect(() => {
+    const disconnect = store.connect(value)
+    value.start()
+    return () => {
+      value.stop()
+      disconnect()
+    }
+  }, [value, store])
+
+  return (
+    <TelemetryContext.Provider value={value}>
+      <LiveStoreContext.Provider value={store}>{children}</LiveStoreContext.Provider>
+    </TelemetryContext.Provider>
+  )
+}
+
+// 현재 텔레메트리 소스를 반환
+export function useTelemetrySource(): TelemetrySource {
+  const source = useContext(TelemetryContext)
+  if (!source) throw new Error("useTelemetrySource는 TelemetryProvider 안에서 사용해야 합니다")
+  return source
+}
+
+// 현재 실시간 저장소를 반환
+export function useLiveStore(): LiveStore {
+  const store = useContext(LiveStoreContext)
+  if (!store) throw new Error("useLiveStore는 TelemetryProvider 안에서 사용해야 합니다")
+  return store
+}
+
+// 실시간 저장소에서 선택자로 고른 값을 반환 (값이 바뀔 때만 다시 렌더링)
+export function useLiveSelector<T>(selector: LiveSelector<T>): T {
+  const store = useLiveStore()
+  const getSelection = useCallback(() => selector(store.getSnapshot()), [store, selector])
+  return useSyncExternalStore(store.subscribe, getSelection)
+}
+
+// IndexedDB 기록 저장소를 반환 (기록을 사용하지 않거나 아직 열리지 않았으면 null)
+export function useHistoryStore(): HistoryStore | null {
+  const [store, setStore] = useState<HistoryStore | null>(null)
+
+  useEffect(() => {
+    if (!readHistoryRetention() || !isHistorySupported()) return
+    let active = true
+    openHistoryStore()
+      .then((opened) => {
+        if (active) setStore(opened)
+      })
+      .catch((error) => console.warn("[history] 기록 저장소를 열지 못했습니다", error))
+    return () => {
+      active = false
+    }
+  }, [])
+
+  return store
+}
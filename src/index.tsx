@@ -2,12 +2,21 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import './index.css';
 import App from './App';
+import { TelemetryProvider } from './components/telemetry-provider';
+import { AlertCenterProvider } from './components/alert-center-provider';
+import { IncidentProvider } from './components/incident-provider';
 
 const root = ReactDOM.createRoot(
   document.getElementById('root') as HTMLElement
 );
 root.render(
   <React.StrictMode>
-    <App />
+    <TelemetryProvider>
+      <AlertCenterProvider>
+        <IncidentProvider>
+          <App />
+        </IncidentProvider>
+      </AlertCenterProvider>
+    </TelemetryProvider>
   </React.StrictMode>
 );
\ No newline at end of file
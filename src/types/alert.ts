@@ -0,0 +1,45 @@
+/**
+ * 알림 센터가 관리하는 알림 그룹의 타입 정의
+ *
+ * 탐지 규칙 알림(RuleAlert)과 트래픽 이상 징후(TrafficAnomaly)를 같은 형태로 모으며,
+ * 같은 지문(fingerprint)의 알림은 하나의 그룹으로 묶어 발생 횟수와 처음/마지막 발생 시각을 누적
+ *
+ * @module alert
+ */
+import type { RuleField, RuleSeverity } from "./rule"
+
+// 알림 처리 상태
+export type AlertStatus = "open" | "acknowledged" | "resolved" | "suppressed"
+
+export const ALERT_STATUSES: AlertStatus[] = ["open", "acknowledged", "resolved", "suppressed"]
+
+// 알림을 만든 곳
+export type AlertOrigin = "rule" | "anomaly"
+
+// 상태 변경 기록 (누가, 언제)
+export interface AlertStatusChange {
+  status: AlertStatus
+  actor: string
+  at: Date
+  note?: string
+}
+
+// 같은 지문의 알림을 묶은 그룹
+export interface AlertGroup {
+  id: string
+  fingerprint: string
+  origin: AlertOrigin
+  ruleId: string
+  title: string
+  severity: RuleSeverity
+  group: Partial<Record<RuleField, string>> // 그룹을 나눈 필드 값 (규칙의 groupBy, 없으면 출발지/도착지)
+  firstSeen: Date
+  lastSeen: Date
+  count: number // 발생 횟수
+  sourceIP?: string // 마지막 알림의 출발지/도착지
+  destinationIP?: string
+  logIds: string[] // 관련 로그 ID (최근 것부터)
+  status: AlertStatus
+  suppressedUntil: Date | null // 억제 상태의 해제 시각 (null이면 직접 해제할 때까지)
+  history: AlertStatusChange[] // 오래된 순
+}
@@ -0,0 +1,61 @@
+/**
+ * 방화벽 규칙과 정책의 타입 정의
+ *
+ * 규칙은 위에서부터 순서대로 평가하여 처음 일치한 규칙의 동작을 적용하고,
+ * 일치하는 규칙이 없으면 정책의 기본 동작을 적용
+ * 주소와 포트는 화면에서 편집하는 문자열 그대로 보관하며 검증과 컴파일은 utils/firewall에서 담당
+ *
+ * @module firewall
+ */
+
+export type FirewallAction = "allow" | "deny"
+
+export const FIREWALL_ACTIONS: FirewallAction[] = ["allow", "deny"]
+
+// 방향 (내부망 기준, any는 방향과 관계없이 일치)
+export type FirewallDirection = "any" | "inbound" | "outbound"
+
+export const FIREWALL_DIRECTIONS: FirewallDirection[] = ["any", "inbound", "outbound"]
+
+// 전송 계층 프로토콜 (HTTP, DNS 같은 응용 프로토콜 로그는 TCP/UDP로 변환하여 비교)
+export type FirewallProtocol = "any" | "TCP" | "UDP" | "ICMP"
+
+export const FIREWALL_PROTOCOLS: FirewallProtocol[] = ["any", "TCP", "UDP", "ICMP"]
+
+export interface FirewallRule {
+  id: string
+  name: string
+  action: FirewallAction
+  direction: FirewallDirection
+  protocol: FirewallProtocol
+  source: string // "any" 또는 쉼표로 구분한 주소/CIDR 목록 (예: "10.0.0.0/8, 192.168.1.10")
+  sourcePorts: string // "any" 또는 쉼표로 구분한 포트/범위 목록 (예: "80, 443, 8000-8080")
+  destination: string
+  destinationPorts: string
+  enabled: boolean
+}
+
+export interface FirewallPolicy {
+  rules: FirewallRule[] // 평가 순서
+  defaultAction: FirewallAction // 일치하는 규칙이 없을 때의 동작
+}
+
+// 편집 중인 규칙의 필드 오류
+export interface FirewallRuleError {
+  ruleId: string
+  field: keyof FirewallRule
+  message: string
+}
+
+// 규칙 순서 분석 결과
+// - shadowed: 앞선 규칙이 모든 트래픽을 다른 동작으로 먼저 처리하여 적용되지 않는 규칙
+// - redundant: 지워도 결과가 같은 규칙 (앞선 규칙이 같은 동작으로 모두 처리하거나, 뒤의 더 넓은 규칙이 같은 동작으로 처리)
+// - conflict: 다른 동작의 규칙과 일부만 겹쳐 순서에 따라 결과가 달라지는 규칙
+export type FirewallFindingKind = "shadowed" | "redundant" | "conflict"
+
+export interface FirewallFinding {
+  kind: FirewallFindingKind
+  ruleId: string
+  relatedRuleId: string
+  message: string
+}
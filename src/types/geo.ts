@@ -0,0 +1,24 @@
+/**
+ * IP 주소의 지리 정보(GeoIP) 타입 정의
+ *
+ * 로컬 GeoIP 데이터베이스(MaxMind MMDB 또는 CSV)에서 찾은 값이며,
+ * 데이터베이스에 없는 항목(도시, 좌표, ASN)은 비워 둠
+ *
+ * @module geo
+ */
+
+export interface GeoLocation {
+  country: string // ISO 3166-1 alpha-2 국가 코드 (예: "KR")
+  countryName?: string // 데이터베이스에 적힌 국가 이름
+  city?: string
+  latitude: number | null
+  longitude: number | null
+  asn?: number
+  asOrganization?: string
+}
+
+// 지구본에 점을 찍을 좌표
+export interface GeoPoint {
+  latitude: number
+  longitude: number
+}
@@ -0,0 +1,55 @@
+/**
+ * 인시던트(사건) 관리의 타입 정의
+ *
+ * 인시던트는 관련 알림 그룹과 로그를 묶고, 담당자·상태·심각도와
+ * 증거와 분석 메모를 시간 순으로 쌓은 타임라인을 가짐
+ *
+ * @module incident
+ */
+import type { LogEntry } from "./log"
+import type { RuleSeverity } from "./rule"
+
+// 인시던트 처리 단계 (진행 순)
+export type IncidentStatus = "new" | "investigating" | "contained" | "resolved" | "closed"
+
+export const INCIDENT_STATUSES: IncidentStatus[] = ["new", "investigating", "contained", "resolved", "closed"]
+
+// 타임라인 항목 종류
+export type IncidentTimelineKind = "created" | "status" | "assignment" | "severity" | "note" | "alert" | "log"
+
+// 타임라인에 남기는 알림 그룹 정보 (알림 센터에서 그룹이 지워져도 보고서에 남도록 복사)
+export interface IncidentAlertEvidence {
+  groupId: string
+  ruleId: string
+  title: string
+  severity: RuleSeverity
+  firstSeen: Date
+  lastSeen: Date
+  count: number
+  sourceIP?: string
+  destinationIP?: string
+}
+
+// 타임라인 항목 (증거는 발생 시각, 그 외는 기록한 시각 기준)
+export interface IncidentTimelineEntry {
+  id: string
+  at: Date
+  actor: string
+  kind: IncidentTimelineKind
+  text: string
+  alert?: IncidentAlertEvidence
+  log?: LogEntry // 기록 저장소에서 로그가 지워져도 남도록 복사
+}
+
+export interface Incident {
+  id: string
+  title: string
+  severity: RuleSeverity
+  status: IncidentStatus
+  assignee: string | null
+  createdAt: Date
+  updatedAt: Date
+  alertGroupIds: string[] // 묶은 알림 그룹 ID
+  logIds: string[] // 묶은 로그 ID
+  timeline: IncidentTimelineEntry[] // 시간 순
+}
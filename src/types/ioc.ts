@@ -0,0 +1,35 @@
+/**
+ * 위협 인텔리전스 침해 지표(IOC)의 타입 정의
+ *
+ * 지표는 가져온 피드(source)별로 보관하며, 같은 피드의 같은 값은 하나의 지표로 취급
+ * 로그에는 IP 주소만 있으므로 도메인 지표는 보관만 하고 로그와 비교하지 않음
+ *
+ * @module ioc
+ */
+
+export type IocType = "ip" | "cidr" | "domain"
+
+export const IOC_TYPES: IocType[] = ["ip", "cidr", "domain"]
+
+// 가져올 수 있는 파일 형식 (plain: 한 줄에 하나씩 적은 목록)
+export type IocFileFormat = "plain" | "csv" | "stix"
+
+export interface Indicator {
+  id: string // `${source}|${value}`
+  type: IocType
+  value: string // 정규화한 값 (IP는 축약 표기, 도메인은 소문자)
+  source: string // 피드 이름
+  confidence: number // 신뢰도 (0~100)
+  expiresAt: Date | null // 만료 시각 (null이면 만료되지 않음)
+  addedAt: Date
+  description?: string
+}
+
+// 로그 주소와 일치한 지표
+export interface IocMatch {
+  indicatorId: string
+  field: "sourceIP" | "destinationIP"
+  value: string // 일치한 지표 값 (CIDR이면 대역)
+  source: string
+  confidence: number
+}
@@ -0,0 +1,66 @@
+/**
+ * 로그 항목과 분류(정상 / 악성 / 새로운 패턴)의 타입 정의
+ *
+ * 분류는 화면에 표시되는 한국어 문자열이 아니라 `type` 판별 필드와
+ * 악성 로그의 `attack` 카테고리로 표현되며, 표시용 라벨은 utils/logLabels에서 따로 만듦
+ *
+ * @module log
+ */
+import type { GeoLocation } from "./geo"
+import type { IocMatch } from "./ioc"
+
+// 로그 분류
+export type LogType = "normal" | "malicious" | "novel"
+
+// 악성 로그의 공격 유형
+export enum AttackCategory {
+  DDoS = "ddos",
+  SqlInjection = "sql_injection",
+  Xss = "xss",
+  PortScan = "port_scan",
+  BruteForce = "brute_force",
+  Malware = "malware",
+  Phishing = "phishing",
+  CommandInjection = "command_injection",
+  FileInclusion = "file_inclusion",
+}
+
+export const LOG_TYPES: LogType[] = ["normal", "malicious", "novel"]
+export const ATTACK_CATEGORIES: AttackCategory[] = Object.values(AttackCategory)
+
+// 모든 로그 항목이 공통으로 가지는 필드
+interface LogEntryBase {
+  id: string // 목록 렌더링과 상세 보기에 쓰는 고유 ID
+  timestamp: Date
+  sourceIP: string
+  sourcePort: number
+  destinationIP: string
+  destinationPort: number
+  protocol: string
+  trafficVolume: number // KB
+  iocMatches?: IocMatch[] // 위협 인텔리전스 지표와 일치한 주소 (일치하지 않으면 없음)
+  sourceGeo?: GeoLocation // GeoIP로 찾은 출발지 위치 (찾지 못하면 없음)
+  destinationGeo?: GeoLocation
+}
+
+// 정상 로그
+export interface NormalLogEntry extends LogEntryBase {
+  type: "normal"
+}
+
+// 악성 로그 (공격 유형 포함)
+export interface MaliciousLogEntry extends LogEntryBase {
+  type: "malicious"
+  attack: AttackCategory
+}
+
+// 새로운 패턴 로그
+export interface NovelLogEntry extends LogEntryBase {
+  type: "novel"
+}
+
+export type LogEntry = NormalLogEntry | MaliciousLogEntry | NovelLogEntry
+
+// 값이 공격 유형인지 확인
+export const isAttackCategory = (value: unknown): value is AttackCategory =>
+  ATTACK_CATEGORIES.includes(value as AttackCategory)
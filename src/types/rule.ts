@@ -0,0 +1,37 @@
+/**
+ * 탐지 규칙과 규칙이 만든 알림의 타입 정의
+ *
+ * 규칙 문서의 형식과 검증은 utils/detectionRules, 로그 평가는 utils/ruleEngine에서 담당
+ *
+ * @module rule
+ */
+
+// 규칙 심각도 (낮은 순)
+export type RuleSeverity = "informational" | "low" | "medium" | "high" | "critical"
+
+export const RULE_SEVERITIES: RuleSeverity[] = ["informational", "low", "medium", "high", "critical"]
+
+// 규칙에서 조건으로 사용할 수 있는 로그 필드
+export type RuleField =
+  | "sourceIP"
+  | "destinationIP"
+  | "sourcePort"
+  | "destinationPort"
+  | "protocol"
+  | "type"
+  | "attack"
+  | "trafficVolume"
+
+// 규칙과 일치한 로그로 만든 알림
+export interface RuleAlert {
+  id: string
+  ruleId: string
+  ruleTitle: string
+  severity: RuleSeverity
+  time: Date // 알림을 만든 (마지막으로 일치한) 로그의 시각
+  group: Partial<Record<RuleField, string>> // groupBy 필드의 값 (예: { sourceIP: "203.0.113.7" })
+  count: number // 구간 안에서 일치한 로그 수 (distinct가 있으면 서로 다른 값의 수)
+  logIds: string[] // 일치한 로그 ID (최근 것부터 최대 20개)
+  sourceIP: string
+  destinationIP: string
+}
@@ -0,0 +1,127 @@
+/**
+ * 대시보드가 사용하는 텔레메트리 데이터의 타입 정의
+ *
+ * 모든 위젯은 이 타입을 통해 데이터를 주고받으며,
+ * 데이터가 목 생성기에서 오든 실제 센서(WebSocket/SSE)에서 오든 동일한 형태를 유지
+ *
+ * @module telemetry
+ */
+import type { GeoPoint } from "./geo"
+import type { LogEntry, LogType } from "./log"
+import type { RuleAlert } from "./rule"
+
+export type { LogEntry, RuleAlert }
+
+// 트래픽 샘플 (인바운드/아웃바운드 대역폭, Mbps)
+export interface TrafficSample {
+  inbound: number
+  outbound: number
+  inboundPps?: number // 초당 패킷 수 (센서가 제공하지 않으면 없음)
+  outboundPps?: number
+  time: Date
+}
+
+export type TrafficDirection = "inbound" | "outbound"
+
+// 학습한 기준선에 따른 한 방향의 예상 범위 (Mbps)
+export interface BaselineBand {
+  expected: number
+  lower: number
+  upper: number
+  zScore: number // (실제 값 - 예상 값) / 표준편차
+  anomalous: boolean
+}
+
+// 트래픽 샘플 하나에 대한 기준선 평가 결과 (학습이 충분하지 않은 방향은 null)
+export interface TrafficBaselinePoint {
+  time: Date
+  inbound: BaselineBand | null
+  outbound: BaselineBand | null
+}
+
+// 기준선을 벗어난 트래픽 이상 징후
+export interface TrafficAnomaly {
+  id: string
+  time: Date
+  direction: TrafficDirection
+  kind: "spike" | "drop" // 예상 범위보다 높음 / 낮음
+  severity: "warning" | "critical"
+  value: number // 실제 값 (Mbps)
+  expected: number
+  lower: number
+  upper: number
+  zScore: number
+}
+
+// 국가 간 트래픽 흐름 (ISO 국가 코드)
+// GeoIP로 로그에서 만든 흐름은 도시 단위 좌표와 로그 수, 트래픽 용량을 함께 가짐
+export interface FlowEntry {
+  start: string
+  end: string
+  startPoint?: GeoPoint
+  endPoint?: GeoPoint
+  count?: number // 흐름에 묶인 로그 수
+  trafficVolume?: number // KB
+  typeCounts?: Record<LogType, number> // 흐름에 묶인 로그의 분류별 수
+  sourceIP?: string // 센서가 흐름의 대표 주소를 알려주면 위협 인텔리전스 지표와 비교
+  destinationIP?: string
+  ioc?: boolean // 주소가 위협 인텔리전스 지표와 일치한 흐름
+}
+
+// 장비 리소스 지표
+export interface ResourceMetrics {
+  cpuUsage: number // CPU 점유율 (%)
+  cpuTemperature: number // CPU 온도 (°C)
+  fanSpeed: number // 쿨러 팬 속도 (RPM)
+  memoryUsage: number // 메모리 점유율 (%)
+  memoryTemperature: number // 메모리 온도 (°C)
+  bandwidth: number // 대역폭 (Mbps)
+}
+
+// 네트워크 포트 연결 상태
+export interface PortStatus {
+  id: number
+  name: string
+  connected: boolean
+  speedMbps: number | null // 연결되지 않은 포트는 null
+}
+
+// 장비 시스템 정보
+export interface SystemInfo {
+  modelName: string
+  firmwareVersion: string
+  lastUpgrade: string
+  lastBackup: string
+}
+
+// 채널별로 전달되는 데이터 타입
+export interface TelemetryChannels {
+  traffic: TrafficSample
+  logs: LogEntry[]
+  flows: FlowEntry[]
+  resources: ResourceMetrics
+  ports: PortStatus[]
+  system: SystemInfo
+  baseline: TrafficBaselinePoint // 트래픽 샘플마다 발행되는 기준선 평가 결과
+  anomalies: TrafficAnomaly
+  alerts: RuleAlert // 탐지 규칙과 일치하여 만든 알림
+}
+
+export type TelemetryChannel = keyof TelemetryChannels
+
+export type TelemetryListener<K extends TelemetryChannel> = (payload: TelemetryChannels[K]) => void
+
+/**
+ * 텔레메트리 데이터 소스 인터페이스
+ *
+ * - start/stop: 데이터 수집(타이머, 연결)을 시작하거나 중지
+ * - subscribe: 채널을 구독하고, 구독 해제 함수를 반환
+ */
+export interface TelemetrySource {
+  readonly kind: TelemetrySourceKind
+  start(): void
+  stop(): void
+  subscribe<K extends TelemetryChannel>(channel: K, listener: TelemetryListener<K>): () => void
+}
+
+export type TelemetrySourceKind = "mock" | "websocket" | "sse" | "server"
@@ -0,0 +1,223 @@
+import { describe, expect, it, jest } from "@jest/globals"
+import type { RuleAlert } from "../types/rule"
+import {
+  anomalyToOccurrence,
+  createAlertCenter,
+  ruleAlertToOccurrence,
+  SYSTEM_ACTOR,
+  type AlertOccurrence,
+} from "./alertCenter"
+
+const BASE = Date.UTC(2024, 4, 1)
+
+// 같은 출발지의 SSH 무차별 대입 알림 한 건 (seconds초에 발생)
+const occurrence = (seconds: number, overrides: Partial<AlertOccurrence> = {}): AlertOccurrence => ({
+  fingerprint: "rule:ssh-brute-force:sourceIP=203.0.113.7",
+  origin: "rule",
+  ruleId: "ssh-brute-force",
+  title: "SSH 무차별 대입",
+  severity: "medium",
+  group: { sourceIP: "203.0.113.7" },
+  time: new Date(BASE + seconds * 1000),
+  sourceIP: "203.0.113.7",
+  destinationIP: "10.0.0.5",
+  logIds: [`log-${seconds}`],
+  ...overrides,
+})
+
+// 예약된 구독자 알림이 끝날 때까지 대기
+const flush = () => new Promise<void>((resolve) => queueMicrotask(resolve))
+
+describe("지문 변환", () => {
+  it("규칙 알림은 groupBy 값을 정렬하여 지문을 만들고, 없으면 출발지/도착지로 묶음", () => {
+    const alert: RuleAlert = {
+      id: "a",
+      ruleId: "scan",
+      ruleTitle: "포트 스캔",
+      severity: "high",
+      time: new Date(BASE),
+      group: { sourceIP: "203.0.113.7", destinationPort: "22" },
+      count: 5,
+      logIds: ["l1"],
+      sourceIP: "203.0.113.7",
+      destinationIP: "10.0.0.5",
+    }
+    expect(ruleAlertToOccurrence(alert).fingerprint).toBe("rule:scan:destinationPort=22&sourceIP=203.0.113.7")
+    expect(ruleAlertToOccurrence({ ...alert, group: {} })).toMatchObject({
+      fingerprint: "rule:scan:destinationIP=10.0.0.5&sourceIP=203.0.113.7",
+      group: { sourceIP: "203.0.113.7", destinationIP: "10.0.0.5" },
+    })
+  })
+
+  it("이상 징후는 방향과 종류로 묶고 심각도를 규칙 심각도로 바꿈", () => {
+    const anomaly = {
+      id: "x",
+      time: new Date(BASE),
+      direction: "outbound" as const,
+      kind: "drop" as const,
+      severity: "warning" as const,
+      value: 1,
+      expected: 10,
+      lower: 8,
+      upper: 12,
+      zScore: -4,
+    }
+    expect(anomalyToOccurrence(anomaly)).toMatchObject({
+      fingerprint: "anomaly:outbound:drop",
+      title: "아웃바운드 트래픽 급감",
+      severity: "medium",
+    })
+    expect(anomalyToOccurrence({ ...anomaly, severity: "critical" }).severity).toBe("critical")
+  })
+})
+
+describe("중복 알림 묶기", () => {
+  it("해결되기 전까지 같은 지문의 알림은 한 그룹에 횟수, 발생 시각, 심각도, 로그 ID를 누적", () => {
+    const center = createAlertCenter()
+    center.ingest(occurrence(10))
+    center.ingest(occurrence(5, { severity: "high" }))
+    center.ingest(occurrence(3600, { severity: "low" }))
+    const [group, ...rest] = center.getSnapshot()
+    expect(rest).toEqual([])
+    expect(group).toMatchObject({
+      count: 3,
+      firstSeen: new Date(BASE + 5_000),
+      lastSeen: new Date(BASE + 3_600_000),
+      severity: "high",
+      status: "open",
+      logIds: ["log-3600", "log-5", "log-10"],
+    })
+  })
+
+  it("그룹의 로그 ID는 중복 없이 최근 50개까지만 보관", () => {
+    const center = createAlertCenter()
+    for (let i = 0; i < 60; i += 1) center.ingest(occurrence(i, { logIds: [`log-${i}`, "shared"] }))
+    const [group] = center.getSnapshot()
+    expect(group.logIds).toHaveLength(50)
+    expect(group.logIds.slice(0, 2)).toEqual(["log-59", "shared"])
+  })
+
+  it("지문이 다르면 다른 그룹이며 마지막 발생 시각의 최신순으로 정렬", () => {
+    const center = createAlertCenter()
+    center.ingest(occurrence(1))
+    center.ingest(occurrence(2, { fingerprint: "rule:ssh-brute-force:sourceIP=198.51.100.1" }))
+    center.ingest(occurrence(3))
+    expect(center.getSnapshot().map((group) => [group.fingerprint, group.count])).toEqual([
+      ["rule:ssh-brute-force:sourceIP=203.0.113.7", 2],
+      ["rule:ssh-brute-force:sourceIP=198.51.100.1", 1],
+    ])
+  })
+
+  it("해결된 그룹에 같은 알림이 다시 오면 새 그룹을 만듦", () => {
+    const center = createAlertCenter()
+    center.ingest(occurrence(1))
+    const [first] = center.getSnapshot()
+    center.setStatus([first.id], "resolved", "analyst")
+    center.ingest(occurrence(2))
+    const [second, resolved] = center.getSnapshot()
+    expect(second.id).not.toBe(first.id)
+    expect(second).toMatchObject({ status: "open", count: 1 })
+    expect(resolved).toMatchObject({ id: first.id, status: "resolved", count: 1 })
+  })
+
+  it("알림이 한꺼번에 들어와도 구독자에게는 한 번만 알림", async () => {
+    const center = createAlertCenter()
+    const listener = jest.fn()
+    center.subscribe(listener)
+    for (let i = 0; i < 5; i += 1) center.ingest(occurrence(i))
+    expect(listener).not.toHaveBeenCalled()
+    await flush()
+    expect(listener).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe("처리 상태", () => {
+  it("확인과 해결은 처리자와 시각을 기록하고, 같은 상태로의 변경은 무시", () => {
+    const center = createAlertCenter()
+    center.ingest(occurrence(1))
+    const [{ id }] = center.getSnapshot()
+    center.setStatus([id], "acknowledged", "kim", { note: "조사 중" })
+    center.setStatus([id], "acknowledged", "lee")
+    center.setStatus([id], "resolved", "lee")
+    const [group] = center.getSnapshot()
+    expect(group.status).toBe("resolved")
+    expect(group.history).toEqual([
+      { status: "acknowledged", actor: "kim", at: expect.any(Date), note: "조사 중" },
+      { status: "resolved", actor: "lee", at: expect.any(Date) },
+    ])
+  })
+
+  it("확인한 그룹에도 같은 알림은 계속 합쳐짐", () => {
+    const center = createAlertCenter()
+    center.ingest(occurrence(1))
+    center.setStatus([center.getSnapshot()[0].id], "acknowledged", "kim")
+    center.ingest(occurrence(2))
+    expect(center.getSnapshot()).toMatchObject([{ status: "acknowledged", count: 2 }])
+  })
+
+  it("해결된 그룹은 같은 지문의 새 그룹이 없을 때만 다시 열 수 있음", () => {
+    const center = createAlertCenter()
+    center.ingest(occurrence(1))
+    const [{ id }] = center.getSnapshot()
+    center.setStatus([id], "resolved", "kim")
+    center.setStatus([id], "open", "kim")
+    expect(center.getSnapshot()[0].status).toBe("open")
+
+    center.setStatus([id], "resolved", "kim")
+    center.ingest(occurrence(2))
+    center.setStatus([id], "open", "kim")
+    expect(center.getSnapshot().find((group) => group.id === id)!.status).toBe("resolved")
+  })
+
+  it("억제된 그룹은 해제 시각 전에는 억제 상태로 합치고, 해제 시각 뒤에 발생하면 다시 엶", () => {
+    const center = createAlertCenter()
+    center.ingest(occurrence(1))
+    const [{ id }] = center.getSnapshot()
+    center.setStatus([id], "suppressed", "kim", { suppressUntil: new Date(BASE + 60_000) })
+    center.ingest(occurrence(30))
+    expect(center.getSnapshot()[0]).toMatchObject({ status: "suppressed", count: 2 })
+
+    center.ingest(occurrence(60))
+    const [group] = center.getSnapshot()
+    expect(group).toMatchObject({ id, status: "open", suppressedUntil: null, count: 3 })
+    expect(group.history[group.history.length - 1]).toMatchObject({ status: "open", actor: SYSTEM_ACTOR })
+  })
+
+  it("해제 시각 없이 억제하면 계속 억제 상태", () => {
+    const center = createAlertCenter()
+    center.ingest(occurrence(1))
+    center.setStatus([center.getSnapshot()[0].id], "suppressed", "kim")
+    center.ingest(occurrence(86_400))
+    expect(center.getSnapshot()[0]).toMatchObject({ status: "suppressed", suppressedUntil: null })
+  })
+})
+
+describe("보관 한도", () => {
+  it("그룹이 5000개를 넘으면 마지막 발생이 오래된 것부터 제거하고 저장할 변경에서도 뺌", () => {
+    const center = createAlertCenter()
+    for (let i = 0; i < 5002; i += 1) center.ingest(occurrence(i, { fingerprint: `rule:scan:${i}` }))
+    const snapshot = center.getSnapshot()
+    expect(snapshot).toHaveLength(5000)
+    expect(snapshot[snapshot.length - 1].fingerprint).toBe("rule:scan:2")
+    expect(center.takeChanges()).toHaveLength(5000)
+    expect(center.takeChanges()).toEqual([])
+
+    // 제거된 그룹의 지문은 다시 오면 새 그룹
+    center.ingest(occurrence(6000, { fingerprint: "rule:scan:0" }))
+    expect(center.getSnapshot()[0]).toMatchObject({ fingerprint: "rule:scan:0", count: 1 })
+  })
+
+  it("복원한 그룹은 이미 있는 그룹을 덮어쓰지 않고, 해결되지 않았으면 같은 지문의 알림을 합침", () => {
+    const center = createAlertCenter()
+    center.ingest(occurrence(1))
+    const [current] = center.getSnapshot()
+    const stored = { ...current, count: 99 }
+    const other = { ...current, id: "stored", fingerprint: "rule:scan:x", count: 4 }
+    center.hydrate([stored, other])
+    center.ingest(occurrence(2, { fingerprint: "rule:scan:x" }))
+    expect(center.getSnapshot().map((group) => [group.id, group.count])).toEqual([
+      ["stored", 5],
+      [current.id, 1],
+    ])
+  })
+})
@@ -0,0 +1,239 @@
+/**
+ * 탐지 규칙 알림과 트래픽 이상 징후를 모아 처리 상태를 관리하는 알림 센터
+ *
+ * - 같은 지문의 알림은 해결되기 전까지 하나의 그룹으로 묶어 발생 횟수와 마지막 발생 시각만 갱신
+ *   (지문: 규칙 ID + groupBy 값, groupBy가 없으면 규칙 ID + 출발지/도착지, 이상 징후는 방향 + 종류)
+ * - 해결된 그룹에 같은 알림이 다시 오면 새 그룹을 만듦
+ * - 억제된 그룹은 해제 시각이 지난 뒤 다시 발생하면 열림 상태로 돌아감
+ * - 상태 변경은 처리자와 시각을 기록
+ * - 스냅샷 정렬과 구독자 알림은 마이크로태스크마다 한 번만 수행 (알림이 한꺼번에 들어와도 한 번만 정렬)
+ *
+ * React에서는 subscribe/getSnapshot으로 useSyncExternalStore에 연결
+ *
+ * @module alertCenter
+ */
+import type { AlertGroup, AlertOrigin, AlertStatus } from "../types/alert"
+import type { RuleField, RuleSeverity } from "../types/rule"
+import type { RuleAlert, TrafficAnomaly } from "../types/telemetry"
+import { createId } from "./id"
+import { RULE_SEVERITIES } from "../types/rule"
+
+// 메모리에 유지할 최대 그룹 수 (넘으면 마지막 발생이 오래된 것부터 제거)
+const MAX_ALERT_GROUPS = 5000
+// 그룹에 보관할 관련 로그 ID 수
+const GROUP_LOG_ID_LIMIT = 50
+// 자동으로 상태를 바꿀 때의 처리자
+export const SYSTEM_ACTOR = "system"
+
+// 그룹에 합칠 알림 한 건
+export interface AlertOccurrence {
+  fingerprint: string
+  origin: AlertOrigin
+  ruleId: string
+  title: string
+  severity: RuleSeverity
+  group: Partial<Record<RuleField, string>>
+  time: Date
+  sourceIP?: string
+  destinationIP?: string
+  logIds: string[]
+}
+
+export interface AlertStatusOptions {
+  note?: string
+  suppressUntil?: Date | null // 억제할 때의 해제 시각 (없으면 직접 해제할 때까지)
+}
+
+export interface AlertCenter {
+  getSnapshot(): AlertGroup[] // 마지막 발생 시각의 최신순
+  subscribe(listener: () => void): () => void
+  ingest(occurrence: AlertOccurrence): void
+  setStatus(ids: string[], status: AlertStatus, actor: string, options?: AlertStatusOptions): void
+  hydrate(groups: AlertGroup[]): void // 저장된 그룹을 복원 (이미 있는 그룹은 유지)
+  takeChanges(): AlertGroup[] // 마지막 호출 이후 바뀐 그룹 (저장용)
+}
+
+const severityRank = (severity: RuleSeverity) => RULE_SEVERITIES.indexOf(severity)
+
+// 탐지 규칙 알림을 그룹에 합칠 형태로 변환
+export function ruleAlertToOccurrence(alert: RuleAlert): AlertOccurrence {
+  const fields = Object.keys(alert.group) as RuleField[]
+  const group: Partial<Record<RuleField, string>> =
+    fields.length > 0 ? alert.group : { sourceIP: alert.sourceIP, destinationIP: alert.destinationIP }
+  const key = (Object.keys(group) as RuleField[])
+    .sort()
+    .map((field) => `${field}=${group[field]}`)
+    .join("&")
+  return {
+    fingerprint: `rule:${alert.ruleId}:${key}`,
+    origin: "rule",
+    ruleId: alert.ruleId,
+    title: alert.ruleTitle,
+    severity: alert.severity,
+    group,
+    time: alert.time,
+    sourceIP: alert.sourceIP,
+    destinationIP: alert.destinationIP,
+    logIds: alert.logIds,
+  }
+}
+
+// 트래픽 이상 징후를 그룹에 합칠 형태로 변환
+export function anomalyToOccurrence(anomaly: TrafficAnomaly): AlertOccurrence {
+  const direction = anomaly.direction === "inbound" ? "인바운드" : "아웃바운드"
+  return {
+    fingerprint: `anomaly:${anomaly.direction}:${anomaly.kind}`,
+    origin: "anomaly",
+    ruleId: `traffic-${anomaly.kind}`,
+    title: `${direction} 트래픽 ${anomaly.kind === "spike" ? "급증" : "급감"}`,
+    severity: anomaly.severity === "critical" ? "critical" : "medium",
+    group: {},
+    time: anomaly.time,
+    logIds: [],
+  }
+}
+
+// 알림 센터를 생성하는 함수
+export function createAlertCenter(): AlertCenter {
+  const groups = new Map<string, AlertGroup>() // id → 그룹
+  const active = new Map<string, string>() // 해결되지 않은 그룹의 지문 → id
+  const listeners = new Set<() => void>()
+  let changed = new Set<string>()
+  let snapshot: AlertGroup[] = []
+  let stale = false // 그룹이 바뀌어 스냅샷을 다시 만들어야 하는지
+  let scheduled = false // 구독자 알림이 예약되었는지
+
+  // 바뀐 그룹이 있으면 스냅샷을 다시 만듦
+  const rebuild = () => {
+    if (!stale) return
+    stale = false
+    snapshot = Array.from(groups.values()).sort((a, b) => b.lastSeen.getTime() - a.lastSeen.getTime())
+    // 최대 수를 넘으면 오래된 그룹을 제거
+    for (const removed of snapshot.splice(MAX_ALERT_GROUPS)) {
+      groups.delete(removed.id)
+      if (active.get(removed.fingerprint) === removed.id) active.delete(removed.fingerprint)
+      changed.delete(removed.id)
+    }
+  }
+
+  // 현재 작업이 끝난 뒤 스냅샷을 다시 만들고 구독자에게 한 번만 알림
+  const publish = () => {
+    stale = true
+    if (scheduled) return
+    scheduled = true
+    queueMicrotask(() => {
+      scheduled = false
+      rebuild()
+      listeners.forEach((listener) => listener())
+    })
+  }
+
+  const update = (group: AlertGroup) => {
+    groups.set(group.id, group)
+    if (group.status === "resolved") {
+      if (active.get(group.fingerprint) === group.id) active.delete(group.fingerprint)
+    } else {
+      active.set(group.fingerprint, group.id)
+    }
+    changed.add(group.id)
+  }
+
+  return {
+    getSnapshot() {
+      rebuild()
+      return snapshot
+    },
+    subscribe(listener) {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+    ingest(occurrence) {
+      const existingId = active.get(occurrence.fingerprint)
+      const existing = existingId ? groups.get(existingId) : undefined
+
+      if (!existing) {
+        update({
+          id: createId("alertgroup"),
+          fingerprint: occurrence.fingerprint,
+          origin: occurrence.origin,
+          ruleId: occurrence.ruleId,
+          title: occurrence.title,
+          severity: occurrence.severity,
+          group: occurrence.group,
+          firstSeen: occurrence.time,
+          lastSeen: occurrence.time,
+          count: 1,
+          sourceIP: occurrence.sourceIP,
+          destinationIP: occurrence.destinationIP,
+          logIds: occurrence.logIds.slice(0, GROUP_LOG_ID_LIMIT),
+          status: "open",
+          suppressedUntil: null,
+          history: [],
+        })
+        return publish()
+      }
+
+      // 억제 기간이 끝난 뒤 다시 발생하면 열림 상태로 되돌림
+      const reopen =
+        existing.status === "suppressed" &&
+        existing.suppressedUntil !== null &&
+        occurrence.time.getTime() >= existing.suppressedUntil.getTime()
+      update({
+        ...existing,
+        title: occurrence.title,
+        severity:
+          severityRank(occurrence.severity) > severityRank(existing.severity) ? occurrence.severity : existing.severity,
+        firstSeen: occurrence.time < existing.firstSeen ? occurrence.time : existing.firstSeen,
+        lastSeen: occurrence.time > existing.lastSeen ? occurrence.time : existing.lastSeen,
+        count: existing.count + 1,
+        sourceIP: occurrence.sourceIP ?? existing.sourceIP,
+        destinationIP: occurrence.destinationIP ?? existing.destinationIP,
+        logIds: Array.from(new Set([...occurrence.logIds, ...existing.logIds])).slice(0, GROUP_LOG_ID_LIMIT),
+        ...(reopen && {
+          status: "open" as const,
+          suppressedUntil: null,
+          history: [
+            ...existing.history,
+            { status: "open" as const, actor: SYSTEM_ACTOR, at: occurrence.time, note: "억제 기간이 끝난 뒤 다시 발생" },
+          ],
+        }),
+      })
+      publish()
+    },
+    setStatus(ids, status, actor, options = {}) {
+      const at = new Date()
+      for (const id of ids) {
+        const group = groups.get(id)
+        if (!group || group.status === status) continue
+        // 해결된 그룹을 다시 열 때 같은 지문의 새 그룹이 이미 있으면 그대로 둠
+        if (group.status === "resolved" && active.has(group.fingerprint)) continue
+        update({
+          ...group,
+          status,
+          suppressedUntil: status === "suppressed" ? options.suppressUntil ?? null : null,
+          history: [...group.history, { status, actor, at, ...(options.note && { note: options.note }) }],
+        })
+      }
+      publish()
+    },
+    hydrate(stored) {
+      for (const group of stored) {
+        if (groups.has(group.id)) continue
+        groups.set(group.id, group)
+        // 복원 전에 같은 지문으로 새 그룹이 만들어졌으면 새 그룹에 계속 합침
+        if (group.status !== "resolved" && !active.has(group.fingerprint)) active.set(group.fingerprint, group.id)
+      }
+      publish()
+    },
+    takeChanges() {
+      rebuild()
+      const result = Array.from(changed)
+        .map((id) => groups.get(id))
+        .filter((group): group is AlertGroup => group !== undefined)
+      changed = new Set()
+      return result
+    },
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * 알림 처리 상태를 화면에 표시하기 위한 라벨과 색상
+ *
+ * @module alertLabels
+ */
+import type { AlertStatus } from "../types/alert"
+
+// 상태별 라벨
+export const ALERT_STATUS_LABELS: Record<AlertStatus, string> = {
+  open: "미확인",
+  acknowledged: "확인",
+  resolved: "해결",
+  suppressed: "억제",
+}
+
+// 상태별 배지 색상
+export const ALERT_STATUS_BADGE_COLORS: Record<AlertStatus, string> = {
+  open: "bg-red-50 text-red-700 border border-red-200",
+  acknowledged: "bg-blue-50 text-blue-700 border border-blue-200",
+  resolved: "bg-green-50 text-green-700 border border-green-200",
+  suppressed: "bg-gray-100 text-gray-600 border border-gray-200",
+}
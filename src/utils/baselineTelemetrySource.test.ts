@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from "@jest/globals"
+import type { TelemetrySource, TrafficAnomaly, TrafficBaselinePoint, TrafficSample } from "../types/telemetry"
+import { createBaselineTelemetrySource, toTrafficAnomalies, type BaselineStateStore } from "./baselineTelemetrySource"
+import { createTelemetryEmitter } from "./telemetryEmitter"
+import { createTrafficBaseline, type TrafficBaselineState } from "./trafficBaseline"
+
+const sampleAt = (seconds: number, inbound: number, outbound = 5): TrafficSample => ({
+  time: new Date(seconds * 1000),
+  inbound,
+  outbound,
+})
+
+// 트래픽을 직접 보낼 수 있는 원본 소스
+const createFakeSource = () => {
+  const emitter = createTelemetryEmitter()
+  const source: TelemetrySource = { kind: "mock", start: jest.fn(), stop: jest.fn(), subscribe: emitter.subscribe }
+  return { source, emit: (sample: TrafficSample) => emitter.emit("traffic", sample) }
+}
+
+// 0~59초에 10 Mbps로 학습한 상태
+const learnedState = (): TrafficBaselineState => {
+  const baseline = createTrafficBaseline()
+  for (let seconds = 0; seconds < 60; seconds += 1) baseline.evaluate(sampleAt(seconds, 10))
+  return baseline.snapshot()!
+}
+
+// 상태 저장소의 비동기 복원이 끝날 때까지 대기
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+// 구독한 기준선 평가 결과와 이상 징후
+const record = (source: TelemetrySource) => {
+  const points: TrafficBaselinePoint[] = []
+  const anomalies: TrafficAnomaly[] = []
+  source.subscribe("baseline", (point) => points.push(point))
+  source.subscribe("anomalies", (anomaly) => anomalies.push(anomaly))
+  return { points, anomalies }
+}
+
+beforeEach(() => {
+  jest.spyOn(console, "warn").mockImplementation(() => {})
+})
+
+afterEach(() => {
+  jest.restoreAllMocks()
+})
+
+describe("toTrafficAnomalies", () => {
+  it("벗어난 방향마다 급증/급감과 심각도를 붙임", () => {
+    const band = (zScore: number) => ({
+      expected: 10,
+      lower: 8.5,
+      upper: 11.5,
+      zScore,
+      anomalous: Math.abs(zScore) >= 3,
+    })
+    const point = { time: new Date(0), inbound: band(7), outbound: band(-4) }
+    const anomalies = toTrafficAnomalies(point, { inbound: 13.5, outbound: 8 })
+    expect(anomalies).toMatchObject([
+      { direction: "inbound", kind: "spike", severity: "critical", value: 13.5 },
+      { direction: "outbound", kind: "drop", severity: "warning", value: 8 },
+    ])
+    expect(toTrafficAnomalies({ ...point, inbound: band(1), outbound: null }, { inbound: 10, outbound: 0 })).toEqual([])
+  })
+})
+
+describe("createBaselineTelemetrySource", () => {
+  it("트래픽 샘플마다 평가 결과를 발행하고, 벗어난 값은 이상 징후로 발행", () => {
+    const { source, emit } = createFakeSource()
+    const baseline = createBaselineTelemetrySource(source)
+    const { points, anomalies } = record(baseline)
+    baseline.start()
+    for (let seconds = 0; seconds < 60; seconds += 1) emit(sampleAt(seconds, 10))
+    emit(sampleAt(60, 50))
+    expect(points).toHaveLength(61)
+    expect(anomalies).toMatchObject([{ direction: "inbound", kind: "spike" }])
+    baseline.stop()
+  })
+
+  it("저장된 상태를 복원한 뒤 원본 소스를 시작하고, 이미 학습한 샘플로는 이상 징후를 다시 발행하지 않음", async () => {
+    const { source, emit } = createFakeSource()
+    const store: BaselineStateStore = { load: async () => learnedState(), save: jest.fn(async () => {}) }
+    const baseline = createBaselineTelemetrySource(source, undefined, store)
+    const { points, anomalies } = record(baseline)
+    baseline.start()
+    expect(source.start).not.toHaveBeenCalled()
+    await settle()
+    expect(source.start).toHaveBeenCalledTimes(1)
+
+    emit(sampleAt(59, 50)) // 기록에서 복원한 샘플
+    emit(sampleAt(60, 50))
+    expect(points.map((point) => point.inbound?.anomalous)).toEqual([true, true])
+    expect(anomalies.map((anomaly) => anomaly.time)).toEqual([new Date(60_000)])
+    baseline.stop()
+  })
+
+  it("정지할 때 학습 상태를 저장하고, 다시 시작할 때는 복원하지 않음", async () => {
+    const { source, emit } = createFakeSource()
+    const load = jest.fn(async () => null)
+    const save = jest.fn(async (_: TrafficBaselineState) => {})
+    const baseline = createBaselineTelemetrySource(source, undefined, { load, save })
+    baseline.start()
+    await settle()
+    emit(sampleAt(0, 10))
+    baseline.stop()
+    expect(save).toHaveBeenCalledTimes(1)
+    expect(save.mock.calls[0][0].learnedUntil).toEqual(new Date(0))
+
+    baseline.start()
+    await settle()
+    expect(load).toHaveBeenCalledTimes(1)
+    baseline.stop()
+  })
+
+  it("형식이 맞지 않거나 불러오지 못한 상태는 경고 후 처음부터 학습", async () => {
+    const { source, emit } = createFakeSource()
+    const state = { ...learnedState(), profiles: {} } as TrafficBaselineState
+    const baseline = createBaselineTelemetrySource(source, undefined, { load: async () => state, save: async () => {} })
+    const { points } = record(baseline)
+    baseline.start()
+    await settle()
+    emit(sampleAt(100, 10))
+    expect(points[0].inbound).toBeNull()
+    expect(console.warn).toHaveBeenCalledTimes(1)
+    baseline.stop()
+
+    const failing = createFakeSource()
+    const broken = createBaselineTelemetrySource(failing.source, undefined, {
+      load: async () => {
+        throw new Error("blocked")
+      },
+      save: async () => {},
+    })
+    broken.start()
+    await settle()
+    expect(failing.source.start).toHaveBeenCalledTimes(1)
+    broken.stop()
+  })
+})
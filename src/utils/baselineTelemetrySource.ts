@@ -0,0 +1,140 @@
+/**
+ * 다른 텔레메트리 소스를 감싸 트래픽 샘플을 기준선으로 평가하는 어댑터
+ *
+ * 트래픽 샘플마다 평가 결과를 baseline 채널로, 예상 범위를 벗어난 방향은 anomalies 채널로 발행
+ * 나머지 채널은 그대로 전달
+ *
+ * 상태 저장소를 주면 시작할 때 저장된 학습 상태를 복원한 뒤 감싼 소스를 시작하고, 주기적으로와 정지할 때 저장함
+ * (시간대별 기준선은 며칠에 걸쳐 학습되므로 새로고침할 때마다 처음부터 배우지 않도록 함)
+ * 복원한 상태가 이미 학습한 시각 이전의 샘플(기록에서 복원한 샘플)은 평가만 하고 이상 징후를 다시 발행하지 않음
+ *
+ * @module baselineTelemetrySource
+ */
+import type { TelemetryChannel, TelemetrySource, TrafficAnomaly, TrafficBaselinePoint } from "../types/telemetry"
+import { createId } from "./id"
+import { createTelemetryEmitter } from "./telemetryEmitter"
+import {
+  anomalousDirections,
+  createTrafficBaseline,
+  DEFAULT_BASELINE_OPTIONS,
+  type BaselineOptions,
+  type TrafficBaselineState,
+} from "./trafficBaseline"
+
+// 기준선 학습 상태 저장소
+export interface BaselineStateStore {
+  load(): Promise<TrafficBaselineState | null>
+  save(state: TrafficBaselineState): Promise<void>
+}
+
+// 평가 없이 그대로 전달하는 채널
+const PASSTHROUGH_CHANNELS: TelemetryChannel[] = ["logs", "flows", "resources", "ports", "system", "alerts"]
+
+// 임계값의 몇 배를 넘으면 심각으로 분류하는지
+const CRITICAL_THRESHOLD_RATIO = 2
+
+// 학습 상태 저장 주기
+const SAVE_INTERVAL_MS = 60 * 1000
+
+// 평가 결과에서 이상 징후 이벤트 목록을 만드는 함수
+export function toTrafficAnomalies(
+  point: TrafficBaselinePoint,
+  values: { inbound: number; outbound: number },
+  options: BaselineOptions = DEFAULT_BASELINE_OPTIONS,
+): TrafficAnomaly[] {
+  return anomalousDirections(point).map((direction) => {
+    const band = point[direction]!
+    return {
+      id: createId("anomaly"),
+      time: point.time,
+      direction,
+      kind: band.zScore > 0 ? "spike" : "drop",
+      severity: Math.abs(band.zScore) >= options.threshold * CRITICAL_THRESHOLD_RATIO ? "critical" : "warning",
+      value: values[direction],
+      expected: band.expected,
+      lower: band.lower,
+      upper: band.upper,
+      zScore: band.zScore,
+    }
+  })
+}
+
+// 기준선 평가 소스를 생성하는 함수 (stateStore가 있으면 학습 상태를 복원하고 저장)
+export function createBaselineTelemetrySource(
+  source: TelemetrySource,
+  options: BaselineOptions = DEFAULT_BASELINE_OPTIONS,
+  stateStore: BaselineStateStore | null = null,
+): TelemetrySource {
+  const emitter = createTelemetryEmitter()
+  // 다시 시작해도 학습한 기준선을 유지
+  const baseline = createTrafficBaseline(options)
+  let running = false
+  let session = 0 // 시작할 때마다 증가 (이전 시작의 비동기 작업을 무시하기 위함)
+  let restored = false // 저장된 상태는 처음 시작할 때만 복원
+  let unsubscribes: (() => void)[] = []
+  let saveTimer: ReturnType<typeof setInterval> | null = null
+
+  const save = () => {
+    const state = baseline.snapshot()
+    if (!stateStore || !state) return
+    stateStore.save(state).catch((error) => console.warn("[baseline] 기준선 학습 상태를 저장하지 못했습니다", error))
+  }
+
+  // 저장된 학습 상태를 복원
+  const restore = async () => {
+    if (!stateStore || restored) return
+    const state = await stateStore.load()
+    restored = true
+    if (state && !baseline.restore(state)) console.warn("[baseline] 저장된 기준선 학습 상태의 형식이 올바르지 않습니다")
+  }
+
+  const connect = () => {
+    unsubscribes = [
+      ...PASSTHROUGH_CHANNELS.map((channel) =>
+        source.subscribe(channel, (payload) => emitter.emit(channel, payload)),
+      ),
+      source.subscribe("traffic", (sample) => {
+        const learnedUntil = baseline.learnedUntil()
+        const replayed = learnedUntil !== null && sample.time <= learnedUntil
+        const point = baseline.evaluate(sample)
+        emitter.emit("traffic", sample)
+        emitter.emit("baseline", point)
+        if (replayed) return
+        toTrafficAnomalies(point, sample, options).forEach((anomaly) => emitter.emit("anomalies", anomaly))
+      }),
+    ]
+  }
+
+  // 구독하고 감싼 소스를 시작
+  const begin = () => {
+    connect()
+    source.start()
+    if (stateStore) saveTimer = setInterval(save, SAVE_INTERVAL_MS)
+  }
+
+  return {
+    kind: source.kind,
+    start() {
+      if (running) return
+      running = true
+      if (!stateStore || restored) return begin()
+      const current = ++session
+      restore()
+        .catch((error) => console.warn("[baseline] 저장된 기준선 학습 상태를 불러오지 못했습니다", error))
+        .finally(() => {
+          if (running && session === current) begin()
+        })
+    },
+    stop() {
+      if (!running) return
+      running = false
+      unsubscribes.forEach((unsubscribe) => unsubscribe())
+      unsubscribes = []
+      source.stop()
+      if (saveTimer) clearInterval(saveTimer)
+      saveTimer = null
+      save()
+    },
+    subscribe: emitter.subscribe,
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * 캡처 파일에서 디코딩한 패킷을 대시보드 데이터로 변환하는 함수들
+ *
+ * - 패킷마다 LogEntry를 만들어 LogTable에 표시
+ * - 패킷을 시간 구간별로 묶어 TrafficGraph가 그리는 { inbound, outbound, inboundPps, outboundPps, time } 시계열 생성
+ *   (도착 주소가 내부망이면 인바운드, 그 외에는 아웃바운드)
+ *
+ * @module captureAnalysis
+ */
+import type { LogEntry } from "../types/log"
+import type { TrafficSample } from "../types/telemetry"
+import { createId } from "./id"
+import { isLocalAddress, LOCAL_NETWORKS, type Cidr } from "./ip"
+import { parseCapture, type DecodedPacket } from "./pcap"
+
+// 잘 알려진 포트의 애플리케이션 프로토콜
+const WELL_KNOWN_PORTS: Record<number, string> = {
+  21: "FTP",
+  25: "SMTP",
+  53: "DNS",
+  80: "HTTP",
+  443: "HTTPS",
+}
+
+// 시계열 한 구간에 들어갈 최대 샘플 수 (긴 캡처는 구간을 넓혀서 조절)
+const MAX_TRAFFIC_BUCKETS = 300
+const MIN_BUCKET_SECONDS = 2
+
+export interface CaptureImport {
+  fileName: string
+  logs: LogEntry[] // 최신순
+  traffic: TrafficSample[] // 오래된 순
+  bucketSeconds: number
+  skipped: number
+}
+
+// 패킷 시간의 최솟값과 최댓값 (패킷 수가 많아도 스택을 넘지 않도록 반복문 사용)
+const timeRange = (times: number[]) => {
+  let min = Infinity
+  let max = -Infinity
+  for (const time of times) {
+    if (time < min) min = time
+    if (time > max) max = time
+  }
+  return { min, max }
+}
+
+// 포트 번호로 애플리케이션 프로토콜을 추정
+const resolveProtocol = (packet: DecodedPacket) => {
+  if (packet.transport !== "TCP" && packet.transport !== "UDP") return packet.transport
+  return WELL_KNOWN_PORTS[packet.destinationPort] ?? WELL_KNOWN_PORTS[packet.sourcePort] ?? packet.transport
+}
+
+// 패킷을 LogEntry로 변환 (캡처 파일에는 탐지 결과가 없으므로 정상으로 분류)
+export function packetToLogEntry(packet: DecodedPacket): LogEntry {
+  return {
+    id: createId("pkt"),
+    timestamp: packet.timestamp,
+    sourceIP: packet.sourceIP,
+    sourcePort: packet.sourcePort,
+    destinationIP: packet.destinationIP,
+    destinationPort: packet.destinationPort,
+    protocol: resolveProtocol(packet),
+    type: "normal",
+    trafficVolume: Math.round((packet.length / 1024) * 100) / 100,
+  }
+}
+
+// 패킷을 시간 구간별 인바운드/아웃바운드 대역폭(Mbps)과 초당 패킷 수로 묶는 함수 (반올림하지 않은 값)
+export function bucketPackets(
+  packets: DecodedPacket[],
+  bucketSeconds: number,
+  localNetworks: Cidr[] = LOCAL_NETWORKS,
+): TrafficSample[] {
+  if (packets.length === 0) return []
+  const bucketMs = bucketSeconds * 1000
+  const times = packets.map((packet) => packet.timestamp.getTime())
+  const range = timeRange(times)
+  const start = Math.floor(range.min / bucketMs) * bucketMs
+  const end = range.max
+  const buckets: Required<TrafficSample>[] = []
+
+  // 패킷이 없는 구간도 0으로 채워 그래프가 끊기지 않도록 함
+  for (let time = start; time <= end; time += bucketMs) {
+    buckets.push({ time: new Date(time), inbound: 0, outbound: 0, inboundPps: 0, outboundPps: 0 })
+  }
+
+  // 바이트 → Mbps 환산 계수
+  const toMbps = 8 / bucketSeconds / 1e6
+  packets.forEach((packet, index) => {
+    const bucket = buckets[Math.floor((times[index] - start) / bucketMs)]
+    if (isLocalAddress(packet.destinationIP, localNetworks)) {
+      bucket.inbound += packet.length * toMbps
+      bucket.inboundPps += 1 / bucketSeconds
+    } else {
+      bucket.outbound += packet.length * toMbps
+      bucket.outboundPps += 1 / bucketSeconds
+    }
+  })
+
+  // 작은 캡처의 값이 0으로 사라지지 않도록 반올림하지 않음 (표시할 때 단위에 맞춰 반올림)
+  return buckets
+}
+
+// 캡처 구간 길이에 맞춰 시계열 구간 크기(초)를 정함
+export function chooseBucketSeconds(packets: DecodedPacket[]): number {
+  if (packets.length < 2) return MIN_BUCKET_SECONDS
+  const { min, max } = timeRange(packets.map((packet) => packet.timestamp.getTime()))
+  const durationSeconds = (max - min) / 1000
+  return Math.max(MIN_BUCKET_SECONDS, Math.ceil(durationSeconds / MAX_TRAFFIC_BUCKETS))
+}
+
+// 캡처 파일을 읽어 로그와 트래픽 시계열로 변환
+export async function importCaptureFile(file: File): Promise<CaptureImport> {
+  const { packets, skipped } = parseCapture(await file.arrayBuffer())
+  const bucketSeconds = chooseBucketSeconds(packets)
+
+  return {
+    fileName: file.name,
+    logs: packets.map(packetToLogEntry).sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime()),
+    traffic: bucketPackets(packets, bucketSeconds),
+    bucketSeconds,
+    skipped,
+  }
+}
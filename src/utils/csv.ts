@@ -0,0 +1,34 @@
+/**
+ * CSV 파일을 읽을 때 쓰는 도우미 함수
+ *
+ * @module csv
+ */
+
+// CSV 한 줄을 열로 나눔 (큰따옴표로 감싼 열과 "" 이스케이프 지원)
+export function splitCsvLine(line: string): string[] {
+  const cells: string[] = []
+  let cell = ""
+  let quoted = false
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') quoted = false
+      else cell += char
+    } else if (char === '"') quoted = true
+    else if (char === ",") {
+      cells.push(cell.trim())
+      cell = ""
+    } else cell += char
+  }
+  cells.push(cell.trim())
+  return cells
+}
+
+// 머리글에서 후보 이름과 일치하는 첫 열의 위치 (없으면 -1)
+export const findCsvColumn = (header: string[], names: string[]) => header.findIndex((name) => names.includes(name))
+
+// 머리글의 열 이름을 비교하기 쉽게 정규화 (소문자, 공백과 하이픈은 밑줄)
+export const normalizeCsvHeader = (cells: string[]) => cells.map((name) => name.toLowerCase().replace(/[\s-]+/g, "_"))
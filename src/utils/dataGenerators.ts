@@ -15,27 +15,60 @@
  * 로그 데이터를 생성하는 함수
  * 
  * @param {{ inbound: number; outbound: number; time: Date }[]} trafficData - 트래픽 데이터 배열
- * @param {any[]} [existingLogs=[]] - 기존 로그 데이터 배열
- * @returns {any[]} 생성된 로그 데이터 배열을 반환
+ * @param {LogEntry[]} [existingLogs=[]] - 기존 로그 데이터 배열
+ * @returns {LogEntry[]} 생성된 로그 데이터 배열을 반환
  */
 
 /**
  * 플로우 데이터를 생성하는 함수
  * 
- * @returns {{ start: string; end: string }[]} 생성된 플로우 데이터 배열을 반환
+ * @param {LogEntry[]} [recentLogs=[]] - 흐름의 대표 주소로 사용할 최근 로그
+ * @param {number} [count=MOCK_FLOW_COUNT] - 생성할 플로우 데이터의 개수
+ * @returns {FlowEntry[]} 생성된 플로우 데이터 배열을 반환
  */
 
+/**
+ * 리소스 지표를 생성하는 함수
+ * 
+ * @param {ResourceMetrics} [previous] - 이전 리소스 지표 (없으면 초기값 사용)
+ * @returns {ResourceMetrics} 이전 값에서 조금씩 변동된 리소스 지표를 반환
+ */
+
+/**
+ * 네트워크 포트 상태와 시스템 정보를 생성하는 함수
+ * 
+ * @returns {PortStatus[] | SystemInfo} 장비의 고정된 포트 상태 또는 시스템 정보를 반환
+ */
+
+import type { FlowEntry, PortStatus, ResourceMetrics, SystemInfo, TrafficSample } from "../types/telemetry"
+import type { GeoPoint } from "../types/geo"
+import { ATTACK_CATEGORIES, type LogEntry, type LogType } from "../types/log"
+import { getCountryCentroid } from "./countryCentroids"
+import { createId } from "./id"
+
+// 대역폭(Mbps)을 평균 패킷 크기(400~1400바이트)로 나누어 초당 패킷 수를 추정
+const toPacketsPerSecond = (mbps: number) => Math.round((mbps * 1e6) / 8 / (400 + Math.random() * 1000))
+
+// 인바운드 트래픽이 급증할 확률
+const INBOUND_SPIKE_PROBABILITY = 0.01
+
 // 트래픽 데이터를 생성하는 함수
-export function generateTrafficData(count = 30): { inbound: number; outbound: number; time: Date }[] {
-  const data = [] // 데이터를 저장할 배열
+export function generateTrafficData(count = 30): TrafficSample[] {
+  const data: TrafficSample[] = [] // 데이터를 저장할 배열
   const now = new Date() // 현재 시간을 기준으로 데이터 생성
   for (let i = 0; i < count; i++) {
     // count 만큼 반복
     const time = new Date(now.getTime() - (count - 1 - i) * 2000) // 2초 간격으로 시간 설정
+    // 랜덤한 inbound 값 (가끔 DDoS처럼 100~300Mbps가 더해짐)
+    const burst = Math.random() < INBOUND_SPIKE_PROBABILITY ? 100 + Math.random() * 200 : 0
+    const inbound = Math.floor(Math.random() * 30 + burst)
+    const outbound = Math.floor(Math.random() * 30) // 랜덤한 outbound 값
     data.push({
       time: time, // 생성된 시간
-      inbound: Math.floor(Math.random() * 30), // 랜덤한 inbound 값
-      outbound: Math.floor(Math.random() * 30), // 랜덤한 outbound 값
+      inbound,
+      outbound,
+      inboundPps: toPacketsPerSecond(inbound), // 대역폭에 맞는 초당 패킷 수
+      outboundPps: toPacketsPerSecond(outbound),
     })
   }
   return data // 생성된 데이터 반환
@@ -44,40 +77,21 @@ export function generateTrafficData(count = 30): { inbound: number; outbound: nu
 // 로그 데이터를 생성하는 함수
 export function generateLogData(
   trafficData: { inbound: number; outbound: number; time: Date }[],
-  existingLogs: any[] = [],
-): any[] {
+  existingLogs: LogEntry[] = [],
+): LogEntry[] {
   const protocols = ["TCP", "UDP", "HTTP", "HTTPS", "FTP", "SMTP", "DNS"] // 프로토콜 목록
-  const maliciousTypes = [
-    "악성(DDoS)",
-    "악성(SQL Injection)",
-    "악성(XSS)",
-    "악성(Port Scan)",
-    "악성(Brute Force)",
-    "악성(Malware)",
-    "악성(Phishing)",
-    "악성(Command Injection)",
-    "악성(File Inclusion)",
-  ] // 악성 유형 목록
-
-  const newLogs = trafficData.reduce((acc: any[], traffic) => {
+
+  const newLogs = trafficData.reduce((acc: LogEntry[], traffic) => {
     if (!traffic) return acc // 트래픽 데이터가 없으면 건너뜀
 
     const totalTraffic = (traffic.inbound || 0) + (traffic.outbound || 0) // 총 트래픽 계산
-    const logs = []
+    const logs: LogEntry[] = []
 
     for (let i = 0; i < totalTraffic; i++) {
       // 총 트래픽 수만큼 로그 생성
       const randomValue = Math.random()
-      let type
-      if (randomValue < 0.6) {
-        type = "정상" // 60% 확률로 정상
-      } else if (randomValue < 0.9) {
-        type = maliciousTypes[Math.floor(Math.random() * maliciousTypes.length)] // 30% 확률로 악성
-      } else {
-        type = "새로운 패턴" // 10% 확률로 새로운 패턴
-      }
-
-      logs.push({
+      const base = {
+        id: createId("log"),
         timestamp: traffic.time || new Date(), // 트래픽 시간 또는 현재 시간
         sourceIP: `${Math.floor(Math.random() * 256)}.${Math.floor(Math.random() * 256)}.${Math.floor(
           Math.random() * 256,
@@ -88,27 +102,124 @@ export function generateLogData(
         )}.${Math.floor(Math.random() * 256)}`, // 랜덤한 목적지 IP
         destinationPort: Math.floor(Math.random() * 65536), // 랜덤한 목적지 포트
         protocol: protocols[Math.floor(Math.random() * protocols.length)], // 랜덤한 프로토콜
-        type: type, // 로그 유형
         trafficVolume: Math.floor(Math.random() * 1000), // 랜덤한 트래픽 볼륨
-      })
+      }
+
+      if (randomValue < 0.6) {
+        logs.push({ ...base, type: "normal" }) // 60% 확률로 정상
+      } else if (randomValue < 0.9) {
+        // 30% 확률로 악성 (공격 유형은 랜덤)
+        logs.push({
+          ...base,
+          type: "malicious",
+          attack: ATTACK_CATEGORIES[Math.floor(Math.random() * ATTACK_CATEGORIES.length)],
+        })
+      } else {
+        logs.push({ ...base, type: "novel" }) // 10% 확률로 새로운 패턴
+      }
     }
 
     return [...acc, ...logs] // 생성된 로그를 누적
-  }, [] as any[])
+  }, [] as LogEntry[])
 
   return [...(existingLogs || []), ...newLogs] // 기존 로그와 새로운 로그를 합쳐서 반환
 }
 
-// 플로우 데이터를 생성하는 함수
-export function generateFlowData(): { start: string; end: string }[] {
-  const countries = ["KR", "US", "CN", "JP", "UK", "DE", "FR", "IN", "BR", "AU"] // 국가 목록
-  const flows = []
-  for (let i = 0; i < 50; i++) {
-    // 50개의 플로우 데이터 생성
+const EMPTY_TYPE_COUNTS: Record<LogType, number> = { normal: 0, malicious: 0, novel: 0 }
+
+// 한 번에 만드는 목 흐름 수와 흐름이 오가는 도시 경로 수 (지도 흐름 풀을 채울 만큼)
+export const MOCK_FLOW_COUNT = 2000
+const MOCK_ROUTE_COUNT = 3000
+
+// 국가 중심에서 최대 5도 떨어진 임의의 도시 좌표
+const randomCity = (country: string): GeoPoint => {
+  const center = getCountryCentroid(country)!
+  return {
+    latitude: Math.max(-85, Math.min(85, center.latitude + (Math.random() - 0.5) * 10)),
+    longitude: center.longitude + (Math.random() - 0.5) * 10,
+  }
+}
+
+// 목 흐름이 오가는 도시 경로 (처음 쓸 때 한 번 만들어 주기마다 같은 경로를 다시 씀)
+let mockRoutes: Array<Pick<FlowEntry, "start" | "end" | "startPoint" | "endPoint">> | null = null
+const getMockRoutes = () => {
+  const countries = ["KR", "US", "CN", "JP", "GB", "DE", "FR", "IN", "BR", "AU"] // 국가 목록
+  mockRoutes ??= Array.from({ length: MOCK_ROUTE_COUNT }, () => {
+    const start = countries[Math.floor(Math.random() * countries.length)] // 랜덤한 시작 국가
+    const end = countries[Math.floor(Math.random() * countries.length)] // 랜덤한 도착 국가
+    return { start, end, startPoint: randomCity(start), endPoint: randomCity(end) }
+  })
+  return mockRoutes
+}
+
+// 플로우 데이터를 생성하는 함수 (최근 로그가 주어지면 로그의 주소, 분류, 용량을 흐름에 사용)
+export function generateFlowData(recentLogs: LogEntry[] = [], count = MOCK_FLOW_COUNT): FlowEntry[] {
+  const routes = getMockRoutes()
+  const flows: FlowEntry[] = []
+  for (let i = 0; i < count; i++) {
+    // count개의 플로우 데이터 생성
+    const log = recentLogs[i]
     flows.push({
-      start: countries[Math.floor(Math.random() * countries.length)], // 랜덤한 시작 국가
-      end: countries[Math.floor(Math.random() * countries.length)], // 랜덤한 도착 국가
+      ...routes[Math.floor(Math.random() * routes.length)], // 랜덤한 도시 경로
+      ...(log
+        ? {
+            sourceIP: log.sourceIP,
+            destinationIP: log.destinationIP,
+            count: 1,
+            trafficVolume: log.trafficVolume,
+            typeCounts: { ...EMPTY_TYPE_COUNTS, [log.type]: 1 },
+          }
+        : {}),
     })
   }
   return flows // 생성된 플로우 데이터 반환
 }
+
+// 리소스 지표의 초기값과 최대값
+const INITIAL_RESOURCE_METRICS: ResourceMetrics = {
+  cpuUsage: 45,
+  cpuTemperature: 55,
+  fanSpeed: 3500,
+  memoryUsage: 60,
+  memoryTemperature: 40,
+  bandwidth: 75,
+}
+
+export const RESOURCE_METRIC_MAX: ResourceMetrics = {
+  cpuUsage: 100,
+  cpuTemperature: 100,
+  fanSpeed: 3500,
+  memoryUsage: 100,
+  memoryTemperature: 100,
+  bandwidth: 100,
+}
+
+// 리소스 지표를 생성하는 함수
+export function generateResourceMetrics(previous: ResourceMetrics = INITIAL_RESOURCE_METRICS): ResourceMetrics {
+  const next = { ...previous }
+  for (const key of Object.keys(next) as (keyof ResourceMetrics)[]) {
+    // 최대값과 최소값 사이에서 랜덤하게 변경
+    next[key] = Math.min(RESOURCE_METRIC_MAX[key], Math.max(0, previous[key] + (Math.random() - 0.5) * 10))
+  }
+  return next
+}
+
+// 네트워크 포트 상태를 생성하는 함수
+export function generatePortStatus(): PortStatus[] {
+  return [
+    { id: 0, name: "Eth 0", connected: true, speedMbps: 1000 },
+    { id: 1, name: "Eth 1", connected: true, speedMbps: 10000 },
+    { id: 2, name: "Eth 2", connected: false, speedMbps: null },
+    { id: 3, name: "Eth 3", connected: true, speedMbps: 100 },
+  ]
+}
+
+// 시스템 정보를 생성하는 함수
+export function generateSystemInfo(): SystemInfo {
+  return {
+    modelName: "AutoGuard X1", // 모델명
+    firmwareVersion: "v2.3.1", // 펌웨어 버전
+    lastUpgrade: "2025-01-15", // 마지막 업그레이드 날짜
+    lastBackup: "2025-01-24", // 마지막 백업 날짜
+  }
+}
@@ -0,0 +1,167 @@
+import { describe, expect, it } from "@jest/globals"
+import { AttackCategory } from "../types/log"
+import { parseRuleDocument } from "./detectionRules"
+import { createLog } from "./testLogs"
+
+// 오류 없이 규칙 하나를 컴파일
+const compileOne = (text: string) => {
+  const { rules, errors } = parseRuleDocument(text)
+  expect(errors).toEqual([])
+  expect(rules).toHaveLength(1)
+  return rules[0]
+}
+
+const SSH_RULE = `
+id: ssh-brute-force
+title: SSH 무차별 대입 시도
+severity: high
+detection:
+  selection:
+    dport: 22
+    protocol: tcp
+  internal:
+    sourceIP|cidr: [10.0.0.0/8, 192.168.0.0/16]
+  condition: selection and not internal
+threshold:
+  count: 20
+  window: 1m
+  groupBy: src
+`
+
+describe("parseRuleDocument 조건", () => {
+  it("선택 조건을 and / not으로 조합하고 필드 별칭과 대소문자를 무시", () => {
+    const { matches } = compileOne(SSH_RULE)
+    expect(matches(createLog({ destinationPort: 22 }))).toBe(true)
+    expect(matches(createLog({ destinationPort: 22, sourceIP: "10.1.2.3" }))).toBe(false)
+    expect(matches(createLog({ destinationPort: 2222 }))).toBe(false)
+  })
+
+  it("값 목록과 선택 조건 목록은 OR, 괄호와 수식어", () => {
+    const { matches } = compileOne(`
+id: mixed
+title: 혼합
+severity: low
+detection:
+  web:
+    - dport: [80, 443]
+    - dport: 8000-8999
+  big:
+    vol|gte: 500
+  attack:
+    attack|contains: inject
+  condition: (web and big) or attack
+`)
+    expect(matches(createLog({ destinationPort: 443, trafficVolume: 500 }))).toBe(true)
+    expect(matches(createLog({ destinationPort: 8080, trafficVolume: 900 }))).toBe(true)
+    expect(matches(createLog({ destinationPort: 443, trafficVolume: 499 }))).toBe(false)
+    expect(matches(createLog({ type: "malicious", attack: AttackCategory.SqlInjection }))).toBe(true)
+    // 공격 유형은 악성 로그에만 있음
+    expect(matches(createLog({ type: "novel" }))).toBe(false)
+  })
+
+  it("threshold를 밀리초 구간과 필드 이름으로 변환", () => {
+    expect(compileOne(SSH_RULE).threshold).toEqual({
+      count: 20,
+      windowMs: 60_000,
+      groupBy: ["sourceIP"],
+      distinct: null,
+    })
+    const rule = compileOne(
+      JSON.stringify({
+        id: "scan",
+        title: "스캔",
+        severity: "medium",
+        detection: { any: { proto: "TCP" }, condition: "any" },
+        threshold: { count: 10, window: 30, groupBy: ["src", "dst"], distinct: "dport" },
+      }),
+    )
+    expect(rule.threshold).toEqual({
+      count: 10,
+      windowMs: 30_000,
+      groupBy: ["sourceIP", "destinationIP"],
+      distinct: "destinationPort",
+    })
+    expect(rule.rule.enabled).toBe(true)
+  })
+})
+
+describe("parseRuleDocument 문서 형식", () => {
+  it("rules 목록, 배열, ---로 나눈 여러 문서를 읽음", () => {
+    const rule = (id: string) => ({ id, title: id, severity: "low", detection: { a: { dport: 1 }, condition: "a" } })
+    expect(parseRuleDocument(JSON.stringify({ rules: [rule("a"), rule("b")] })).rules).toHaveLength(2)
+    expect(parseRuleDocument(JSON.stringify([rule("a")])).rules).toHaveLength(1)
+    expect(parseRuleDocument(`${JSON.stringify(rule("a"))}\n---\n${JSON.stringify(rule("b"))}`).rules).toHaveLength(2)
+  })
+})
+
+describe("parseRuleDocument 스키마 검증", () => {
+  // 규칙 하나의 오류 목록
+  const errorsOf = (rule: object) => parseRuleDocument(JSON.stringify({ rules: [rule] })).errors
+  const valid = {
+    id: "ok",
+    title: "정상",
+    severity: "low",
+    detection: { a: { dport: 22 }, condition: "a" },
+  }
+
+  it("필수 항목, 열거형, 알 수 없는 항목을 경로와 함께 보고", () => {
+    expect(errorsOf({ ...valid, title: undefined })).toEqual([{ path: "rules[0].title", message: "필수 항목입니다" }])
+    expect(errorsOf({ ...valid, severity: "urgent" })).toEqual([
+      { path: "rules[0].severity", message: "informational, low, medium, high, critical 중 하나여야 합니다" },
+    ])
+    expect(errorsOf({ ...valid, owner: "me" })).toEqual([{ path: "rules[0]", message: "알 수 없는 항목입니다: owner" }])
+    expect(errorsOf({ ...valid, id: "bad id" })).toEqual([
+      { path: "rules[0].id", message: "ID는 영문, 숫자, . _ - 만 사용할 수 있습니다" },
+    ])
+  })
+
+  it("threshold의 count, window, groupBy 필드를 검증", () => {
+    expect(errorsOf({ ...valid, threshold: { count: 0, window: "1m" } })).toEqual([
+      { path: "rules[0].threshold.count", message: "1 이상이어야 합니다" },
+    ])
+    expect(errorsOf({ ...valid, threshold: { count: 5, window: "soon" } })).toEqual([
+      { path: "rules[0].threshold.window", message: "구간 길이는 30s, 5m, 1h, 1d 형식이어야 합니다" },
+    ])
+    expect(errorsOf({ ...valid, threshold: { count: 5, window: "1m", groupBy: "user" } })).toEqual([
+      { path: "rules[0].threshold.groupBy", message: "알 수 없는 필드입니다" },
+    ])
+  })
+
+  it("선택 조건의 필드, 수식어, 값과 condition을 검증", () => {
+    const withDetection = (detection: object) => errorsOf({ ...valid, detection })
+    expect(withDetection({ a: { user: "root" }, condition: "a" })).toEqual([
+      { path: "rules[0].detection.a.user", message: "알 수 없는 필드입니다: user" },
+    ])
+    expect(withDetection({ a: { "dport|regex": "2+" }, condition: "a" })).toEqual([
+      { path: "rules[0].detection.a.dport|regex", message: "알 수 없는 수식어입니다: regex" },
+    ])
+    expect(withDetection({ a: { "proto|cidr": "10.0.0.0/8" }, condition: "a" })).toEqual([
+      { path: "rules[0].detection.a.proto|cidr", message: "cidr 수식어는 IP 필드에만 사용할 수 있습니다" },
+    ])
+    expect(withDetection({ a: { dport: "30-20" }, condition: "a" })).toEqual([
+      { path: "rules[0].detection.a.dport", message: "범위의 시작이 끝보다 큽니다: 30-20" },
+    ])
+    expect(withDetection({ a: { dport: 22 }, condition: "a and b" })).toEqual([
+      { path: "rules[0].detection.condition", message: "정의되지 않은 선택 조건입니다: b" },
+    ])
+    expect(withDetection({ a: { dport: 22 }, condition: "(a" })).toEqual([
+      { path: "rules[0].detection.condition", message: "닫는 괄호가 없습니다" },
+    ])
+  })
+
+  it("오류가 있는 규칙과 중복 ID만 제외하고 나머지는 사용", () => {
+    const { rules, errors } = parseRuleDocument(
+      JSON.stringify({ rules: [valid, { ...valid, severity: "urgent" }, valid, { ...valid, id: "other" }] }),
+    )
+    expect(rules.map(({ rule }) => rule.id)).toEqual(["ok", "other"])
+    expect(errors.map((error) => error.path)).toEqual(["rules[1].severity", "rules[2].id"])
+    expect(errors[1].message).toBe("중복된 규칙 ID입니다: ok")
+  })
+
+  it("YAML 문법 오류를 보고", () => {
+    const { rules, errors } = parseRuleDocument("id: [unclosed")
+    expect(rules).toEqual([])
+    expect(errors).toHaveLength(1)
+    expect(errors[0].path).toBe("문서")
+  })
+})
@@ -0,0 +1,400 @@
+/**
+ * Sigma와 비슷한 YAML/JSON 탐지 규칙 문서의 파서와 검증기
+ *
+ * 예:
+ *   rules:
+ *     - id: ssh-brute-force
+ *       title: SSH 무차별 대입 시도
+ *       severity: high
+ *       detection:
+ *         selection:
+ *           destinationPort: 22
+ *           protocol: TCP
+ *         internal:
+ *           sourceIP|cidr: [10.0.0.0/8, 192.168.0.0/16]
+ *         condition: selection and not internal
+ *       threshold:
+ *         count: 20
+ *         window: 1m
+ *         groupBy: sourceIP
+ *
+ * 문서 형식:
+ * - { rules: [...] }, 규칙 배열, 규칙 하나 중 하나 (YAML은 ---로 여러 문서를 나열 가능, JSON도 그대로 읽음)
+ * - detection: 이름 붙은 선택 조건들과 condition (선택 이름을 and / or / not / 괄호로 조합)
+ * - 선택 조건: 필드|수식어: 값 (키 사이는 AND, 값 목록은 OR, 선택 조건의 목록은 OR)
+ *   - 수식어: cidr, contains, startswith, endswith, gt, gte, lt, lte (없으면 같음, 문자열은 대소문자 무시)
+ *   - 포트·숫자 필드는 1000-2000 범위 허용
+ * - threshold: window(예: 30s, 5m, 1h) 안에서 groupBy 필드별로 count번 이상 일치하면 알림
+ *   (distinct를 지정하면 그 필드의 서로 다른 값 수를 셈)
+ *
+ * @module detectionRules
+ */
+import YAML from "yaml"
+import { z } from "zod"
+import type { LogEntry } from "../types/log"
+import { RULE_SEVERITIES, type RuleField, type RuleSeverity } from "../types/rule"
+import { cidrContains, parseCidr } from "./ip"
+
+// 규칙 문서의 오류 (path: 오류가 난 위치, 예: rules[0].detection.condition)
+export interface RuleValidationError {
+  path: string
+  message: string
+}
+
+// 필드 이름과 별칭 (로그 검색 질의와 같은 약어 허용)
+const FIELD_ALIASES: Record<string, RuleField> = {
+  sourceip: "sourceIP",
+  src: "sourceIP",
+  destinationip: "destinationIP",
+  dst: "destinationIP",
+  sourceport: "sourcePort",
+  sport: "sourcePort",
+  destinationport: "destinationPort",
+  dport: "destinationPort",
+  protocol: "protocol",
+  proto: "protocol",
+  type: "type",
+  attack: "attack",
+  trafficvolume: "trafficVolume",
+  vol: "trafficVolume",
+}
+
+const IP_FIELDS: RuleField[] = ["sourceIP", "destinationIP"]
+const NUMBER_FIELDS: RuleField[] = ["sourcePort", "destinationPort", "trafficVolume"]
+
+type RuleModifier = "cidr" | "contains" | "startswith" | "endswith" | "gt" | "gte" | "lt" | "lte"
+
+const TEXT_MODIFIERS: RuleModifier[] = ["contains", "startswith", "endswith"]
+const NUMBER_MODIFIERS: RuleModifier[] = ["gt", "gte", "lt", "lte"]
+
+// 단위가 있는 구간 길이 (숫자만 쓰면 초)
+const DURATION_UNITS: Record<string, number> = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 }
+
+// ---------------------------------------------------------------------------
+// 스키마
+// ---------------------------------------------------------------------------
+
+const scalarSchema = z.union([z.string(), z.number(), z.boolean()])
+const selectionValueSchema = z.union([scalarSchema, z.array(scalarSchema).min(1)])
+const selectionMapSchema = z.record(selectionValueSchema)
+const selectionSchema = z.union([selectionMapSchema, z.array(selectionMapSchema).min(1)])
+
+const durationSchema = z.union([
+  z.number().positive(),
+  z.string().regex(/^\d+(\.\d+)?\s*[smhd]?$/i, "구간 길이는 30s, 5m, 1h, 1d 형식이어야 합니다"),
+])
+
+const fieldNameSchema = z.string().refine((value) => value.toLowerCase() in FIELD_ALIASES, {
+  message: "알 수 없는 필드입니다",
+})
+
+const ruleSchema = z
+  .object({
+    id: z.string().regex(/^[A-Za-z0-9][\w.-]*$/, "ID는 영문, 숫자, . _ - 만 사용할 수 있습니다"),
+    title: z.string().min(1),
+    description: z.string().optional(),
+    severity: z.enum(RULE_SEVERITIES as [RuleSeverity, ...RuleSeverity[]]),
+    enabled: z.boolean().default(true),
+    tags: z.array(z.string()).default([]),
+    detection: z.object({ condition: z.string().min(1) }).catchall(selectionSchema),
+    threshold: z
+      .object({
+        count: z.number().int().min(1),
+        window: durationSchema,
+        groupBy: z.union([fieldNameSchema, z.array(fieldNameSchema)]).optional(),
+        distinct: fieldNameSchema.optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict()
+
+export type DetectionRule = z.infer<typeof ruleSchema>
+
+// 스키마 오류 메시지 (스키마에 직접 지정한 메시지가 우선)
+const errorMap: z.ZodErrorMap = (issue, context) => {
+  switch (issue.code) {
+    case z.ZodIssueCode.invalid_type:
+      return { message: issue.received === "undefined" ? "필수 항목입니다" : `${issue.expected} 형식이어야 합니다` }
+    case z.ZodIssueCode.invalid_enum_value:
+      return { message: `${issue.options.join(", ")} 중 하나여야 합니다` }
+    case z.ZodIssueCode.unrecognized_keys:
+      return { message: `알 수 없는 항목입니다: ${issue.keys.join(", ")}` }
+    case z.ZodIssueCode.invalid_union:
+      return { message: "형식이 올바르지 않습니다" }
+    case z.ZodIssueCode.too_small:
+      if (issue.type === "array" || issue.type === "string") return { message: "비어 있을 수 없습니다" }
+      return { message: `${issue.minimum} 이상이어야 합니다` }
+    default:
+      return { message: context.defaultError }
+  }
+}
+
+const documentSchema = z.union([z.object({ rules: z.array(z.unknown()) }).strict(), z.array(z.unknown())])
+
+// ---------------------------------------------------------------------------
+// 컴파일된 규칙
+// ---------------------------------------------------------------------------
+
+type LogMatcher = (log: LogEntry) => boolean
+
+export interface RuleThreshold {
+  count: number
+  windowMs: number
+  groupBy: RuleField[]
+  distinct: RuleField | null
+}
+
+export interface CompiledRule {
+  rule: DetectionRule
+  matches: LogMatcher
+  threshold: RuleThreshold | null
+}
+
+export interface RuleSetParseResult {
+  rules: CompiledRule[]
+  errors: RuleValidationError[]
+}
+
+// 규칙 안에서 발생한 오류 (path는 규칙 기준 상대 경로)
+class RuleCompileError extends Error {
+  path: string
+
+  constructor(path: string, message: string) {
+    super(message)
+    this.name = "RuleCompileError"
+    this.path = path
+  }
+}
+
+const resolveField = (name: string) => FIELD_ALIASES[name.toLowerCase()]
+
+// 로그에서 필드 값을 꺼냄 (공격 유형은 악성 로그에만 있음)
+export function ruleFieldValue(log: LogEntry, field: RuleField): string | number | undefined {
+  if (field === "attack") return log.type === "malicious" ? log.attack : undefined
+  return log[field]
+}
+
+// 구간 길이를 밀리초로 변환
+const parseDuration = (value: number | string) => {
+  if (typeof value === "number") return value * 1000
+  const match = /^(\d+(?:\.\d+)?)\s*([smhd]?)$/i.exec(value.trim())!
+  return Number(match[1]) * DURATION_UNITS[(match[2] || "s").toLowerCase()]
+}
+
+// 숫자 또는 "최소-최대" 범위를 파싱
+const parseNumberRange = (value: string | number | boolean, path: string): [number, number] => {
+  if (typeof value === "number") return [value, value]
+  const match = /^\s*(\d+(?:\.\d+)?)\s*(?:-\s*(\d+(?:\.\d+)?)\s*)?$/.exec(String(value))
+  if (!match) throw new RuleCompileError(path, `숫자 또는 범위가 아닙니다: ${value}`)
+  const min = Number(match[1])
+  const max = match[2] === undefined ? min : Number(match[2])
+  if (min > max) throw new RuleCompileError(path, `범위의 시작이 끝보다 큽니다: ${value}`)
+  return [min, max]
+}
+
+// 값 하나에 대한 비교 함수
+const compileValue = (
+  field: RuleField,
+  modifier: RuleModifier | null,
+  value: string | number | boolean,
+  path: string,
+): ((actual: string | number) => boolean) => {
+  const isNumberField = NUMBER_FIELDS.includes(field)
+
+  if (modifier === "cidr") {
+    if (!IP_FIELDS.includes(field)) throw new RuleCompileError(path, "cidr 수식어는 IP 필드에만 사용할 수 있습니다")
+    const cidr = parseCidr(String(value))
+    if (!cidr) throw new RuleCompileError(path, `올바른 CIDR이 아닙니다: ${value}`)
+    return (actual) => cidrContains(cidr, String(actual))
+  }
+
+  if (modifier && NUMBER_MODIFIERS.includes(modifier)) {
+    if (!isNumberField) throw new RuleCompileError(path, `${modifier} 수식어는 숫자 필드에만 사용할 수 있습니다`)
+    const limit = Number(value)
+    if (typeof value === "boolean" || !Number.isFinite(limit)) throw new RuleCompileError(path, `숫자가 아닙니다: ${value}`)
+    if (modifier === "gt") return (actual) => Number(actual) > limit
+    if (modifier === "gte") return (actual) => Number(actual) >= limit
+    if (modifier === "lt") return (actual) => Number(actual) < limit
+    return (actual) => Number(actual) <= limit
+  }
+
+  if (modifier && TEXT_MODIFIERS.includes(modifier)) {
+    const expected = String(value).toLowerCase()
+    if (modifier === "contains") return (actual) => String(actual).toLowerCase().includes(expected)
+    if (modifier === "startswith") return (actual) => String(actual).toLowerCase().startsWith(expected)
+    return (actual) => String(actual).toLowerCase().endsWith(expected)
+  }
+
+  if (isNumberField) {
+    const [min, max] = parseNumberRange(value, path)
+    return (actual) => Number(actual) >= min && Number(actual) <= max
+  }
+  const expected = String(value).toLowerCase()
+  return (actual) => String(actual).toLowerCase() === expected
+}
+
+// 선택 조건 하나 (필드|수식어 키 사이는 AND, 값 목록은 OR)
+const compileSelectionMap = (selection: Record<string, unknown>, path: string): LogMatcher => {
+  const conditions = Object.entries(selection).map(([key, raw]) => {
+    const [fieldName, modifierName, ...rest] = key.split("|")
+    const keyPath = `${path}.${key}`
+    const field = resolveField(fieldName)
+    if (!field) throw new RuleCompileError(keyPath, `알 수 없는 필드입니다: ${fieldName}`)
+    const modifier = modifierName ? (modifierName.toLowerCase() as RuleModifier) : null
+    if (rest.length > 0 || (modifier && ![...TEXT_MODIFIERS, ...NUMBER_MODIFIERS, "cidr"].includes(modifier))) {
+      throw new RuleCompileError(keyPath, `알 수 없는 수식어입니다: ${key.slice(fieldName.length + 1)}`)
+    }
+    const values = (Array.isArray(raw) ? raw : [raw]) as (string | number | boolean)[]
+    const tests = values.map((value) => compileValue(field, modifier, value, keyPath))
+    return (log: LogEntry) => {
+      const actual = ruleFieldValue(log, field)
+      return actual !== undefined && tests.some((test) => test(actual))
+    }
+  })
+  if (conditions.length === 0) throw new RuleCompileError(path, "조건이 비어 있습니다")
+  return (log) => conditions.every((condition) => condition(log))
+}
+
+// condition 식을 파싱하여 선택 조건들을 조합 (not > and > or 순으로 우선)
+const compileCondition = (condition: string, selections: Map<string, LogMatcher>): LogMatcher => {
+  const path = "detection.condition"
+  const tokens = condition.match(/\(|\)|[^\s()]+/g) ?? []
+  let index = 0
+
+  const peek = () => tokens[index]?.toLowerCase()
+
+  const parseOr = (): LogMatcher => {
+    let left = parseAnd()
+    while (peek() === "or") {
+      index++
+      const [a, b] = [left, parseAnd()]
+      left = (log) => a(log) || b(log)
+    }
+    return left
+  }
+
+  const parseAnd = (): LogMatcher => {
+    let left = parseNot()
+    while (peek() === "and") {
+      index++
+      const [a, b] = [left, parseNot()]
+      left = (log) => a(log) && b(log)
+    }
+    return left
+  }
+
+  const parseNot = (): LogMatcher => {
+    if (peek() === "not") {
+      index++
+      const operand = parseNot()
+      return (log) => !operand(log)
+    }
+    return parseAtom()
+  }
+
+  const parseAtom = (): LogMatcher => {
+    const token = tokens[index++]
+    if (token === undefined) throw new RuleCompileError(path, "조건식이 끝나지 않았습니다")
+    if (token === "(") {
+      const inner = parseOr()
+      if (tokens[index++] !== ")") throw new RuleCompileError(path, "닫는 괄호가 없습니다")
+      return inner
+    }
+    const selection = selections.get(token)
+    if (!selection) throw new RuleCompileError(path, `정의되지 않은 선택 조건입니다: ${token}`)
+    return selection
+  }
+
+  const matcher = parseOr()
+  if (index < tokens.length) throw new RuleCompileError(path, `예상하지 못한 토큰입니다: ${tokens[index]}`)
+  return matcher
+}
+
+// 검증된 규칙을 로그 평가 함수로 변환
+const compileRule = (rule: DetectionRule): CompiledRule => {
+  const { condition, ...namedSelections } = rule.detection
+  const selections = new Map<string, LogMatcher>()
+  for (const [name, selection] of Object.entries(namedSelections)) {
+    const path = `detection.${name}`
+    if (Array.isArray(selection)) {
+      const alternatives = selection.map((item, i) => compileSelectionMap(item, `${path}[${i}]`))
+      selections.set(name, (log) => alternatives.some((matches) => matches(log)))
+    } else {
+      selections.set(name, compileSelectionMap(selection, path))
+    }
+  }
+
+  const threshold = rule.threshold
+  const groupBy = threshold?.groupBy === undefined ? [] : ([] as string[]).concat(threshold.groupBy)
+  return {
+    rule,
+    matches: compileCondition(condition, selections),
+    threshold: threshold
+      ? {
+          count: threshold.count,
+          windowMs: parseDuration(threshold.window),
+          groupBy: groupBy.map(resolveField),
+          distinct: threshold.distinct ? resolveField(threshold.distinct) : null,
+        }
+      : null,
+  }
+}
+
+// zod 오류 경로를 rules[0].detection.condition 형식으로 변환
+const formatPath = (base: string, path: (string | number)[]) =>
+  path.reduce<string>((result, key) => {
+    if (typeof key === "number") return `${result}[${key}]`
+    return result ? `${result}.${key}` : key
+  }, base)
+
+// 문서에서 규칙 후보 목록을 꺼냄
+const collectRuleCandidates = (text: string, errors: RuleValidationError[]) => {
+  const candidates: { value: unknown; path: string }[] = []
+  const documents = YAML.parseAllDocuments(text)
+  documents.forEach((document, documentIndex) => {
+    const base = documents.length > 1 ? `문서 ${documentIndex + 1}` : ""
+    if (document.errors.length > 0) {
+      document.errors.forEach((error) => errors.push({ path: base || "문서", message: error.message }))
+      return
+    }
+    const value: unknown = document.toJSON()
+    if (value === null || value === undefined) return
+    const parsed = documentSchema.safeParse(value)
+    const isRuleList = parsed.success
+    const list = isRuleList ? (Array.isArray(parsed.data) ? parsed.data : parsed.data.rules) : [value]
+    const prefix = isRuleList && !Array.isArray(parsed.data) ? formatPath(base, ["rules"]) : base
+    list.forEach((item, i) => candidates.push({ value: item, path: isRuleList ? `${prefix}[${i}]` : prefix }))
+  })
+  return candidates
+}
+
+// YAML/JSON 규칙 문서를 검증하고 컴파일 (오류가 있는 규칙만 제외하고 나머지는 사용)
+export function parseRuleDocument(text: string): RuleSetParseResult {
+  const errors: RuleValidationError[] = []
+  const rules: CompiledRule[] = []
+  const ids = new Set<string>()
+
+  for (const candidate of collectRuleCandidates(text, errors)) {
+    const parsed = ruleSchema.safeParse(candidate.value, { errorMap })
+    if (!parsed.success) {
+      parsed.error.issues.forEach((issue) =>
+        errors.push({ path: formatPath(candidate.path, issue.path), message: issue.message }),
+      )
+      continue
+    }
+    if (ids.has(parsed.data.id)) {
+      errors.push({ path: formatPath(candidate.path, ["id"]), message: `중복된 규칙 ID입니다: ${parsed.data.id}` })
+      continue
+    }
+    try {
+      rules.push(compileRule(parsed.data))
+      ids.add(parsed.data.id)
+    } catch (error) {
+      if (!(error instanceof RuleCompileError)) throw error
+      errors.push({ path: formatPath(candidate.path, error.path.split(".")), message: error.message })
+    }
+  }
+
+  return { rules, errors }
+}
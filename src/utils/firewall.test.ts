@@ -0,0 +1,213 @@
+import { describe, expect, it } from "@jest/globals"
+import type { FirewallAction, FirewallRule } from "../types/firewall"
+import { AttackCategory } from "../types/log"
+import {
+  analyzeFirewallRules,
+  compileFirewallPolicy,
+  evaluateFirewall,
+  logDirection,
+  simulateFirewall,
+} from "./firewall"
+import { createLog } from "./testLogs"
+
+const createRule = (id: string, action: FirewallAction, overrides: Partial<FirewallRule> = {}): FirewallRule => ({
+  id,
+  name: id,
+  action,
+  direction: "any",
+  protocol: "TCP",
+  source: "any",
+  sourcePorts: "any",
+  destination: "any",
+  destinationPorts: "any",
+  enabled: true,
+  ...overrides,
+})
+
+// 오류 없이 컴파일
+const compile = (rules: FirewallRule[]) => {
+  const result = compileFirewallPolicy({ rules, defaultAction: "allow" })
+  expect(result.errors).toEqual([])
+  return result.rules
+}
+
+// 규칙 순서 분석 결과 (종류, 규칙, 관련 규칙)
+const analyze = (rules: FirewallRule[]) =>
+  analyzeFirewallRules(compile(rules)).map((finding) => [finding.kind, finding.ruleId, finding.relatedRuleId])
+
+describe("compileFirewallPolicy", () => {
+  it("주소, 포트, 이름 오류가 있는 규칙은 제외하고 필드별로 보고", () => {
+    const { rules, errors } = compileFirewallPolicy({
+      defaultAction: "deny",
+      rules: [
+        createRule("ok", "allow", { source: "10.0.0.0/8, 192.168.1.10", destinationPorts: "80, 8000-8080" }),
+        createRule("bad", "allow", { name: " ", destination: "10.0.0.0/33", sourcePorts: "70000" }),
+      ],
+    })
+    expect(rules.map((compiled) => [compiled.rule.id, compiled.index])).toEqual([["ok", 0]])
+    expect(rules[0].destinationPorts).toEqual([
+      { from: 80, to: 80 },
+      { from: 8000, to: 8080 },
+    ])
+    expect(errors.map((error) => [error.ruleId, error.field])).toEqual([
+      ["bad", "name"],
+      ["bad", "destination"],
+      ["bad", "sourcePorts"],
+    ])
+  })
+
+  it("ICMP 규칙에는 포트를 지정할 수 없음", () => {
+    const { errors } = compileFirewallPolicy({
+      defaultAction: "allow",
+      rules: [createRule("ping", "deny", { protocol: "ICMP", destinationPorts: "22" })],
+    })
+    expect(errors).toEqual([
+      { ruleId: "ping", field: "destinationPorts", message: "ICMP 규칙에는 포트를 지정할 수 없습니다" },
+    ])
+  })
+})
+
+describe("evaluateFirewall", () => {
+  it("위에서부터 처음 일치한 사용 중인 규칙을 적용하고, 없으면 기본 동작", () => {
+    const rules = compile([
+      createRule("off", "deny", { enabled: false }),
+      createRule("ssh", "deny", { destinationPorts: "22" }),
+      createRule("web", "allow", { destinationPorts: "80, 443" }),
+    ])
+    expect(evaluateFirewall(rules, "deny", createLog()).rule?.rule.id).toBe("web")
+    expect(evaluateFirewall(rules, "allow", createLog({ destinationPort: 22, protocol: "SSH" })).action).toBe("deny")
+    expect(evaluateFirewall(rules, "deny", createLog({ destinationPort: 8080 }))).toEqual({
+      rule: null,
+      action: "deny",
+    })
+  })
+
+  it("포트 조건은 TCP/UDP 로그에만 일치하고, 응용 프로토콜은 전송 계층으로 변환", () => {
+    const rules = compile([createRule("block-53", "deny", { protocol: "any", destinationPorts: "53" })])
+    expect(evaluateFirewall(rules, "allow", createLog({ protocol: "DNS", destinationPort: 53 })).action).toBe("deny")
+    expect(evaluateFirewall(rules, "allow", createLog({ protocol: "ICMP", destinationPort: 53 })).action).toBe("allow")
+    const icmp = compile([createRule("ping", "deny", { protocol: "ICMP" })])
+    expect(evaluateFirewall(icmp, "allow", createLog({ protocol: "ICMPv6" })).action).toBe("deny")
+    expect(evaluateFirewall(icmp, "allow", createLog({ protocol: "UDP" })).action).toBe("allow")
+  })
+
+  it("방향은 내부망 기준이며 내부끼리의 로그는 방향이 any인 규칙에만 일치", () => {
+    expect(logDirection(createLog())).toBe("inbound")
+    expect(logDirection(createLog({ sourceIP: "10.0.0.5", destinationIP: "198.51.100.1" }))).toBe("outbound")
+    expect(logDirection(createLog({ sourceIP: "192.168.0.2" }))).toBeNull()
+
+    const rules = compile([createRule("in", "deny", { direction: "inbound" })])
+    expect(evaluateFirewall(rules, "allow", createLog()).action).toBe("deny")
+    expect(evaluateFirewall(rules, "allow", createLog({ sourceIP: "192.168.0.2" })).action).toBe("allow")
+  })
+})
+
+describe("analyzeFirewallRules", () => {
+  it("앞선 넓은 규칙이 다른 동작으로 먼저 처리하면 shadowed", () => {
+    const findings = analyzeFirewallRules(
+      compile([
+        createRule("deny-internal", "deny", { destination: "10.0.0.0/8" }),
+        createRule("allow-ssh", "allow", { destination: "10.1.0.0/16", destinationPorts: "22" }),
+      ]),
+    )
+    expect(findings).toEqual([
+      {
+        kind: "shadowed",
+        ruleId: "allow-ssh",
+        relatedRuleId: "deny-internal",
+        message: '1번 "deny-internal" 규칙이 모든 트래픽을 먼저 차단하므로 적용되지 않습니다',
+      },
+    ])
+  })
+
+  it("앞선 규칙이 같은 동작으로 모두 처리하면 redundant (이어지는 포트 범위는 합쳐서 비교)", () => {
+    expect(
+      analyze([
+        createRule("web", "allow", { destinationPorts: "80-442, 443" }),
+        createRule("https", "allow", { destinationPorts: "443", destination: "10.0.0.5" }),
+      ]),
+    ).toEqual([["redundant", "https", "web"]])
+  })
+
+  it("뒤의 더 넓은 규칙이 같은 동작으로 처리하면 앞 규칙도 redundant", () => {
+    expect(
+      analyze([
+        createRule("one-host", "allow", { destination: "10.0.0.5", destinationPorts: "80" }),
+        createRule("low-ports", "allow", { destinationPorts: "1-1024" }),
+      ]),
+    ).toEqual([["redundant", "one-host", "low-ports"]])
+  })
+
+  it("그 사이에 다른 동작으로 겹치는 규칙이 있으면 redundant가 아니고 conflict", () => {
+    expect(
+      analyze([
+        createRule("one-host", "allow", { destination: "10.0.0.5", destinationPorts: "80" }),
+        createRule("block-net", "deny", { source: "203.0.113.0/24" }),
+        createRule("all-tcp", "allow"),
+      ]),
+    ).toEqual([["conflict", "block-net", "one-host"]])
+  })
+
+  it("뒤 규칙이 앞 규칙을 모두 포함하면 예외 처리로 보고 conflict가 아님", () => {
+    expect(
+      analyze([createRule("block-ssh", "deny", { destinationPorts: "22" }), createRule("allow-all", "allow")]),
+    ).toEqual([])
+  })
+
+  it("포트 조건이 있는 규칙과 ICMP 규칙은 겹치지 않음", () => {
+    expect(
+      analyze([
+        createRule("block-ssh", "deny", { protocol: "any", destinationPorts: "22" }),
+        createRule("ping", "allow", { protocol: "ICMP" }),
+      ]),
+    ).toEqual([])
+    // 포트 조건이 없는 규칙은 ICMP 트래픽을 가림
+    const blockAll = createRule("block-all", "deny", { protocol: "any" })
+    expect(analyze([blockAll, createRule("ping", "allow", { protocol: "ICMP" })])).toEqual([
+      ["shadowed", "ping", "block-all"],
+    ])
+  })
+
+  it("프로토콜이나 IP 버전이 다른 규칙, 사용하지 않는 규칙은 겹치지 않음", () => {
+    expect(analyze([createRule("tcp", "deny"), createRule("udp", "allow", { protocol: "UDP" })])).toEqual([])
+    const v6 = createRule("v6", "deny", { destination: "::/0" })
+    expect(analyze([v6, createRule("v4", "allow", { destination: "0.0.0.0/0" })])).toEqual([])
+    expect(analyze([createRule("tcp", "deny"), createRule("off", "allow", { enabled: false })])).toEqual([])
+  })
+})
+
+describe("simulateFirewall", () => {
+  it("규칙별 일치 건수, 허용된 악성 로그, 상위 출발지를 집계", () => {
+    const rules = compile([createRule("ssh", "deny", { destinationPorts: "22" })])
+    const malicious = { type: "malicious", attack: AttackCategory.BruteForce } as const
+    const simulation = simulateFirewall(rules, "allow", [
+      createLog({ destinationPort: 22, ...malicious }),
+      createLog({ destinationPort: 22, sourceIP: "198.51.100.1" }),
+      createLog({ destinationPort: 22 }),
+      createLog(malicious),
+      createLog({ type: "novel" }),
+    ])
+    expect(simulation).toMatchObject({ total: 5, allowed: 2, denied: 3, maliciousAllowed: 1 })
+    expect(simulation.hits).toEqual([
+      {
+        ruleId: "ssh",
+        action: "deny",
+        matched: 3,
+        malicious: 1,
+        novel: 0,
+        topSources: [
+          { ip: "203.0.113.7", count: 2 },
+          { ip: "198.51.100.1", count: 1 },
+        ],
+      },
+      {
+        ruleId: null,
+        action: "allow",
+        matched: 2,
+        malicious: 1,
+        novel: 1,
+        topSources: [{ ip: "203.0.113.7", count: 2 }],
+      },
+    ])
+  })
+})
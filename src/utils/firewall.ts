@@ -0,0 +1,387 @@
+/**
+ * 방화벽 정책을 검증·평가하고 규칙 순서의 문제를 찾는 함수들
+ *
+ * - 규칙의 주소(CIDR 목록)와 포트(포트/범위 목록) 문자열을 검증하여 컴파일
+ * - 로그 한 건을 위에서부터 평가하여 처음 일치한 규칙의 동작을 반환
+ * - 규칙 쌍을 비교하여 가려진(shadowed), 불필요한(redundant), 충돌하는(conflict) 규칙을 정적으로 찾음
+ *   (여러 규칙이 함께 가리는 경우는 찾지 않음)
+ * - 로그 목록을 정책에 통과시켜 규칙별로 허용/차단했을 건수를 집계 (시뮬레이션)
+ *
+ * 로그의 방향은 내부망(utils/ip의 LOCAL_NETWORKS) 기준으로 판단하며,
+ * 양쪽 모두 내부망이거나 모두 외부인 로그는 방향이 any인 규칙에만 일치
+ *
+ * @module firewall
+ */
+import type {
+  FirewallAction,
+  FirewallDirection,
+  FirewallFinding,
+  FirewallPolicy,
+  FirewallProtocol,
+  FirewallRule,
+  FirewallRuleError,
+} from "../types/firewall"
+import type { LogEntry } from "../types/log"
+import { cidrContains, ipToBytes, isLocalAddress, parseCidr, type Cidr } from "./ip"
+
+interface PortRange {
+  from: number
+  to: number
+}
+
+// 검증을 통과한 규칙 (null은 모든 값)
+export interface CompiledFirewallRule {
+  rule: FirewallRule
+  index: number // 정책에서의 순서 (0부터)
+  sources: Cidr[] | null
+  destinations: Cidr[] | null
+  sourcePorts: PortRange[] | null
+  destinationPorts: PortRange[] | null
+}
+
+export interface FirewallDecision {
+  rule: CompiledFirewallRule | null // null이면 기본 동작
+  action: FirewallAction
+}
+
+// 규칙별 시뮬레이션 결과
+export interface FirewallRuleHits {
+  ruleId: string | null // null이면 기본 동작
+  action: FirewallAction
+  matched: number
+  malicious: number
+  novel: number
+  topSources: { ip: string; count: number }[]
+}
+
+export interface FirewallSimulation {
+  total: number
+  allowed: number
+  denied: number
+  maliciousAllowed: number // 허용된 악성 로그 수
+  hits: FirewallRuleHits[] // 사용 중인 규칙 순서, 마지막은 기본 동작
+}
+
+// 시뮬레이션 결과에 표시할 규칙별 상위 출발지 수
+const TOP_SOURCE_LIMIT = 3
+
+// 응용 프로토콜 로그를 전송 계층 프로토콜로 변환하는 표
+const TRANSPORT_PROTOCOLS: Record<string, Exclude<FirewallProtocol, "any">> = {
+  TCP: "TCP",
+  HTTP: "TCP",
+  HTTPS: "TCP",
+  FTP: "TCP",
+  SMTP: "TCP",
+  SSH: "TCP",
+  TELNET: "TCP",
+  IMAP: "TCP",
+  POP3: "TCP",
+  RDP: "TCP",
+  SMB: "TCP",
+  UDP: "UDP",
+  DNS: "UDP",
+  NTP: "UDP",
+  SNMP: "UDP",
+  DHCP: "UDP",
+  SYSLOG: "UDP",
+  ICMP: "ICMP",
+  ICMPV6: "ICMP",
+}
+
+export const FIREWALL_ACTION_LABELS: Record<FirewallAction, string> = { allow: "허용", deny: "차단" }
+
+const isAny = (text: string) => text.trim() === "" || text.trim().toLowerCase() === "any"
+
+const splitList = (text: string) =>
+  text
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean)
+
+// 주소/CIDR 목록을 파싱 (any면 null)
+const parseAddressList = (text: string): { value: Cidr[] | null; error?: string } => {
+  if (isAny(text)) return { value: null }
+  const value: Cidr[] = []
+  for (const item of splitList(text)) {
+    const cidr = parseCidr(item)
+    if (!cidr) return { value: null, error: `올바른 주소 또는 CIDR가 아닙니다: ${item}` }
+    value.push(cidr)
+  }
+  return { value }
+}
+
+// 포트/범위 목록을 파싱 (any면 null)
+const parsePortList = (text: string): { value: PortRange[] | null; error?: string } => {
+  if (isAny(text)) return { value: null }
+  const value: PortRange[] = []
+  for (const item of splitList(text)) {
+    const match = item.match(/^(\d+)(?:\s*-\s*(\d+))?$/)
+    const from = match ? Number(match[1]) : NaN
+    const to = match?.[2] !== undefined ? Number(match[2]) : from
+    if (!match || from > 65535 || to > 65535 || from > to) {
+      return { value: null, error: `올바른 포트 또는 범위(0-65535)가 아닙니다: ${item}` }
+    }
+    value.push({ from, to })
+  }
+  return { value }
+}
+
+// 정책의 규칙을 검증하여 컴파일 (오류가 있는 규칙은 제외하고 오류 목록에 추가)
+export function compileFirewallPolicy(policy: FirewallPolicy): {
+  rules: CompiledFirewallRule[]
+  errors: FirewallRuleError[]
+} {
+  const rules: CompiledFirewallRule[] = []
+  const errors: FirewallRuleError[] = []
+
+  policy.rules.forEach((rule, index) => {
+    const ruleErrors: FirewallRuleError[] = []
+    const fail = (field: keyof FirewallRule, message: string) => ruleErrors.push({ ruleId: rule.id, field, message })
+
+    const sources = parseAddressList(rule.source)
+    const destinations = parseAddressList(rule.destination)
+    const sourcePorts = parsePortList(rule.sourcePorts)
+    const destinationPorts = parsePortList(rule.destinationPorts)
+    if (!rule.name.trim()) fail("name", "이름을 입력하세요")
+    if (sources.error) fail("source", sources.error)
+    if (destinations.error) fail("destination", destinations.error)
+    if (sourcePorts.error) fail("sourcePorts", sourcePorts.error)
+    if (destinationPorts.error) fail("destinationPorts", destinationPorts.error)
+    if (rule.protocol === "ICMP") {
+      if (sourcePorts.value) fail("sourcePorts", "ICMP 규칙에는 포트를 지정할 수 없습니다")
+      if (destinationPorts.value) fail("destinationPorts", "ICMP 규칙에는 포트를 지정할 수 없습니다")
+    }
+
+    if (ruleErrors.length > 0) {
+      errors.push(...ruleErrors)
+      return
+    }
+    rules.push({
+      rule,
+      index,
+      sources: sources.value,
+      destinations: destinations.value,
+      sourcePorts: sourcePorts.value,
+      destinationPorts: destinationPorts.value,
+    })
+  })
+  return { rules, errors }
+}
+
+// 로그 프로토콜을 전송 계층 프로토콜로 변환 (알 수 없으면 null)
+export const transportProtocol = (protocol: string) => TRANSPORT_PROTOCOLS[protocol.toUpperCase()] ?? null
+
+// 내부망 기준 로그 방향 (내부끼리 또는 외부끼리면 null)
+export const logDirection = (log: LogEntry): Exclude<FirewallDirection, "any"> | null => {
+  const sourceLocal = isLocalAddress(log.sourceIP)
+  const destinationLocal = isLocalAddress(log.destinationIP)
+  if (sourceLocal === destinationLocal) return null
+  return destinationLocal ? "inbound" : "outbound"
+}
+
+// 평가에 필요한 로그 값을 한 번만 계산
+interface PreparedLog {
+  log: LogEntry
+  direction: Exclude<FirewallDirection, "any"> | null
+  protocol: Exclude<FirewallProtocol, "any"> | null
+  sourceBytes: number[] | null
+  destinationBytes: number[] | null
+}
+
+const prepareLog = (log: LogEntry): PreparedLog => ({
+  log,
+  direction: logDirection(log),
+  protocol: transportProtocol(log.protocol),
+  sourceBytes: ipToBytes(log.sourceIP),
+  destinationBytes: ipToBytes(log.destinationIP),
+})
+
+const addressMatches = (cidrs: Cidr[] | null, bytes: number[] | null) =>
+  cidrs === null || (bytes !== null && cidrs.some((cidr) => cidrContains(cidr, bytes)))
+
+// 포트 조건은 TCP/UDP 로그에만 일치
+const portMatches = (ranges: PortRange[] | null, port: number, protocol: PreparedLog["protocol"]) =>
+  ranges === null ||
+  ((protocol === "TCP" || protocol === "UDP") && ranges.some((range) => port >= range.from && port <= range.to))
+
+const ruleMatches = (compiled: CompiledFirewallRule, prepared: PreparedLog) => {
+  const { rule } = compiled
+  return (
+    (rule.direction === "any" || rule.direction === prepared.direction) &&
+    (rule.protocol === "any" || rule.protocol === prepared.protocol) &&
+    addressMatches(compiled.sources, prepared.sourceBytes) &&
+    addressMatches(compiled.destinations, prepared.destinationBytes) &&
+    portMatches(compiled.sourcePorts, prepared.log.sourcePort, prepared.protocol) &&
+    portMatches(compiled.destinationPorts, prepared.log.destinationPort, prepared.protocol)
+  )
+}
+
+const decide = (rules: CompiledFirewallRule[], defaultAction: FirewallAction, prepared: PreparedLog) => {
+  const rule = rules.find((compiled) => compiled.rule.enabled && ruleMatches(compiled, prepared)) ?? null
+  return { rule, action: rule ? rule.rule.action : defaultAction }
+}
+
+// 로그 한 건에 적용될 규칙과 동작
+export function evaluateFirewall(
+  rules: CompiledFirewallRule[],
+  defaultAction: FirewallAction,
+  log: LogEntry,
+): FirewallDecision {
+  return decide(rules, defaultAction, prepareLog(log))
+}
+
+// 로그 목록을 정책에 통과시켜 규칙별로 집계
+export function simulateFirewall(
+  rules: CompiledFirewallRule[],
+  defaultAction: FirewallAction,
+  logs: LogEntry[],
+): FirewallSimulation {
+  const enabled = rules.filter((compiled) => compiled.rule.enabled)
+  const counters = [
+    ...enabled.map((compiled) => ({ ruleId: compiled.rule.id as string | null, action: compiled.rule.action })),
+    { ruleId: null, action: defaultAction },
+  ].map((hits) => ({ ...hits, matched: 0, malicious: 0, novel: 0, sources: new Map<string, number>() }))
+  const result = { total: logs.length, allowed: 0, denied: 0, maliciousAllowed: 0 }
+
+  for (const log of logs) {
+    const { rule, action } = decide(enabled, defaultAction, prepareLog(log))
+    const counter = counters[rule ? enabled.indexOf(rule) : enabled.length]
+    counter.matched += 1
+    if (log.type === "malicious") counter.malicious += 1
+    if (log.type === "novel") counter.novel += 1
+    counter.sources.set(log.sourceIP, (counter.sources.get(log.sourceIP) ?? 0) + 1)
+    if (action === "allow") {
+      result.allowed += 1
+      if (log.type === "malicious") result.maliciousAllowed += 1
+    } else {
+      result.denied += 1
+    }
+  }
+
+  return {
+    ...result,
+    hits: counters.map(({ sources, ...hits }) => ({
+      ...hits,
+      topSources: Array.from(sources, ([ip, count]) => ({ ip, count }))
+        .sort((a, b) => b.count - a.count)
+        .slice(0, TOP_SOURCE_LIMIT),
+    })),
+  }
+}
+
+// 주소 목록 a가 b를 모두 포함하는지 (여러 대역을 합쳐야 포함되는 경우는 포함하지 않는 것으로 판단)
+const cidrCovers = (a: Cidr, b: Cidr) =>
+  a.bytes.length === b.bytes.length && a.prefix <= b.prefix && cidrContains(a, b.bytes)
+const addressesCover = (a: Cidr[] | null, b: Cidr[] | null) =>
+  a === null || (b !== null && b.every((cidrB) => a.some((cidrA) => cidrCovers(cidrA, cidrB))))
+const addressesOverlap = (a: Cidr[] | null, b: Cidr[] | null) =>
+  a === null || b === null || a.some((cidrA) => b.some((cidrB) => cidrCovers(cidrA, cidrB) || cidrCovers(cidrB, cidrA)))
+
+// 포트 목록 a가 b를 모두 포함하는지
+const portsCover = (a: PortRange[] | null, b: PortRange[] | null) => {
+  if (a === null) return true
+  if (b === null) return false
+  // 이어지는 범위를 합친 뒤 b의 각 범위가 한 범위 안에 들어가는지 확인
+  const merged = [...a]
+    .sort((x, y) => x.from - y.from)
+    .reduce<PortRange[]>((acc, range) => {
+      const last = acc[acc.length - 1]
+      if (last && range.from <= last.to + 1) last.to = Math.max(last.to, range.to)
+      else acc.push({ ...range })
+      return acc
+    }, [])
+  return b.every((range) => merged.some((m) => m.from <= range.from && range.to <= m.to))
+}
+const portsOverlap = (a: PortRange[] | null, b: PortRange[] | null) =>
+  a === null || b === null || a.some((x) => b.some((y) => x.from <= y.to && y.from <= x.to))
+
+const valueCovers = <T extends string>(a: T, b: T) => a === "any" || a === b
+const valueOverlaps = <T extends string>(a: T, b: T) => a === "any" || b === "any" || a === b
+
+// 규칙 a가 일치하는 트래픽이 규칙 b가 일치하는 트래픽을 모두 포함하는지
+const ruleCovers = (a: CompiledFirewallRule, b: CompiledFirewallRule) =>
+  valueCovers(a.rule.direction, b.rule.direction) &&
+  valueCovers(a.rule.protocol, b.rule.protocol) &&
+  addressesCover(a.sources, b.sources) &&
+  addressesCover(a.destinations, b.destinations) &&
+  portsCover(a.sourcePorts, b.sourcePorts) &&
+  portsCover(a.destinationPorts, b.destinationPorts)
+
+// 두 규칙이 함께 일치하는 트래픽이 있는지
+const rulesOverlap = (a: CompiledFirewallRule, b: CompiledFirewallRule) => {
+  // 포트 조건이 있는 규칙은 ICMP 트래픽에 일치하지 않음
+  const hasPorts = (rule: CompiledFirewallRule) => rule.sourcePorts !== null || rule.destinationPorts !== null
+  if ((hasPorts(a) && b.rule.protocol === "ICMP") || (hasPorts(b) && a.rule.protocol === "ICMP")) return false
+  return (
+    valueOverlaps(a.rule.direction, b.rule.direction) &&
+    valueOverlaps(a.rule.protocol, b.rule.protocol) &&
+    addressesOverlap(a.sources, b.sources) &&
+    addressesOverlap(a.destinations, b.destinations) &&
+    portsOverlap(a.sourcePorts, b.sourcePorts) &&
+    portsOverlap(a.destinationPorts, b.destinationPorts)
+  )
+}
+
+const describeRule = (compiled: CompiledFirewallRule) => `${compiled.index + 1}번 "${compiled.rule.name}"`
+
+// 사용 중인 규칙의 순서 문제를 찾음 (규칙마다 가장 앞선 관련 규칙 하나만 보고)
+export function analyzeFirewallRules(rules: CompiledFirewallRule[]): FirewallFinding[] {
+  const enabled = rules.filter((compiled) => compiled.rule.enabled)
+  const findings: FirewallFinding[] = []
+
+  enabled.forEach((later, j) => {
+    const earlier = enabled.slice(0, j)
+    // 앞선 규칙이 모든 트래픽을 먼저 처리하는 경우
+    const covering = earlier.find((rule) => ruleCovers(rule, later))
+    if (covering) {
+      const sameAction = covering.rule.action === later.rule.action
+      const action = FIREWALL_ACTION_LABELS[covering.rule.action]
+      findings.push({
+        kind: sameAction ? "redundant" : "shadowed",
+        ruleId: later.rule.id,
+        relatedRuleId: covering.rule.id,
+        message: sameAction
+          ? `${describeRule(covering)} 규칙이 같은 트래픽을 이미 ${action}하므로 필요 없습니다`
+          : `${describeRule(covering)} 규칙이 모든 트래픽을 먼저 ${action}하므로 적용되지 않습니다`,
+      })
+      return
+    }
+
+    // 다른 동작의 앞선 규칙과 일부만 겹치는 경우 (뒤 규칙이 앞 규칙을 모두 포함하면 예외 처리로 보고 제외)
+    const conflicting = earlier.find(
+      (rule) => rule.rule.action !== later.rule.action && rulesOverlap(rule, later) && !ruleCovers(later, rule),
+    )
+    if (conflicting) {
+      findings.push({
+        kind: "conflict",
+        ruleId: later.rule.id,
+        relatedRuleId: conflicting.rule.id,
+        message: `${describeRule(conflicting)} 규칙과 일부 트래픽이 겹치지만 동작이 달라 순서에 따라 결과가 달라집니다`,
+      })
+    }
+  })
+
+  // 뒤의 더 넓은 규칙이 같은 동작으로 처리하고, 그 사이에 다른 동작으로 겹치는 규칙이 없으면 지워도 결과가 같음
+  enabled.forEach((rule, i) => {
+    if (findings.some((finding) => finding.ruleId === rule.rule.id && finding.kind !== "conflict")) return
+    for (let j = i + 1; j < enabled.length; j++) {
+      const later = enabled[j]
+      if (later.rule.action !== rule.rule.action) {
+        if (rulesOverlap(rule, later)) return
+        continue
+      }
+      if (ruleCovers(later, rule)) {
+        findings.push({
+          kind: "redundant",
+          ruleId: rule.rule.id,
+          relatedRuleId: later.rule.id,
+          message: `뒤의 ${describeRule(later)} 규칙이 같은 트래픽을 같은 동작으로 처리하므로 지워도 결과가 같습니다`,
+        })
+        return
+      }
+    }
+  })
+
+  const order = new Map(rules.map((compiled) => [compiled.rule.id, compiled.index]))
+  return findings.sort((a, b) => (order.get(a.ruleId) ?? 0) - (order.get(b.ruleId) ?? 0))
+}
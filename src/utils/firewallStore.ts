@@ -0,0 +1,69 @@
+/**
+ * 방화벽 정책을 불러오고 저장하는 함수들
+ *
+ * 화면에서 편집한 정책은 브라우저 localStorage에 저장되며, 저장된 정책이 없으면 기본 정책을 사용
+ *
+ * @module firewallStore
+ */
+import type { FirewallPolicy, FirewallRule } from "../types/firewall"
+import { createId } from "./id"
+
+const STORAGE_KEY = "auto-guard-firewall-policy"
+
+// 기본 규칙의 빈 필드를 채워 규칙을 만듦
+export const createFirewallRule = (rule: Partial<FirewallRule> = {}): FirewallRule => ({
+  id: createId("fwrule"),
+  name: "새 규칙",
+  action: "deny",
+  direction: "any",
+  protocol: "any",
+  source: "any",
+  sourcePorts: "any",
+  destination: "any",
+  destinationPorts: "any",
+  enabled: true,
+  ...rule,
+})
+
+// 기본 정책 (관리망 SSH만 허용하고 원격 관리·취약 서비스 포트를 차단한 뒤 나머지는 허용)
+export const createDefaultFirewallPolicy = (): FirewallPolicy => ({
+  defaultAction: "allow",
+  rules: [
+    createFirewallRule({
+      name: "관리망 SSH 허용",
+      action: "allow",
+      protocol: "TCP",
+      source: "10.0.0.0/8, 192.168.0.0/16",
+      destinationPorts: "22",
+    }),
+    createFirewallRule({ name: "외부 SSH·Telnet 차단", protocol: "TCP", destinationPorts: "22-23" }),
+    createFirewallRule({ name: "원격 데스크톱 차단", protocol: "TCP", destinationPorts: "3389" }),
+    createFirewallRule({ name: "SMB·NetBIOS 차단", destinationPorts: "135-139, 445" }),
+    createFirewallRule({ name: "데이터베이스 포트 차단", protocol: "TCP", destinationPorts: "1433, 3306, 5432, 27017" }),
+  ],
+})
+
+// 저장된 정책 (없거나 형식이 맞지 않으면 기본 정책)
+export function loadFirewallPolicy(): FirewallPolicy {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY)
+    const policy = saved ? (JSON.parse(saved) as FirewallPolicy) : null
+    if (policy && Array.isArray(policy.rules) && (policy.defaultAction === "allow" || policy.defaultAction === "deny")) {
+      return { ...policy, rules: policy.rules.map((rule) => createFirewallRule(rule)) }
+    }
+  } catch {
+    // 손상된 값은 무시하고 기본 정책 사용
+  }
+  return createDefaultFirewallPolicy()
+}
+
+// 정책을 저장
+export function saveFirewallPolicy(policy: FirewallPolicy): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(policy))
+}
+
+// 저장된 정책을 지우고 기본 정책을 반환
+export function resetFirewallPolicy(): FirewallPolicy {
+  localStorage.removeItem(STORAGE_KEY)
+  return createDefaultFirewallPolicy()
+}
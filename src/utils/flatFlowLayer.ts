@@ -0,0 +1,198 @@
+/**
+ * 등장방형 도법 평면 지도에 트래픽 흐름을 그리는 2D 캔버스 레이어
+ *
+ * - 지구본과 같은 풀(flowPool)로 흐름을 보관하므로 분류 색상, 굵기, 흐려짐이 지구본과 같음
+ * - 애니메이션 없이 흐름 목록이 바뀌거나 흐려지는 흐름이 있을 때만 다시 그려 저전력 키오스크와 인쇄에 적합
+ * - 곡선 위의 점을 보관하여 마우스 위치의 흐름 또는 끝점의 국가를 찾음
+ *
+ * @module flatFlowLayer
+ */
+import type { GeoPoint } from "../types/geo"
+import type { FlowEntry } from "../types/telemetry"
+import { createFlowPool, FLOW_POOL_CAPACITY, type PooledFlow } from "./flowPool"
+import { FLOW_CLASS_COLORS, type FlowTarget } from "./flowStyle"
+
+// 흐름 선의 굵기 범위 (px)
+const MIN_LINE_WIDTH = 1
+const MAX_LINE_WIDTH = 4
+
+// 곡선의 불투명도 범위 (굵기에 비례)
+const MIN_LINE_OPACITY = 0.35
+const MAX_LINE_OPACITY = 0.85
+
+// 곡선이 휘는 정도 (출발지와 도착지 거리에 대한 비율)
+const ARC_BEND = 0.2
+
+// 마우스 위치를 찾을 때 쓰는 곡선 위의 점 수와 끝점 반경 (px)
+const HIT_SAMPLES = 16
+const ENDPOINT_HIT_RADIUS = 6
+const LINE_HIT_MARGIN = 3
+
+// 경위선 간격 (도)
+const GRATICULE_STEP = 30
+
+const BACKGROUND_COLOR = "#0F172A"
+const OCEAN_COLOR = "#1E3A5F"
+
+// 캔버스 안에서 지도가 차지하는 영역
+export interface FlatMapBounds {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface FlatFlowLayer {
+  sync(flows: FlowEntry[]): void // 새 흐름 목록 반영
+  age(): boolean // 흐려지는 시간이 지난 흐름의 자리를 비움 (다시 그려야 하면 true)
+  draw(context: CanvasRenderingContext2D, width: number, height: number, background: CanvasImageSource | null): void
+  hitTest(x: number, y: number): FlowTarget | undefined // 마지막으로 그린 지도에서 (x, y)의 흐름 또는 국가
+}
+
+// 캔버스 가운데에 가로:세로 2:1 지도 영역을 맞춤
+export function fitEquirectangular(width: number, height: number): FlatMapBounds {
+  const mapWidth = Math.min(width, height * 2)
+  const mapHeight = mapWidth / 2
+  return { x: (width - mapWidth) / 2, y: (height - mapHeight) / 2, width: mapWidth, height: mapHeight }
+}
+
+// 위도와 경도를 지도 영역의 좌표로 변환
+export const projectEquirectangular = (point: GeoPoint, bounds: FlatMapBounds) => ({
+  x: bounds.x + ((point.longitude + 180) / 360) * bounds.width,
+  y: bounds.y + ((90 - point.latitude) / 180) * bounds.height,
+})
+
+// 레이어를 생성하는 함수
+export function createFlatFlowLayer(capacity = FLOW_POOL_CAPACITY): FlatFlowLayer {
+  const pool = createFlowPool(capacity)
+  // 마지막으로 그린 흐름과 흐름별 곡선 위의 점 (x, y 순서)
+  const samples = new Float32Array(capacity * (HIT_SAMPLES + 1) * 2)
+  let drawn: PooledFlow[] = []
+
+  // 출발지, 휘어진 중간점, 도착지 (화면 위쪽으로 휨)
+  const arcPoints = (entry: PooledFlow, bounds: FlatMapBounds) => {
+    const start = projectEquirectangular(entry.from, bounds)
+    const end = projectEquirectangular(entry.to, bounds)
+    const dx = end.x - start.x
+    const dy = end.y - start.y
+    const sign = dx >= 0 ? 1 : -1 // 곡선의 수직 방향이 항상 위를 향하도록
+    const control = { x: (start.x + end.x) / 2 + dy * ARC_BEND * sign, y: (start.y + end.y) / 2 - dx * ARC_BEND * sign }
+    return { start, control, end }
+  }
+
+  const lineWidth = (entry: PooledFlow) => MIN_LINE_WIDTH + entry.weight * (MAX_LINE_WIDTH - MIN_LINE_WIDTH)
+
+  // 지도 배경 (사진이 없으면 바다 색), 경위선
+  const drawBackground = (
+    context: CanvasRenderingContext2D,
+    bounds: FlatMapBounds,
+    background: CanvasImageSource | null,
+  ) => {
+    if (background) {
+      context.drawImage(background, bounds.x, bounds.y, bounds.width, bounds.height)
+    } else {
+      context.fillStyle = OCEAN_COLOR
+      context.fillRect(bounds.x, bounds.y, bounds.width, bounds.height)
+    }
+    context.strokeStyle = "rgba(255, 255, 255, 0.15)"
+    context.lineWidth = 1
+    context.beginPath()
+    for (let longitude = -180; longitude <= 180; longitude += GRATICULE_STEP) {
+      const x = bounds.x + ((longitude + 180) / 360) * bounds.width
+      context.moveTo(x, bounds.y)
+      context.lineTo(x, bounds.y + bounds.height)
+    }
+    for (let latitude = -90; latitude <= 90; latitude += GRATICULE_STEP) {
+      const y = bounds.y + ((90 - latitude) / 180) * bounds.height
+      context.moveTo(bounds.x, y)
+      context.lineTo(bounds.x + bounds.width, y)
+    }
+    context.stroke()
+  }
+
+  return {
+    sync(flows) {
+      pool.sync(flows)
+    },
+    age() {
+      const { changed, released } = pool.age()
+      return changed.length > 0 || released.length > 0
+    },
+    draw(context, width, height, background) {
+      const bounds = fitEquirectangular(width, height)
+      context.fillStyle = BACKGROUND_COLOR
+      context.fillRect(0, 0, width, height)
+      drawBackground(context, bounds, background)
+
+      // 큰 흐름이 위에 오도록 작은 흐름부터 그림
+      const now = Date.now()
+      drawn = pool.entries().sort((a, b) => a.weight - b.weight)
+      for (const entry of drawn) {
+        const { start, control, end } = arcPoints(entry, bounds)
+        const color = FLOW_CLASS_COLORS[entry.flowClass]
+        const opacity = pool.opacity(entry, now)
+        context.globalAlpha = (MIN_LINE_OPACITY + entry.weight * (MAX_LINE_OPACITY - MIN_LINE_OPACITY)) * opacity
+        context.strokeStyle = color
+        context.lineWidth = lineWidth(entry)
+        context.beginPath()
+        context.moveTo(start.x, start.y)
+        context.quadraticCurveTo(control.x, control.y, end.x, end.y)
+        context.stroke()
+
+        // 출발지는 작은 점, 도착지는 큰 점으로 방향 표시
+        context.globalAlpha = opacity
+        context.fillStyle = color
+        context.beginPath()
+        context.arc(start.x, start.y, 2, 0, Math.PI * 2)
+        context.moveTo(end.x, end.y)
+        context.arc(end.x, end.y, 2.5 + entry.weight * 1.5, 0, Math.PI * 2)
+        context.fill()
+
+        // 마우스 위치를 찾을 곡선 위의 점
+        const base = entry.slot * (HIT_SAMPLES + 1) * 2
+        for (let i = 0; i <= HIT_SAMPLES; i++) {
+          const t = i / HIT_SAMPLES
+          const u = 1 - t
+          samples[base + i * 2] = u * u * start.x + 2 * u * t * control.x + t * t * end.x
+          samples[base + i * 2 + 1] = u * u * start.y + 2 * u * t * control.y + t * t * end.y
+        }
+      }
+      context.globalAlpha = 1
+    },
+    hitTest(x, y) {
+      // 위에 그린 흐름부터, 끝점을 곡선보다 먼저 확인
+      for (let index = drawn.length - 1; index >= 0; index--) {
+        const entry = drawn[index]
+        const base = entry.slot * (HIT_SAMPLES + 1) * 2
+        const last = base + HIT_SAMPLES * 2
+        if (Math.hypot(samples[base] - x, samples[base + 1] - y) <= ENDPOINT_HIT_RADIUS) {
+          return { kind: "country", country: entry.flow.start }
+        }
+        if (Math.hypot(samples[last] - x, samples[last + 1] - y) <= ENDPOINT_HIT_RADIUS) {
+          return { kind: "country", country: entry.flow.end }
+        }
+      }
+      for (let index = drawn.length - 1; index >= 0; index--) {
+        const entry = drawn[index]
+        const base = entry.slot * (HIT_SAMPLES + 1) * 2
+        const reach = lineWidth(entry) / 2 + LINE_HIT_MARGIN
+        for (let i = 0; i < HIT_SAMPLES; i++) {
+          const a = base + i * 2
+          if (distanceToSegment(x, y, samples[a], samples[a + 1], samples[a + 2], samples[a + 3]) <= reach) {
+            return { kind: "flow", flow: entry.flow }
+          }
+        }
+      }
+      return undefined
+    },
+  }
+}
+
+// 점 (x, y)와 선분 (x1, y1)-(x2, y2) 사이의 거리
+function distanceToSegment(x: number, y: number, x1: number, y1: number, x2: number, y2: number): number {
+  const dx = x2 - x1
+  const dy = y2 - y1
+  const lengthSquared = dx * dx + dy * dy
+  const t = lengthSquared > 0 ? Math.max(0, Math.min(1, ((x - x1) * dx + (y - y1) * dy) / lengthSquared)) : 0
+  return Math.hypot(x1 + t * dx - x, y1 + t * dy - y)
+}
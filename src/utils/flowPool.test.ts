@@ -0,0 +1,84 @@
+import { describe, expect, it } from "@jest/globals"
+import type { FlowEntry } from "../types/telemetry"
+import { generateFlowData } from "./dataGenerators"
+import { createFlowPool, FLOW_FADE_MS, FLOW_POOL_CAPACITY } from "./flowPool"
+
+// 번호마다 출발 좌표가 다른 흐름
+const createFlow = (index: number, count = 1): FlowEntry => ({
+  start: "KR",
+  end: "US",
+  startPoint: { latitude: (index % 100) - 50, longitude: Math.floor(index / 100) - 90 },
+  endPoint: { latitude: 60, longitude: 120 },
+  count,
+})
+
+const range = (from: number, to: number) => Array.from({ length: to - from }, (_, i) => from + i)
+
+describe("createFlowPool 자리 사용량", () => {
+  it("목 데이터의 흐름 목록이 50개를 넘는 자리를 채움", () => {
+    const pool = createFlowPool()
+    pool.sync(generateFlowData())
+    expect(pool.size).toBeGreaterThan(1000)
+    expect(pool.highWater).toBe(pool.size)
+  })
+
+  it("자리보다 흐름이 많으면 큰 흐름부터 모든 자리를 채움", () => {
+    const pool = createFlowPool()
+    const flows = range(0, FLOW_POOL_CAPACITY + 500).map((index) => createFlow(index, index + 1))
+    const { changed } = pool.sync(flows, 0)
+    expect(changed).toHaveLength(FLOW_POOL_CAPACITY)
+    expect(pool.size).toBe(FLOW_POOL_CAPACITY)
+    expect(pool.highWater).toBe(FLOW_POOL_CAPACITY)
+    // 가장 작은 500개가 빠짐
+    expect(Math.min(...pool.entries().map((entry) => entry.flow.count!))).toBe(501)
+  })
+
+  it("목록에서 빠진 흐름은 흐려진 뒤 자리를 돌려주고, 빈 자리가 없으면 가장 오래 흐려진 흐름의 자리를 씀", () => {
+    const pool = createFlowPool(4)
+    pool.sync(range(0, 4).map((index) => createFlow(index)), 0)
+    pool.sync([createFlow(1), createFlow(2), createFlow(3)], 1000)
+    expect(pool.opacity(pool.get(0)!, 1000 + FLOW_FADE_MS / 2)).toBeCloseTo(0.5)
+
+    // 0번 흐름이 흐려지는 중에 새 흐름이 들어오면 0번의 자리를 씀
+    const { changed, released } = pool.sync([1, 2, 3, 4].map((index) => createFlow(index)), 2000)
+    expect(released).toEqual([0])
+    expect(changed.map((entry) => entry.slot)).toEqual([0])
+
+    pool.sync([], 3000)
+    expect(pool.age(3000 + FLOW_FADE_MS).released.sort()).toEqual([0, 1, 2, 3])
+    expect(pool.size).toBe(0)
+  })
+
+  it("위쪽 자리가 비면 그리는 범위가 줄고, 새 흐름은 작은 번호의 빈 자리부터 씀", () => {
+    const pool = createFlowPool(8)
+    pool.sync(range(0, 6).map((index) => createFlow(index)), 0)
+    expect(pool.highWater).toBe(6)
+
+    // 1, 4, 5번 자리의 흐름이 빠진 뒤 사라짐
+    pool.sync([0, 2, 3].map((index) => createFlow(index)), 0)
+    pool.age(FLOW_FADE_MS)
+    expect(pool.highWater).toBe(4)
+
+    const { changed } = pool.sync([0, 2, 3, 10, 11].map((index) => createFlow(index)), FLOW_FADE_MS)
+    expect(changed.map((entry) => entry.slot)).toEqual([1, 4])
+    expect(pool.highWater).toBe(5)
+
+    pool.clear()
+    expect(pool.highWater).toBe(0)
+  })
+
+  it("24시간 동안 5초마다 흐름이 바뀌어도 자리 수를 넘지 않음", () => {
+    const capacity = 64
+    const pool = createFlowPool(capacity)
+    let maxSize = 0
+    for (let now = 0; now < 24 * 60 * 60 * 1000; now += 5000) {
+      // 200개의 경로 중 48개가 10개씩 밀려나며 나타남 (흐려지는 흐름까지 더하면 자리보다 많음)
+      const offset = ((now / 5000) * 10) % 200
+      pool.sync(range(offset, offset + 48).map((index) => createFlow(index % 200)), now)
+      pool.age(now)
+      maxSize = Math.max(maxSize, pool.size)
+    }
+    expect(maxSize).toBe(capacity)
+    expect(pool.highWater).toBeLessThanOrEqual(capacity)
+  })
+})
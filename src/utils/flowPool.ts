@@ -0,0 +1,198 @@
+/**
+ * 지도에 그리는 트래픽 흐름을 정해진 수의 자리(slot)에 나누어 보관하는 풀
+ *
+ * - 같은 출발/도착 위치의 흐름은 한 자리를 계속 쓰고, 흐름 목록이 새로 들어올 때 값만 바꿈
+ * - 새 목록에 없는 흐름은 fadeMs 동안 흐려지다가 자리를 돌려주므로 오래 켜 두어도 자리 수 이상 늘지 않음
+ * - 자리보다 흐름이 많으면 큰 흐름부터 자리를 줌
+ * - 빈 자리는 작은 번호부터 쓰고, 위쪽 자리가 비면 그리는 범위(highWater)도 줄어듦
+ * - 굵기는 단계(WEIGHT_STEPS)로 나누어, 단계나 분류가 바뀐 흐름만 다시 그리도록 알려 줌
+ *
+ * 3D 지구본과 2D 지도가 같은 풀을 써서 자리 번호를 미리 만든 버퍼의 위치로 사용
+ *
+ * @module flowPool
+ */
+import type { GeoPoint } from "../types/geo"
+import type { FlowEntry } from "../types/telemetry"
+import {
+  getFlowClass,
+  getFlowEndpoints,
+  getFlowWeight,
+  getMaxFlowSize,
+  summarizeFlows,
+  type FlowClass,
+} from "./flowStyle"
+
+// 한 번에 그릴 수 있는 최대 흐름 수 (지구본과 평면 지도의 기본값)
+export const FLOW_POOL_CAPACITY = 4096
+
+// 목록에서 빠진 흐름이 사라지기까지 걸리는 시간 (ms)
+export const FLOW_FADE_MS = 30_000
+
+// 굵기 단계 수
+const WEIGHT_STEPS = 8
+
+// 자리에 보관한 흐름
+export interface PooledFlow {
+  slot: number
+  key: string // 출발/도착 위치 키
+  flow: FlowEntry // 같은 위치 쌍의 흐름을 합친 값
+  from: GeoPoint
+  to: GeoPoint
+  flowClass: FlowClass
+  weight: number // 0 ~ 1 (WEIGHT_STEPS 단계)
+  fadeStart: number | null // 새 목록에서 빠진 시각 (ms, 아직 있으면 null)
+}
+
+// sync/age 결과 (changed: 다시 그릴 흐름, released: 비워진 자리)
+export interface FlowPoolChanges {
+  changed: PooledFlow[]
+  released: number[]
+}
+
+export interface FlowPool {
+  readonly capacity: number
+  readonly size: number // 쓰고 있는 자리 수 (흐려지는 중인 흐름 포함)
+  readonly highWater: number // 쓰고 있는 가장 큰 자리 번호 + 1 (그리는 범위)
+  sync(flows: FlowEntry[], now?: number): FlowPoolChanges // 새 흐름 목록 반영
+  age(now?: number): FlowPoolChanges // 흐려지는 시간이 지난 흐름의 자리를 비움 (changed: 흐려지는 중인 흐름)
+  get(slot: number): PooledFlow | undefined
+  entries(): PooledFlow[]
+  opacity(entry: PooledFlow, now?: number): number // 흐려진 정도를 반영한 불투명도 비율 (1 ~ 0)
+  clear(): number[] // 모든 자리를 비우고 비운 자리 번호를 반환
+}
+
+// 흐름을 묶는 위치 키 (좌표까지 같아야 같은 흐름)
+const flowKey = (flow: FlowEntry, from: GeoPoint, to: GeoPoint) =>
+  `${flow.start}:${from.latitude},${from.longitude}>${flow.end}:${to.latitude},${to.longitude}`
+
+// 같은 위치 쌍의 흐름을 하나로 합침
+const mergeFlows = (flows: FlowEntry[]): FlowEntry => {
+  if (flows.length === 1) return flows[0]
+  const { count, trafficVolume, typeCounts, ioc } = summarizeFlows(flows)
+  const typed = flows.some((flow) => flow.typeCounts)
+  return {
+    ...flows[0],
+    count,
+    ...(flows.some((flow) => flow.trafficVolume !== undefined) ? { trafficVolume } : {}),
+    ...(typed ? { typeCounts } : {}),
+    ...(ioc ? { ioc } : {}),
+  }
+}
+
+// 풀을 생성하는 함수 (fadeMs: 목록에서 빠진 흐름이 사라지기까지 걸리는 시간)
+export function createFlowPool(capacity = FLOW_POOL_CAPACITY, fadeMs = FLOW_FADE_MS): FlowPool {
+  const slots: Array<PooledFlow | undefined> = new Array(capacity)
+  const byKey = new Map<string, PooledFlow>()
+  // 비어 있는 자리 (작은 번호부터 꺼내도록 역순으로 쌓음)
+  const free = Array.from({ length: capacity }, (_, index) => capacity - 1 - index)
+  let highWater = 0
+
+  const release = (entry: PooledFlow) => {
+    slots[entry.slot] = undefined
+    byKey.delete(entry.key)
+    free.push(entry.slot)
+  }
+
+  // 자리를 비운 뒤 위쪽의 빈 자리만큼 그리는 범위를 줄이고, 다시 작은 번호부터 꺼내도록 정렬
+  const shrink = () => {
+    while (highWater > 0 && slots[highWater - 1] === undefined) highWater--
+    free.sort((a, b) => b - a)
+  }
+
+  const opacity = (entry: PooledFlow, now = Date.now()) =>
+    entry.fadeStart === null ? 1 : Math.max(0, 1 - (now - entry.fadeStart) / fadeMs)
+
+  return {
+    capacity,
+    get size() {
+      return byKey.size
+    },
+    get highWater() {
+      return highWater
+    },
+    sync(flows, now = Date.now()) {
+      // 위치 쌍별로 묶기 (위치를 모르는 흐름은 제외)
+      const groups = new Map<string, { flows: FlowEntry[]; from: GeoPoint; to: GeoPoint }>()
+      for (const flow of flows) {
+        const endpoints = flow && getFlowEndpoints(flow)
+        if (!endpoints) continue
+        const key = flowKey(flow, endpoints.from, endpoints.to)
+        const group = groups.get(key)
+        if (group) group.flows.push(flow)
+        else groups.set(key, { flows: [flow], ...endpoints })
+      }
+      const merged = Array.from(groups, ([key, group]) => ({ key, ...group, flow: mergeFlows(group.flows) }))
+      const maxSize = getMaxFlowSize(merged.map(({ flow }) => flow))
+      // 자리가 모자라면 큰 흐름부터 (이미 자리가 있는 흐름도 같은 기준)
+      if (merged.length > capacity) {
+        const weightOf = (item: (typeof merged)[number]) => getFlowWeight(item.flow, maxSize)
+        merged.sort((a, b) => weightOf(b) - weightOf(a))
+        merged.length = capacity
+      }
+
+      const changed: PooledFlow[] = []
+      const released: number[] = []
+      const present = new Set(merged.map(({ key }) => key))
+      // 새 목록에 없는 흐름은 흐려지기 시작
+      byKey.forEach((entry) => {
+        if (!present.has(entry.key) && entry.fadeStart === null) {
+          entry.fadeStart = now
+          changed.push(entry)
+        }
+      })
+      let evictable: PooledFlow[] | undefined // 자리를 내줄 새 목록에 없는 흐름 (마지막이 가장 오래됨)
+      for (const { key, flow, from, to } of merged) {
+        const weight = Math.round(getFlowWeight(flow, maxSize) * WEIGHT_STEPS) / WEIGHT_STEPS
+        const flowClass = getFlowClass(flow)
+        let entry = byKey.get(key)
+        if (!entry) {
+          // 빈 자리가 없으면 가장 많이 흐려진 흐름의 자리를 씀
+          if (free.length === 0) {
+            evictable ??= Array.from(byKey.values())
+              .filter((item) => item.fadeStart !== null && !present.has(item.key))
+              .sort((a, b) => b.fadeStart! - a.fadeStart!)
+            const oldest = evictable.pop()
+            if (!oldest) continue
+            release(oldest)
+            released.push(oldest.slot)
+          }
+          const slot = free.pop()!
+          entry = { slot, key, flow, from, to, flowClass, weight, fadeStart: null }
+          slots[slot] = entry
+          byKey.set(key, entry)
+          highWater = Math.max(highWater, slot + 1)
+          changed.push(entry)
+          continue
+        }
+        const restyled = entry.weight !== weight || entry.flowClass !== flowClass || entry.fadeStart !== null
+        Object.assign(entry, { flow, weight, flowClass, fadeStart: null })
+        if (restyled) changed.push(entry)
+      }
+      return { changed: changed.filter((entry) => slots[entry.slot] === entry), released }
+    },
+    age(now = Date.now()) {
+      const changed: PooledFlow[] = []
+      const released: number[] = []
+      byKey.forEach((entry) => {
+        if (entry.fadeStart === null) return
+        if (opacity(entry, now) > 0) {
+          changed.push(entry)
+        } else {
+          release(entry)
+          released.push(entry.slot)
+        }
+      })
+      if (released.length > 0) shrink()
+      return { changed, released }
+    },
+    get: (slot) => slots[slot],
+    entries: () => Array.from(byKey.values()),
+    opacity,
+    clear() {
+      const released = Array.from(byKey.values(), (entry) => entry.slot)
+      byKey.forEach(release)
+      shrink()
+      return released
+    },
+  }
+}
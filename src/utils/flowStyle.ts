@@ -0,0 +1,126 @@
+/**
+ * 트래픽 흐름을 지도에 그리기 위한 분류, 색상, 굵기, 끝점 계산
+ *
+ * - 분류: 위협 인텔리전스 지표와 일치하면 ioc, 그 외에는 흐름에 묶인 로그 중 가장 위험한 분류
+ *   (악성 > 새로운 패턴 > 정상, 분류를 모르는 흐름은 unknown)
+ * - 굵기: 함께 그리는 흐름 중 가장 큰 용량(없으면 로그 수)에 대한 로그 비율 (0 ~ 1)
+ * - 끝점: GeoIP 도시 좌표가 있으면 그 좌표, 없으면 국가 중심 좌표 (둘 다 없으면 그리지 않음)
+ * - 흐름이나 국가를 눌렀을 때 로그 테이블에 적용할 검색 질의와 툴팁에 표시할 요약
+ * - 지구본과 평면 지도가 함께 쓰는 배경 이미지 (앱과 함께 제공하여 외부 네트워크 없이 표시)
+ *
+ * @module flowStyle
+ */
+import type { GeoPoint } from "../types/geo"
+import { LOG_TYPES, type LogType } from "../types/log"
+import type { FlowEntry } from "../types/telemetry"
+import { getCountryCentroid } from "./countryCentroids"
+import { LOG_TYPE_CHART_COLORS, LOG_TYPE_LABELS } from "./logLabels"
+
+export type FlowClass = LogType | "ioc" | "unknown"
+
+// 지구본 텍스처이자 평면 지도 배경 (등장방형 도법, 경도 -180°가 왼쪽 끝)
+export const EARTH_TEXTURE_URL = `${process.env.PUBLIC_URL ?? ""}/assets/3d/texture_earth.jpg`
+
+// 범례 순서 (위험한 분류부터)
+export const FLOW_CLASSES: FlowClass[] = ["ioc", "malicious", "novel", "normal", "unknown"]
+
+export const FLOW_CLASS_COLORS: Record<FlowClass, string> = {
+  ioc: "#DC2626",
+  malicious: LOG_TYPE_CHART_COLORS.malicious,
+  novel: LOG_TYPE_CHART_COLORS.novel,
+  normal: LOG_TYPE_CHART_COLORS.normal,
+  unknown: "#3B82F6",
+}
+
+export const FLOW_CLASS_LABELS: Record<FlowClass, string> = {
+  ioc: "위협 인텔리전스",
+  malicious: LOG_TYPE_LABELS.malicious,
+  novel: LOG_TYPE_LABELS.novel,
+  normal: LOG_TYPE_LABELS.normal,
+  unknown: "분류 없음",
+}
+
+// 흐름의 분류
+export function getFlowClass(flow: FlowEntry): FlowClass {
+  if (flow.ioc) return "ioc"
+  const counts = flow.typeCounts
+  if (!counts) return "unknown"
+  if (counts.malicious > 0) return "malicious"
+  if (counts.novel > 0) return "novel"
+  return counts.normal > 0 ? "normal" : "unknown"
+}
+
+// 굵기 계산에 쓰는 흐름의 크기 (용량, 없으면 로그 수, 둘 다 없으면 1)
+const flowSize = (flow: FlowEntry) => flow.trafficVolume ?? flow.count ?? 1
+
+// 흐름 목록에서 가장 큰 흐름의 크기
+export function getMaxFlowSize(flows: FlowEntry[]): number {
+  return flows.reduce((max, flow) => Math.max(max, flowSize(flow)), 0)
+}
+
+// 가장 큰 흐름에 대한 상대적인 크기 (로그 눈금, 0 ~ 1)
+export function getFlowWeight(flow: FlowEntry, maxSize: number): number {
+  if (maxSize <= 0) return 0
+  return Math.min(1, Math.log1p(flowSize(flow)) / Math.log1p(maxSize))
+}
+
+// 흐름의 출발/도착 좌표 (어느 한쪽의 위치를 모르면 null)
+export function getFlowEndpoints(flow: FlowEntry): { from: GeoPoint; to: GeoPoint } | null {
+  const from = flow.startPoint ?? getCountryCentroid(flow.start)
+  const to = flow.endPoint ?? getCountryCentroid(flow.end)
+  return from && to ? { from, to } : null
+}
+
+// 여러 흐름을 합친 요약 (툴팁 표시용)
+export interface FlowSummary {
+  flows: number // 흐름 수
+  count: number // 로그 수 (로그 수를 모르는 흐름은 1로 셈)
+  trafficVolume: number // KB
+  typeCounts: Record<LogType, number>
+  ioc: boolean
+}
+
+// 흐름 목록을 하나의 요약으로 합침
+export function summarizeFlows(flows: FlowEntry[]): FlowSummary {
+  const summary: FlowSummary = {
+    flows: flows.length,
+    count: 0,
+    trafficVolume: 0,
+    typeCounts: { normal: 0, malicious: 0, novel: 0 },
+    ioc: false,
+  }
+  for (const flow of flows) {
+    summary.count += flow.count ?? 1
+    summary.trafficVolume += flow.trafficVolume ?? 0
+    if (flow.typeCounts) LOG_TYPES.forEach((type) => (summary.typeCounts[type] += flow.typeCounts![type]))
+    if (flow.ioc) summary.ioc = true
+  }
+  return summary
+}
+
+// 용량(KB)을 읽기 쉬운 단위로 표시
+export function formatFlowVolume(kb: number): string {
+  if (kb >= 1024 * 1024) return `${(kb / (1024 * 1024)).toFixed(1)} GB`
+  if (kb >= 1024) return `${(kb / 1024).toFixed(1)} MB`
+  return `${Math.round(kb)} KB`
+}
+
+// 지도에서 가리키거나 누른 대상 (흐름 또는 흐름 끝점의 국가)
+export type FlowTarget = { kind: "flow"; flow: FlowEntry } | { kind: "country"; country: string }
+
+// 마우스를 올린 대상과 지도 안의 마우스 위치 (툴팁 표시용)
+export interface FlowHover {
+  target: FlowTarget
+  x: number
+  y: number
+}
+
+// 흐름에 속한 로그를 찾는 검색 질의 (출발/도착 국가)
+export const flowLogQuery = (flow: FlowEntry) => `scountry:${flow.start} dcountry:${flow.end}`
+
+// 국가와 주고받은 로그를 찾는 검색 질의
+export const countryLogQuery = (country: string) => `country:${country}`
+
+// 누른 대상의 검색 질의
+export const flowTargetQuery = (target: FlowTarget) =>
+  target.kind === "flow" ? flowLogQuery(target.flow) : countryLogQuery(target.country)
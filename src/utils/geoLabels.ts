@@ -0,0 +1,37 @@
+/**
+ * GeoIP 위치를 화면에 표시하기 위한 라벨
+ *
+ * 국가 이름은 브라우저의 Intl.DisplayNames로 한국어 이름을 만들고, 지원하지 않으면 국가 코드를 그대로 표시
+ *
+ * @module geoLabels
+ */
+import type { GeoLocation } from "../types/geo"
+
+let regionNames: Intl.DisplayNames | null | undefined
+
+// 국가 코드의 한국어 이름 (예: "US" → "미국")
+export function getCountryLabel(code: string): string {
+  if (regionNames === undefined) {
+    try {
+      regionNames = new Intl.DisplayNames(["ko"], { type: "region" })
+    } catch {
+      regionNames = null
+    }
+  }
+  try {
+    return regionNames?.of(code) ?? code
+  } catch {
+    return code // 올바르지 않은 코드
+  }
+}
+
+// 위치를 한 줄로 표시 (예: "미국 · Ashburn · AS15169 Google LLC")
+export function formatGeoLocation(geo: GeoLocation): string {
+  return [
+    getCountryLabel(geo.country),
+    geo.city,
+    geo.asn !== undefined ? `AS${geo.asn}${geo.asOrganization ? ` ${geo.asOrganization}` : ""}` : undefined,
+  ]
+    .filter(Boolean)
+    .join(" · ")
+}
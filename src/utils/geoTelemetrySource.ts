@@ -0,0 +1,141 @@
+/**
+ * 다른 텔레메트리 소스를 감싸 로그 주소를 GeoIP로 찾고, 로그에서 트래픽 흐름을 만드는 어댑터
+ *
+ * - 시작 시 GeoIP 데이터베이스를 불러오며, 불러오기 전이나 실패하면 로그와 흐름을 그대로 전달
+ * - 데이터베이스가 있으면 로그에 출발지/도착지 위치를 붙이고,
+ *   감싼 소스의 흐름 대신 5초마다 그동안 받은 로그를 위치 쌍별로 묶은 흐름을 발행
+ *
+ * @module geoTelemetrySource
+ */
+import type { GeoLocation, GeoPoint } from "../types/geo"
+import type { LogEntry } from "../types/log"
+import type { FlowEntry, TelemetryChannel, TelemetrySource } from "../types/telemetry"
+import { FLOW_POOL_CAPACITY } from "./flowPool"
+import { loadGeoResolver, type GeoIpConfig, type GeoResolver } from "./geoip"
+import { createTelemetryEmitter } from "./telemetryEmitter"
+
+// 평가 없이 그대로 전달하는 채널
+const PASSTHROUGH_CHANNELS: TelemetryChannel[] = [
+  "traffic",
+  "resources",
+  "ports",
+  "system",
+  "alerts",
+  "baseline",
+  "anomalies",
+]
+
+// 흐름 발행 주기와 한 번에 발행하는 최대 흐름 수 (지도 흐름 풀이 한 번에 그릴 수 있는 만큼)
+const FLOW_INTERVAL_MS = 5000
+const MAX_FLOWS = FLOW_POOL_CAPACITY
+
+// 좌표가 있는 위치의 점 (없으면 undefined)
+const toPoint = (geo: GeoLocation): GeoPoint | undefined =>
+  geo.latitude !== null && geo.longitude !== null ? { latitude: geo.latitude, longitude: geo.longitude } : undefined
+
+// 흐름을 묶는 위치 키 (좌표가 있으면 도시 단위, 없으면 국가 단위)
+const locationKey = (geo: GeoLocation) => `${geo.country}:${geo.latitude ?? ""},${geo.longitude ?? ""}`
+
+// 위치를 찾은 로그를 출발지/도착지 위치 쌍별 흐름으로 묶음 (로그가 많은 흐름부터 최대 limit개)
+export function logsToFlows(logs: LogEntry[], limit = MAX_FLOWS): FlowEntry[] {
+  const flows = new Map<string, FlowEntry>()
+  for (const log of logs) {
+    const { sourceGeo, destinationGeo } = log
+    if (!sourceGeo || !destinationGeo) continue
+    const from = locationKey(sourceGeo)
+    const to = locationKey(destinationGeo)
+    if (from === to) continue // 같은 위치 안의 통신은 선으로 그릴 수 없음
+    const key = `${from}>${to}`
+    const flow = flows.get(key) ?? {
+      start: sourceGeo.country,
+      end: destinationGeo.country,
+      startPoint: toPoint(sourceGeo),
+      endPoint: toPoint(destinationGeo),
+      count: 0,
+      trafficVolume: 0,
+      typeCounts: { normal: 0, malicious: 0, novel: 0 },
+    }
+    flows.set(key, {
+      ...flow,
+      count: (flow.count ?? 0) + 1,
+      trafficVolume: (flow.trafficVolume ?? 0) + log.trafficVolume,
+      typeCounts: { ...flow.typeCounts!, [log.type]: flow.typeCounts![log.type] + 1 },
+      sourceIP: log.sourceIP,
+      destinationIP: log.destinationIP,
+      ...(flow.ioc || log.iocMatches?.length ? { ioc: true } : {}),
+    })
+  }
+  return Array.from(flows.values())
+    .sort((a, b) => (b.count ?? 0) - (a.count ?? 0))
+    .slice(0, limit)
+}
+
+// GeoIP 소스를 생성하는 함수
+export function createGeoTelemetrySource(source: TelemetrySource, config: GeoIpConfig): TelemetrySource {
+  const emitter = createTelemetryEmitter()
+  let resolver: GeoResolver | null = null
+  let loading: Promise<GeoResolver | null> | null = null // 다시 시작해도 데이터베이스는 한 번만 불러옴
+  let pending: LogEntry[] = [] // 다음 흐름에 묶을 로그
+  let unsubscribes: (() => void)[] = []
+  let flowTimer: ReturnType<typeof setInterval> | null = null
+
+  // 로그에 출발지/도착지 위치를 붙임
+  const locate = (log: LogEntry): LogEntry => {
+    const sourceGeo = resolver!.lookup(log.sourceIP)
+    const destinationGeo = resolver!.lookup(log.destinationIP)
+    if (!sourceGeo && !destinationGeo) return log
+    return { ...log, ...(sourceGeo ? { sourceGeo } : {}), ...(destinationGeo ? { destinationGeo } : {}) }
+  }
+
+  const emitFlows = () => {
+    if (pending.length === 0) return
+    emitter.emit("flows", logsToFlows(pending))
+    pending = []
+  }
+
+  const connect = () => {
+    unsubscribes = [
+      ...PASSTHROUGH_CHANNELS.map((channel) =>
+        source.subscribe(channel, (payload) => emitter.emit(channel, payload)),
+      ),
+      source.subscribe("logs", (logs) => {
+        if (!resolver) return emitter.emit("logs", logs)
+        const located = logs.map(locate)
+        pending.push(...located)
+        emitter.emit("logs", located)
+      }),
+      // 데이터베이스가 없을 때만 감싼 소스의 흐름을 전달
+      source.subscribe("flows", (flows) => {
+        if (!resolver) emitter.emit("flows", flows)
+      }),
+    ]
+    flowTimer = setInterval(emitFlows, FLOW_INTERVAL_MS)
+  }
+
+  return {
+    kind: source.kind,
+    start() {
+      if (unsubscribes.length > 0) return // 이미 시작된 경우 무시
+      connect()
+      if (!loading) {
+        loading = loadGeoResolver(config).catch((error) => {
+          console.warn("[geoip] GeoIP 데이터베이스를 불러오지 못했습니다", error)
+          return null
+        })
+      }
+      loading.then((loaded) => {
+        resolver = loaded
+      })
+      source.start()
+    },
+    stop() {
+      unsubscribes.forEach((unsubscribe) => unsubscribe())
+      unsubscribes = []
+      if (flowTimer) clearInterval(flowTimer)
+      flowTimer = null
+      pending = []
+      source.stop()
+    },
+    subscribe: emitter.subscribe,
+  }
+}
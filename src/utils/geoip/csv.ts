@@ -0,0 +1,159 @@
+/**
+ * IP 대역별 지리 정보 CSV를 GeoIP 데이터베이스로 변환하는 파서
+ *
+ * 지원 형식:
+ * - 머리글이 있는 CSV: 대역은 network(CIDR) 또는 start_ip/end_ip 열,
+ *   country_code, country_name, city, latitude, longitude, asn, as_organization 열은 있는 것만 사용
+ * - 머리글이 없는 DB-IP Lite CSV: 열 수로 구분
+ *   (3열 국가: start,end,country / 4열 ASN: start,end,asn,org / 8열 도시: start,end,continent,country,region,city,lat,lon)
+ *
+ * 대역은 시작 주소 순으로 정렬해 두고 이진 탐색으로 조회
+ *
+ * @module geoip/csv
+ */
+import type { GeoLocation } from "../../types/geo"
+import { findCsvColumn, normalizeCsvHeader, splitCsvLine } from "../csv"
+import { ipToBytes, parseCidr } from "../ip"
+import type { GeoIpDatabase } from "./types"
+
+export interface GeoIpCsvResult {
+  database: GeoIpDatabase
+  ranges: number
+  skipped: number // 형식이 잘못되어 건너뛴 줄 수
+}
+
+// 주소 대역과 지리 정보 (주소는 비교할 수 있도록 고정 길이 16진 문자열로 보관)
+interface GeoRange {
+  start: string
+  end: string
+  location: Partial<GeoLocation>
+}
+
+// 열 이름 후보
+const COLUMNS = {
+  network: ["network", "cidr", "prefix"],
+  start: ["start_ip", "ip_start", "range_start", "first_ip", "start"],
+  end: ["end_ip", "ip_end", "range_end", "last_ip", "end"],
+  country: ["country_code", "country_iso_code", "country", "iso_code"],
+  countryName: ["country_name"],
+  city: ["city", "city_name"],
+  latitude: ["latitude", "lat"],
+  longitude: ["longitude", "lon", "lng"],
+  asn: ["asn", "autonomous_system_number"],
+  asOrganization: ["as_organization", "autonomous_system_organization", "as_org", "organization", "org"],
+}
+
+type Column = keyof typeof COLUMNS
+
+// 머리글 없는 DB-IP Lite 형식의 열 배치
+const DBIP_LAYOUTS: Record<number, Partial<Record<Column, number>>> = {
+  3: { start: 0, end: 1, country: 2 },
+  4: { start: 0, end: 1, asn: 2, asOrganization: 3 },
+  8: { start: 0, end: 1, country: 3, city: 5, latitude: 6, longitude: 7 },
+}
+
+const toHex = (bytes: number[]) => bytes.map((byte) => byte.toString(16).padStart(2, "0")).join("")
+
+// CIDR의 첫 주소와 마지막 주소
+const cidrRange = (value: string): [number[], number[]] | null => {
+  const cidr = parseCidr(value)
+  if (!cidr) return null
+  const start = cidr.bytes.map((byte, index) => {
+    const bits = Math.min(8, Math.max(0, cidr.prefix - index * 8))
+    return byte & ((0xff << (8 - bits)) & 0xff)
+  })
+  const end = start.map((byte, index) => {
+    const bits = Math.min(8, Math.max(0, cidr.prefix - index * 8))
+    return byte | (0xff >> bits)
+  })
+  return [start, end]
+}
+
+// 한 줄의 열에서 지리 정보를 꺼냄 (없는 필드는 생략)
+const readLocation = (value: (column: Column) => string | undefined): Partial<GeoLocation> => {
+  const location: Partial<GeoLocation> = {}
+  const country = value("country")?.toUpperCase()
+  if (country && /^[A-Z]{2}$/.test(country)) location.country = country
+  const countryName = value("countryName")
+  if (countryName) location.countryName = countryName
+  const city = value("city")
+  if (city) location.city = city
+  const latitude = Number(value("latitude"))
+  const longitude = Number(value("longitude"))
+  if (value("latitude") && value("longitude") && Number.isFinite(latitude) && Number.isFinite(longitude)) {
+    location.latitude = latitude
+    location.longitude = longitude
+  }
+  const asn = Number(value("asn")?.replace(/^AS/i, ""))
+  if (value("asn") && Number.isInteger(asn)) location.asn = asn
+  const organization = value("asOrganization")
+  if (organization) location.asOrganization = organization
+  return location
+}
+
+// 정렬한 대역 목록에서 주소를 포함하는 대역을 찾음
+const findRange = (ranges: GeoRange[], key: string) => {
+  let low = 0
+  let high = ranges.length - 1
+  let candidate = -1
+  while (low <= high) {
+    const middle = (low + high) >> 1
+    if (ranges[middle].start <= key) {
+      candidate = middle
+      low = middle + 1
+    } else high = middle - 1
+  }
+  return candidate >= 0 && ranges[candidate].end >= key ? ranges[candidate] : null
+}
+
+// CSV 문자열을 파싱하여 데이터베이스를 생성하는 함수
+export function parseGeoIpCsv(text: string): GeoIpCsvResult {
+  const ranges: Record<number, GeoRange[]> = { 4: [], 16: [] } // 주소 길이(바이트)별 대역
+  let header: string[] | null = null
+  let firstRow = true
+  let skipped = 0
+
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim()
+    if (!trimmed || trimmed.startsWith("#")) continue
+    const cells = splitCsvLine(trimmed)
+    if (firstRow) {
+      firstRow = false
+      // 첫 열이 주소가 아니면 머리글
+      if (!parseCidr(cells[0])) {
+        header = normalizeCsvHeader(cells)
+        continue
+      }
+    }
+
+    const columns = header // 이번 줄의 머리글 (아래 함수가 바뀌는 변수를 읽지 않도록 고정)
+    const layout = columns ? null : DBIP_LAYOUTS[cells.length]
+    const value = (column: Column) => {
+      const position = columns ? findCsvColumn(columns, COLUMNS[column]) : layout?.[column] ?? -1
+      return position >= 0 ? cells[position] || undefined : undefined
+    }
+    const network = value("network")
+    const bounds = network
+      ? cidrRange(network)
+      : ([ipToBytes(value("start") ?? ""), ipToBytes(value("end") ?? "")] as [number[] | null, number[] | null])
+    const [start, end] = bounds ?? [null, null]
+    if (!start || !end || start.length !== end.length) {
+      skipped++
+      continue
+    }
+    ranges[start.length].push({ start: toHex(start), end: toHex(end), location: readLocation(value) })
+  }
+
+  for (const list of Object.values(ranges)) list.sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0))
+
+  return {
+    database: {
+      lookup(ip) {
+        const bytes = ipToBytes(ip)
+        return bytes ? findRange(ranges[bytes.length], toHex(bytes))?.location ?? null : null
+      },
+    },
+    ranges: ranges[4].length + ranges[16].length,
+    skipped,
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * 로컬 GeoIP 데이터베이스로 IP 주소의 국가, 도시, 좌표, ASN을 찾는 모듈
+ *
+ * - 데이터베이스: MaxMind MMDB(GeoLite2/GeoIP2 City, Country, ASN) 또는 IP 대역 CSV
+ * - 여러 데이터베이스를 함께 쓰면 앞의 데이터베이스부터 비어 있는 필드를 채움 (예: City + ASN)
+ * - 사설망 같은 내부 주소는 설정한 내부 위치(센서의 위치)로 처리
+ * - 외부 서비스에 주소를 보내지 않고 브라우저 안에서만 조회
+ *
+ * @module geoip
+ */
+import type { GeoLocation } from "../../types/geo"
+import { isLocalAddress } from "../ip"
+import { parseGeoIpCsv } from "./csv"
+import { isMmdb, openMmdb } from "./mmdb"
+import type { GeoIpDatabase } from "./types"
+
+export type { GeoIpDatabase } from "./types"
+export { parseGeoIpCsv } from "./csv"
+export { isMmdb, openMmdb } from "./mmdb"
+
+export interface GeoIpConfig {
+  urls: string[] // 불러올 데이터베이스 파일 주소
+  local: GeoLocation | null // 내부 주소의 위치 (null이면 내부 주소는 찾지 않음)
+}
+
+export interface GeoResolver {
+  lookup(ip: string): GeoLocation | null
+}
+
+// 여러 데이터베이스를 합쳐 조회하는 함수 (국가를 찾지 못하면 null)
+export function createGeoResolver(databases: GeoIpDatabase[], local: GeoLocation | null = null): GeoResolver {
+  return {
+    lookup(ip) {
+      if (local && isLocalAddress(ip)) return local
+      const merged: Partial<GeoLocation> = {}
+      for (const database of databases) {
+        const found = database.lookup(ip)
+        if (!found) continue
+        for (const [key, value] of Object.entries(found)) {
+          if (merged[key as keyof GeoLocation] === undefined) Object.assign(merged, { [key]: value })
+        }
+      }
+      if (!merged.country) return null
+      return { latitude: null, longitude: null, ...merged, country: merged.country }
+    },
+  }
+}
+
+// 주소의 데이터베이스 파일을 내려받아 엶 (확장자가 .mmdb이거나 MMDB 메타데이터가 있으면 MMDB, 그 외는 CSV)
+export async function loadGeoIpDatabase(url: string): Promise<GeoIpDatabase> {
+  const response = await fetch(url)
+  if (!response.ok) throw new Error(`GeoIP 데이터베이스를 불러오지 못했습니다 (${response.status})`)
+  const buffer = await response.arrayBuffer()
+  if (/\.mmdb(\?|$)/i.test(url) || isMmdb(buffer)) return openMmdb(buffer)
+  const { database, ranges, skipped } = parseGeoIpCsv(new TextDecoder().decode(buffer))
+  if (ranges === 0) throw new Error("GeoIP CSV에서 주소 대역을 찾지 못했습니다")
+  if (skipped > 0) console.warn(`[geoip] ${url}: 형식이 잘못된 ${skipped}줄을 건너뛰었습니다`)
+  return database
+}
+
+// 설정한 데이터베이스를 모두 불러와 조회기를 만듦 (하나도 불러오지 못하면 null)
+export async function loadGeoResolver(config: GeoIpConfig): Promise<GeoResolver | null> {
+  const results = await Promise.allSettled(config.urls.map((url) => loadGeoIpDatabase(url)))
+  const databases: GeoIpDatabase[] = []
+  results.forEach((result, index) => {
+    if (result.status === "fulfilled") databases.push(result.value)
+    else console.warn(`[geoip] ${config.urls[index]}:`, result.reason)
+  })
+  return databases.length > 0 ? createGeoResolver(databases, config.local) : null
+}
@@ -0,0 +1,224 @@
+/**
+ * @jest-environment node
+ */
+import { describe, expect, it } from "@jest/globals"
+import { isMmdb, openMmdb } from "./mmdb"
+
+// ---------------------------------------------------------------------------
+// MMDB 파일을 만드는 도우미
+// ---------------------------------------------------------------------------
+
+// 빅 엔디언 정수
+const uintBytes = (value: number, size: number) =>
+  Array.from({ length: size }, (_, i) => Math.floor(value / 256 ** (size - 1 - i)) % 256)
+
+// 제어 바이트 (8 이상의 형식은 확장 형식, 크기는 285 미만만 사용)
+const control = (type: number, size: number) => {
+  const [sizeField, extraSize] = size < 29 ? [size, []] : [29, [size - 29]]
+  return [...(type <= 7 ? [(type << 5) | sizeField] : [sizeField, type - 7]), ...extraSize]
+}
+
+// 데이터 섹션의 값 (문자열은 ASCII만 사용)
+const text = (value: string) => [...control(2, value.length), ...Array.from(value, (char) => char.charCodeAt(0))]
+const uint16 = (value: number) => [...control(5, 2), ...uintBytes(value, 2)]
+const uint32 = (value: number) => [...control(6, 4), ...uintBytes(value, 4)]
+const uint64 = (value: number) => [...control(9, 8), ...uintBytes(value, 8)]
+const double = (value: number) => {
+  const out = new Uint8Array(8)
+  new DataView(out.buffer).setFloat64(0, value)
+  return [...control(3, 8), ...Array.from(out)]
+}
+const map = (entries: [string, number[]][]) => [
+  ...control(7, entries.length),
+  ...entries.flatMap(([key, value]) => [...text(key), ...value]),
+]
+
+// 포인터 (가리키는 위치에 맞는 가장 짧은 형식)
+const pointerSize = (target: number) => (target < 2048 ? 0 : target < 526336 ? 1 : target < 134744064 ? 2 : 3)
+const pointer = (target: number, sizeBits = pointerSize(target)) => {
+  if (sizeBits === 3) return [0x38, ...uintBytes(target, 4)]
+  const value = target - [0, 2048, 526336][sizeBits]
+  const low = uintBytes(value, sizeBits + 1)
+  return [0x20 | (sizeBits << 3) | Math.floor(value / 256 ** (sizeBits + 1)), ...low]
+}
+
+// 데이터 섹션 (위치별로 값을 배치)
+const dataSection = (...entries: [number, number[]][]) => {
+  const size = Math.max(...entries.map(([offset, value]) => offset + value.length))
+  const out = new Uint8Array(size)
+  entries.forEach(([offset, value]) => out.set(value, offset))
+  return out
+}
+
+// 네트워크 (주소 비트 문자열과 데이터 섹션 안의 레코드 위치)
+interface Network {
+  bits: string
+  record: number
+}
+
+// 주소의 앞 prefix 비트
+const bitsOf = (address: number[], prefix: number) =>
+  address
+    .map((byte) => byte.toString(2).padStart(8, "0"))
+    .join("")
+    .slice(0, prefix)
+
+type NodeRef = number | { record: number } | null
+
+// 검색 트리, 구분자, 데이터, 메타데이터로 파일을 만듦
+const buildMmdb = (recordSize: 24 | 28 | 32, ipVersion: 4 | 6, networks: Network[], data: Uint8Array) => {
+  const nodes: [NodeRef, NodeRef][] = [[null, null]]
+  for (const { bits, record } of networks) {
+    let node = 0
+    for (let i = 0; i < bits.length - 1; i++) {
+      const side = Number(bits[i])
+      let next = nodes[node][side]
+      if (typeof next !== "number") {
+        next = nodes.push([null, null]) - 1
+        nodes[node][side] = next
+      }
+      node = next
+    }
+    nodes[node][Number(bits[bits.length - 1])] = { record }
+  }
+
+  const nodeCount = nodes.length
+  // 노드 번호, 빈 레코드(node_count), 데이터 레코드(node_count + 16 + 데이터 위치)
+  const resolve = (ref: NodeRef) =>
+    typeof ref === "number" ? ref : ref === null ? nodeCount : nodeCount + 16 + ref.record
+  const tree = nodes.flatMap(([left, right]) => {
+    const [a, b] = [resolve(left), resolve(right)]
+    if (recordSize === 24) return [...uintBytes(a, 3), ...uintBytes(b, 3)]
+    if (recordSize === 32) return [...uintBytes(a, 4), ...uintBytes(b, 4)]
+    const middle = (Math.floor(a / 2 ** 24) << 4) | Math.floor(b / 2 ** 24)
+    return [...uintBytes(a % 2 ** 24, 3), middle, ...uintBytes(b % 2 ** 24, 3)]
+  })
+
+  const marker = [0xab, 0xcd, 0xef, ...text("MaxMind.com").slice(1)]
+  const metadata = map([
+    ["node_count", uint32(nodeCount)],
+    ["record_size", uint16(recordSize)],
+    ["ip_version", uint16(ipVersion)],
+  ])
+  const file = new Uint8Array(tree.length + 16 + data.length + marker.length + metadata.length)
+  file.set(tree, 0)
+  file.set(data, tree.length + 16)
+  file.set([...marker, ...metadata], tree.length + 16 + data.length)
+  return file.buffer
+}
+
+// 자주 쓰는 레코드
+const SEOUL = map([
+  ["country", map([["iso_code", text("KR")], ["names", map([["en", text("South Korea")]])]])],
+  ["city", map([["names", map([["en", text("Seoul")]])]])],
+  ["location", map([["latitude", double(37.5665)], ["longitude", double(126.978)]])],
+])
+const ASN = map([
+  ["autonomous_system_number", uint32(64500)],
+  ["autonomous_system_organization", text("Example AS")],
+])
+const SEOUL_LOCATION = {
+  country: "KR",
+  countryName: "South Korea",
+  city: "Seoul",
+  latitude: 37.5665,
+  longitude: 126.978,
+}
+
+// ---------------------------------------------------------------------------
+// 테스트
+// ---------------------------------------------------------------------------
+
+describe("openMmdb 레코드 크기", () => {
+  it.each([24, 32] as const)("%i비트 레코드의 IPv4 트리를 따라가 데이터를 해석", (recordSize) => {
+    const data = dataSection([0, SEOUL], [200, ASN])
+    const database = openMmdb(
+      buildMmdb(recordSize, 4, [
+        { bits: "0", record: 0 }, // 0.0.0.0/1
+        { bits: "10", record: 200 }, // 128.0.0.0/2
+      ], data),
+    )
+    expect(database.lookup("1.2.3.4")).toEqual(SEOUL_LOCATION)
+    expect(database.lookup("130.0.0.1")).toEqual({ asn: 64500, asOrganization: "Example AS" })
+    expect(database.lookup("200.0.0.1")).toBeNull() // 데이터가 없는 대역
+    expect(database.lookup("2001:db8::1")).toBeNull() // IPv4 데이터베이스의 IPv6 주소
+    expect(database.lookup("not-an-ip")).toBeNull()
+  })
+
+  it("28비트 레코드는 가운데 바이트의 상위/하위 4비트를 왼쪽/오른쪽 레코드의 최상위 비트로 사용", () => {
+    // 왼쪽 레코드만 24비트를 넘도록 데이터를 멀리 배치
+    const far = 2 ** 24 + 5
+    const data = dataSection([0, ASN], [far, SEOUL])
+    const database = openMmdb(
+      buildMmdb(28, 4, [
+        { bits: "0", record: far },
+        { bits: "1", record: 0 },
+      ], data),
+    )
+    expect(database.lookup("10.0.0.1")).toEqual(SEOUL_LOCATION)
+    expect(database.lookup("192.0.2.1")).toEqual({ asn: 64500, asOrganization: "Example AS" })
+  })
+
+  it("지원하지 않는 레코드 크기와 메타데이터가 없는 파일은 오류", () => {
+    const file = new Uint8Array(buildMmdb(24, 4, [{ bits: "0", record: 0 }], dataSection([0, ASN])))
+    // 메타데이터의 record_size 값(24)을 20으로 바꿈
+    const recordSizeAt = file.lastIndexOf(24)
+    file[recordSizeAt] = 20
+    expect(() => openMmdb(file.buffer)).toThrow("지원하지 않는 레코드 크기입니다 (20)")
+    expect(isMmdb(new Uint8Array(64).buffer)).toBe(false)
+    expect(() => openMmdb(new Uint8Array(64).buffer)).toThrow("메타데이터를 찾지 못했습니다")
+  })
+})
+
+describe("openMmdb 포인터", () => {
+  it("네 가지 크기의 포인터가 가리키는 값을 데이터 섹션 기준으로 해석", () => {
+    const country = map([["iso_code", text("US")], ["names", map([["en", text("United States")]])]])
+    const city = map([["names", map([["en", text("Austin")]])]])
+    const location = map([["latitude", double(30.25)], ["longitude", double(-97.75)]])
+    const record = map([
+      ["country", pointer(100)], // 1바이트 포인터
+      ["city", pointer(3000)], // 2바이트 포인터 (+2048)
+      ["location", pointer(600_000)], // 3바이트 포인터 (+526336)
+      ["autonomous_system_number", pointer(700_000, 3)], // 4바이트 포인터
+    ])
+    const data = dataSection(
+      [0, record],
+      [100, country],
+      [3000, city],
+      [600_000, location],
+      [700_000, uint64(64501)],
+    )
+    const database = openMmdb(buildMmdb(24, 4, [{ bits: "0", record: 0 }], data))
+    expect(database.lookup("8.8.8.8")).toEqual({
+      country: "US",
+      countryName: "United States",
+      city: "Austin",
+      latitude: 30.25,
+      longitude: -97.75,
+      asn: 64501,
+    })
+  })
+
+  it("국가가 없으면 등록 국가를 사용하고, 같은 레코드를 가리키는 주소는 같은 결과", () => {
+    const record = map([["registered_country", map([["iso_code", text("JP")]])]])
+    const database = openMmdb(buildMmdb(24, 4, [{ bits: "0", record: 0 }], dataSection([0, record])))
+    expect(database.lookup("1.1.1.1")).toEqual({ country: "JP" })
+    expect(database.lookup("2.2.2.2")).toBe(database.lookup("1.1.1.1"))
+  })
+})
+
+describe("openMmdb IPv6 트리", () => {
+  it("IPv4 주소는 96번째 비트까지 0을 따라간 노드(::a.b.c.d)에서 시작", () => {
+    const database = openMmdb(
+      buildMmdb(24, 6, [
+        { bits: "0".repeat(96) + bitsOf([128], 1), record: 0 }, // ::128.0.0.0/97
+        { bits: "1", record: 200 }, // 8000::/1
+      ], dataSection([0, SEOUL], [200, ASN])),
+    )
+    expect(database.lookup("128.1.2.3")).toEqual(SEOUL_LOCATION)
+    expect(database.lookup("::128.1.2.3")).toEqual(SEOUL_LOCATION)
+    expect(database.lookup("8000::1")).toEqual({ asn: 64500, asOrganization: "Example AS" })
+    expect(database.lookup("10.0.0.1")).toBeNull()
+    expect(database.lookup("2001:db8::1")).toBeNull()
+  })
+})
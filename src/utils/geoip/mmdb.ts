@@ -0,0 +1,202 @@
+/**
+ * MaxMind DB(MMDB) 파일 판독기
+ *
+ * 파일 전체를 메모리(ArrayBuffer)에 두고, 조회할 때마다 검색 트리를 주소 비트 순서로 따라가
+ * 도달한 데이터 레코드만 해석함 (GeoLite2/GeoIP2 City, Country, ASN 데이터베이스 지원)
+ *
+ * 형식: https://maxmind.github.io/MaxMind-DB/
+ *
+ * @module geoip/mmdb
+ */
+import type { GeoLocation } from "../../types/geo"
+import { ipToBytes } from "../ip"
+import type { GeoIpDatabase } from "./types"
+
+// 메타데이터 시작 표시 (\xAB\xCD\xEF + "MaxMind.com")
+const METADATA_MARKER = [0xab, 0xcd, 0xef, ...Array.from("MaxMind.com", (char) => char.charCodeAt(0))]
+
+// 메타데이터는 파일 끝 128KiB 안에 있음
+const METADATA_SEARCH_BYTES = 128 * 1024
+
+// 해석한 레코드를 보관할 최대 수 (넘으면 비움)
+const RECORD_CACHE_SIZE = 50_000
+
+const utf8 = new TextDecoder()
+
+// 빅 엔디언 부호 없는 정수 (32비트를 넘는 값도 정확하도록 곱셈으로 계산)
+const readUint = (bytes: Uint8Array, offset: number, size: number) => {
+  let value = 0
+  for (let i = 0; i < size; i++) value = value * 256 + bytes[offset + i]
+  return value
+}
+
+// 메타데이터 표시의 위치 (없으면 -1)
+const findMetadata = (bytes: Uint8Array) => {
+  const stop = Math.max(0, bytes.length - METADATA_SEARCH_BYTES)
+  for (let i = bytes.length - METADATA_MARKER.length; i >= stop; i--) {
+    if (METADATA_MARKER.every((byte, index) => bytes[i + index] === byte)) return i
+  }
+  return -1
+}
+
+// MMDB 파일인지 확인
+export const isMmdb = (buffer: ArrayBuffer) => findMetadata(new Uint8Array(buffer)) >= 0
+
+// offset의 값을 해석하여 [값, 다음 위치]를 반환 (포인터는 base 기준)
+const decodeValue = (bytes: Uint8Array, start: number, base: number): [unknown, number] => {
+  let offset = start
+  const control = bytes[offset++]
+  let type = control >> 5
+
+  if (type === 1) {
+    // 포인터: 가리키는 값을 해석하고, 포인터 다음 위치에서 이어감
+    const sizeBits = (control >> 3) & 0x3
+    const high = control & 0x7
+    let pointer: number
+    if (sizeBits === 0) pointer = high * 256 + bytes[offset]
+    else if (sizeBits === 1) pointer = high * 65536 + readUint(bytes, offset, 2) + 2048
+    else if (sizeBits === 2) pointer = high * 16777216 + readUint(bytes, offset, 3) + 526336
+    else pointer = readUint(bytes, offset, 4)
+    return [decodeValue(bytes, base + pointer, base)[0], offset + sizeBits + 1]
+  }
+  if (type === 0) type = 7 + bytes[offset++] // 확장 형식
+
+  let size = control & 0x1f
+  if (size === 29) size = 29 + bytes[offset++]
+  else if (size === 30) {
+    size = 285 + readUint(bytes, offset, 2)
+    offset += 2
+  } else if (size === 31) {
+    size = 65821 + readUint(bytes, offset, 3)
+    offset += 3
+  }
+
+  switch (type) {
+    case 2: // UTF-8 문자열
+      return [utf8.decode(bytes.subarray(offset, offset + size)), offset + size]
+    case 3: // double
+      return [new DataView(bytes.buffer, bytes.byteOffset + offset, 8).getFloat64(0), offset + 8]
+    case 4: // 바이트
+      return [bytes.slice(offset, offset + size), offset + size]
+    case 5: // uint16
+    case 6: // uint32
+    case 9: // uint64 (2^53을 넘으면 정밀도 손실)
+    case 10: // uint128
+      return [readUint(bytes, offset, size), offset + size]
+    case 8: {
+      // int32
+      const value = readUint(bytes, offset, size)
+      return [size === 4 ? value | 0 : value, offset + size]
+    }
+    case 7: {
+      // 맵
+      const map: Record<string, unknown> = {}
+      for (let i = 0; i < size; i++) {
+        const [key, afterKey] = decodeValue(bytes, offset, base)
+        const [value, afterValue] = decodeValue(bytes, afterKey, base)
+        map[String(key)] = value
+        offset = afterValue
+      }
+      return [map, offset]
+    }
+    case 11: {
+      // 배열
+      const array: unknown[] = []
+      for (let i = 0; i < size; i++) {
+        const [value, next] = decodeValue(bytes, offset, base)
+        array.push(value)
+        offset = next
+      }
+      return [array, offset]
+    }
+    case 14: // boolean (크기 필드가 값)
+      return [size !== 0, offset]
+    case 15: // float
+      return [new DataView(bytes.buffer, bytes.byteOffset + offset, 4).getFloat32(0), offset + 4]
+    default:
+      throw new Error(`지원하지 않는 MMDB 데이터 형식입니다 (${type})`)
+  }
+}
+
+type MmdbRecord = {
+  country?: { iso_code?: string; names?: Record<string, string> }
+  registered_country?: { iso_code?: string; names?: Record<string, string> }
+  city?: { names?: Record<string, string> }
+  location?: { latitude?: number; longitude?: number }
+  autonomous_system_number?: number
+  autonomous_system_organization?: string
+}
+
+// 데이터 레코드에서 지리 정보를 꺼냄 (없는 필드는 생략)
+const toLocation = (record: MmdbRecord): Partial<GeoLocation> => {
+  const country = record.country ?? record.registered_country
+  const location: Partial<GeoLocation> = {}
+  if (country?.iso_code) location.country = country.iso_code
+  if (country?.names?.en) location.countryName = country.names.en
+  if (record.city?.names?.en) location.city = record.city.names.en
+  if (typeof record.location?.latitude === "number" && typeof record.location.longitude === "number") {
+    location.latitude = record.location.latitude
+    location.longitude = record.location.longitude
+  }
+  if (typeof record.autonomous_system_number === "number") location.asn = record.autonomous_system_number
+  if (record.autonomous_system_organization) location.asOrganization = record.autonomous_system_organization
+  return location
+}
+
+// MMDB 파일을 열어 데이터베이스를 생성하는 함수
+export function openMmdb(buffer: ArrayBuffer): GeoIpDatabase {
+  const bytes = new Uint8Array(buffer)
+  const markerAt = findMetadata(bytes)
+  if (markerAt < 0) throw new Error("MaxMind DB 메타데이터를 찾지 못했습니다")
+  const metadataStart = markerAt + METADATA_MARKER.length
+  const metadata = decodeValue(bytes, metadataStart, metadataStart)[0] as Record<string, unknown>
+
+  const nodeCount = Number(metadata.node_count)
+  const recordSize = Number(metadata.record_size)
+  const ipVersion = Number(metadata.ip_version)
+  if (![24, 28, 32].includes(recordSize)) throw new Error(`지원하지 않는 레코드 크기입니다 (${recordSize})`)
+  const nodeBytes = (recordSize * 2) / 8
+  const treeSize = nodeBytes * nodeCount
+  const dataStart = treeSize + 16 // 검색 트리 뒤 16바이트 구분자
+
+  // 노드의 왼쪽(0) 또는 오른쪽(1) 레코드
+  const readRecord = (node: number, side: number) => {
+    const offset = node * nodeBytes
+    if (recordSize === 24) return readUint(bytes, offset + side * 3, 3)
+    if (recordSize === 32) return readUint(bytes, offset + side * 4, 4)
+    // 28비트: 가운데 바이트의 상위/하위 4비트가 왼쪽/오른쪽 레코드의 최상위 비트
+    const middle = bytes[offset + 3]
+    return side === 0
+      ? (middle >> 4) * 16777216 + readUint(bytes, offset, 3)
+      : (middle & 0x0f) * 16777216 + readUint(bytes, offset + 4, 3)
+  }
+
+  // IPv6 트리에서 IPv4 주소(::a.b.c.d)가 시작하는 노드
+  let ipv4Start = 0
+  if (ipVersion === 6) {
+    for (let i = 0; i < 96 && ipv4Start < nodeCount; i++) ipv4Start = readRecord(ipv4Start, 0)
+  }
+
+  const cache = new Map<number, Partial<GeoLocation>>()
+
+  return {
+    lookup(ip) {
+      const address = ipToBytes(ip)
+      if (!address || (address.length === 16 && ipVersion === 4)) return null
+      let node = address.length === 4 ? ipv4Start : 0
+      for (let i = 0; i < address.length * 8 && node < nodeCount; i++) {
+        node = readRecord(node, (address[i >> 3] >> (7 - (i & 7))) & 1)
+      }
+      if (node <= nodeCount) return null // 트리 안에서 끝났거나 데이터가 없는 주소
+
+      const offset = treeSize + (node - nodeCount) // 파일 안의 데이터 위치
+      let location = cache.get(offset)
+      if (!location) {
+        if (cache.size >= RECORD_CACHE_SIZE) cache.clear()
+        location = toLocation(decodeValue(bytes, offset, dataStart)[0] as MmdbRecord)
+        cache.set(offset, location)
+      }
+      return location
+    },
+  }
+}
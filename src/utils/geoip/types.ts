@@ -0,0 +1,11 @@
+/**
+ * GeoIP 데이터베이스 판독기들이 공통으로 사용하는 타입
+ *
+ * @module geoip/types
+ */
+import type { GeoLocation } from "../../types/geo"
+
+// 주소 하나를 조회하는 데이터베이스 (없는 주소는 null, 데이터베이스에 없는 필드는 생략)
+export interface GeoIpDatabase {
+  lookup(ip: string): Partial<GeoLocation> | null
+}
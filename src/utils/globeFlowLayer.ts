@@ -0,0 +1,342 @@
+/**
+ * 지구본 위에 수천 개의 트래픽 흐름을 그리는 Three.js 레이어
+ *
+ * - 흐름마다 객체를 만들지 않고, 풀(flowPool)의 자리 수만큼 미리 만든 버퍼 세 개에 모든 흐름을 그림
+ *   - 곡선: 하나의 메쉬에 합친 띠(ribbon), 자리마다 정해진 정점 범위를 사용 (굵기는 띠의 폭, 흐려짐은 정점 알파)
+ *   - 펄스: 인스턴스 메쉬 (용량이 큰 흐름 PULSE_FLOW_LIMIT개까지)
+ *   - 끝점: 인스턴스 메쉬 (자리마다 출발/도착 두 개)
+ * - 새 흐름이나 분류, 굵기가 바뀐 흐름의 자리만 다시 쓰고 바뀐 범위만 GPU로 올림
+ * - 목록에서 빠진 흐름은 FLOW_FADE_MS(flowPool) 동안 흐려진 뒤 자리를 비우므로 오래 켜 두어도 메모리가 늘지 않음
+ * - dispose로 모든 자리를 비우고 지오메트리와 재질을 해제 (다시 그리면 GPU 자원을 새로 만듦)
+ *
+ * @module globeFlowLayer
+ */
+import {
+  Color,
+  DoubleSide,
+  BufferAttribute,
+  BufferGeometry,
+  DynamicDrawUsage,
+  InstancedMesh,
+  Matrix4,
+  Mesh,
+  MeshBasicMaterial,
+  QuadraticBezierCurve3,
+  SphereGeometry,
+  Sphere,
+  Vector3,
+} from "three"
+import type { FlowEntry } from "../types/telemetry"
+import { createFlowPool, FLOW_POOL_CAPACITY, type FlowPool, type PooledFlow } from "./flowPool"
+import { FLOW_CLASS_COLORS } from "./flowStyle"
+
+// 흐름 곡선을 나누는 구간 수
+const ARC_SEGMENTS = 32
+const ARC_POINTS = ARC_SEGMENTS + 1
+const VERTICES_PER_ARC = ARC_POINTS * 2
+const INDICES_PER_ARC = ARC_SEGMENTS * 6
+const TRIANGLES_PER_ARC = ARC_SEGMENTS * 2
+
+// 곡선 띠의 폭 범위 (지구본 좌표 단위)
+const MIN_ARC_WIDTH = 0.015
+const MAX_ARC_WIDTH = 0.07
+
+// 곡선의 불투명도 범위 (굵기에 비례)
+const MIN_ARC_OPACITY = 0.35
+const MAX_ARC_OPACITY = 0.85
+
+// 펄스를 보내는 흐름 수와 펄스가 출발지에서 도착지까지 가는 데 걸리는 시간 (초)
+const PULSE_FLOW_LIMIT = 500
+const MAX_PULSES_PER_FLOW = 3
+const PULSE_DURATION = 3
+
+// 흐려지는 흐름을 다시 그리는 간격 (초)
+const AGE_INTERVAL = 0.1
+
+export interface GlobeFlowLayerOptions {
+  globeRadius: number
+  arcHeight: number // 곡선의 최대 높이 (지구 중심에서의 거리)
+  capacity?: number
+}
+
+export interface GlobeFlowLayer {
+  arcs: Mesh // 곡선 메쉬 (faceIndex로 흐름을 찾음)
+  pulses: InstancedMesh
+  endpoints: InstancedMesh // 끝점 메쉬 (instanceId로 흐름과 끝을 찾음)
+  sync(flows: FlowEntry[]): void // 새 흐름 목록 반영
+  update(elapsed: number): void // 매 프레임 호출 (펄스 이동, 흐려짐)
+  flowAtFace(faceIndex: number): PooledFlow | undefined
+  endpointAt(instanceId: number): { entry: PooledFlow; end: "start" | "end" } | undefined
+  dispose(): void
+}
+
+// 위도와 경도를 3D 벡터로 변환하는 함수
+export const latLonToVector3 = (lat: number, lon: number, radius: number, target = new Vector3()) => {
+  // 위도와 경도를 라디안으로 변환
+  const phi = (90 - lat) * (Math.PI / 180) // 위도 변환
+  const theta = (lon + 180) * (Math.PI / 180) // 경도 변환
+
+  // 구의 표면 위의 점을 계산
+  return target.set(
+    -(radius * Math.sin(phi) * Math.cos(theta)),
+    radius * Math.cos(phi),
+    radius * Math.sin(phi) * Math.sin(theta),
+  )
+}
+
+// 흐름마다 펄스가 같은 때에 출발하지 않도록 자리 번호로 정한 시작 위치 (0 ~ 1)
+const pulsePhase = (slot: number) => (slot * 0.618033988749895) % 1
+
+// 레이어를 생성하는 함수
+export function createGlobeFlowLayer({
+  globeRadius,
+  arcHeight,
+  capacity = FLOW_POOL_CAPACITY,
+}: GlobeFlowLayerOptions): GlobeFlowLayer {
+  const pool: FlowPool = createFlowPool(capacity)
+
+  // 곡선 버퍼 (자리마다 곡선 위의 점 하나에 띠 양쪽 정점 두 개)
+  const positions = new Float32Array(capacity * VERTICES_PER_ARC * 3)
+  const colors = new Float32Array(capacity * VERTICES_PER_ARC * 4)
+  const centers = new Float32Array(capacity * ARC_POINTS * 3) // 펄스가 따라가는 곡선 위의 점
+  const indices = new Uint32Array(capacity * INDICES_PER_ARC)
+  for (let slot = 0; slot < capacity; slot++) {
+    for (let i = 0; i < ARC_SEGMENTS; i++) {
+      const vertex = slot * VERTICES_PER_ARC + i * 2
+      indices.set([vertex, vertex + 1, vertex + 2, vertex + 1, vertex + 3, vertex + 2], (slot * ARC_SEGMENTS + i) * 6)
+    }
+  }
+  const positionAttribute = new BufferAttribute(positions, 3).setUsage(DynamicDrawUsage)
+  const colorAttribute = new BufferAttribute(colors, 4).setUsage(DynamicDrawUsage)
+  const arcGeometry = new BufferGeometry()
+  arcGeometry.setAttribute("position", positionAttribute)
+  arcGeometry.setAttribute("color", colorAttribute)
+  arcGeometry.setIndex(new BufferAttribute(indices, 1))
+  arcGeometry.setDrawRange(0, 0)
+  // 곡선은 항상 이 구 안에 있으므로 정점이 바뀔 때마다 다시 계산하지 않음
+  arcGeometry.boundingSphere = new Sphere(new Vector3(), arcHeight + MAX_ARC_WIDTH)
+  const arcMaterial = new MeshBasicMaterial({
+    vertexColors: true,
+    transparent: true,
+    side: DoubleSide,
+    depthWrite: false,
+  })
+  const arcs = new Mesh(arcGeometry, arcMaterial)
+
+  // 펄스와 끝점 (처음에는 그리지 않음)
+  const pulseGeometry = new SphereGeometry(1, 8, 8)
+  const pulseMaterial = new MeshBasicMaterial()
+  const pulses = new InstancedMesh(pulseGeometry, pulseMaterial, PULSE_FLOW_LIMIT * MAX_PULSES_PER_FLOW)
+  pulses.instanceMatrix.setUsage(DynamicDrawUsage)
+  pulses.count = 0
+  pulses.frustumCulled = false
+  pulses.raycast = () => {} // 펄스는 가리킬 수 없음
+
+  const endpointGeometry = new SphereGeometry(1, 12, 12)
+  const endpointMaterial = new MeshBasicMaterial()
+  const endpoints = new InstancedMesh(endpointGeometry, endpointMaterial, capacity * 2)
+  endpoints.count = 0
+  endpoints.boundingSphere = new Sphere(new Vector3(), globeRadius + 0.1)
+  endpoints.frustumCulled = false
+
+  // 바뀐 자리 범위 (GPU로 올릴 범위)
+  let dirtyMin = Infinity
+  let dirtyMax = -1
+  const markDirty = (slot: number) => {
+    dirtyMin = Math.min(dirtyMin, slot)
+    dirtyMax = Math.max(dirtyMax, slot)
+  }
+  let endpointsDirty = false
+  let pulsesDirty = true
+
+  // 계산에 다시 쓰는 임시 객체
+  const curve = new QuadraticBezierCurve3(new Vector3(), new Vector3(), new Vector3())
+  const point = new Vector3()
+  const tangent = new Vector3()
+  const side = new Vector3()
+  const color = new Color()
+  const matrix = new Matrix4()
+  const zeroMatrix = new Matrix4().makeScale(0, 0, 0)
+
+  // 끝점 크기 (흐려지는 만큼 작아짐)
+  const setEndpoints = (entry: PooledFlow, scale: number) => {
+    const first = entry.slot * ARC_POINTS * 3
+    const last = first + ARC_SEGMENTS * 3
+    const start = 0.04 * scale
+    const end = 0.05 * scale
+    matrix.makeScale(start, start, start).setPosition(centers[first], centers[first + 1], centers[first + 2])
+    endpoints.setMatrixAt(entry.slot * 2, matrix)
+    matrix.makeScale(end, end, end).setPosition(centers[last], centers[last + 1], centers[last + 2])
+    endpoints.setMatrixAt(entry.slot * 2 + 1, matrix)
+    endpointsDirty = true
+  }
+
+  // 자리의 정점 색상과 알파
+  const writeColor = (entry: PooledFlow, opacity: number) => {
+    color.set(FLOW_CLASS_COLORS[entry.flowClass])
+    const alpha = (MIN_ARC_OPACITY + entry.weight * (MAX_ARC_OPACITY - MIN_ARC_OPACITY)) * opacity
+    const base = entry.slot * VERTICES_PER_ARC * 4
+    for (let i = base; i < base + VERTICES_PER_ARC * 4; i += 4) {
+      colors[i] = color.r
+      colors[i + 1] = color.g
+      colors[i + 2] = color.b
+      colors[i + 3] = alpha
+    }
+    markDirty(entry.slot)
+  }
+
+  // 자리의 곡선 띠, 끝점, 색상을 다시 씀
+  const writeArc = (entry: PooledFlow) => {
+    const { from, to, weight } = entry
+    latLonToVector3(from.latitude, from.longitude, globeRadius, curve.v0)
+    latLonToVector3(to.latitude, to.longitude, globeRadius, curve.v2)
+    curve.v1.copy(curve.v0).lerp(curve.v2, 0.5).normalize().multiplyScalar(arcHeight)
+    const halfWidth = (MIN_ARC_WIDTH + weight * (MAX_ARC_WIDTH - MIN_ARC_WIDTH)) / 2
+    for (let i = 0; i < ARC_POINTS; i++) {
+      const t = i / ARC_SEGMENTS
+      curve.getPoint(t, point)
+      curve.getTangent(t, tangent)
+      // 곡선 진행 방향과 지구 중심 방향에 모두 수직인 방향으로 폭을 줌
+      side.crossVectors(tangent, point).normalize().multiplyScalar(halfWidth)
+      const vertex = (entry.slot * VERTICES_PER_ARC + i * 2) * 3
+      positions[vertex] = point.x + side.x
+      positions[vertex + 1] = point.y + side.y
+      positions[vertex + 2] = point.z + side.z
+      positions[vertex + 3] = point.x - side.x
+      positions[vertex + 4] = point.y - side.y
+      positions[vertex + 5] = point.z - side.z
+      point.toArray(centers, (entry.slot * ARC_POINTS + i) * 3)
+    }
+    const opacity = pool.opacity(entry)
+    writeColor(entry, opacity)
+    setEndpoints(entry, opacity)
+    color.set(FLOW_CLASS_COLORS[entry.flowClass])
+    endpoints.setColorAt(entry.slot * 2, color)
+    endpoints.setColorAt(entry.slot * 2 + 1, color)
+  }
+
+  // 비워진 자리를 그리지 않도록 정점을 한 점으로 모음
+  const clearSlot = (slot: number) => {
+    positions.fill(0, slot * VERTICES_PER_ARC * 3, (slot + 1) * VERTICES_PER_ARC * 3)
+    colors.fill(0, slot * VERTICES_PER_ARC * 4, (slot + 1) * VERTICES_PER_ARC * 4)
+    endpoints.setMatrixAt(slot * 2, zeroMatrix)
+    endpoints.setMatrixAt(slot * 2 + 1, zeroMatrix)
+    endpointsDirty = true
+    markDirty(slot)
+  }
+
+  // 바뀐 범위만 GPU로 올림 (그리는 범위는 풀에서 쓰고 있는 가장 위 자리까지이므로 위쪽 자리가 비면 줄어듦)
+  const flush = () => {
+    arcGeometry.setDrawRange(0, pool.highWater * INDICES_PER_ARC)
+    endpoints.count = pool.highWater * 2
+    if (dirtyMax >= 0) {
+      const vertices = (dirtyMax - dirtyMin + 1) * VERTICES_PER_ARC
+      positionAttribute.clearUpdateRanges()
+      positionAttribute.addUpdateRange(dirtyMin * VERTICES_PER_ARC * 3, vertices * 3)
+      positionAttribute.needsUpdate = true
+      colorAttribute.clearUpdateRanges()
+      colorAttribute.addUpdateRange(dirtyMin * VERTICES_PER_ARC * 4, vertices * 4)
+      colorAttribute.needsUpdate = true
+      dirtyMin = Infinity
+      dirtyMax = -1
+    }
+    if (endpointsDirty) {
+      endpoints.instanceMatrix.needsUpdate = true
+      if (endpoints.instanceColor) endpoints.instanceColor.needsUpdate = true
+      endpointsDirty = false
+    }
+  }
+
+  // 펄스를 보내는 흐름(용량이 큰 흐름부터)과 흐름별 펄스 수
+  let pulseFlows: Array<{ entry: PooledFlow; count: number }> = []
+  const rebuildPulses = () => {
+    pulseFlows = pool
+      .entries()
+      .sort((a, b) => b.weight - a.weight)
+      .slice(0, PULSE_FLOW_LIMIT)
+      .map((entry) => ({ entry, count: 1 + Math.round(entry.weight * (MAX_PULSES_PER_FLOW - 1)) }))
+    let index = 0
+    for (const { entry, count } of pulseFlows) {
+      color.set(FLOW_CLASS_COLORS[entry.flowClass])
+      for (let i = 0; i < count; i++) pulses.setColorAt(index++, color)
+    }
+    pulses.count = index
+    if (pulses.instanceColor) pulses.instanceColor.needsUpdate = true
+    pulsesDirty = false
+  }
+
+  let lastAged = -Infinity
+
+  return {
+    arcs,
+    pulses,
+    endpoints,
+    sync(flows) {
+      const { changed, released } = pool.sync(flows)
+      // 비워진 자리를 먼저 지우고, 같은 자리에 들어온 흐름을 그 위에 씀
+      released.forEach(clearSlot)
+      changed.forEach(writeArc)
+      pulsesDirty = true
+      flush()
+    },
+    update(elapsed) {
+      // 흐려지는 흐름은 AGE_INTERVAL마다 다시 그림
+      if (elapsed - lastAged >= AGE_INTERVAL) {
+        lastAged = elapsed
+        const now = Date.now()
+        const { changed, released } = pool.age(now)
+        released.forEach(clearSlot)
+        changed.forEach((entry) => {
+          const opacity = pool.opacity(entry, now)
+          writeColor(entry, opacity)
+          setEndpoints(entry, opacity)
+        })
+        if (released.length > 0) pulsesDirty = true
+        flush()
+      }
+      if (pulsesDirty) rebuildPulses()
+
+      // 펄스를 곡선 위의 점 사이에서 보간하여 출발지에서 도착지로 이동
+      const now = Date.now()
+      let index = 0
+      for (const { entry, count } of pulseFlows) {
+        const scale = (0.03 + entry.weight * 0.03) * pool.opacity(entry, now)
+        const base = entry.slot * ARC_POINTS * 3
+        for (let i = 0; i < count; i++) {
+          const progress = ((elapsed / PULSE_DURATION + pulsePhase(entry.slot) + i / count) % 1) * ARC_SEGMENTS
+          const k = Math.min(Math.floor(progress), ARC_SEGMENTS - 1)
+          const f = progress - k
+          const a = base + k * 3
+          matrix
+            .makeScale(scale, scale, scale)
+            .setPosition(
+              centers[a] + (centers[a + 3] - centers[a]) * f,
+              centers[a + 1] + (centers[a + 4] - centers[a + 1]) * f,
+              centers[a + 2] + (centers[a + 5] - centers[a + 2]) * f,
+            )
+          pulses.setMatrixAt(index++, matrix)
+        }
+      }
+      if (index > 0) pulses.instanceMatrix.needsUpdate = true
+    },
+    flowAtFace: (faceIndex) => pool.get(Math.floor(faceIndex / TRIANGLES_PER_ARC)),
+    endpointAt(instanceId) {
+      const entry = pool.get(Math.floor(instanceId / 2))
+      return entry && { entry, end: instanceId % 2 === 0 ? "start" : "end" }
+    },
+    dispose() {
+      pool.clear().forEach(clearSlot)
+      pulseFlows = []
+      pulses.count = 0
+      flush()
+      arcGeometry.dispose()
+      arcMaterial.dispose()
+      pulseGeometry.dispose()
+      pulseMaterial.dispose()
+      pulses.dispose()
+      endpointGeometry.dispose()
+      endpointMaterial.dispose()
+      endpoints.dispose()
+    },
+  }
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "@jest/globals"
+import { createPruneCheck, DEFAULT_HISTORY_RETENTION, retentionCutoff } from "./historyStore"
+
+const DAY = 24 * 60 * 60 * 1000
+const NOW = new Date("2024-05-08T12:00:00Z")
+
+// 오래된 순의 기록 시각에 대해 삭제 여부를 차례로 판단 (커서처럼 처음 남기는 기록에서 멈춤)
+const prune = (times: Date[], cutoff: Date, maxRecords: number) => {
+  const shouldDelete = createPruneCheck(times.length, cutoff, maxRecords)
+  const deleted: Date[] = []
+  for (const time of times) {
+    if (!shouldDelete(time)) break
+    deleted.push(time)
+  }
+  return deleted.length
+}
+
+// NOW로부터 days일 전 시각들 (오래된 순)
+const daysAgo = (...days: number[]) => days.map((day) => new Date(NOW.getTime() - day * DAY))
+
+describe("retentionCutoff", () => {
+  it("보관 기간만큼 이전 시각", () => {
+    expect(retentionCutoff(DEFAULT_HISTORY_RETENTION, NOW)).toEqual(new Date("2024-05-01T12:00:00Z"))
+    expect(retentionCutoff({ ...DEFAULT_HISTORY_RETENTION, maxAgeDays: 0.5 }, NOW)).toEqual(
+      new Date("2024-05-08T00:00:00Z"),
+    )
+  })
+})
+
+describe("createPruneCheck", () => {
+  const cutoff = retentionCutoff(DEFAULT_HISTORY_RETENTION, NOW)
+
+  it("보관 기간이 지난 기록만 삭제하고 기준 시각의 기록은 남김", () => {
+    expect(prune(daysAgo(10, 8, 7, 3, 0), cutoff, 100)).toBe(2)
+    expect(prune(daysAgo(6, 3, 0), cutoff, 100)).toBe(0)
+  })
+
+  it("최대 건수를 넘으면 보관 기간 안의 기록도 오래된 것부터 삭제", () => {
+    expect(prune(daysAgo(5, 4, 3, 2, 1), cutoff, 3)).toBe(2)
+    expect(prune(daysAgo(5, 4, 3), cutoff, 3)).toBe(0)
+  })
+
+  it("보관 기간과 최대 건수를 함께 넘으면 더 많이 삭제하는 쪽을 따름", () => {
+    // 기간이 지난 3건을 지우면 건수도 맞음
+    expect(prune(daysAgo(20, 10, 9, 2, 1), cutoff, 3)).toBe(3)
+    // 기간이 지난 1건을 지워도 2건을 더 지워야 함
+    expect(prune(daysAgo(9, 5, 4, 3, 2, 1), cutoff, 3)).toBe(3)
+  })
+
+  it("최대 건수가 0이면 모두 삭제", () => {
+    expect(prune(daysAgo(2, 1, 0), cutoff, 0)).toBe(3)
+  })
+})
@@ -0,0 +1,311 @@
+/**
+ * 로그, 트래픽 샘플, 플로우 기록을 브라우저 IndexedDB에 보관하는 저장소
+ *
+ * 객체 저장소:
+ * - logs: LogEntry (키: id, 인덱스: timestamp)
+ * - traffic: TrafficSample (키: time)
+ * - flows: 수신 시각별 플로우 목록 { time, flows } (키: time)
+ * - trafficRollups: 트래픽 샘플을 1분, 10분, 1시간 구간으로 묶은 최소/평균/최대 (키: [resolution, time])
+ * - alerts: 알림 센터의 AlertGroup (키: id, 인덱스: lastSeen)
+ * - incidents: Incident (키: id, 인덱스: updatedAt)
+ * - baseline: 트래픽 기준선의 학습 상태 한 건 (키: id)
+ *
+ * 보관 기간(maxAgeDays)이 지났거나 저장소별 최대 건수를 넘은 기록은
+ * 오래된 것부터 자동으로 삭제 (인시던트와 기준선은 보관 정책과 관계없이 유지)
+ *
+ * @module historyStore
+ */
+import type { AlertGroup } from "../types/alert"
+import type { Incident } from "../types/incident"
+import type { LogEntry } from "../types/log"
+import type { FlowEntry, TrafficSample } from "../types/telemetry"
+import type { TrafficBaselineState } from "./trafficBaseline"
+import {
+  chooseResolution,
+  RAW_RESOLUTION_SECONDS,
+  ROLLUP_RESOLUTIONS,
+  rollupBucketStart,
+  rollupSamples,
+  rollupsToSeriesPoints,
+  samplesToSeriesPoints,
+  type TrafficRollup,
+  type TrafficSeries,
+} from "./trafficRollup"
+
+const DB_NAME = "auto-guard-history"
+const DB_VERSION = 5
+
+type HistoryStoreName = "logs" | "traffic" | "flows" | "trafficRollups" | "alerts" | "incidents" | "baseline"
+
+// 기준선 학습 상태를 저장하는 키
+const BASELINE_KEY = "traffic"
+
+// 수신 시각별 플로우 목록
+export interface FlowSnapshot {
+  time: Date
+  flows: FlowEntry[]
+}
+
+// 보관 정책
+export interface HistoryRetention {
+  maxAgeDays: number
+  maxLogs: number
+  maxTrafficSamples: number
+  maxFlowSnapshots: number
+  maxAlerts: number
+}
+
+export const DEFAULT_HISTORY_RETENTION: HistoryRetention = {
+  maxAgeDays: 7,
+  maxLogs: 500_000,
+  maxTrafficSamples: 300_000, // 2초 간격 기준 약 7일
+  maxFlowSnapshots: 150_000,
+  maxAlerts: 10_000,
+}
+
+export interface HistoryStore {
+  appendLogs(logs: LogEntry[]): Promise<void>
+  appendTraffic(samples: TrafficSample[]): Promise<void>
+  appendFlows(snapshots: FlowSnapshot[]): Promise<void>
+  loadRecentLogs(limit: number): Promise<LogEntry[]> // 최신순
+  loadTraffic(from: Date, to?: Date): Promise<TrafficSample[]> // 오래된 순
+  loadRecentTraffic(limit: number): Promise<TrafficSample[]> // 오래된 순
+  loadLatestFlows(): Promise<FlowSnapshot | null>
+  saveAlerts(groups: AlertGroup[]): Promise<void> // 같은 ID의 그룹은 덮어씀
+  loadAlerts(limit: number): Promise<AlertGroup[]> // 마지막 발생 시각의 최신순
+  saveIncidents(incidents: Incident[]): Promise<void> // 같은 ID의 인시던트는 덮어씀
+  loadIncidents(): Promise<Incident[]> // 마지막 변경 시각의 최신순
+  saveBaseline(state: TrafficBaselineState): Promise<void> // 이전 상태를 덮어씀
+  loadBaseline(): Promise<TrafficBaselineState | null>
+  loadTrafficSeries(from: Date, to: Date, maxPoints: number): Promise<TrafficSeries> // 구간 길이에 맞는 해상도로 조회
+  prune(retention: HistoryRetention, now?: Date): Promise<void>
+}
+
+// 보관 기간의 시작 시각 (이보다 오래된 기록은 삭제)
+export const retentionCutoff = (retention: HistoryRetention, now: Date) =>
+  new Date(now.getTime() - retention.maxAgeDays * 24 * 60 * 60 * 1000)
+
+// 오래된 순으로 기록의 시각을 받아 삭제할지 판단하는 함수를 만듦
+// (기준 시각 이전이거나 최대 건수를 넘는 기록이면 true, 처음 false를 반환한 뒤의 기록은 모두 남김)
+export function createPruneCheck(total: number, cutoff: Date, maxRecords: number): (time: Date) => boolean {
+  let excess = Math.max(0, total - maxRecords)
+  return (time) => {
+    if (time >= cutoff && excess <= 0) return false
+    excess -= 1
+    return true
+  }
+}
+
+// 기본 키가 시간이 아닌 저장소의 시간 인덱스
+const TIME_INDEXES: Partial<Record<HistoryStoreName, string>> = {
+  logs: "timestamp",
+  alerts: "lastSeen",
+  incidents: "updatedAt",
+}
+
+// 시간 순서로 커서를 열 수 있는 저장소 또는 인덱스
+const timeOrdered = (store: IDBObjectStore, storeName: HistoryStoreName): IDBObjectStore | IDBIndex => {
+  const index = TIME_INDEXES[storeName]
+  return index ? store.index(index) : store
+}
+
+// IDBRequest를 Promise로 변환
+export const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+// 트랜잭션이 끝날 때까지 대기
+export const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error ?? new Error("IndexedDB 트랜잭션이 취소되었습니다"))
+  })
+
+// 데이터베이스를 열고 필요한 객체 저장소와 인덱스를 만듦
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains("logs")) {
+        db.createObjectStore("logs", { keyPath: "id" }).createIndex("timestamp", "timestamp")
+      }
+      if (!db.objectStoreNames.contains("traffic")) db.createObjectStore("traffic", { keyPath: "time" })
+      if (!db.objectStoreNames.contains("flows")) db.createObjectStore("flows", { keyPath: "time" })
+      if (!db.objectStoreNames.contains("trafficRollups")) {
+        db.createObjectStore("trafficRollups", { keyPath: ["resolution", "time"] })
+      }
+      if (!db.objectStoreNames.contains("alerts")) {
+        db.createObjectStore("alerts", { keyPath: "id" }).createIndex("lastSeen", "lastSeen")
+      }
+      if (!db.objectStoreNames.contains("incidents")) {
+        db.createObjectStore("incidents", { keyPath: "id" }).createIndex("updatedAt", "updatedAt")
+      }
+      if (!db.objectStoreNames.contains("baseline")) db.createObjectStore("baseline", { keyPath: "id" })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+    request.onblocked = () => reject(new Error("다른 탭이 이전 버전의 기록 저장소를 사용 중입니다"))
+  })
+
+// 브라우저가 IndexedDB를 지원하는지 확인
+export const isHistorySupported = () => typeof indexedDB !== "undefined"
+
+// 페이지 전체에서 공유하는 저장소 (처음 요청할 때 한 번만 엶)
+let sharedStore: Promise<HistoryStore> | null = null
+
+// 기록 저장소를 열어 반환
+export function openHistoryStore(): Promise<HistoryStore> {
+  if (!sharedStore) {
+    sharedStore = createHistoryStore().catch((error) => {
+      sharedStore = null // 실패하면 다음 요청에서 다시 시도
+      throw error
+    })
+  }
+  return sharedStore
+}
+
+const createHistoryStore = async (): Promise<HistoryStore> => {
+  const db = await openDatabase()
+
+  // 한 트랜잭션에서 여러 기록을 저장
+  const putAll = async (storeName: HistoryStoreName, records: unknown[]) => {
+    if (records.length === 0) return
+    const transaction = db.transaction(storeName, "readwrite")
+    const store = transaction.objectStore(storeName)
+    for (const record of records) store.put(record)
+    await transactionDone(transaction)
+  }
+
+  // 시간 순서로 커서를 돌며 조건에 맞는 기록을 모음
+  const collect = async <T>(
+    storeName: HistoryStoreName,
+    range: IDBKeyRange | null,
+    direction: IDBCursorDirection,
+    limit: number,
+  ): Promise<T[]> => {
+    const transaction = db.transaction(storeName, "readonly")
+    const source = timeOrdered(transaction.objectStore(storeName), storeName)
+    const results: T[] = []
+
+    await new Promise<void>((resolve, reject) => {
+      const request = source.openCursor(range, direction)
+      request.onsuccess = () => {
+        const cursor = request.result
+        if (!cursor || results.length >= limit) return resolve()
+        results.push(cursor.value as T)
+        cursor.continue()
+      }
+      request.onerror = () => reject(request.error)
+    })
+    return results
+  }
+
+  // 트래픽 샘플을 저장하고 해상도별 롤업에 누적 (한 트랜잭션에서 처리)
+  const appendTraffic = async (samples: TrafficSample[]) => {
+    if (samples.length === 0) return
+    const transaction = db.transaction(["traffic", "trafficRollups"], "readwrite")
+    const rollupStore = transaction.objectStore("trafficRollups")
+    for (const sample of samples) transaction.objectStore("traffic").put(sample)
+
+    await Promise.all(
+      ROLLUP_RESOLUTIONS.map(async (resolution) => {
+        // 샘플이 속한 구간의 기존 롤업을 읽어 누적한 뒤 다시 저장
+        const times = Array.from(new Set(samples.map((sample) => rollupBucketStart(sample.time, resolution).getTime())))
+        const existing = await Promise.all(
+          times.map((time) => requestToPromise<TrafficRollup | undefined>(rollupStore.get([resolution, new Date(time)]))),
+        )
+        const merged = rollupSamples(
+          samples,
+          resolution,
+          existing.filter((rollup): rollup is TrafficRollup => rollup !== undefined),
+        )
+        for (const rollup of merged) rollupStore.put(rollup)
+      }),
+    )
+    await transactionDone(transaction)
+  }
+
+  // 구간 길이에 맞는 해상도를 골라 원본 샘플 또는 롤업을 조회
+  const loadTrafficSeries = async (from: Date, to: Date, maxPoints: number): Promise<TrafficSeries> => {
+    const resolution = chooseResolution(from, to, maxPoints)
+    if (resolution === RAW_RESOLUTION_SECONDS) {
+      const samples = await collect<TrafficSample>("traffic", IDBKeyRange.bound(from, to), "next", Infinity)
+      return { resolutionSeconds: resolution, points: samplesToSeriesPoints(samples) }
+    }
+    const range = IDBKeyRange.bound([resolution, rollupBucketStart(from, resolution)], [resolution, to])
+    const rollups = await collect<TrafficRollup>("trafficRollups", range, "next", Infinity)
+    return { resolutionSeconds: resolution, points: rollupsToSeriesPoints(rollups) }
+  }
+
+  // 저장한 기준선 학습 상태 (없으면 null)
+  const loadBaseline = async (): Promise<TrafficBaselineState | null> => {
+    const transaction = db.transaction("baseline", "readonly")
+    const record = await requestToPromise<(TrafficBaselineState & { id: string }) | undefined>(
+      transaction.objectStore("baseline").get(BASELINE_KEY),
+    )
+    if (!record) return null
+    const { id, ...state } = record
+    return state
+  }
+
+  // 보관 기간이 지난 롤업을 해상도별로 삭제
+  const pruneRollups = async (cutoff: Date) => {
+    const transaction = db.transaction("trafficRollups", "readwrite")
+    const store = transaction.objectStore("trafficRollups")
+    for (const resolution of ROLLUP_RESOLUTIONS) {
+      store.delete(IDBKeyRange.bound([resolution, new Date(0)], [resolution, cutoff], false, true))
+    }
+    await transactionDone(transaction)
+  }
+
+  // 기준 시각보다 오래된 기록과 최대 건수를 넘는 오래된 기록을 삭제
+  const pruneStore = async (storeName: HistoryStoreName, cutoff: Date, maxRecords: number) => {
+    const transaction = db.transaction(storeName, "readwrite")
+    const store = transaction.objectStore(storeName)
+    const source = timeOrdered(store, storeName)
+    const shouldDelete = createPruneCheck(await requestToPromise(store.count()), cutoff, maxRecords)
+
+    await new Promise<void>((resolve, reject) => {
+      // 오래된 순으로 돌면서 기준 시각 이전이거나 초과분인 기록을 삭제
+      const request = source.openCursor(null, "next")
+      request.onsuccess = () => {
+        const cursor = request.result
+        if (!cursor || !shouldDelete(cursor.key as Date)) return resolve()
+        cursor.delete()
+        cursor.continue()
+      }
+      request.onerror = () => reject(request.error)
+    })
+    await transactionDone(transaction)
+  }
+
+  return {
+    appendLogs: (logs) => putAll("logs", logs),
+    appendTraffic,
+    appendFlows: (snapshots) => putAll("flows", snapshots),
+    loadRecentLogs: (limit) => collect<LogEntry>("logs", null, "prev", limit),
+    loadTraffic: (from, to) =>
+      collect<TrafficSample>("traffic", to ? IDBKeyRange.bound(from, to) : IDBKeyRange.lowerBound(from), "next", Infinity),
+    loadRecentTraffic: async (limit) => (await collect<TrafficSample>("traffic", null, "prev", limit)).reverse(),
+    loadLatestFlows: async () => (await collect<FlowSnapshot>("flows", null, "prev", 1))[0] ?? null,
+    loadTrafficSeries,
+    saveAlerts: (groups) => putAll("alerts", groups),
+    loadAlerts: (limit) => collect<AlertGroup>("alerts", null, "prev", limit),
+    saveIncidents: (incidents) => putAll("incidents", incidents),
+    loadIncidents: () => collect<Incident>("incidents", null, "prev", Infinity),
+    saveBaseline: (state) => putAll("baseline", [{ ...state, id: BASELINE_KEY }]),
+    loadBaseline,
+    async prune(retention, now = new Date()) {
+      const cutoff = retentionCutoff(retention, now)
+      await pruneStore("logs", cutoff, retention.maxLogs)
+      await pruneStore("traffic", cutoff, retention.maxTrafficSamples)
+      await pruneStore("flows", cutoff, retention.maxFlowSnapshots)
+      await pruneRollups(cutoff)
+      await pruneStore("alerts", cutoff, retention.maxAlerts)
+    },
+  }
+}
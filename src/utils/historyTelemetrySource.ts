@@ -0,0 +1,157 @@
+/**
+ * 다른 텔레메트리 소스를 감싸 로그, 트래픽, 플로우를 IndexedDB에 기록하는 어댑터
+ *
+ * 시작 시 저장된 기록(최근 로그, 트래픽 샘플, 마지막 플로우)을 먼저 각 채널로 발행한 뒤
+ * 감싼 소스를 시작하므로, 새로고침이나 브라우저 재시작 후에도 이전 기록이 이어서 표시됨
+ * 이후 들어오는 데이터는 1초마다 모아서 저장하고, 주기적으로 보관 정책에 따라 정리
+ *
+ * @module historyTelemetrySource
+ */
+import type { LogEntry } from "../types/log"
+import type { TelemetryChannel, TelemetryChannels, TelemetrySource, TrafficSample } from "../types/telemetry"
+import {
+  DEFAULT_HISTORY_RETENTION,
+  openHistoryStore,
+  type FlowSnapshot,
+  type HistoryRetention,
+} from "./historyStore"
+import { createTelemetryEmitter } from "./telemetryEmitter"
+
+// 저장 주기, 정리 주기
+const FLUSH_INTERVAL_MS = 1000
+const PRUNE_INTERVAL_MS = 60 * 1000
+
+// 시작 시 복원할 최대 건수 (트래픽은 App의 그래프 구간과 같은 30개)
+const HYDRATE_LOG_LIMIT = 50_000
+const HYDRATE_TRAFFIC_LIMIT = 30
+
+// 기록 없이 그대로 전달하는 채널
+const PASSTHROUGH_CHANNELS: TelemetryChannel[] = ["resources", "ports", "system", "alerts", "baseline", "anomalies"]
+
+// IndexedDB 기록 소스를 생성하는 함수
+export function createHistoryTelemetrySource(
+  source: TelemetrySource,
+  retention: HistoryRetention = DEFAULT_HISTORY_RETENTION,
+): TelemetrySource {
+  const emitter = createTelemetryEmitter()
+  let running = false
+  let session = 0 // 시작할 때마다 증가 (이전 시작의 비동기 작업을 무시하기 위함)
+  let unsubscribes: (() => void)[] = []
+  let flushTimer: ReturnType<typeof setTimeout> | null = null
+  let pruneTimer: ReturnType<typeof setInterval> | null = null
+
+  // 아직 저장하지 않은 기록
+  let pending = { logs: [] as LogEntry[], traffic: [] as TrafficSample[], flows: [] as FlowSnapshot[] }
+  // 복원한 기록과 겹치는 실시간 데이터(예: 서버 스냅샷)를 거르기 위한 정보
+  const hydratedLogIds = new Set<string>()
+  let lastHydratedTraffic = -Infinity
+
+  // 모아 둔 기록을 저장
+  const flush = async () => {
+    if (flushTimer) clearTimeout(flushTimer)
+    flushTimer = null
+    const batch = pending
+    pending = { logs: [], traffic: [], flows: [] }
+    if (batch.logs.length + batch.traffic.length + batch.flows.length === 0) return
+
+    try {
+      const store = await openHistoryStore()
+      await Promise.all([store.appendLogs(batch.logs), store.appendTraffic(batch.traffic), store.appendFlows(batch.flows)])
+    } catch (error) {
+      console.warn("[history] 기록을 저장하지 못했습니다", error)
+    }
+  }
+
+  const scheduleFlush = () => {
+    if (!flushTimer) flushTimer = setTimeout(flush, FLUSH_INTERVAL_MS)
+  }
+
+  const prune = () =>
+    openHistoryStore()
+      .then((store) => store.prune(retention))
+      .catch((error) => console.warn("[history] 오래된 기록을 정리하지 못했습니다", error))
+
+  // 저장된 기록을 채널별로 발행
+  const hydrate = async (current: number) => {
+    const store = await openHistoryStore()
+    const [logs, traffic, flows] = await Promise.all([
+      store.loadRecentLogs(HYDRATE_LOG_LIMIT),
+      store.loadRecentTraffic(HYDRATE_TRAFFIC_LIMIT),
+      store.loadLatestFlows(),
+    ])
+    if (!running || session !== current) return
+
+    traffic.forEach((sample) => {
+      lastHydratedTraffic = Math.max(lastHydratedTraffic, sample.time.getTime())
+      emitter.emit("traffic", sample)
+    })
+    if (logs.length > 0) {
+      logs.forEach((log) => hydratedLogIds.add(log.id))
+      emitter.emit("logs", logs)
+    }
+    if (flows) emitter.emit("flows", flows.flows)
+  }
+
+  // 감싼 소스의 채널을 구독하여 기록하고 그대로 발행 (record가 null을 반환하면 발행하지 않음)
+  const relay = <K extends TelemetryChannel>(
+    channel: K,
+    record?: (payload: TelemetryChannels[K]) => TelemetryChannels[K] | null,
+  ) =>
+    source.subscribe(channel, (payload) => {
+      const value = record ? record(payload) : payload
+      if (value !== null) emitter.emit(channel, value)
+    })
+
+  const connect = () => {
+    unsubscribes = [
+      ...PASSTHROUGH_CHANNELS.map((channel) => relay(channel)),
+      relay("logs", (logs) => {
+        const fresh = hydratedLogIds.size > 0 ? logs.filter((log) => !hydratedLogIds.has(log.id)) : logs
+        if (fresh.length === 0) return null
+        pending.logs = pending.logs.concat(fresh)
+        scheduleFlush()
+        return fresh
+      }),
+      relay("traffic", (sample) => {
+        if (sample.time.getTime() <= lastHydratedTraffic) return null
+        pending.traffic.push(sample)
+        scheduleFlush()
+        return sample
+      }),
+      relay("flows", (flows) => {
+        pending.flows.push({ time: new Date(), flows })
+        scheduleFlush()
+        return flows
+      }),
+    ]
+  }
+
+  return {
+    kind: source.kind,
+    start() {
+      if (running) return
+      running = true
+      const current = ++session
+      hydrate(current)
+        .catch((error) => console.warn("[history] 저장된 기록을 불러오지 못했습니다", error))
+        .finally(() => {
+          if (!running || session !== current) return
+          connect()
+          source.start()
+          prune()
+          pruneTimer = setInterval(prune, PRUNE_INTERVAL_MS)
+        })
+    },
+    stop() {
+      if (!running) return
+      running = false
+      unsubscribes.forEach((unsubscribe) => unsubscribe())
+      unsubscribes = []
+      source.stop()
+      if (pruneTimer) clearInterval(pruneTimer)
+      pruneTimer = null
+      flush()
+    },
+    subscribe: emitter.subscribe,
+  }
+}
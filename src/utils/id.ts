@@ -0,0 +1,13 @@
+/**
+ * 고유 ID 생성 함수
+ *
+ * @module id
+ */
+
+let sequence = 0
+
+// 시간, 순번, 난수를 조합한 고유 ID를 생성 (예: "log-lx2k9a-1f-8k3j")
+export function createId(prefix: string): string {
+  sequence = (sequence + 1) % 1679616 // 36^4
+  return `${prefix}-${Date.now().toString(36)}-${sequence.toString(36)}-${Math.random().toString(36).slice(2, 6)}`
+}
@@ -0,0 +1,24 @@
+/**
+ * 인시던트 상태를 화면과 보고서에 표시하기 위한 라벨과 색상
+ *
+ * @module incidentLabels
+ */
+import type { IncidentStatus } from "../types/incident"
+
+// 상태별 라벨
+export const INCIDENT_STATUS_LABELS: Record<IncidentStatus, string> = {
+  new: "신규",
+  investigating: "조사 중",
+  contained: "격리됨",
+  resolved: "해결",
+  closed: "종료",
+}
+
+// 상태별 배지 색상
+export const INCIDENT_STATUS_BADGE_COLORS: Record<IncidentStatus, string> = {
+  new: "bg-red-50 text-red-700 border border-red-200",
+  investigating: "bg-yellow-50 text-yellow-800 border border-yellow-200",
+  contained: "bg-blue-50 text-blue-700 border border-blue-200",
+  resolved: "bg-green-50 text-green-700 border border-green-200",
+  closed: "bg-gray-100 text-gray-600 border border-gray-200",
+}
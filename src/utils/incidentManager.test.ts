@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from "@jest/globals"
+import type { AlertGroup } from "../types/alert"
+import { AttackCategory } from "../types/log"
+import { createIncidentManager, isIncidentActive } from "./incidentManager"
+import { createLog } from "./testLogs"
+
+const BASE = Date.UTC(2024, 4, 1, 9, 0, 0)
+const at = (minutes: number) => new Date(BASE + minutes * 60 * 1000)
+
+const alertGroup = (id: string, overrides: Partial<AlertGroup> = {}): AlertGroup => ({
+  id,
+  fingerprint: `rule:${id}`,
+  origin: "rule",
+  ruleId: "ssh-brute-force",
+  title: "SSH 무차별 대입",
+  severity: "medium",
+  group: { sourceIP: "203.0.113.7" },
+  firstSeen: at(-30),
+  lastSeen: at(-10),
+  count: 12,
+  sourceIP: "203.0.113.7",
+  destinationIP: "10.0.0.5",
+  logIds: [],
+  status: "open",
+  suppressedUntil: null,
+  history: [],
+  ...overrides,
+})
+
+beforeEach(() => {
+  jest.useFakeTimers()
+  jest.setSystemTime(at(0))
+})
+
+afterEach(() => {
+  jest.useRealTimers()
+})
+
+describe("인시던트 생성", () => {
+  it("묶은 알림의 가장 높은 심각도를 쓰고, 알림이 없으면 보통", () => {
+    const manager = createIncidentManager()
+    const alerts = [alertGroup("a", { severity: "low" }), alertGroup("b", { severity: "critical" })]
+    expect(manager.create({ title: "침입 시도" }, "kim", { alerts }).severity).toBe("critical")
+    expect(manager.create({ title: "빈 인시던트" }, "kim").severity).toBe("medium")
+    expect(manager.create({ title: "  ", severity: "low" }, "kim")).toMatchObject({
+      title: "제목 없는 인시던트",
+      severity: "low",
+      status: "new",
+      assignee: null,
+    })
+  })
+
+  it("증거는 발생 시각, 생성 기록은 만든 시각에 배치하여 타임라인을 시간 순으로 유지", () => {
+    const manager = createIncidentManager()
+    const log = createLog({ id: "log-1", timestamp: at(-20), type: "malicious", attack: AttackCategory.BruteForce })
+    const incident = manager.create({ title: "침입 시도" }, "kim", { alerts: [alertGroup("a")], logs: [log] })
+    expect(incident.timeline.map((entry) => [entry.kind, entry.at])).toEqual([
+      ["alert", at(-30)],
+      ["log", at(-20)],
+      ["created", at(0)],
+    ])
+    expect(incident.timeline[0].alert).toMatchObject({ groupId: "a", count: 12, sourceIP: "203.0.113.7" })
+    expect(incident.timeline[1].log).toBe(log)
+  })
+})
+
+describe("증거 묶기", () => {
+  it("이미 묶은 알림 그룹과 로그, 입력 안의 중복은 한 번만 묶음", () => {
+    const manager = createIncidentManager()
+    const { id } = manager.create({ title: "침입 시도" }, "kim", { alerts: [alertGroup("a")] })
+    manager.attachAlerts(id, [alertGroup("a"), alertGroup("b"), alertGroup("b")], "lee")
+    manager.attachLogs(id, [createLog({ id: "log-1" }), createLog({ id: "log-1" })], "lee")
+    manager.attachLogs(id, [createLog({ id: "log-1" })], "lee")
+    const [incident] = manager.getSnapshot()
+    expect(incident.alertGroupIds).toEqual(["a", "b"])
+    expect(incident.logIds).toEqual(["log-1"])
+    expect(incident.timeline.filter((entry) => entry.kind === "alert" || entry.kind === "log")).toHaveLength(3)
+  })
+
+  it("새로 묶을 것이 없으면 변경 시각도 바꾸지 않음", () => {
+    const manager = createIncidentManager()
+    const { id } = manager.create({ title: "침입 시도" }, "kim", { alerts: [alertGroup("a")] })
+    jest.setSystemTime(at(5))
+    manager.attachAlerts(id, [alertGroup("a")], "lee")
+    expect(manager.getSnapshot()[0].updatedAt).toEqual(at(0))
+  })
+})
+
+describe("상태와 담당자", () => {
+  it("변경마다 처리자와 시각을 남기고, 같은 값으로의 변경은 무시", () => {
+    const manager = createIncidentManager()
+    const { id } = manager.create({ title: "침입 시도" }, "kim")
+    jest.setSystemTime(at(1))
+    manager.setStatus(id, "investigating", "lee")
+    manager.setStatus(id, "investigating", "lee")
+    manager.setSeverity(id, "high", "lee")
+    manager.assign(id, "  park ", "lee")
+    manager.assign(id, "park", "lee")
+    manager.addNote(id, "   ", "lee")
+    manager.addNote(id, "방화벽 차단 완료", "park")
+    manager.assign(id, null, "lee")
+
+    const [incident] = manager.getSnapshot()
+    expect(incident).toMatchObject({ status: "investigating", severity: "high", assignee: null, updatedAt: at(1) })
+    expect(incident.timeline.slice(1).map((entry) => [entry.kind, entry.actor, entry.text])).toEqual([
+      ["status", "lee", "상태 변경: 신규 → 조사 중"],
+      ["severity", "lee", "심각도 변경: 보통 → 높음"],
+      ["assignment", "lee", "담당자 지정: park"],
+      ["note", "park", "방화벽 차단 완료"],
+      ["assignment", "lee", "담당자 해제"],
+    ])
+  })
+
+  it("해결 또는 종료된 인시던트는 처리 중이 아님", () => {
+    const manager = createIncidentManager()
+    const incident = manager.create({ title: "침입 시도" }, "kim")
+    expect(isIncidentActive(incident)).toBe(true)
+    expect(isIncidentActive({ ...incident, status: "contained" })).toBe(true)
+    expect(isIncidentActive({ ...incident, status: "resolved" })).toBe(false)
+    expect(isIncidentActive({ ...incident, status: "closed" })).toBe(false)
+  })
+})
+
+describe("스냅샷과 저장", () => {
+  it("마지막 변경 시각의 최신순이며, 바뀐 인시던트만 한 번씩 저장 대상으로 반환", () => {
+    const manager = createIncidentManager()
+    const first = manager.create({ title: "첫째" }, "kim")
+    jest.setSystemTime(at(1))
+    const second = manager.create({ title: "둘째" }, "kim")
+    expect(manager.takeChanges().map((incident) => incident.id).sort()).toEqual([first.id, second.id].sort())
+
+    jest.setSystemTime(at(2))
+    manager.addNote(first.id, "메모", "kim")
+    expect(manager.getSnapshot().map((incident) => incident.title)).toEqual(["첫째", "둘째"])
+    expect(manager.takeChanges().map((incident) => incident.id)).toEqual([first.id])
+    expect(manager.takeChanges()).toEqual([])
+  })
+
+  it("복원은 이미 있는 인시던트를 덮어쓰지 않고 저장 대상에도 넣지 않음", () => {
+    const manager = createIncidentManager()
+    const current = manager.create({ title: "현재" }, "kim")
+    manager.takeChanges()
+    const stored = { ...current, id: "incident-stored", title: "저장됨", updatedAt: at(-60) }
+    manager.hydrate([{ ...current, title: "오래된 사본" }, stored])
+    expect(manager.getSnapshot().map((incident) => incident.title)).toEqual(["현재", "저장됨"])
+    expect(manager.takeChanges()).toEqual([])
+  })
+
+  it("변경이 생기면 구독자에게 알리고, 없는 ID의 변경은 무시", () => {
+    const manager = createIncidentManager()
+    const listener = jest.fn()
+    manager.subscribe(listener)
+    const { id } = manager.create({ title: "침입 시도" }, "kim")
+    manager.setStatus("missing", "closed", "kim")
+    manager.setStatus(id, "closed", "kim")
+    expect(listener).toHaveBeenCalledTimes(2)
+  })
+})
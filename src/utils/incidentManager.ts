@@ -0,0 +1,239 @@
+/**
+ * 인시던트를 만들고 상태, 담당자, 증거, 메모를 관리하는 함수
+ *
+ * - 모든 변경은 처리자와 시각을 담은 타임라인 항목으로 남김
+ * - 알림 그룹과 로그는 같은 것을 두 번 묶지 않으며, 보고서에 남도록 내용을 복사하여 보관
+ * - 타임라인은 시간 순으로 유지 (증거는 발생 시각, 그 외는 기록한 시각)
+ *
+ * React에서는 subscribe/getSnapshot으로 useSyncExternalStore에 연결
+ *
+ * @module incidentManager
+ */
+import type { AlertGroup } from "../types/alert"
+import type { Incident, IncidentStatus, IncidentTimelineEntry, IncidentTimelineKind } from "../types/incident"
+import type { LogEntry } from "../types/log"
+import type { RuleSeverity } from "../types/rule"
+import { RULE_SEVERITIES } from "../types/rule"
+import { createId } from "./id"
+import { INCIDENT_STATUS_LABELS } from "./incidentLabels"
+import { getLogLabel } from "./logLabels"
+import { RULE_SEVERITY_LABELS } from "./ruleLabels"
+
+export interface NewIncident {
+  title: string
+  severity?: RuleSeverity // 없으면 묶을 알림의 가장 높은 심각도 (알림도 없으면 보통)
+  assignee?: string | null
+}
+
+export interface IncidentManager {
+  getSnapshot(): Incident[] // 마지막 변경 시각의 최신순
+  subscribe(listener: () => void): () => void
+  create(incident: NewIncident, actor: string, evidence?: { alerts?: AlertGroup[]; logs?: LogEntry[] }): Incident
+  setStatus(id: string, status: IncidentStatus, actor: string): void
+  setSeverity(id: string, severity: RuleSeverity, actor: string): void
+  assign(id: string, assignee: string | null, actor: string): void
+  addNote(id: string, text: string, actor: string): void
+  attachAlerts(id: string, groups: AlertGroup[], actor: string): void
+  attachLogs(id: string, logs: LogEntry[], actor: string): void
+  hydrate(incidents: Incident[]): void // 저장된 인시던트를 복원 (이미 있는 인시던트는 유지)
+  takeChanges(): Incident[] // 마지막 호출 이후 바뀐 인시던트 (저장용)
+}
+
+// 아직 처리 중인 인시던트인지 확인
+export const isIncidentActive = (incident: Incident) => incident.status !== "resolved" && incident.status !== "closed"
+
+const highestSeverity = (severities: RuleSeverity[]) =>
+  severities.reduce<RuleSeverity | null>(
+    (highest, severity) =>
+      highest === null || RULE_SEVERITIES.indexOf(severity) > RULE_SEVERITIES.indexOf(highest) ? severity : highest,
+    null,
+  )
+
+// 알림 그룹을 타임라인 항목으로 변환 (처음 발생 시각에 배치)
+const alertEntry = (group: AlertGroup, actor: string): IncidentTimelineEntry => ({
+  id: createId("timeline"),
+  at: group.firstSeen,
+  actor,
+  kind: "alert",
+  text: `${group.title} 알림 ${group.count}회 (${RULE_SEVERITY_LABELS[group.severity]})`,
+  alert: {
+    groupId: group.id,
+    ruleId: group.ruleId,
+    title: group.title,
+    severity: group.severity,
+    firstSeen: group.firstSeen,
+    lastSeen: group.lastSeen,
+    count: group.count,
+    sourceIP: group.sourceIP,
+    destinationIP: group.destinationIP,
+  },
+})
+
+// 로그를 타임라인 항목으로 변환 (로그 시각에 배치)
+const logEntry = (log: LogEntry, actor: string): IncidentTimelineEntry => ({
+  id: createId("timeline"),
+  at: log.timestamp,
+  actor,
+  kind: "log",
+  text: `${getLogLabel(log)} ${log.sourceIP}:${log.sourcePort} → ${log.destinationIP}:${log.destinationPort} (${log.protocol})`,
+  log,
+})
+
+// 타임라인에 항목을 시간 순으로 추가
+const withEntries = (timeline: IncidentTimelineEntry[], entries: IncidentTimelineEntry[]) =>
+  [...timeline, ...entries].sort((a, b) => a.at.getTime() - b.at.getTime())
+
+// 인시던트 관리자를 생성하는 함수
+export function createIncidentManager(): IncidentManager {
+  const incidents = new Map<string, Incident>()
+  const listeners = new Set<() => void>()
+  let changed = new Set<string>()
+  let snapshot: Incident[] = []
+
+  // 스냅샷을 다시 만들고 구독자에게 알림
+  const publish = () => {
+    snapshot = Array.from(incidents.values()).sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+    listeners.forEach((listener) => listener())
+  }
+
+  // 인시던트를 바꾸고 변경 시각을 갱신 (없는 ID면 무시)
+  const modify = (id: string, change: (incident: Incident, now: Date) => Partial<Incident> | null) => {
+    const incident = incidents.get(id)
+    if (!incident) return
+    const now = new Date()
+    const patch = change(incident, now)
+    if (!patch) return
+    incidents.set(id, { ...incident, ...patch, updatedAt: now })
+    changed.add(id)
+    publish()
+  }
+
+  // 기록한 시각에 배치하는 타임라인 항목
+  const event = (kind: IncidentTimelineKind, text: string, actor: string, at: Date): IncidentTimelineEntry => ({
+    id: createId("timeline"),
+    at,
+    actor,
+    kind,
+    text,
+  })
+
+  // 아직 묶지 않은 알림 그룹과 로그만 골라 타임라인에 추가
+  const attach = (incident: Incident, groups: AlertGroup[], logs: LogEntry[], actor: string) => {
+    const groupIds = new Set(incident.alertGroupIds)
+    const logIds = new Set(incident.logIds)
+    // 입력 안에서 중복된 항목도 한 번만 묶음
+    const newGroups = groups.filter((group) => !groupIds.has(group.id) && groupIds.add(group.id))
+    const newLogs = logs.filter((log) => !logIds.has(log.id) && logIds.add(log.id))
+    if (newGroups.length === 0 && newLogs.length === 0) return null
+    return {
+      alertGroupIds: Array.from(groupIds),
+      logIds: Array.from(logIds),
+      timeline: withEntries(incident.timeline, [
+        ...newGroups.map((group) => alertEntry(group, actor)),
+        ...newLogs.map((log) => logEntry(log, actor)),
+      ]),
+    }
+  }
+
+  return {
+    getSnapshot: () => snapshot,
+    subscribe(listener) {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+    create({ title, severity, assignee = null }, actor, evidence = {}) {
+      const now = new Date()
+      const alerts = evidence.alerts ?? []
+      const base: Incident = {
+        id: createId("incident"),
+        title: title.trim() || "제목 없는 인시던트",
+        severity: severity ?? highestSeverity(alerts.map((group) => group.severity)) ?? "medium",
+        status: "new",
+        assignee,
+        createdAt: now,
+        updatedAt: now,
+        alertGroupIds: [],
+        logIds: [],
+        timeline: [event("created", "인시던트 생성", actor, now)],
+      }
+      const incident = { ...base, ...attach(base, alerts, evidence.logs ?? [], actor) }
+      incidents.set(incident.id, incident)
+      changed.add(incident.id)
+      publish()
+      return incident
+    },
+    setStatus(id, status, actor) {
+      modify(id, (incident, now) =>
+        incident.status === status
+          ? null
+          : {
+              status,
+              timeline: withEntries(incident.timeline, [
+                event(
+                  "status",
+                  `상태 변경: ${INCIDENT_STATUS_LABELS[incident.status]} → ${INCIDENT_STATUS_LABELS[status]}`,
+                  actor,
+                  now,
+                ),
+              ]),
+            },
+      )
+    },
+    setSeverity(id, severity, actor) {
+      modify(id, (incident, now) =>
+        incident.severity === severity
+          ? null
+          : {
+              severity,
+              timeline: withEntries(incident.timeline, [
+                event(
+                  "severity",
+                  `심각도 변경: ${RULE_SEVERITY_LABELS[incident.severity]} → ${RULE_SEVERITY_LABELS[severity]}`,
+                  actor,
+                  now,
+                ),
+              ]),
+            },
+      )
+    },
+    assign(id, assignee, actor) {
+      const name = assignee?.trim() || null
+      modify(id, (incident, now) =>
+        incident.assignee === name
+          ? null
+          : {
+              assignee: name,
+              timeline: withEntries(incident.timeline, [
+                event("assignment", name ? `담당자 지정: ${name}` : "담당자 해제", actor, now),
+              ]),
+            },
+      )
+    },
+    addNote(id, text, actor) {
+      const note = text.trim()
+      if (!note) return
+      modify(id, (incident, now) => ({ timeline: withEntries(incident.timeline, [event("note", note, actor, now)]) }))
+    },
+    attachAlerts(id, groups, actor) {
+      modify(id, (incident) => attach(incident, groups, [], actor))
+    },
+    attachLogs(id, logs, actor) {
+      modify(id, (incident) => attach(incident, [], logs, actor))
+    },
+    hydrate(stored) {
+      for (const incident of stored) {
+        if (!incidents.has(incident.id)) incidents.set(incident.id, incident)
+      }
+      publish()
+    },
+    takeChanges() {
+      const result = Array.from(changed)
+        .map((id) => incidents.get(id))
+        .filter((incident): incident is Incident => incident !== undefined)
+      changed = new Set()
+      return result
+    },
+  }
+}
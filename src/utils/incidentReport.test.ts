@@ -0,0 +1,102 @@
+import { describe, expect, it } from "@jest/globals"
+import type { Incident } from "../types/incident"
+import { createIncidentManager } from "./incidentManager"
+import { incidentReportFileName, incidentToHtml, incidentToMarkdown } from "./incidentReport"
+import { createLog } from "./testLogs"
+
+const AT = new Date("2024-05-01T09:00:00.000Z")
+
+const incident = (overrides: Partial<Incident> = {}): Incident => ({
+  id: "incident-1",
+  title: "웹 서버 침입 시도",
+  severity: "high",
+  status: "investigating",
+  assignee: "kim",
+  createdAt: AT,
+  updatedAt: AT,
+  alertGroupIds: ["a"],
+  logIds: ["log-1"],
+  timeline: [
+    {
+      id: "t1",
+      at: AT,
+      actor: "kim",
+      kind: "alert",
+      text: "SQL 삽입 알림 3회 (높음)",
+      alert: {
+        groupId: "a",
+        ruleId: "sqli",
+        title: "SQL 삽입",
+        severity: "high",
+        firstSeen: AT,
+        lastSeen: AT,
+        count: 3,
+        sourceIP: "203.0.113.7",
+      },
+    },
+    { id: "t2", at: AT, actor: "kim", kind: "note", text: "첫 줄\n둘째 줄" },
+  ],
+  ...overrides,
+})
+
+// HTML 보고서의 <body> 부분
+const body = (html: string) => html.slice(html.indexOf("<body>"), html.indexOf("</body>"))
+
+describe("incidentToHtml", () => {
+  it("개요, 관련 알림, 타임라인을 표와 목록으로 만들고 로그가 없으면 없음으로 표시", () => {
+    const html = incidentToHtml(incident())
+    expect(html).toContain("<title>웹 서버 침입 시도</title>")
+    expect(html).toContain("<td>상태</td><td>조사 중</td>")
+    expect(html).toContain("<td>SQL 삽입 (sqli)</td><td>높음</td><td>203.0.113.7</td><td>-</td>")
+    expect(html).toContain("<h2>관련 로그</h2>\n<p>없음</p>")
+    expect(html).toContain('<div class="note">첫 줄\n둘째 줄</div>')
+  })
+
+  it("제목, 처리자, 메모, 알림의 특수 문자를 이스케이프", () => {
+    const markup = '<img src=x onerror="alert(1)">&'
+    const html = incidentToHtml(
+      incident({
+        title: markup,
+        assignee: markup,
+        timeline: [{ id: "t1", at: AT, actor: markup, kind: "note", text: `<script>alert(1)</script>` }],
+      }),
+    )
+    expect(html).not.toMatch(/<img|<script/)
+    expect(html).toContain("<title>&lt;img src=x onerror=&quot;alert(1)&quot;&gt;&amp;</title>")
+    expect(html).toContain("&lt;script&gt;alert(1)&lt;/script&gt;")
+  })
+
+  it("로그 필드에 들어 있는 마크업도 보고서에서 이스케이프", () => {
+    const log = createLog({ id: "log-1", timestamp: AT, protocol: "<svg onload=alert(1)>" })
+    const manager = createIncidentManager()
+    const html = incidentToHtml(manager.create({ title: "로그 증거" }, "kim", { logs: [log] }))
+    expect(body(html)).not.toContain("<svg")
+    expect(html).toContain("<td>&lt;svg onload=alert(1)&gt;</td>")
+    expect(html).toContain("10.0.0.5:443 (&lt;svg onload=alert(1)&gt;)</div>")
+  })
+})
+
+describe("incidentToMarkdown", () => {
+  it("표 셀의 구분자와 줄바꿈을 이스케이프하고, 메모의 줄바꿈은 목록 항목 안에 들여씀", () => {
+    const log = createLog({ id: "log-1", timestamp: AT, protocol: "TCP|UDP\nX" })
+    const markdown = incidentToMarkdown(
+      incident({
+        timeline: [
+          { id: "t1", at: AT, actor: "kim", kind: "log", text: "로그", log },
+          { id: "t2", at: AT, actor: "kim", kind: "note", text: "첫 줄\n둘째 줄" },
+        ],
+      }),
+    )
+    expect(markdown).toMatch(/^# 웹 서버 침입 시도\n/)
+    expect(markdown).toContain("| TCP\\|UDP X |")
+    expect(markdown).toContain("## 관련 알림\n\n없음")
+    expect(markdown).toContain("- 2024-05-01T09:00:00.000Z **메모** (kim): 첫 줄\n  둘째 줄")
+  })
+})
+
+describe("incidentReportFileName", () => {
+  it("인시던트 ID와 형식별 확장자", () => {
+    expect(incidentReportFileName(incident(), "markdown")).toBe("auto-guard-incident-1.md")
+    expect(incidentReportFileName(incident(), "html")).toBe("auto-guard-incident-1.html")
+  })
+})
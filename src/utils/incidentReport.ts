@@ -0,0 +1,176 @@
+/**
+ * 인시던트를 Markdown 또는 HTML 보고서로 만드는 함수들
+ *
+ * 보고서 구성: 개요(상태, 심각도, 담당자, 생성/변경 시각) → 관련 알림 → 관련 로그 → 타임라인
+ * HTML 보고서는 외부 리소스 없이 한 파일로 열람·인쇄할 수 있도록 스타일을 포함
+ *
+ * @module incidentReport
+ */
+import type { Incident, IncidentTimelineEntry } from "../types/incident"
+import { INCIDENT_STATUS_LABELS } from "./incidentLabels"
+import { getLogLabel } from "./logLabels"
+import { RULE_SEVERITY_LABELS } from "./ruleLabels"
+
+export type IncidentReportFormat = "markdown" | "html"
+
+const REPORT_FILE_TYPES: Record<IncidentReportFormat, { extension: string; mimeType: string }> = {
+  markdown: { extension: "md", mimeType: "text/markdown;charset=utf-8" },
+  html: { extension: "html", mimeType: "text/html;charset=utf-8" },
+}
+
+const TIMELINE_KIND_LABELS: Record<IncidentTimelineEntry["kind"], string> = {
+  created: "생성",
+  status: "상태",
+  assignment: "담당자",
+  severity: "심각도",
+  note: "메모",
+  alert: "알림",
+  log: "로그",
+}
+
+// 보고서에 쓰는 시각 형식 (ISO 8601)
+const formatTime = (date: Date) => date.toISOString()
+
+// 개요 항목 (라벨, 값)
+const summaryRows = (incident: Incident): [string, string][] => [
+  ["ID", incident.id],
+  ["상태", INCIDENT_STATUS_LABELS[incident.status]],
+  ["심각도", RULE_SEVERITY_LABELS[incident.severity]],
+  ["담당자", incident.assignee ?? "미지정"],
+  ["생성", formatTime(incident.createdAt)],
+  ["최종 변경", formatTime(incident.updatedAt)],
+]
+
+// 관련 알림 표 (타임라인의 알림 증거)
+const ALERT_HEADERS = ["규칙", "심각도", "출발지", "도착지", "처음 발생", "마지막 발생", "횟수"]
+const alertRows = (incident: Incident) =>
+  incident.timeline.flatMap(({ alert }) =>
+    alert
+      ? [
+          [
+            `${alert.title} (${alert.ruleId})`,
+            RULE_SEVERITY_LABELS[alert.severity],
+            alert.sourceIP ?? "-",
+            alert.destinationIP ?? "-",
+            formatTime(alert.firstSeen),
+            formatTime(alert.lastSeen),
+            String(alert.count),
+          ],
+        ]
+      : [],
+  )
+
+// 관련 로그 표 (타임라인의 로그 증거)
+const LOG_HEADERS = ["시간", "분류", "출발지", "도착지", "프로토콜", "용량(KB)"]
+const logRows = (incident: Incident) =>
+  incident.timeline.flatMap(({ log }) =>
+    log
+      ? [
+          [
+            formatTime(log.timestamp),
+            getLogLabel(log),
+            `${log.sourceIP}:${log.sourcePort}`,
+            `${log.destinationIP}:${log.destinationPort}`,
+            log.protocol,
+            String(log.trafficVolume),
+          ],
+        ]
+      : [],
+  )
+
+// Markdown 표 셀에서 구분자와 줄바꿈을 이스케이프
+const markdownCell = (value: string) => value.replace(/\|/g, "\\|").replace(/\r?\n/g, " ")
+
+const markdownTable = (headers: string[], rows: string[][]) =>
+  [
+    `| ${headers.join(" | ")} |`,
+    `| ${headers.map(() => "---").join(" | ")} |`,
+    ...rows.map((row) => `| ${row.map(markdownCell).join(" | ")} |`),
+  ].join("\n")
+
+// Markdown 보고서를 생성
+export function incidentToMarkdown(incident: Incident): string {
+  const alerts = alertRows(incident)
+  const logs = logRows(incident)
+  const sections = [
+    `# ${incident.title}`,
+    markdownTable(["항목", "값"], summaryRows(incident)),
+    "## 관련 알림",
+    alerts.length === 0 ? "없음" : markdownTable(ALERT_HEADERS, alerts),
+    "## 관련 로그",
+    logs.length === 0 ? "없음" : markdownTable(LOG_HEADERS, logs),
+    "## 타임라인",
+    incident.timeline
+      .map((entry) => {
+        const text = entry.kind === "note" ? entry.text.replace(/\r?\n/g, "\n  ") : entry.text
+        return `- ${formatTime(entry.at)} **${TIMELINE_KIND_LABELS[entry.kind]}** (${entry.actor}): ${text}`
+      })
+      .join("\n"),
+  ]
+  return `${sections.join("\n\n")}\n`
+}
+
+// HTML 특수 문자를 이스케이프
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+
+const htmlTable = (headers: string[], rows: string[][]) =>
+  `<table><thead><tr>${headers.map((header) => `<th>${escapeHtml(header)}</th>`).join("")}</tr></thead><tbody>` +
+  rows.map((row) => `<tr>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join("")}</tr>`).join("") +
+  "</tbody></table>"
+
+const REPORT_STYLE = `
+body { font-family: sans-serif; margin: 2rem; color: #1f2937; }
+h1 { color: #1e40af; }
+table { border-collapse: collapse; width: 100%; margin-bottom: 1rem; font-size: 0.875rem; }
+th, td { border: 1px solid #d1d5db; padding: 0.375rem 0.5rem; text-align: left; }
+th { background: #eff6ff; }
+ol { padding-left: 1.25rem; }
+li { margin-bottom: 0.5rem; }
+.meta { color: #6b7280; font-size: 0.8125rem; }
+.note { white-space: pre-wrap; }
+`
+
+// HTML 보고서를 생성
+export function incidentToHtml(incident: Incident): string {
+  const alerts = alertRows(incident)
+  const logs = logRows(incident)
+  const timeline = incident.timeline
+    .map(
+      (entry) =>
+        `<li><div class="meta">${escapeHtml(formatTime(entry.at))} · ${TIMELINE_KIND_LABELS[entry.kind]} · ` +
+        `${escapeHtml(entry.actor)}</div><div class="${entry.kind}">${escapeHtml(entry.text)}</div></li>`,
+    )
+    .join("")
+
+  return `<!DOCTYPE html>
+<html lang="ko">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(incident.title)}</title>
+<style>${REPORT_STYLE}</style>
+</head>
+<body>
+<h1>${escapeHtml(incident.title)}</h1>
+${htmlTable(["항목", "값"], summaryRows(incident))}
+<h2>관련 알림</h2>
+${alerts.length === 0 ? "<p>없음</p>" : htmlTable(ALERT_HEADERS, alerts)}
+<h2>관련 로그</h2>
+${logs.length === 0 ? "<p>없음</p>" : htmlTable(LOG_HEADERS, logs)}
+<h2>타임라인</h2>
+<ol>${timeline}</ol>
+</body>
+</html>
+`
+}
+
+// 보고서를 내려받을 수 있는 Blob으로 생성
+export function createIncidentReport(incident: Incident, format: IncidentReportFormat): Blob {
+  const content = format === "markdown" ? incidentToMarkdown(incident) : incidentToHtml(incident)
+  return new Blob([content], { type: REPORT_FILE_TYPES[format].mimeType })
+}
+
+// 보고서 파일 이름 (예: auto-guard-incident-lx2k9a-1f-8k3j.md)
+export function incidentReportFileName(incident: Incident, format: IncidentReportFormat): string {
+  return `auto-guard-${incident.id}.${REPORT_FILE_TYPES[format].extension}`
+}
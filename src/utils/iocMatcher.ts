@@ -0,0 +1,156 @@
+/**
+ * 로그의 출발지/목적지 주소를 위협 인텔리전스 지표와 비교하는 함수
+ *
+ * - IP 지표는 주소 바이트를 키로 한 Map에서 바로 찾음
+ * - CIDR 지표는 접두사 길이별로 네트워크 주소를 키로 묶어, 주소마다 접두사 길이 수만큼만 조회
+ * - 만료된 지표는 비교할 때 제외 (지표 목록을 다시 만들지 않아도 시간이 지나면 빠짐)
+ * - 도메인 지표는 로그에 도메인이 없으므로 비교하지 않음
+ * - 로그 묶음의 비교 결과는 일치한 주소별 알림으로 묶음 (브라우저 어댑터와 로컬 서버가 함께 사용)
+ *
+ * @module iocMatcher
+ */
+import type { Indicator, IocMatch } from "../types/ioc"
+import type { LogEntry } from "../types/log"
+import type { RuleAlert, RuleSeverity } from "../types/rule"
+import type { FlowEntry } from "../types/telemetry"
+import { createId } from "./id"
+import { ipToBytes, parseCidr } from "./ip"
+
+// 지표 일치 알림의 규칙 ID
+export const IOC_RULE_ID = "ioc-match"
+
+// 알림에 담는 로그 ID 수 (탐지 규칙 알림과 같음)
+const MAX_ALERT_LOG_IDS = 20
+
+// 가장 높은 신뢰도로 심각도를 정함
+const severityFor = (confidence: number): RuleSeverity =>
+  confidence >= 80 ? "high" : confidence >= 50 ? "medium" : "low"
+
+// 로그 묶음(오래된 순)의 일치 결과를 주소별 알림으로 묶음
+const toAlerts = (matched: { log: LogEntry; matches: IocMatch[] }[]): RuleAlert[] => {
+  const groups = new Map<string, { field: IocMatch["field"]; ip: string; logs: LogEntry[]; matches: IocMatch[] }>()
+  for (const { log, matches } of matched) {
+    for (const match of matches) {
+      const ip = log[match.field]
+      const key = `${match.field}=${ip}`
+      const group = groups.get(key) ?? { field: match.field, ip, logs: [], matches: [] }
+      if (group.logs[group.logs.length - 1] !== log) group.logs.push(log)
+      group.matches.push(match)
+      groups.set(key, group)
+    }
+  }
+  return Array.from(groups.values()).map(({ field, ip, logs, matches }) => {
+    const last = logs[logs.length - 1]
+    const confidence = Math.max(...matches.map((match) => match.confidence))
+    const sources = Array.from(new Set(matches.map((match) => match.source)))
+    return {
+      id: createId("alert"),
+      ruleId: IOC_RULE_ID,
+      ruleTitle: `위협 인텔리전스 일치: ${ip} (${sources.join(", ")})`,
+      severity: severityFor(confidence),
+      time: last.timestamp,
+      group: { [field]: ip },
+      count: logs.length,
+      logIds: logs
+        .slice(-MAX_ALERT_LOG_IDS)
+        .reverse()
+        .map((log) => log.id),
+      sourceIP: last.sourceIP,
+      destinationIP: last.destinationIP,
+    }
+  })
+}
+
+export interface IocMatcher {
+  readonly size: number // 주소와 비교하는 지표 수 (도메인 제외)
+  matchAddress(ip: string, now?: Date): Indicator[]
+  matchLog(log: LogEntry, now?: Date): IocMatch[]
+}
+
+// 접두사 길이만 남긴 네트워크 주소를 키로 변환
+const networkKey = (bytes: number[], prefix: number) => {
+  const masked = bytes.map((byte, index) => {
+    const bits = Math.min(8, Math.max(0, prefix - index * 8))
+    return byte & ((0xff << (8 - bits)) & 0xff)
+  })
+  return `${bytes.length}:${masked.join(".")}`
+}
+
+// 아직 만료되지 않은 지표인지 확인
+export const isIndicatorLive = (indicator: Indicator, now = new Date()) =>
+  indicator.expiresAt === null || indicator.expiresAt.getTime() > now.getTime()
+
+// 지표 목록으로 비교기를 생성하는 함수
+export function createIocMatcher(indicators: Indicator[]): IocMatcher {
+  const addresses = new Map<string, Indicator[]>()
+  const networks = new Map<number, Map<string, Indicator[]>>() // 접두사 길이 → 네트워크 키 → 지표
+  let size = 0
+
+  const add = (index: Map<string, Indicator[]>, key: string, indicator: Indicator) => {
+    const list = index.get(key)
+    if (list) list.push(indicator)
+    else index.set(key, [indicator])
+    size++
+  }
+
+  for (const indicator of indicators) {
+    const cidr = indicator.type === "domain" ? null : parseCidr(indicator.value)
+    if (!cidr) continue
+    if (cidr.prefix === cidr.bytes.length * 8) {
+      add(addresses, networkKey(cidr.bytes, cidr.prefix), indicator)
+    } else {
+      if (!networks.has(cidr.prefix)) networks.set(cidr.prefix, new Map())
+      add(networks.get(cidr.prefix)!, networkKey(cidr.bytes, cidr.prefix), indicator)
+    }
+  }
+
+  const matchAddress = (ip: string, now = new Date()) => {
+    const bytes = ipToBytes(ip)
+    if (!bytes) return []
+    const found = [...(addresses.get(networkKey(bytes, bytes.length * 8)) ?? [])]
+    networks.forEach((index, prefix) => {
+      if (prefix <= bytes.length * 8) found.push(...(index.get(networkKey(bytes, prefix)) ?? []))
+    })
+    return found.filter((indicator) => isIndicatorLive(indicator, now))
+  }
+
+  return {
+    size,
+    matchAddress,
+    matchLog(log, now = new Date()) {
+      return (["sourceIP", "destinationIP"] as const).flatMap((field) =>
+        matchAddress(log[field], now).map((indicator) => ({
+          indicatorId: indicator.id,
+          field,
+          value: indicator.value,
+          source: indicator.source,
+          confidence: indicator.confidence,
+        })),
+      )
+    },
+  }
+}
+
+// 로그 묶음(최신순)을 비교하여 일치한 로그에 iocMatches를 붙이고, 오래된 순으로 묶은 알림을 만드는 함수
+export function matchLogBatch(
+  matcher: IocMatcher,
+  logs: LogEntry[],
+  now = new Date(),
+): { logs: LogEntry[]; alerts: RuleAlert[] } {
+  if (matcher.size === 0) return { logs, alerts: [] }
+  const matched: { log: LogEntry; matches: IocMatch[] }[] = []
+  const enriched = logs.map((log) => {
+    const matches = matcher.matchLog(log, now)
+    if (matches.length === 0) return log
+    matched.push({ log, matches })
+    return { ...log, iocMatches: matches }
+  })
+  return { logs: enriched, alerts: toAlerts(matched.reverse()) }
+}
+
+// 지표와 일치한 주소가 있는 흐름에 ioc 표시를 붙이는 함수
+export function markIocFlows(matcher: IocMatcher, flows: FlowEntry[], now = new Date()): FlowEntry[] {
+  if (matcher.size === 0) return flows
+  const isHit = (ip?: string) => !!ip && matcher.matchAddress(ip, now).length > 0
+  return flows.map((flow) => (isHit(flow.sourceIP) || isHit(flow.destinationIP) ? { ...flow, ioc: true } : flow))
+}
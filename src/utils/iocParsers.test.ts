@@ -0,0 +1,196 @@
+import { describe, expect, it } from "@jest/globals"
+import {
+  detectIocFormat,
+  normalizeIndicatorValue,
+  parseCsvIocList,
+  parsePlainIocList,
+  parseStixBundle,
+  type IocImportOptions,
+} from "./iocParsers"
+
+const NOW = new Date("2024-05-01T00:00:00Z")
+const DEFAULT_EXPIRY = new Date("2024-06-01T00:00:00Z")
+const OPTIONS: IocImportOptions = { source: "feed", confidence: 50, expiresAt: DEFAULT_EXPIRY, now: NOW }
+
+// 지표의 값과 종류만 비교
+const values = (result: { indicators: { type: string; value: string }[] }) =>
+  result.indicators.map(({ type, value }) => `${type}:${value}`)
+
+describe("normalizeIndicatorValue", () => {
+  it.each([
+    ["203.0.113[.]7", { type: "ip", value: "203.0.113.7" }],
+    ["198(.)51{.}100.1", { type: "ip", value: "198.51.100.1" }],
+    ["2001:db8[:]0:0::1", { type: "ip", value: "2001:db8::1" }],
+    ["10.0.0.0/8", { type: "cidr", value: "10.0.0.0/8" }],
+    ["10.1.2.3/32", { type: "ip", value: "10.1.2.3" }],
+    ['"Evil[.]Example[.]COM."', { type: "domain", value: "evil.example.com" }],
+    ["*.bad.example", { type: "domain", value: "bad.example" }],
+  ])("%s", (raw, expected) => {
+    expect(normalizeIndicatorValue(raw)).toEqual(expected)
+  })
+
+  it("지표로 쓸 수 없는 값은 null", () => {
+    expect(normalizeIndicatorValue("  ")).toBeNull()
+    expect(normalizeIndicatorValue("10.0.0.0/40")).toBeNull()
+    expect(normalizeIndicatorValue("not a domain")).toBeNull()
+    expect(normalizeIndicatorValue("999.1.1.1")).toBeNull()
+  })
+})
+
+describe("parsePlainIocList", () => {
+  it("주석과 빈 줄을 건너뛰고, 줄 번호와 함께 오류를 보고하며, 같은 값은 마지막 항목만 남김", () => {
+    const result = parsePlainIocList(
+      ["# feed", "203.0.113[.]7  # c2", "", "bad value!", "evil[.]example ; phishing", "203.0.113.7"].join("\n"),
+      OPTIONS,
+    )
+    expect(values(result)).toEqual(["ip:203.0.113.7", "domain:evil.example"])
+    expect(result.indicators[0]).toEqual({
+      id: "feed|203.0.113.7",
+      type: "ip",
+      value: "203.0.113.7",
+      source: "feed",
+      confidence: 50,
+      expiresAt: DEFAULT_EXPIRY,
+      addedAt: NOW,
+    })
+    expect(result.errors).toEqual([{ location: "4행", message: "IP, CIDR, 도메인이 아닙니다: bad value!" }])
+  })
+})
+
+describe("parseCsvIocList", () => {
+  it("머리글에서 값, 신뢰도, 만료, 설명 열을 찾음", () => {
+    const result = parseCsvIocList(
+      [
+        "First Seen,IP Address,Confidence-Level,Valid Until,Malware",
+        '2024-04-01,198.51.100[.]9,85,2024-07-01T00:00:00Z,"Emotet, epoch 4"',
+        "2024-04-02,10.0.0.0/8,,,",
+      ].join("\n"),
+      OPTIONS,
+    )
+    expect(result.errors).toEqual([])
+    expect(result.indicators).toMatchObject([
+      {
+        value: "198.51.100.9",
+        confidence: 85,
+        expiresAt: new Date("2024-07-01T00:00:00Z"),
+        description: "Emotet, epoch 4",
+      },
+      { type: "cidr", value: "10.0.0.0/8", confidence: 50, expiresAt: DEFAULT_EXPIRY },
+    ])
+    expect(result.indicators[1]).not.toHaveProperty("description")
+  })
+
+  it("주석 줄에 적은 머리글을 인식 (abuse.ch 형식)", () => {
+    const result = parseCsvIocList(
+      [
+        "# abuse.ch Feodo Tracker",
+        '# "first_seen_utc","dst_ip","dst_port","c2_status","malware"',
+        '"2024-04-01 10:00:00","203.0.113.50","443","online","QakBot"',
+        '"2024-04-01 11:00:00","not-an-ip","443","online","QakBot"',
+      ].join("\n"),
+      OPTIONS,
+    )
+    expect(result.indicators).toMatchObject([{ value: "203.0.113.50", description: "QakBot" }])
+    expect(result.errors).toEqual([{ location: "4행", message: "IP, CIDR, 도메인이 아닙니다: not-an-ip" }])
+  })
+
+  it("값 열이 없는 주석 뒤에 머리글이 없으면 첫 열을 값으로 사용", () => {
+    const text = ["# generated 2024-05-01", "203.0.113.1,scanner", "bad.example,phish"].join("\n")
+    const result = parseCsvIocList(text, OPTIONS)
+    expect(values(result)).toEqual(["ip:203.0.113.1", "domain:bad.example"])
+  })
+
+  it("신뢰도는 0~100으로 자르고, 올바르지 않은 신뢰도와 만료는 기본값", () => {
+    const result = parseCsvIocList(
+      ["value,score,expires", "10.0.0.1,150,never", "10.0.0.2,-3,", "10.0.0.3,high,2024-08-01"].join("\n"),
+      OPTIONS,
+    )
+    expect(result.indicators.map(({ confidence, expiresAt }) => [confidence, expiresAt])).toEqual([
+      [100, DEFAULT_EXPIRY],
+      [0, DEFAULT_EXPIRY],
+      [50, new Date("2024-08-01")],
+    ])
+  })
+})
+
+describe("parseStixBundle", () => {
+  const indicator = (overrides: Record<string, unknown>) => ({
+    type: "indicator",
+    spec_version: "2.1",
+    pattern_type: "stix",
+    pattern: "[ipv4-addr:value = '203.0.113.7']",
+    ...overrides,
+  })
+  const bundle = (...objects: object[]) => JSON.stringify({ type: "bundle", id: "bundle--1", objects })
+
+  it("비교식의 IP, CIDR, 도메인 값과 confidence, valid_until, name을 읽음", () => {
+    const result = parseStixBundle(
+      bundle(
+        indicator({
+          name: "C2 서버",
+          confidence: 90,
+          valid_until: "2024-12-31T00:00:00Z",
+          pattern: "[ipv4-addr:value ISSUBSET '198.51.100.0/24'] OR [domain-name:value = 'c2.evil.example']",
+        }),
+        { type: "malware", name: "ignored" },
+        indicator({ pattern: "[ipv6-addr:value = '2001:db8::7']" }),
+      ),
+      OPTIONS,
+    )
+    expect(result.errors).toEqual([])
+    expect(values(result)).toEqual(["cidr:198.51.100.0/24", "domain:c2.evil.example", "ip:2001:db8::7"])
+    expect(result.indicators[0]).toMatchObject({
+      confidence: 90,
+      expiresAt: new Date("2024-12-31T00:00:00Z"),
+      description: "C2 서버",
+    })
+    expect(result.indicators[2]).toMatchObject({ confidence: 50, expiresAt: DEFAULT_EXPIRY })
+  })
+
+  it("철회된(revoked) 지표는 건너뛰고, valid_until이 없거나 올바르지 않으면 기본 만료", () => {
+    const result = parseStixBundle(
+      bundle(
+        indicator({ revoked: true, pattern: "[ipv4-addr:value = '192.0.2.1']" }),
+        indicator({ revoked: false, valid_until: "someday" }),
+      ),
+      OPTIONS,
+    )
+    expect(values(result)).toEqual(["ip:203.0.113.7"])
+    expect(result.indicators[0].expiresAt).toEqual(DEFAULT_EXPIRY)
+  })
+
+  it("지원하지 않는 패턴과 값이 없는 패턴은 객체 위치와 함께 보고", () => {
+    const result = parseStixBundle(
+      bundle(
+        indicator({ pattern_type: "sigma", pattern: "title: x" }),
+        indicator({ pattern: "[file:hashes.MD5 = 'abc']" }),
+        indicator({ pattern: "[domain-name:value = 'not a domain']" }),
+      ),
+      OPTIONS,
+    )
+    expect(result.indicators).toEqual([])
+    expect(result.errors).toEqual([
+      { location: "objects[0]", message: "지원하지 않는 패턴 형식입니다: sigma" },
+      { location: "objects[1]", message: "IP 또는 도메인 값을 비교하는 패턴이 아닙니다" },
+      { location: "objects[2]", message: "IP, CIDR, 도메인이 아닙니다: not a domain" },
+    ])
+  })
+
+  it("indicator 객체 하나도 읽고, JSON이나 번들이 아니면 오류", () => {
+    expect(values(parseStixBundle(JSON.stringify(indicator({})), OPTIONS))).toEqual(["ip:203.0.113.7"])
+    expect(parseStixBundle("{oops", OPTIONS).errors[0].message).toMatch(/^JSON 형식이 아닙니다/)
+    expect(parseStixBundle('{"type":"report"}', OPTIONS).errors).toEqual([
+      { location: "파일", message: "STIX 번들이 아닙니다" },
+    ])
+  })
+})
+
+describe("detectIocFormat", () => {
+  it("확장자와 내용으로 형식을 추정", () => {
+    expect(detectIocFormat("feed.json", "")).toBe("stix")
+    expect(detectIocFormat("feed.txt", '  {"type":"bundle"}')).toBe("stix")
+    expect(detectIocFormat("feed.csv", "203.0.113.1")).toBe("csv")
+    expect(detectIocFormat("feed.txt", "# a,b,c\n203.0.113.1\n")).toBe("plain")
+    expect(detectIocFormat("feed.txt", "# comment\n203.0.113.1,scanner\n")).toBe("csv")
+  })
+})
@@ -0,0 +1,229 @@
+/**
+ * 위협 인텔리전스 피드 파일을 지표(IOC) 목록으로 변환하는 파서
+ *
+ * 지원 형식:
+ * - plain: 한 줄에 IP, CIDR, 도메인 하나 (# 뒤는 주석)
+ * - csv: 머리글에서 값/신뢰도/만료/설명 열을 찾고, 머리글이 없으면 첫 열을 값으로 사용
+ *   (abuse.ch처럼 주석 줄에 적은 머리글도 인식)
+ * - stix: STIX 2.1 번들의 indicator 객체 (ipv4-addr, ipv6-addr, domain-name 값 비교 패턴)
+ *
+ * 1.2.3[.]4 같은 무력화(defang) 표기는 원래 값으로 되돌리며, 한 파일 안의 같은 값은 마지막 항목을 사용
+ *
+ * @module iocParsers
+ */
+import type { Indicator, IocFileFormat, IocType } from "../types/ioc"
+import { findCsvColumn, normalizeCsvHeader, splitCsvLine } from "./csv"
+import { formatIPv4, formatIPv6, ipToBytes, parseCidr } from "./ip"
+
+// 가져오기 옵션 (파일에 값이 없는 항목에 적용)
+export interface IocImportOptions {
+  source: string
+  confidence: number
+  expiresAt: Date | null
+  now?: Date
+}
+
+export interface IocParseError {
+  location: string // 오류 위치 (예: "3행", "objects[2]")
+  message: string
+}
+
+export interface IocParseResult {
+  indicators: Indicator[]
+  errors: IocParseError[]
+}
+
+const DOMAIN_PATTERN = /^(?=.{1,253}$)([a-z0-9_](?:[a-z0-9_-]{0,61}[a-z0-9])?\.)+[a-z][a-z0-9-]{0,62}$/
+
+// CSV 머리글에서 찾을 열 이름
+const VALUE_COLUMNS = ["indicator", "value", "ioc", "ioc_value", "ip", "ip_address", "dst_ip", "domain", "cidr"]
+const CONFIDENCE_COLUMNS = ["confidence", "confidence_level", "score"]
+const EXPIRY_COLUMNS = ["expires", "expires_at", "expiry", "valid_until"]
+const DESCRIPTION_COLUMNS = ["description", "comment", "name", "threat", "malware"]
+
+// STIX 패턴에서 값을 꺼낼 비교식 (예: [ipv4-addr:value = '203.0.113.7'])
+const STIX_COMPARISON = /(ipv4-addr|ipv6-addr|domain-name):value\s*(?:=|ISSUBSET)\s*'((?:[^'\\]|\\.)*)'/g
+
+// IP 주소를 바이트 길이에 맞는 표기로 정규화
+const formatBytes = (bytes: number[]) => (bytes.length === 4 ? formatIPv4(bytes) : formatIPv6(bytes))
+
+// 값의 종류를 판별하고 정규화 (지표로 쓸 수 없으면 null)
+export function normalizeIndicatorValue(raw: string): { type: IocType; value: string } | null {
+  const value = raw
+    .trim()
+    .replace(/^["']|["']$/g, "")
+    .replace(/\[\.\]|\(\.\)|\{\.\}/g, ".")
+    .replace(/\[:\]/g, ":")
+  if (!value) return null
+
+  if (value.includes("/")) {
+    const cidr = parseCidr(value)
+    if (!cidr) return null
+    const address = formatBytes(cidr.bytes)
+    return cidr.prefix === cidr.bytes.length * 8
+      ? { type: "ip", value: address }
+      : { type: "cidr", value: `${address}/${cidr.prefix}` }
+  }
+  const bytes = ipToBytes(value)
+  if (bytes) return { type: "ip", value: formatBytes(bytes) }
+
+  const domain = value.toLowerCase().replace(/^\*\./, "").replace(/\.$/, "")
+  return DOMAIN_PATTERN.test(domain) ? { type: "domain", value: domain } : null
+}
+
+// 파일 이름과 내용으로 형식을 추정
+export function detectIocFormat(fileName: string, text: string): IocFileFormat {
+  const name = fileName.toLowerCase()
+  const head = text.trimStart()
+  if (name.endsWith(".json") || head.startsWith("{")) return "stix"
+  if (name.endsWith(".csv")) return "csv"
+  const firstLine = head.split(/\r?\n/).find((line) => line.trim() && !line.trim().startsWith("#")) ?? ""
+  return firstLine.includes(",") ? "csv" : "plain"
+}
+
+// 0~100 범위의 신뢰도 (올바르지 않으면 기본값)
+const toConfidence = (value: unknown, fallback: number) => {
+  const number = value === null || (typeof value === "string" && value.trim() === "") ? NaN : Number(value)
+  return Number.isFinite(number) ? Math.min(100, Math.max(0, Math.round(number))) : fallback
+}
+
+// 만료 시각 (비어 있거나 올바르지 않으면 기본값)
+const toExpiry = (value: unknown, fallback: Date | null) => {
+  if (typeof value !== "string" || !value.trim()) return fallback
+  const date = new Date(value.trim())
+  return Number.isNaN(date.getTime()) ? fallback : date
+}
+
+// 지표 하나를 만듦
+const createIndicator = (
+  raw: string,
+  options: IocImportOptions,
+  fields: { confidence?: unknown; expiresAt?: unknown; description?: string } = {},
+): Indicator | null => {
+  const normalized = normalizeIndicatorValue(raw)
+  if (!normalized) return null
+  const description = fields.description?.trim()
+  return {
+    id: `${options.source}|${normalized.value}`,
+    ...normalized,
+    source: options.source,
+    confidence: toConfidence(fields.confidence, options.confidence),
+    expiresAt: toExpiry(fields.expiresAt, options.expiresAt),
+    addedAt: options.now ?? new Date(),
+    ...(description ? { description } : {}),
+  }
+}
+
+// 결과를 만들며 같은 값의 지표는 마지막 항목만 남김
+const toResult = (indicators: Indicator[], errors: IocParseError[]): IocParseResult => ({
+  indicators: Array.from(new Map(indicators.map((indicator) => [indicator.id, indicator])).values()),
+  errors,
+})
+
+// 한 줄에 하나씩 적은 목록을 파싱
+export function parsePlainIocList(text: string, options: IocImportOptions): IocParseResult {
+  const indicators: Indicator[] = []
+  const errors: IocParseError[] = []
+  text.split(/\r?\n/).forEach((line, index) => {
+    const value = line.replace(/[#;].*$/, "").trim()
+    if (!value) return
+    const indicator = createIndicator(value.split(/\s+/)[0], options)
+    if (indicator) indicators.push(indicator)
+    else errors.push({ location: `${index + 1}행`, message: `IP, CIDR, 도메인이 아닙니다: ${value}` })
+  })
+  return toResult(indicators, errors)
+}
+
+// 머리글 줄이면 열 이름 목록을 반환 (값 열이 없으면 null)
+const readHeader = (line: string) => {
+  const header = normalizeCsvHeader(splitCsvLine(line))
+  return findCsvColumn(header, VALUE_COLUMNS) >= 0 ? header : null
+}
+
+// CSV 목록을 파싱
+export function parseCsvIocList(text: string, options: IocImportOptions): IocParseResult {
+  const indicators: Indicator[] = []
+  const errors: IocParseError[] = []
+  let header: string[] | null = null
+  let lastComment = ""
+  let dataStarted = false
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim()
+    if (!trimmed) return
+    if (trimmed.startsWith("#")) {
+      lastComment = trimmed.slice(1)
+      return
+    }
+    if (!dataStarted) {
+      dataStarted = true
+      header = readHeader(trimmed)
+      if (header) return
+      header = lastComment ? readHeader(lastComment) : null // 주석 줄에 적은 머리글
+    }
+
+    const cells = splitCsvLine(trimmed)
+    const column = (names: string[]) => {
+      const position = header ? findCsvColumn(header, names) : -1
+      return position >= 0 ? cells[position] : undefined
+    }
+    const raw = header ? column(VALUE_COLUMNS) ?? "" : cells[0]
+    const indicator = createIndicator(raw, options, {
+      confidence: column(CONFIDENCE_COLUMNS),
+      expiresAt: column(EXPIRY_COLUMNS),
+      description: column(DESCRIPTION_COLUMNS),
+    })
+    if (indicator) indicators.push(indicator)
+    else errors.push({ location: `${index + 1}행`, message: `IP, CIDR, 도메인이 아닙니다: ${raw}` })
+  })
+  return toResult(indicators, errors)
+}
+
+// STIX 2.1 번들을 파싱
+export function parseStixBundle(text: string, options: IocImportOptions): IocParseResult {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch (error) {
+    return { indicators: [], errors: [{ location: "파일", message: `JSON 형식이 아닙니다: ${(error as Error).message}` }] }
+  }
+  const root = data as { type?: unknown; objects?: unknown }
+  const objects = Array.isArray(root?.objects) ? root.objects : root?.type === "indicator" ? [root] : null
+  if (!objects) return { indicators: [], errors: [{ location: "파일", message: "STIX 번들이 아닙니다" }] }
+
+  const indicators: Indicator[] = []
+  const errors: IocParseError[] = []
+  objects.forEach((object: Record<string, unknown>, index: number) => {
+    if (object?.type !== "indicator" || object.revoked === true) return
+    const location = `objects[${index}]`
+    if (object.pattern_type !== undefined && object.pattern_type !== "stix") {
+      errors.push({ location, message: `지원하지 않는 패턴 형식입니다: ${object.pattern_type}` })
+      return
+    }
+    const pattern = typeof object.pattern === "string" ? object.pattern : ""
+    const values = Array.from(pattern.matchAll(STIX_COMPARISON), (match) => match[2].replace(/\\(.)/g, "$1"))
+    if (values.length === 0) {
+      errors.push({ location, message: "IP 또는 도메인 값을 비교하는 패턴이 아닙니다" })
+      return
+    }
+    const name = typeof object.name === "string" ? object.name : undefined
+    const description = typeof object.description === "string" ? object.description : undefined
+    values.forEach((value) => {
+      const indicator = createIndicator(value, options, {
+        confidence: object.confidence,
+        expiresAt: object.valid_until,
+        description: name ?? description,
+      })
+      if (indicator) indicators.push(indicator)
+      else errors.push({ location, message: `IP, CIDR, 도메인이 아닙니다: ${value}` })
+    })
+  })
+  return toResult(indicators, errors)
+}
+
+// 형식에 맞는 파서로 파싱
+export function parseIocText(text: string, format: IocFileFormat, options: IocImportOptions): IocParseResult {
+  if (format === "stix") return parseStixBundle(text, options)
+  if (format === "csv") return parseCsvIocList(text, options)
+  return parsePlainIocList(text, options)
+}
@@ -0,0 +1,113 @@
+/**
+ * 가져온 위협 인텔리전스 지표(IOC)를 브라우저 IndexedDB에 보관하는 저장소
+ *
+ * - 기록 저장소(historyStore)와 별도의 데이터베이스를 사용하여 기록을 끄거나 보관 정책으로 정리해도 유지
+ * - 같은 피드의 같은 값을 다시 가져오면 덮어씀 (신뢰도와 만료 시각 갱신)
+ * - 바뀔 때마다 구독자(지표 비교 소스, 관리 화면)에게 전체 목록을 알림
+ * - IndexedDB를 사용할 수 없으면 페이지를 닫을 때까지 메모리에만 보관
+ *
+ * @module iocStore
+ */
+import type { Indicator } from "../types/ioc"
+import { requestToPromise, transactionDone } from "./historyStore"
+import { isIndicatorLive } from "./iocMatcher"
+
+const DB_NAME = "auto-guard-ioc"
+const DB_VERSION = 1
+const STORE_NAME = "indicators"
+
+type IndicatorListener = (indicators: Indicator[]) => void
+
+const listeners = new Set<IndicatorListener>()
+
+// 메모리에 둔 지표 (키: id)와 저장에 쓸 데이터베이스
+let shared: Promise<{ indicators: Map<string, Indicator>; db: IDBDatabase | null }> | null = null
+
+// 데이터베이스를 열고 지표 저장소를 만듦
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: "id" }).createIndex("source", "source")
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+// 저장된 지표를 한 번만 읽어 메모리에 둠
+const load = () => {
+  if (!shared) {
+    shared = (async () => {
+      if (typeof indexedDB === "undefined") return { indicators: new Map(), db: null }
+      try {
+        const db = await openDatabase()
+        const stored = await requestToPromise<Indicator[]>(
+          db.transaction(STORE_NAME, "readonly").objectStore(STORE_NAME).getAll(),
+        )
+        return { indicators: new Map(stored.map((indicator) => [indicator.id, indicator])), db }
+      } catch (error) {
+        console.warn("[ioc] 지표 저장소를 열지 못해 메모리에만 보관합니다", error)
+        return { indicators: new Map(), db: null }
+      }
+    })()
+  }
+  return shared
+}
+
+// 메모리와 데이터베이스를 함께 바꾸고 구독자에게 알림
+const update = async (change: (indicators: Map<string, Indicator>, store: IDBObjectStore | null) => void) => {
+  const { indicators, db } = await load()
+  const transaction = db?.transaction(STORE_NAME, "readwrite") ?? null
+  change(indicators, transaction?.objectStore(STORE_NAME) ?? null)
+  if (transaction) await transactionDone(transaction)
+  const snapshot = Array.from(indicators.values())
+  listeners.forEach((listener) => listener(snapshot))
+}
+
+// 저장된 지표 전체
+export async function loadIndicators(): Promise<Indicator[]> {
+  return Array.from((await load()).indicators.values())
+}
+
+// 지표를 추가 (같은 ID는 덮어씀)
+export function importIndicators(indicators: Indicator[]): Promise<void> {
+  return update((stored, store) => {
+    for (const indicator of indicators) {
+      stored.set(indicator.id, indicator)
+      store?.put(indicator)
+    }
+  })
+}
+
+// 피드 하나의 지표를 모두 삭제
+export function removeIndicatorSource(source: string): Promise<void> {
+  return update((stored, store) => {
+    stored.forEach((indicator, id) => {
+      if (indicator.source !== source) return
+      stored.delete(id)
+      store?.delete(id)
+    })
+  })
+}
+
+// 만료된 지표를 삭제
+export function removeExpiredIndicators(now = new Date()): Promise<void> {
+  return update((stored, store) => {
+    stored.forEach((indicator, id) => {
+      if (isIndicatorLive(indicator, now)) return
+      stored.delete(id)
+      store?.delete(id)
+    })
+  })
+}
+
+// 지표 목록 변경을 구독하고, 구독 해제 함수를 반환
+export function subscribeIndicators(listener: IndicatorListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * 다른 텔레메트리 소스를 감싸 로그 주소를 위협 인텔리전스 지표(IOC)와 비교하는 어댑터
+ *
+ * - 시작 시 지표 저장소(iocStore)를 불러와 비교기를 만들고, 지표가 바뀌면 다시 만듦
+ * - 일치한 로그에는 iocMatches를 붙여 전달하고, 주소를 알려주는 흐름에는 ioc 표시를 붙임
+ * - 로그 묶음마다 일치한 주소별로 알림 하나를 alerts 채널로 발행 (알림 센터에서 주소별로 묶임)
+ *
+ * @module iocTelemetrySource
+ */
+import type { TelemetryChannel, TelemetrySource } from "../types/telemetry"
+import { createIocMatcher, markIocFlows, matchLogBatch, type IocMatcher } from "./iocMatcher"
+import { loadIndicators, subscribeIndicators } from "./iocStore"
+import { createTelemetryEmitter } from "./telemetryEmitter"
+
+// 평가 없이 그대로 전달하는 채널
+const PASSTHROUGH_CHANNELS: TelemetryChannel[] = ["traffic", "resources", "ports", "system", "alerts"]
+
+// 지표 비교 소스를 생성하는 함수
+export function createIocTelemetrySource(source: TelemetrySource): TelemetrySource {
+  const emitter = createTelemetryEmitter()
+  let matcher: IocMatcher = createIocMatcher([])
+  let unsubscribes: (() => void)[] = []
+
+  const connect = () => {
+    unsubscribes = [
+      ...PASSTHROUGH_CHANNELS.map((channel) =>
+        source.subscribe(channel, (payload) => emitter.emit(channel, payload)),
+      ),
+      source.subscribe("logs", (logs) => {
+        const { logs: enriched, alerts } = matchLogBatch(matcher, logs)
+        emitter.emit("logs", enriched)
+        alerts.forEach((alert) => emitter.emit("alerts", alert))
+      }),
+      source.subscribe("flows", (flows) => {
+        emitter.emit("flows", markIocFlows(matcher, flows))
+      }),
+      subscribeIndicators((indicators) => {
+        matcher = createIocMatcher(indicators)
+      }),
+    ]
+  }
+
+  return {
+    kind: source.kind,
+    start() {
+      if (unsubscribes.length > 0) return // 이미 시작된 경우 무시
+      connect()
+      loadIndicators()
+        .then((indicators) => {
+          if (unsubscribes.length > 0) matcher = createIocMatcher(indicators)
+        })
+        .catch((error) => console.warn("[ioc] 위협 인텔리전스 지표를 불러오지 못했습니다", error))
+      source.start()
+    },
+    stop() {
+      unsubscribes.forEach((unsubscribe) => unsubscribe())
+      unsubscribes = []
+      source.stop()
+    },
+    subscribe: emitter.subscribe,
+  }
+}
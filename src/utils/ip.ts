@@ -0,0 +1,154 @@
+/**
+ * IP 주소를 다루는 유틸리티 함수
+ *
+ * @module ip
+ */
+
+const IPV4_PATTERN = /^(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(\.(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)){3}$/
+
+// IPv4 주소인지 확인
+export function isIPv4(value: string): boolean {
+  return IPV4_PATTERN.test(value)
+}
+
+// IPv6 주소인지 확인 (:: 축약과 IPv4 매핑 표기 포함)
+export function isIPv6(value: string): boolean {
+  if (!value.includes(":")) return false
+  const [address] = value.split("%") // 존 인덱스 제거 (fe80::1%eth0)
+  if ((address.match(/::/g) || []).length > 1) return false
+
+  let groups = address.split(":")
+  const last = groups[groups.length - 1]
+  let expected = 8
+  if (last.includes(".")) {
+    if (!isIPv4(last)) return false
+    groups = groups.slice(0, -1)
+    expected = 6
+  }
+  const filled = groups.filter((group) => group !== "")
+  if (!filled.every((group) => /^[0-9a-fA-F]{1,4}$/.test(group))) return false
+  return address.includes("::") ? filled.length < expected : filled.length === expected
+}
+
+// IPv4 또는 IPv6 주소인지 확인
+export function isIPAddress(value: string): boolean {
+  return isIPv4(value) || isIPv6(value)
+}
+
+// IPv4 주소를 4바이트 배열로 변환
+const ipv4ToBytes = (value: string): number[] => value.split(".").map(Number)
+
+// IPv6 주소를 16바이트 배열로 변환
+const ipv6ToBytes = (value: string): number[] => {
+  let [address] = value.split("%")
+  let tail: number[] = []
+  // IPv4 매핑 표기(::ffff:1.2.3.4)의 마지막 32비트 처리
+  const lastColon = address.lastIndexOf(":")
+  if (address.slice(lastColon + 1).includes(".")) {
+    tail = ipv4ToBytes(address.slice(lastColon + 1))
+    address = `${address.slice(0, lastColon + 1)}0:0`
+  }
+  const [head, rest = ""] = address.split("::")
+  const headGroups = head ? head.split(":") : []
+  const restGroups = address.includes("::") && rest ? rest.split(":") : []
+  const zeros = new Array(8 - headGroups.length - restGroups.length).fill("0")
+  const groups = address.includes("::") ? [...headGroups, ...zeros, ...restGroups] : headGroups
+  const bytes = groups.flatMap((group) => {
+    const word = parseInt(group, 16)
+    return [word >> 8, word & 0xff]
+  })
+  if (tail.length) bytes.splice(12, 4, ...tail)
+  return bytes
+}
+
+// IP 주소를 바이트 배열로 변환 (올바르지 않으면 null)
+export function ipToBytes(value: string): number[] | null {
+  if (isIPv4(value)) return ipv4ToBytes(value)
+  if (isIPv6(value)) return ipv6ToBytes(value)
+  return null
+}
+
+// 바이트 배열을 IPv4 주소 문자열로 변환
+export function formatIPv4(bytes: ArrayLike<number>): string {
+  return `${bytes[0]}.${bytes[1]}.${bytes[2]}.${bytes[3]}`
+}
+
+// 바이트 배열을 축약된 IPv6 주소 문자열로 변환 (RFC 5952)
+export function formatIPv6(bytes: ArrayLike<number>): string {
+  const groups: number[] = []
+  for (let i = 0; i < 16; i += 2) groups.push((bytes[i] << 8) | bytes[i + 1])
+
+  // 가장 긴 0 그룹 구간을 찾아 ::로 축약
+  let bestStart = -1
+  let bestLength = 0
+  for (let i = 0; i < 8; ) {
+    if (groups[i] !== 0) {
+      i++
+      continue
+    }
+    let j = i
+    while (j < 8 && groups[j] === 0) j++
+    if (j - i > bestLength && j - i > 1) {
+      bestStart = i
+      bestLength = j - i
+    }
+    i = j
+  }
+
+  const hex = groups.map((group) => group.toString(16))
+  if (bestStart < 0) return hex.join(":")
+  const head = hex.slice(0, bestStart).join(":")
+  const tail = hex.slice(bestStart + bestLength).join(":")
+  return `${head}::${tail}`
+}
+
+// CIDR 대역 (예: 10.0.0.0/8, fc00::/7)
+export interface Cidr {
+  bytes: number[]
+  prefix: number
+}
+
+// CIDR 문자열을 파싱 (접두사가 없으면 단일 주소), 올바르지 않으면 null
+export function parseCidr(value: string): Cidr | null {
+  const [address, prefixText] = value.trim().split("/")
+  const bytes = ipToBytes(address)
+  if (!bytes) return null
+  const maxPrefix = bytes.length * 8
+  if (prefixText !== undefined && !/^\d+$/.test(prefixText)) return null
+  const prefix = prefixText === undefined ? maxPrefix : Number(prefixText)
+  if (prefix > maxPrefix) return null
+  return { bytes, prefix }
+}
+
+// IP 주소가 CIDR 대역에 포함되는지 확인
+export function cidrContains(cidr: Cidr, ip: string | number[]): boolean {
+  const bytes = typeof ip === "string" ? ipToBytes(ip) : ip
+  if (!bytes || bytes.length !== cidr.bytes.length) return false
+
+  const fullBytes = Math.floor(cidr.prefix / 8)
+  for (let i = 0; i < fullBytes; i++) {
+    if (bytes[i] !== cidr.bytes[i]) return false
+  }
+  const remainingBits = cidr.prefix % 8
+  if (remainingBits === 0) return true
+  const mask = (0xff << (8 - remainingBits)) & 0xff
+  return (bytes[fullBytes] & mask) === (cidr.bytes[fullBytes] & mask)
+}
+
+// 내부망으로 간주하는 대역 (사설, 루프백, 링크 로컬, ULA)
+export const LOCAL_NETWORKS: Cidr[] = [
+  "10.0.0.0/8",
+  "172.16.0.0/12",
+  "192.168.0.0/16",
+  "127.0.0.0/8",
+  "169.254.0.0/16",
+  "::1/128",
+  "fc00::/7",
+  "fe80::/10",
+].map((value) => parseCidr(value)!)
+
+// 내부망 주소인지 확인
+export function isLocalAddress(ip: string, networks: Cidr[] = LOCAL_NETWORKS): boolean {
+  const bytes = ipToBytes(ip)
+  return !!bytes && networks.some((cidr) => cidrContains(cidr, bytes))
+}
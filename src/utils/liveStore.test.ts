@@ -0,0 +1,100 @@
+import { describe, expect, it } from "@jest/globals"
+import { AttackCategory, type LogEntry } from "../types/log"
+import { createLiveLogFilter, type LiveLogs } from "./liveStore"
+import { createLogCounter } from "./logStatistics"
+import { createRingBuffer } from "./ringBuffer"
+import { createLog } from "./testLogs"
+
+const isMalicious = (log: LogEntry) => log.type === "malicious"
+
+// 로그 id의 순번이 3의 배수이면 악성
+const logAt = (sequence: number) =>
+  sequence % 3 === 0
+    ? createLog({ id: `log-${sequence}`, type: "malicious", attack: AttackCategory.PortScan })
+    : createLog({ id: `log-${sequence}` })
+
+// 저장소처럼 묶음을 원형 버퍼에 넣고 새 LiveLogs를 만드는 도우미 (묶음의 앞쪽이 최신)
+const createLiveLogs = (capacity: number) => {
+  let logs: LiveLogs = {
+    version: 0,
+    total: 0,
+    buffer: createRingBuffer<LogEntry>(capacity),
+    counter: createLogCounter(60_000),
+  }
+  return {
+    ingest(count: number) {
+      const batch = Array.from({ length: count }, (_, i) => logAt(logs.total + count - 1 - i))
+      logs.buffer.push([...batch].reverse())
+      logs = { ...logs, version: logs.version + 1, total: logs.total + count }
+      return logs
+    },
+  }
+}
+
+// 버퍼 전체를 평가한 기대 결과
+const expected = (logs: LiveLogs, matches: (log: LogEntry) => boolean) => logs.buffer.toArray().filter(matches)
+
+describe("createLiveLogFilter", () => {
+  it("새로 들어온 묶음만 평가하여 최신순으로 앞에 붙임", () => {
+    const live = createLiveLogs(10)
+    const filter = createLiveLogFilter(isMalicious)
+    expect(filter.update(live.ingest(4)).map((log) => log.id)).toEqual(["log-3", "log-0"])
+    expect(filter.update(live.ingest(3)).map((log) => log.id)).toEqual(["log-6", "log-3", "log-0"])
+  })
+
+  it("새로 일치한 로그도 밀려난 로그도 없으면 같은 배열을 반환", () => {
+    const live = createLiveLogs(10)
+    const filter = createLiveLogFilter(isMalicious)
+    const first = filter.update(live.ingest(2))
+    const logs = live.ingest(2) // log-2, log-3 중 log-3이 일치
+    const second = filter.update(logs)
+    expect(second).not.toBe(first)
+    expect(filter.update(logs)).toBe(second)
+    expect(filter.update(live.ingest(2))).toBe(second) // log-4, log-5는 일치하지 않음
+  })
+
+  it("버퍼가 돌아 일치한 로그가 밀려나면 결과에서도 덜어냄", () => {
+    const live = createLiveLogs(5)
+    const filter = createLiveLogFilter(isMalicious)
+    filter.update(live.ingest(5)) // log-0 ~ log-4
+    const logs = live.ingest(2) // log-0, log-1이 밀려남
+    expect(filter.update(logs).map((log) => log.id)).toEqual(["log-6", "log-3"])
+
+    // 새로 일치한 로그 없이 일치한 로그만 밀려나도 새 배열로 덜어냄
+    const before = filter.update(live.ingest(1)) // log-7이 들어오고 log-2가 밀려남
+    const after = filter.update(live.ingest(2)) // log-8, log-9가 들어오고 log-3, log-4가 밀려남
+    expect(after.map((log) => log.id)).toEqual(["log-9", "log-6"])
+    expect(before.map((log) => log.id)).toEqual(["log-6", "log-3"])
+  })
+
+  it("그사이 버퍼 크기보다 많이 들어오거나 버퍼가 바뀌면 전체를 다시 평가", () => {
+    const live = createLiveLogs(5)
+    const filter = createLiveLogFilter(isMalicious)
+    filter.update(live.ingest(3))
+    const logs = live.ingest(12) // log-10 ~ log-14만 남음
+    expect(filter.update(logs).map((log) => log.id)).toEqual(["log-12"])
+
+    const other = createLiveLogs(5)
+    expect(filter.update(other.ingest(1)).map((log) => log.id)).toEqual(["log-0"])
+  })
+
+  it("조건이 바뀌면 새 필터가 지금 보관 중인 로그 전체를 평가", () => {
+    const live = createLiveLogs(8)
+    const malicious = createLiveLogFilter(isMalicious)
+    malicious.update(live.ingest(6))
+    const logs = live.ingest(4)
+
+    const normal = createLiveLogFilter((log) => log.type === "normal")
+    expect(normal.update(logs)).toEqual(expected(logs, (log) => log.type === "normal"))
+    expect(malicious.update(logs)).toEqual(expected(logs, isMalicious))
+  })
+
+  it("여러 크기의 묶음이 이어져도 항상 버퍼 전체를 평가한 결과와 같음", () => {
+    const live = createLiveLogs(7)
+    const filter = createLiveLogFilter(isMalicious)
+    for (const count of [1, 3, 6, 2, 7, 1, 1, 9, 4, 5, 2, 8, 3]) {
+      const logs = live.ingest(count)
+      expect(filter.update(logs)).toEqual(expected(logs, isMalicious))
+    }
+  })
+})
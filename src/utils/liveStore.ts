@@ -0,0 +1,230 @@
+/**
+ * 대시보드 위젯이 함께 쓰는 실시간 데이터 저장소
+ *
+ * - 텔레메트리 소스의 로그, 트래픽, 기준선, 흐름, 장비 지표를 한 번만 구독하여 보관
+ * - 1초마다 도는 하나의 시계(now)로 기간 통계처럼 시간이 흐르면 바뀌는 값을 계산
+ * - 위젯은 선택자(selector)로 필요한 값만 꺼내고, 값이 바뀔 때만 다시 렌더링
+ * - 파생 값(최신순 로그 배열, 기간별 로그 수)은 createLiveSelector로 한 번만 계산하여 여러 위젯이 공유
+ * - 조건에 맞는 로그 목록은 createLiveLogFilter로 새로 들어온 묶음만 평가하여 유지 (버퍼 전체를 복사하지 않음)
+ *
+ * React에서는 subscribe/getSnapshot으로 useSyncExternalStore에 연결
+ *
+ * @module liveStore
+ */
+import type { LogEntry } from "../types/log"
+import type {
+  FlowEntry,
+  PortStatus,
+  ResourceMetrics,
+  SystemInfo,
+  TelemetrySource,
+  TrafficBaselinePoint,
+  TrafficSample,
+} from "../types/telemetry"
+import { createLogCounter, type LogCounter, type LogCounts } from "./logStatistics"
+import { createRingBuffer, type RingBuffer } from "./ringBuffer"
+
+// 실시간 로그를 보관하는 최대 건수
+export const LIVE_LOG_CAPACITY = 200_000
+
+// 트래픽 그래프에 표시하는 최근 샘플 수
+export const LIVE_TRAFFIC_POINTS = 30
+
+// 기간별 로그 수를 보관하는 기간 (통계 차트의 가장 긴 기간)
+export const LOG_COUNT_RETENTION_MS = 60 * 60 * 1000
+
+// 시계가 움직이는 간격 (ms)
+const CLOCK_INTERVAL_MS = 1000
+
+// 보관 중인 실시간 로그 (buffer는 계속 바뀌므로 version이 바뀔 때 다시 읽음)
+export interface LiveLogs {
+  version: number
+  total: number // 지금까지 들어온 로그 수
+  buffer: RingBuffer<LogEntry> // 최신순
+  counter: LogCounter // 1초 구간별 유형/국가 로그 수
+}
+
+export interface LiveState {
+  now: number // 저장소 시계 (ms)
+  logs: LiveLogs
+  traffic: TrafficSample[] // 최근 LIVE_TRAFFIC_POINTS개
+  baseline: TrafficBaselinePoint[] // 트래픽 샘플과 같은 개수
+  flows: FlowEntry[]
+  resources: ResourceMetrics | null // 아직 받지 못했으면 null
+  ports: PortStatus[]
+  system: SystemInfo | null
+}
+
+export type LiveSelector<T> = (state: LiveState) => T
+
+export interface LiveStore {
+  getSnapshot(): LiveState
+  subscribe(listener: () => void): () => void
+  connect(source: TelemetrySource): () => void // 소스의 채널을 구독하고 시계를 시작, 해제 함수를 반환
+}
+
+// 트래픽 샘플이 올바른 형태인지 확인
+const isTrafficSample = (sample: TrafficSample | null | undefined): sample is TrafficSample =>
+  !!sample && typeof sample.inbound === "number" && typeof sample.outbound === "number" && sample.time instanceof Date
+
+// 저장소를 생성하는 함수
+export function createLiveStore(): LiveStore {
+  const listeners = new Set<() => void>()
+  let state: LiveState = {
+    now: Date.now(),
+    logs: {
+      version: 0,
+      total: 0,
+      buffer: createRingBuffer<LogEntry>(LIVE_LOG_CAPACITY),
+      counter: createLogCounter(LOG_COUNT_RETENTION_MS),
+    },
+    traffic: [],
+    baseline: [],
+    flows: [],
+    resources: null,
+    ports: [],
+    system: null,
+  }
+
+  // 바뀐 부분만 새 값으로 바꾼 상태를 만들고 구독자에게 알림
+  const update = (patch: Partial<LiveState>) => {
+    state = { ...state, ...patch }
+    listeners.forEach((listener) => listener())
+  }
+
+  const ingestLogs = (logs: LogEntry[]) => {
+    if (!Array.isArray(logs) || logs.length === 0) return
+    const { buffer, counter, version, total } = state.logs
+    // 배열의 앞쪽 로그가 가장 최신이 되도록 뒤에서부터 추가
+    buffer.push([...logs].reverse())
+    counter.add(logs)
+    update({ logs: { buffer, counter, version: version + 1, total: total + logs.length } })
+  }
+
+  return {
+    getSnapshot: () => state,
+    subscribe(listener) {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+    connect(source) {
+      const unsubscribes = [
+        source.subscribe("logs", ingestLogs),
+        source.subscribe("traffic", (sample) => {
+          if (isTrafficSample(sample)) update({ traffic: [...state.traffic.slice(1 - LIVE_TRAFFIC_POINTS), sample] })
+        }),
+        source.subscribe("baseline", (point) =>
+          update({ baseline: [...state.baseline.slice(1 - LIVE_TRAFFIC_POINTS), point] }),
+        ),
+        source.subscribe("flows", (flows) => update({ flows: flows || [] })),
+        source.subscribe("resources", (resources) => update({ resources })),
+        source.subscribe("ports", (ports) => update({ ports })),
+        source.subscribe("system", (system) => update({ system })),
+      ]
+      const clock = setInterval(() => update({ now: Date.now() }), CLOCK_INTERVAL_MS)
+      return () => {
+        unsubscribes.forEach((unsubscribe) => unsubscribe())
+        clearInterval(clock)
+      }
+    },
+  }
+}
+
+// 입력 값(inputs)이 모두 같으면 마지막 결과를 다시 쓰는 파생 선택자를 만듦
+export function createLiveSelector<T>(inputs: LiveSelector<unknown[]>, compute: LiveSelector<T>): LiveSelector<T> {
+  let lastInputs: unknown[] | null = null
+  let lastResult: T
+  return (state) => {
+    const next = inputs(state)
+    if (lastInputs && next.length === lastInputs.length && next.every((value, i) => Object.is(value, lastInputs![i]))) {
+      return lastResult
+    }
+    lastInputs = next
+    lastResult = compute(state)
+    return lastResult
+  }
+}
+
+// ---------------------------------------------------------------------------
+// 선택자
+// ---------------------------------------------------------------------------
+
+export const selectNow: LiveSelector<number> = (state) => state.now
+export const selectTraffic: LiveSelector<TrafficSample[]> = (state) => state.traffic
+export const selectBaseline: LiveSelector<TrafficBaselinePoint[]> = (state) => state.baseline
+export const selectFlows: LiveSelector<FlowEntry[]> = (state) => state.flows
+export const selectResources: LiveSelector<ResourceMetrics | null> = (state) => state.resources
+export const selectPorts: LiveSelector<PortStatus[]> = (state) => state.ports
+export const selectSystem: LiveSelector<SystemInfo | null> = (state) => state.system
+export const selectLogTotal: LiveSelector<number> = (state) => state.logs.total
+export const selectLiveLogs: LiveSelector<LiveLogs> = (state) => state.logs
+
+// 보관 중인 실시간 로그 (최신순, 로그가 들어올 때만 새 배열을 만듦)
+export const selectLogs: LiveSelector<LogEntry[]> = createLiveSelector(
+  (state) => [state.logs.version],
+  (state) => state.logs.buffer.toArray(),
+)
+
+// 최근 windowMs 동안의 유형별, 출발 국가별 로그 수 (로그가 들어오거나 시계가 움직일 때 다시 계산)
+export const createLogCountsSelector = (windowMs: number): LiveSelector<LogCounts> =>
+  createLiveSelector(
+    (state) => [state.logs.version, state.now],
+    (state) => state.logs.counter.counts(windowMs, state.now),
+  )
+
+// ---------------------------------------------------------------------------
+// 조건에 맞는 실시간 로그
+// ---------------------------------------------------------------------------
+
+export interface LiveLogFilter {
+  // 보관 중인 로그 중 조건에 맞는 로그 (최신순)
+  update(logs: LiveLogs): LogEntry[]
+}
+
+// 조건에 맞는 로그 목록을 유지하는 필터를 생성하는 함수 (조건이 바뀌면 새로 생성)
+// - 지난 호출 이후 들어온 묶음만 평가하여 앞에 붙이고, 버퍼에서 밀려난 로그는 뒤에서 덜어냄
+// - 처음 호출하거나 그사이 버퍼 크기보다 많이 들어왔으면 버퍼 전체를 평가
+export function createLiveLogFilter(matches: (log: LogEntry) => boolean): LiveLogFilter {
+  let buffer: RingBuffer<LogEntry> | null = null
+  let total = 0 // 마지막으로 반영한 로그 수
+  let result: LogEntry[] = []
+  let sequences: number[] = [] // result의 로그별 순번 (0부터, 들어온 순서)
+
+  // 버퍼의 최신 count개를 평가 (순번은 전체 로그 수 기준)
+  const collect = (logs: LiveLogs, count: number) => {
+    const matched: LogEntry[] = []
+    const matchedSequences: number[] = []
+    for (let index = 0; index < count; index++) {
+      const log = logs.buffer.at(index)!
+      if (!matches(log)) continue
+      matched.push(log)
+      matchedSequences.push(logs.total - 1 - index)
+    }
+    return { matched, matchedSequences }
+  }
+
+  return {
+    update(logs) {
+      if (buffer === logs.buffer && logs.total === total) return result
+      const added = logs.total - total
+      const incremental = buffer === logs.buffer && added > 0 && added <= logs.buffer.size()
+      const { matched, matchedSequences } = collect(logs, incremental ? added : logs.buffer.size())
+      const oldest = logs.total - logs.buffer.size()
+      buffer = logs.buffer
+      total = logs.total
+      // 새로 일치한 로그도, 밀려난 로그도 없으면 같은 배열을 그대로 반환 (메모이제이션 유지)
+      const expired = sequences.length > 0 && sequences[sequences.length - 1] < oldest
+      if (incremental && matched.length === 0 && !expired) return result
+      result = incremental ? matched.concat(result) : matched
+      sequences = incremental ? matchedSequences.concat(sequences) : matchedSequences
+      // 버퍼에서 밀려난 로그를 덜어냄
+      let kept = sequences.length
+      while (kept > 0 && sequences[kept - 1] < oldest) kept--
+      result.length = kept
+      sequences.length = kept
+      return result
+    },
+  }
+}
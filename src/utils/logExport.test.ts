@@ -0,0 +1,107 @@
+import { describe, expect, it } from "@jest/globals"
+import { ATTACK_CATEGORIES, AttackCategory, type LogEntry } from "../types/log"
+import {
+  exportFileName,
+  formatTimestamp,
+  logToCefLine,
+  logToCsvRow,
+  logToNdjsonLine,
+  serializeLogs,
+  type LogExportOptions,
+} from "./logExport"
+import { parseLogText } from "./logParsers"
+import { createLog } from "./testLogs"
+
+const TIME = new Date("2024-05-01T00:30:00.250Z")
+
+// 가져오기로 다시 읽었을 때 비교할 필드 (ID는 새로 부여됨)
+const withoutId = ({ id, ...fields }: LogEntry) => fields
+
+// 직렬화한 조각을 모두 이어 붙임
+const collect = async (logs: LogEntry[], options: LogExportOptions, chunkSize?: number) => {
+  let text = ""
+  for await (const chunk of serializeLogs(logs, options, chunkSize)) text += chunk.text
+  return text
+}
+
+describe("formatTimestamp", () => {
+  it("시간대의 오프셋을 붙인 ISO 8601 형식", () => {
+    expect(formatTimestamp(TIME, "UTC")).toBe("2024-05-01T00:30:00.250Z")
+    expect(formatTimestamp(TIME, "Asia/Seoul")).toBe("2024-05-01T09:30:00.250+09:00")
+    expect(formatTimestamp(TIME, "America/New_York")).toBe("2024-04-30T20:30:00.250-04:00")
+  })
+})
+
+describe("logToCsvRow", () => {
+  it("쉼표, 따옴표, 줄바꿈이 있는 값은 따옴표로 감싸고 따옴표를 두 번 씀", () => {
+    const log = createLog({ id: 'a,"b"', timestamp: TIME, protocol: "TCP\nUDP" })
+    expect(logToCsvRow(log, "UTC")).toBe(
+      '"a,""b""",2024-05-01T00:30:00.250Z,203.0.113.7,50000,10.0.0.5,443,"TCP\nUDP",normal,,정상,10',
+    )
+  })
+
+  it.each(["=HYPERLINK(\"x\")", "+1+1", "-2+3", "@SUM(A1)", "\tcmd", "\rcmd"])(
+    "수식으로 시작하는 값 %j 앞에 '를 붙임",
+    (protocol) => {
+      const cells = logToCsvRow(createLog({ protocol }), "UTC")
+      expect(cells).toContain(`'${protocol.replace(/"/g, '""')}`)
+      expect(cells).not.toMatch(/,"?[=+\-@\t\r]/)
+    },
+  )
+
+  it("숫자와 중간에 있는 기호는 그대로", () => {
+    const row = logToCsvRow(createLog({ id: "a=b", protocol: "ICMP-v6", trafficVolume: 0.5 }), "UTC")
+    expect(row.split(",")).toEqual(expect.arrayContaining(["a=b", "ICMP-v6", "0.5"]))
+  })
+})
+
+describe("serializeLogs", () => {
+  it("CSV는 BOM과 머리글 행 뒤에 CRLF로 행을 나누고, 조각마다 로그 수를 알려 줌", async () => {
+    const logs = [createLog({ id: "1" }), createLog({ id: "2" }), createLog({ id: "3" })]
+    const chunks = []
+    for await (const chunk of serializeLogs(logs, { format: "csv", timeZone: "UTC" }, 2)) chunks.push(chunk)
+    expect(chunks.map((chunk) => chunk.count)).toEqual([0, 2, 1])
+    expect(chunks[0].text).toMatch(/^﻿id,timestamp,sourceIP,/)
+    expect(chunks[1].text.split("\r\n")).toHaveLength(3)
+  })
+
+  it("NDJSON은 가져오기로 같은 로그를 다시 읽음", async () => {
+    const logs = [
+      createLog({ id: "n", timestamp: TIME }),
+      createLog({ id: "m", timestamp: TIME, type: "malicious", attack: AttackCategory.Xss, trafficVolume: 3.5 }),
+      createLog({ id: "v", timestamp: TIME, type: "novel", sourceIP: "2001:db8::7", protocol: "UDP" }),
+    ]
+    const text = await collect(logs, { format: "ndjson", timeZone: "Asia/Seoul" })
+    const { entries, errors } = parseLogText(text, "auto")
+    expect(errors).toEqual([])
+    expect(entries.map(withoutId)).toEqual(logs.map(withoutId))
+  })
+
+  it("CEF는 주소, 포트, 용량, 분류를 다시 읽음", async () => {
+    const logs = [
+      createLog({ timestamp: TIME, protocol: "SSH", destinationPort: 22 }),
+      createLog({ timestamp: TIME, type: "novel", trafficVolume: 2 }),
+      ...ATTACK_CATEGORIES.map((attack) => createLog({ timestamp: TIME, type: "malicious", attack })),
+    ]
+    const text = await collect(logs, { format: "cef", timeZone: "UTC" })
+    const { entries, errors } = parseLogText(text, "cef")
+    expect(errors).toEqual([])
+    expect(entries.map(withoutId)).toEqual(logs.map(withoutId))
+  })
+})
+
+describe("logToNdjsonLine / logToCefLine", () => {
+  it("CEF 확장 필드의 = 와 \\ 를 이스케이프", () => {
+    const line = logToCefLine(createLog({ protocol: "a=b\\c" }), "UTC")
+    expect(line).toContain("proto=a\\=b\\\\c ")
+    expect(JSON.parse(logToNdjsonLine(createLog({ timestamp: TIME }), "UTC")).timestamp).toBe(
+      "2024-05-01T00:30:00.250Z",
+    )
+  })
+})
+
+describe("exportFileName", () => {
+  it("형식별 확장자와 시각", () => {
+    expect(exportFileName("ndjson", new Date(2024, 4, 1, 9, 5, 7))).toBe("auto-guard-logs-20240501-090507.ndjson")
+  })
+})
@@ -0,0 +1,251 @@
+/**
+ * 로그를 CSV, NDJSON, CEF 파일로 내보내는 함수들
+ *
+ * - 시간은 선택한 시간대의 ISO 8601 형식(오프셋 포함)으로 기록
+ * - 분류는 type(normal | malicious | novel)과 attack(공격 유형) 필드로 기록하므로
+ *   내보낸 NDJSON과 CEF 파일은 로그 가져오기로 다시 읽을 수 있음
+ * - CSV는 스프레드시트가 수식으로 실행하지 않도록 =, +, -, @, 탭, CR로 시작하는 값 앞에 '를 붙임
+ * - 수십만 건을 내보낼 때 화면이 멈추지 않도록 일정 건수마다 이벤트 루프에 양보하며 조각 단위로 생성
+ *
+ * @module logExport
+ */
+import type { LogEntry } from "../types/log"
+import { ATTACK_CATEGORY_LABELS, getLogLabel } from "./logLabels"
+
+export type ExportFormat = "csv" | "ndjson" | "cef"
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: "CSV",
+  ndjson: "NDJSON",
+  cef: "CEF",
+}
+
+// 형식별 파일 확장자와 MIME 타입
+const EXPORT_FILE_TYPES: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  csv: { extension: "csv", mimeType: "text/csv;charset=utf-8" },
+  ndjson: { extension: "ndjson", mimeType: "application/x-ndjson" },
+  cef: { extension: "cef", mimeType: "text/plain;charset=utf-8" },
+}
+
+// 내보내기에서 선택할 수 있는 시간대 ("local"은 브라우저 시간대)
+export const EXPORT_TIME_ZONES = ["local", "UTC", "Asia/Seoul", "Asia/Tokyo", "Europe/London", "America/New_York"]
+
+export interface LogExportOptions {
+  format: ExportFormat
+  timeZone: string
+}
+
+export interface LogExportProgress {
+  written: number
+  total: number
+}
+
+// 한 번에 직렬화할 로그 수 (조각 사이마다 이벤트 루프에 양보)
+const EXPORT_CHUNK_SIZE = 5000
+
+const CSV_COLUMNS = [
+  "id",
+  "timestamp",
+  "sourceIP",
+  "sourcePort",
+  "destinationIP",
+  "destinationPort",
+  "protocol",
+  "type",
+  "attack",
+  "label",
+  "trafficVolumeKB",
+]
+
+// CEF 헤더의 제품 정보와 분류별 심각도
+const CEF_VENDOR = "Auto-Guard|Auto-Guard|1.0"
+const CEF_SEVERITY = { normal: 1, malicious: 9, novel: 8 }
+
+// "local"을 실제 시간대 이름으로 변환
+export const resolveTimeZone = (timeZone: string) =>
+  timeZone === "local" ? Intl.DateTimeFormat().resolvedOptions().timeZone : timeZone
+
+// 시간대별 날짜 포맷터 (생성 비용이 커서 재사용)
+const formatters = new Map<string, Intl.DateTimeFormat>()
+const getFormatter = (timeZone: string) => {
+  let formatter = formatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    })
+    formatters.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, "0")
+
+// 시간을 지정한 시간대의 ISO 8601 문자열로 변환 (예: 2024-05-01T09:30:00.000+09:00)
+export function formatTimestamp(date: Date, timeZone: string): string {
+  const zone = resolveTimeZone(timeZone)
+  if (zone === "UTC") return date.toISOString()
+
+  const parts: Record<string, number> = {}
+  for (const part of getFormatter(zone).formatToParts(date)) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value)
+  }
+  const milliseconds = date.getUTCMilliseconds()
+  // 해당 시간대의 벽시계 시간을 UTC로 본 값과 실제 시간의 차이가 오프셋
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second, milliseconds)
+  const offsetMinutes = Math.round((wallClock - date.getTime()) / 60000)
+  const sign = offsetMinutes < 0 ? "-" : "+"
+  const offset = `${sign}${pad(Math.floor(Math.abs(offsetMinutes) / 60))}:${pad(Math.abs(offsetMinutes) % 60)}`
+
+  return (
+    `${parts.year}-${pad(parts.month)}-${pad(parts.day)}` +
+    `T${pad(parts.hour)}:${pad(parts.minute)}:${pad(parts.second)}.${pad(milliseconds, 3)}${offset}`
+  )
+}
+
+// 스프레드시트가 수식으로 해석하는 첫 글자
+const CSV_FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+// CSV 값 이스케이프 (수식으로 시작하는 문자열은 '를 붙이고, 쉼표, 따옴표, 줄바꿈이 있으면 따옴표로 감쌈)
+const csvValue = (value: string | number) => {
+  const text = typeof value === "string" && CSV_FORMULA_PREFIX.test(value) ? `'${value}` : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// CEF 헤더 값과 확장 필드 값 이스케이프
+const cefHeaderValue = (value: string) => value.replace(/\\/g, "\\\\").replace(/\|/g, "\\|")
+const cefExtensionValue = (value: string | number) =>
+  String(value).replace(/\\/g, "\\\\").replace(/=/g, "\\=").replace(/\r?\n/g, "\\n")
+
+// 로그 한 건을 CSV 행으로 변환
+export function logToCsvRow(log: LogEntry, timeZone: string): string {
+  return [
+    log.id,
+    formatTimestamp(log.timestamp, timeZone),
+    log.sourceIP,
+    log.sourcePort,
+    log.destinationIP,
+    log.destinationPort,
+    log.protocol,
+    log.type,
+    log.type === "malicious" ? log.attack : "",
+    getLogLabel(log),
+    log.trafficVolume,
+  ]
+    .map(csvValue)
+    .join(",")
+}
+
+// 로그 한 건을 NDJSON 한 줄로 변환 (LogEntry 필드 그대로, 시간만 시간대 적용)
+export function logToNdjsonLine(log: LogEntry, timeZone: string): string {
+  return JSON.stringify({ ...log, timestamp: formatTimestamp(log.timestamp, timeZone) })
+}
+
+// 로그 한 건을 CEF 한 줄로 변환 (앞에 시간과 호스트를 syslog 헤더처럼 붙임)
+export function logToCefLine(log: LogEntry, timeZone: string): string {
+  const signature = log.type === "malicious" ? log.attack : log.type
+  const name =
+    log.type === "malicious"
+      ? ATTACK_CATEGORY_LABELS[log.attack]
+      : log.type === "novel"
+        ? "Novel traffic pattern"
+        : "Network traffic"
+  const extension: [string, string | number][] = [
+    ["rt", log.timestamp.getTime()],
+    ["src", log.sourceIP],
+    ["spt", log.sourcePort],
+    ["dst", log.destinationIP],
+    ["dpt", log.destinationPort],
+    ["proto", log.protocol],
+    ["in", Math.round(log.trafficVolume * 1024)],
+    ["cat", signature],
+    ["externalId", log.id],
+    ["cs1Label", "classification"],
+    ["cs1", getLogLabel(log)],
+  ]
+
+  return (
+    `${formatTimestamp(log.timestamp, timeZone)} auto-guard ` +
+    `CEF:0|${CEF_VENDOR}|${cefHeaderValue(signature)}|${cefHeaderValue(name)}|${CEF_SEVERITY[log.type]}|` +
+    extension.map(([key, value]) => `${key}=${cefExtensionValue(value)}`).join(" ")
+  )
+}
+
+const LINE_SERIALIZERS: Record<ExportFormat, (log: LogEntry, timeZone: string) => string> = {
+  csv: logToCsvRow,
+  ndjson: logToNdjsonLine,
+  cef: logToCefLine,
+}
+
+// 이벤트 루프에 양보하여 화면이 갱신될 기회를 줌
+const yieldToEventLoop = () => new Promise<void>((resolve) => setTimeout(resolve, 0))
+
+// 직렬화한 조각과 그 안에 담긴 로그 수
+export interface LogExportChunk {
+  text: string
+  count: number
+}
+
+// 로그를 조각 단위 문자열로 직렬화하는 비동기 제너레이터
+export async function* serializeLogs(
+  logs: LogEntry[],
+  options: LogExportOptions,
+  chunkSize: number = EXPORT_CHUNK_SIZE,
+): AsyncGenerator<LogExportChunk> {
+  const serialize = LINE_SERIALIZERS[options.format]
+  // CSV는 Excel에서 한글이 깨지지 않도록 BOM과 머리글 행을 먼저 기록
+  if (options.format === "csv") yield { text: `\uFEFF${CSV_COLUMNS.join(",")}\r\n`, count: 0 }
+
+  const newline = options.format === "csv" ? "\r\n" : "\n"
+  for (let start = 0; start < logs.length; start += chunkSize) {
+    const lines = logs.slice(start, start + chunkSize).map((log) => serialize(log, options.timeZone))
+    yield { text: lines.join(newline) + newline, count: lines.length }
+    await yieldToEventLoop()
+  }
+}
+
+// 로그를 지정한 형식의 파일(Blob)로 만듦 (signal로 중간에 취소 가능)
+export async function exportLogs(
+  logs: LogEntry[],
+  options: LogExportOptions,
+  onProgress?: (progress: LogExportProgress) => void,
+  signal?: AbortSignal,
+): Promise<Blob> {
+  const parts: string[] = []
+  let written = 0
+
+  for await (const chunk of serializeLogs(logs, options)) {
+    if (signal?.aborted) throw new DOMException("내보내기를 취소했습니다", "AbortError")
+    parts.push(chunk.text)
+    written += chunk.count
+    onProgress?.({ written, total: logs.length })
+  }
+  return new Blob(parts, { type: EXPORT_FILE_TYPES[options.format].mimeType })
+}
+
+// 내보낼 파일 이름 (예: auto-guard-logs-20240501-093000.csv)
+export function exportFileName(format: ExportFormat, date: Date = new Date()): string {
+  const stamp =
+    `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}` +
+    `-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`
+  return `auto-guard-logs-${stamp}.${EXPORT_FILE_TYPES[format].extension}`
+}
+
+// Blob을 파일로 내려받음
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  // 다운로드가 시작된 뒤 URL 해제
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
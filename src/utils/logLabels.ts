@@ -0,0 +1,49 @@
+/**
+ * 로그 분류를 화면에 표시하기 위한 라벨과 색상
+ *
+ * 로직은 LogEntry의 `type`/`attack` 필드를 기준으로 동작하고,
+ * 이 모듈은 그 값을 한국어 라벨과 Tailwind 색상으로 바꾸는 역할만 담당
+ *
+ * @module logLabels
+ */
+import { AttackCategory, type LogEntry, type LogType } from "../types/log"
+
+// 로그 분류별 라벨
+export const LOG_TYPE_LABELS: Record<LogType, string> = {
+  normal: "정상",
+  malicious: "악성",
+  novel: "새로운 패턴",
+}
+
+// 공격 유형별 라벨
+export const ATTACK_CATEGORY_LABELS: Record<AttackCategory, string> = {
+  [AttackCategory.DDoS]: "DDoS",
+  [AttackCategory.SqlInjection]: "SQL Injection",
+  [AttackCategory.Xss]: "XSS",
+  [AttackCategory.PortScan]: "Port Scan",
+  [AttackCategory.BruteForce]: "Brute Force",
+  [AttackCategory.Malware]: "Malware",
+  [AttackCategory.Phishing]: "Phishing",
+  [AttackCategory.CommandInjection]: "Command Injection",
+  [AttackCategory.FileInclusion]: "File Inclusion",
+}
+
+// 로그 분류별 텍스트 색상
+export const LOG_TYPE_TEXT_COLORS: Record<LogType, string> = {
+  normal: "text-green-600",
+  malicious: "text-red-600",
+  novel: "text-yellow-600",
+}
+
+// 로그 분류별 차트 색상
+export const LOG_TYPE_CHART_COLORS: Record<LogType, string> = {
+  normal: "#10B981",
+  malicious: "#EF4444",
+  novel: "#F59E0B",
+}
+
+// 공격 유형까지 포함한 전체 라벨 (예: "악성(SQL Injection)")
+export function getLogLabel(log: LogEntry): string {
+  if (log.type === "malicious") return `${LOG_TYPE_LABELS.malicious}(${ATTACK_CATEGORY_LABELS[log.attack]})`
+  return LOG_TYPE_LABELS[log.type]
+}
@@ -0,0 +1,98 @@
+/**
+ * ArcSight CEF(Common Event Format) 파서
+ *
+ * 형식: [syslog 헤더] CEF:Version|Vendor|Product|Version|SignatureID|Name|Severity|Extension
+ *
+ * 확장 필드: src, spt, dst, dpt, proto, rt/start(시간), in/out(바이트), cat(카테고리)
+ *
+ * 분류:
+ * - Name 또는 cat에서 공격 키워드가 발견되면 악성
+ * - 키워드는 없지만 심각도가 7 이상(High, Very-High)이면 새로운 패턴
+ * - 그 외에는 정상
+ *
+ * @module logParsers/cef
+ */
+import type { LogEntry } from "../../types/log"
+import { buildLogEntry, bytesToKB, classifyAttackText, LogLineError } from "./common"
+
+// 문자열 심각도를 숫자(0~10)로 변환
+const SEVERITY_NAMES: Record<string, number> = { unknown: 0, low: 3, medium: 6, high: 8, "very-high": 10 }
+
+// 이스케이프되지 않은 '|'를 기준으로 헤더를 분리
+const splitHeader = (text: string) => {
+  const fields: string[] = []
+  let current = ""
+  let index = 0
+  for (; index < text.length && fields.length < 7; index++) {
+    const char = text[index]
+    if (char === "\\" && index + 1 < text.length) {
+      current += text[++index]
+    } else if (char === "|") {
+      fields.push(current)
+      current = ""
+    } else {
+      current += char
+    }
+  }
+  return { fields, extension: text.slice(index) }
+}
+
+// 확장 필드(key=value, 값에 공백 포함 가능)를 파싱
+export function parseCefExtension(extension: string): Record<string, string> {
+  const values: Record<string, string> = {}
+  const keyPattern = /(?:^|\s)([A-Za-z0-9_.]+)=/g
+  const keys: { key: string; start: number; valueStart: number }[] = []
+  let match: RegExpExecArray | null
+
+  while ((match = keyPattern.exec(extension)) !== null) {
+    // '\='로 이스케이프된 경우는 키가 아님
+    if (extension[match.index + match[0].length - 2] === "\\") continue
+    keys.push({ key: match[1], start: match.index, valueStart: match.index + match[0].length })
+  }
+
+  keys.forEach(({ key, valueStart }, i) => {
+    const end = i + 1 < keys.length ? keys[i + 1].start : extension.length
+    values[key] = extension
+      .slice(valueStart, end)
+      .trim()
+      .replace(/\\([=\\])/g, "$1")
+      .replace(/\\n/g, "\n")
+  })
+
+  return values
+}
+
+// CEF 시간(epoch 밀리초 또는 "MMM dd yyyy HH:mm:ss")을 Date로 변환
+const parseCefTime = (value: string | undefined) => {
+  if (!value) return new Date()
+  return /^\d+$/.test(value) ? new Date(Number(value)) : new Date(value)
+}
+
+// CEF 한 줄을 LogEntry로 변환
+export function parseCefLine(line: string): LogEntry {
+  const start = line.indexOf("CEF:")
+  if (start < 0) throw new LogLineError("CEF: 헤더가 없습니다")
+
+  const { fields, extension } = splitHeader(line.slice(start + 4))
+  if (fields.length < 7) throw new LogLineError(`CEF 헤더 필드가 부족합니다 (${fields.length}/7)`)
+
+  const [, , , , signatureId, name, severityField] = fields
+  const values = parseCefExtension(extension)
+  const severity = /^\d+$/.test(severityField)
+    ? Number(severityField)
+    : SEVERITY_NAMES[severityField.toLowerCase()] ?? 0
+  const attack = classifyAttackText(`${name} ${values.cat ?? ""} ${signatureId}`)
+  const bytes = Number(values.in ?? 0) + Number(values.out ?? 0)
+
+  return buildLogEntry({
+    timestamp: parseCefTime(values.rt ?? values.start ?? values.end),
+    sourceIP: values.src ?? values.c6a2,
+    sourcePort: values.spt,
+    destinationIP: values.dst ?? values.c6a3,
+    destinationPort: values.dpt,
+    protocol: values.app ?? values.proto,
+    trafficVolume: Number.isFinite(bytes) ? bytesToKB(bytes) : 0,
+    attack,
+    novel: !attack && severity >= 7,
+  })
+}
@@ -0,0 +1,135 @@
+/**
+ * 로그 파서들이 공통으로 사용하는 타입과 도우미 함수
+ *
+ * @module logParsers/common
+ */
+import { AttackCategory, type LogEntry } from "../../types/log"
+import { isIPAddress } from "../ip"
+import { createId } from "../id"
+
+// 줄 단위 파싱 오류
+export interface LogParseError {
+  line: number // 1부터 시작하는 줄 번호
+  message: string
+  raw: string
+}
+
+// 파싱 결과 (성공한 로그와 실패한 줄의 오류 목록)
+export interface LogParseResult {
+  entries: LogEntry[]
+  errors: LogParseError[]
+}
+
+// 한 줄을 파싱하는 함수, 형식이 잘못되었으면 LogLineError를 던짐
+export type LogLineParser = (line: string) => LogEntry
+
+export class LogLineError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "LogLineError"
+  }
+}
+
+// 공격 유형별 탐지 키워드
+const ATTACK_KEYWORDS: [AttackCategory, RegExp][] = [
+  [AttackCategory.SqlInjection, /sql\s*inj|sqli\b|union\s+(all\s+)?select/i],
+  [AttackCategory.Xss, /\bxss\b|cross[-\s]site\s+script|<script/i],
+  [AttackCategory.CommandInjection, /command\s+inj|cmd\s*inj|shell\s*inj|remote\s+code\s+exec|\brce\b/i],
+  [AttackCategory.FileInclusion, /file\s+inclusion|\b[lr]fi\b|(path|directory)\s+traversal|\.\.\//i],
+  [AttackCategory.DDoS, /\bddos\b|\bdos\b|denial\s+of\s+service|flood/i],
+  [AttackCategory.PortScan, /port\s*scan|\bnmap\b|\bscan(ning)?\b/i],
+  [AttackCategory.BruteForce, /brute|failed\s+password|login\s+fail|authentication\s+fail/i],
+  [AttackCategory.Phishing, /phish/i],
+  [AttackCategory.Malware, /malware|trojan|virus|ransom|botnet|\bc2\b|command\s+and\s+control|exploit\s+kit/i],
+]
+
+// 설명 문자열에서 공격 유형을 추정하는 함수
+export function classifyAttackText(text: string): AttackCategory | null {
+  const match = ATTACK_KEYWORDS.find(([, pattern]) => pattern.test(text))
+  return match ? match[0] : null
+}
+
+// 바이트 수를 KB로 변환 (소수점 둘째 자리까지)
+export const bytesToKB = (bytes: number) => Math.round((bytes / 1024) * 100) / 100
+
+// JSON 로그의 객체 값 (배열과 null은 제외)
+export type JsonRecord = Record<string, unknown>
+
+export const isJsonRecord = (value: unknown): value is JsonRecord =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+// 문자열 또는 숫자 값을 문자열로 (그 외에는 undefined)
+export const toText = (value: unknown): string | undefined =>
+  typeof value === "string" ? value : typeof value === "number" ? String(value) : undefined
+
+// 문자열 또는 숫자를 포트 번호로 변환
+export function toPort(value: unknown): number {
+  const port = Number(value)
+  return Number.isInteger(port) && port >= 0 && port <= 65535 ? port : 0
+}
+
+// 파싱한 필드를 검증하여 LogEntry로 만드는 함수
+export function buildLogEntry(fields: {
+  timestamp: Date
+  sourceIP?: string
+  sourcePort?: unknown
+  destinationIP?: string
+  destinationPort?: unknown
+  protocol?: string
+  trafficVolume?: number
+  attack?: AttackCategory | null
+  novel?: boolean
+}): LogEntry {
+  if (Number.isNaN(fields.timestamp.getTime())) throw new LogLineError("시간 형식이 올바르지 않습니다")
+  if (!fields.sourceIP || !isIPAddress(fields.sourceIP)) throw new LogLineError("출발 IP가 없거나 올바르지 않습니다")
+  if (!fields.destinationIP || !isIPAddress(fields.destinationIP)) {
+    throw new LogLineError("도착 IP가 없거나 올바르지 않습니다")
+  }
+
+  const base = {
+    id: createId("log"),
+    timestamp: fields.timestamp,
+    sourceIP: fields.sourceIP,
+    sourcePort: toPort(fields.sourcePort),
+    destinationIP: fields.destinationIP,
+    destinationPort: toPort(fields.destinationPort),
+    protocol: (fields.protocol || "N/A").toUpperCase(),
+    trafficVolume: fields.trafficVolume && fields.trafficVolume > 0 ? fields.trafficVolume : 0,
+  }
+
+  if (fields.attack) return { ...base, type: "malicious", attack: fields.attack }
+  if (fields.novel) return { ...base, type: "novel" }
+  return { ...base, type: "normal" }
+}
+
+// 여러 줄의 텍스트를 줄 단위 파서로 처리하고 줄별 오류를 모으는 함수
+export function parseLines(text: string, parseLine: LogLineParser): LogParseResult {
+  const result: LogParseResult = { entries: [], errors: [] }
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim()
+    if (!line) return // 빈 줄은 건너뜀
+    try {
+      result.entries.push(parseLine(line))
+    } catch (error) {
+      result.errors.push({
+        line: index + 1,
+        message: error instanceof Error ? error.message : String(error),
+        raw: line,
+      })
+    }
+  })
+
+  return result
+}
+
+// key=value 형식 문자열에서 값을 추출 (iptables, 방화벽 로그 등)
+export function parseKeyValues(text: string): Record<string, string> {
+  const values: Record<string, string> = {}
+  const pattern = /([A-Za-z_][\w.-]*)=("([^"]*)"|\S*)/g
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(text)) !== null) {
+    values[match[1].toLowerCase()] = match[3] ?? match[2]
+  }
+  return values
+}
@@ -0,0 +1,57 @@
+/**
+ * 외부 로그 형식을 프로젝트의 LogEntry로 변환하는 파서 모음
+ *
+ * 지원 형식:
+ * - syslog: RFC 5424, RFC 3164
+ * - cef: ArcSight CEF (syslog 헤더 포함 가능)
+ * - ndjson: 일반 JSON Lines
+ * - suricata: Suricata eve.json
+ *
+ * 잘못된 줄은 건너뛰고 줄 번호와 원인을 errors에 담아 반환
+ *
+ * @module logParsers
+ */
+import { LogLineError, parseLines, type LogLineParser, type LogParseResult } from "./common"
+import { parseCefLine } from "./cef"
+import { parseNdjsonLine } from "./ndjson"
+import { parseSuricataLine } from "./suricata"
+import { parseSyslogLine } from "./syslog"
+
+export type { LogParseError, LogParseResult } from "./common"
+export { classifyAttackText } from "./common"
+
+export type LogFormat = "syslog" | "cef" | "ndjson" | "suricata"
+
+export const LOG_FORMAT_LABELS: Record<LogFormat, string> = {
+  syslog: "Syslog (RFC 5424/3164)",
+  cef: "CEF",
+  ndjson: "NDJSON",
+  suricata: "Suricata EVE",
+}
+
+const PARSERS: Record<LogFormat, LogLineParser> = {
+  syslog: parseSyslogLine,
+  cef: parseCefLine,
+  ndjson: parseNdjsonLine,
+  suricata: parseSuricataLine,
+}
+
+// 한 줄의 내용으로 로그 형식을 추정
+export function detectLogFormat(line: string): LogFormat | null {
+  const text = line.trim()
+  if (text.includes("CEF:")) return "cef"
+  if (text.startsWith("{")) return /"event_type"\s*:/.test(text) ? "suricata" : "ndjson"
+  if (/^<\d{1,3}>/.test(text)) return "syslog"
+  return null
+}
+
+// 텍스트 전체를 지정한 형식(또는 줄마다 자동 감지)으로 파싱
+export function parseLogText(text: string, format: LogFormat | "auto" = "auto"): LogParseResult {
+  if (format !== "auto") return parseLines(text, PARSERS[format])
+
+  return parseLines(text, (line) => {
+    const detected = detectLogFormat(line)
+    if (!detected) throw new LogLineError("지원하지 않는 로그 형식입니다")
+    return PARSERS[detected](line)
+  })
+}
@@ -0,0 +1,197 @@
+import { describe, expect, it } from "@jest/globals"
+import { AttackCategory } from "../../types/log"
+import { parseCefExtension, parseCefLine } from "./cef"
+import { detectLogFormat, parseLogText } from "./index"
+import { parseNdjsonLine } from "./ndjson"
+import { parseSuricataLine } from "./suricata"
+import { parseSyslogLine } from "./syslog"
+
+describe("parseSyslogLine", () => {
+  it("RFC 5424 구조화 데이터에서 5-tuple을 읽음", () => {
+    const entry = parseSyslogLine(
+      '<134>1 2024-05-01T10:00:00Z fw01 kernel - - [meta src="10.0.0.1" dst="10.0.0.2" sport="5000" dport="443" ' +
+        'proto="tcp" bytes="2048"] accepted',
+    )
+    expect(entry).toMatchObject({
+      timestamp: new Date("2024-05-01T10:00:00Z"),
+      sourceIP: "10.0.0.1",
+      sourcePort: 5000,
+      destinationIP: "10.0.0.2",
+      destinationPort: 443,
+      protocol: "TCP",
+      trafficVolume: 2,
+      type: "normal",
+    })
+  })
+
+  it("RFC 3164 iptables 메시지를 읽고 공격 키워드로 분류", () => {
+    const entry = parseSyslogLine(
+      "<36>May  1 10:00:00 fw01 kernel: port scan SRC=192.0.2.9 DST=10.0.0.2 LEN=60 PROTO=TCP SPT=4000 DPT=22",
+    )
+    expect(entry).toMatchObject({ sourceIP: "192.0.2.9", destinationPort: 22, type: "malicious" })
+    expect(entry.type === "malicious" && entry.attack).toBe(AttackCategory.PortScan)
+  })
+
+  it("심각도가 error 이하이면 새로운 패턴", () => {
+    const entry = parseSyslogLine("<11>1 2024-05-01T10:00:00Z host app - - - src=10.0.0.1 dst=10.0.0.2 unexpected")
+    expect(entry.type).toBe("novel")
+  })
+
+  it("PRI 헤더가 없거나 시간이 비어 있으면 오류", () => {
+    expect(() => parseSyslogLine("hello src=10.0.0.1")).toThrow("syslog 형식")
+    expect(() => parseSyslogLine("<134>1 - host app - - - src=10.0.0.1 dst=10.0.0.2")).toThrow("시간 필드")
+  })
+})
+
+describe("parseCefLine", () => {
+  it("확장 필드의 공백 값과 이스케이프를 처리", () => {
+    expect(parseCefExtension("msg=a\\=b c\\\\d cs1=two words")).toEqual({ msg: "a=b c\\d", cs1: "two words" })
+  })
+
+  it("syslog 헤더가 붙은 CEF를 읽고 이름에서 공격 유형을 찾음", () => {
+    const entry = parseCefLine(
+      "<134>May  1 10:00:00 host CEF:0|Vendor|WAF|1.0|100|SQL Injection attempt|5|" +
+        "rt=1714557600000 src=203.0.113.5 spt=51000 dst=10.0.0.8 dpt=80 app=HTTP in=1024 out=1024",
+    )
+    expect(entry).toMatchObject({
+      timestamp: new Date(1714557600000),
+      sourceIP: "203.0.113.5",
+      destinationPort: 80,
+      protocol: "HTTP",
+      trafficVolume: 2,
+      type: "malicious",
+    })
+    expect(entry.type === "malicious" && entry.attack).toBe(AttackCategory.SqlInjection)
+  })
+
+  it("키워드 없이 심각도가 높으면 새로운 패턴, 헤더의 '\\|'는 구분자가 아님", () => {
+    const line = "CEF:0|Ven\\|dor|IDS|1.0|7|Odd behaviour|High|src=10.0.0.1 dst=10.0.0.2"
+    expect(parseCefLine(line).type).toBe("novel")
+    expect(parseCefLine(line.replace("High", "3")).type).toBe("normal")
+  })
+
+  it("헤더가 없거나 필드가 부족하면 오류", () => {
+    expect(() => parseCefLine("no header")).toThrow("CEF: 헤더가 없습니다")
+    expect(() => parseCefLine("CEF:0|Vendor|Product")).toThrow("(2/7)")
+  })
+})
+
+describe("parseNdjsonLine", () => {
+  it("별칭, 점 표기 경로, epoch 초를 읽음", () => {
+    const entry = parseNdjsonLine(
+      JSON.stringify({
+        ts: 1714557600,
+        source: { ip: "10.0.0.1", port: 5000 },
+        "destination.ip": "10.0.0.2",
+        dst_port: "443",
+        network: { transport: "udp", bytes: 4096 },
+        message: "allowed",
+      }),
+    )
+    expect(entry).toMatchObject({
+      timestamp: new Date(1714557600 * 1000),
+      sourceIP: "10.0.0.1",
+      sourcePort: 5000,
+      destinationIP: "10.0.0.2",
+      destinationPort: 443,
+      protocol: "UDP",
+      trafficVolume: 4,
+      type: "normal",
+    })
+  })
+
+  it("이미 분류된 로그의 type과 attack을 그대로 사용", () => {
+    const base = { timestamp: "2024-05-01T10:00:00Z", sourceIP: "10.0.0.1", destinationIP: "10.0.0.2" }
+    expect(parseNdjsonLine(JSON.stringify({ ...base, type: "malicious", attack: "xss" }))).toMatchObject({
+      type: "malicious",
+      attack: AttackCategory.Xss,
+    })
+    expect(parseNdjsonLine(JSON.stringify({ ...base, type: "novel", message: "sql injection" })).type).toBe("novel")
+    expect(() => parseNdjsonLine(JSON.stringify({ ...base, type: "malicious", attack: "worm" }))).toThrow(
+      "알 수 없는 공격 유형입니다: worm",
+    )
+    expect(() => parseNdjsonLine(JSON.stringify({ ...base, type: "malicious" }))).toThrow("공격 유형입니다: 없음")
+  })
+
+  it("설명 필드에서 공격 유형을 찾음", () => {
+    const entry = parseNdjsonLine('{"time":"2024-05-01T10:00:00Z","src":"10.0.0.1","dst":"::1","msg":"Trojan beacon"}')
+    expect(entry.type === "malicious" && entry.attack).toBe(AttackCategory.Malware)
+  })
+
+  it("JSON이 아니거나 필수 필드가 없으면 오류", () => {
+    expect(() => parseNdjsonLine("{oops")).toThrow("JSON 형식이 아닙니다")
+    expect(() => parseNdjsonLine("[1, 2]")).toThrow("JSON 객체가 아닙니다")
+    expect(() => parseNdjsonLine('{"src":"10.0.0.1","dst":"10.0.0.2"}')).toThrow("timestamp 필드가 없습니다")
+    expect(() => parseNdjsonLine('{"ts":1,"src":"not-an-ip","dst":"10.0.0.2"}')).toThrow("출발 IP")
+  })
+})
+
+describe("parseSuricataLine", () => {
+  const event = {
+    timestamp: "2024-05-01T10:00:00.000000+0000",
+    src_ip: "198.51.100.7",
+    src_port: 40000,
+    dest_ip: "10.0.0.5",
+    dest_port: 80,
+    proto: "TCP",
+    app_proto: "http",
+    flow: { bytes_toserver: 1536, bytes_toclient: 512 },
+  }
+
+  it("alert 시그니처에서 공격 유형을 찾고 용량을 더함", () => {
+    const entry = parseSuricataLine(
+      JSON.stringify({ ...event, event_type: "alert", alert: { signature: "ET WEB XSS attempt", category: "Web" } }),
+    )
+    expect(entry).toMatchObject({ protocol: "HTTP", trafficVolume: 2, type: "malicious", attack: AttackCategory.Xss })
+  })
+
+  it("알 수 없는 alert와 anomaly는 새로운 패턴, 그 외는 정상", () => {
+    const unknownAlert = { ...event, event_type: "alert", alert: { signature: "Something odd" } }
+    expect(parseSuricataLine(JSON.stringify(unknownAlert)).type).toBe("novel")
+    expect(parseSuricataLine(JSON.stringify({ ...event, event_type: "anomaly" })).type).toBe("novel")
+    expect(parseSuricataLine(JSON.stringify({ ...event, event_type: "flow", app_proto: "failed" }))).toMatchObject({
+      type: "normal",
+      protocol: "TCP",
+    })
+  })
+
+  it("event_type이나 문자열 시간이 없으면 오류", () => {
+    expect(() => parseSuricataLine(JSON.stringify(event))).toThrow("event_type 필드가 없습니다")
+    expect(() => parseSuricataLine(JSON.stringify({ ...event, event_type: "flow", timestamp: 1 }))).toThrow(
+      "시간 형식이 올바르지 않습니다",
+    )
+  })
+})
+
+describe("parseLogText", () => {
+  it("형식을 줄마다 감지", () => {
+    expect(detectLogFormat('  {"event_type":"flow"}')).toBe("suricata")
+    expect(detectLogFormat('{"ts":1}')).toBe("ndjson")
+    expect(detectLogFormat("<13>May  1 10:00:00 host CEF:0|a")).toBe("cef")
+    expect(detectLogFormat("<13>May  1 10:00:00 host msg")).toBe("syslog")
+    expect(detectLogFormat("plain text")).toBeNull()
+  })
+
+  it("잘못된 줄은 건너뛰고 1부터 시작하는 줄 번호, 원인, 원문을 보고", () => {
+    const text = [
+      '{"ts":1714557600,"src":"10.0.0.1","dst":"10.0.0.2"}',
+      "",
+      "plain text",
+      "  CEF:0|Vendor|Product  ",
+      "<134>1 2024-05-01T10:00:00Z h a - - - src=10.0.0.3 dst=10.0.0.4",
+    ].join("\r\n")
+    const { entries, errors } = parseLogText(text)
+
+    expect(entries.map((entry) => entry.sourceIP)).toEqual(["10.0.0.1", "10.0.0.3"])
+    expect(errors).toEqual([
+      { line: 3, message: "지원하지 않는 로그 형식입니다", raw: "plain text" },
+      { line: 4, message: "CEF 헤더 필드가 부족합니다 (2/7)", raw: "CEF:0|Vendor|Product" },
+    ])
+  })
+
+  it("형식을 지정하면 다른 형식의 줄은 오류", () => {
+    const { entries, errors } = parseLogText('{"ts":1,"src":"10.0.0.1","dst":"10.0.0.2"}\n<13>bad', "ndjson")
+    expect(entries).toHaveLength(1)
+    expect(errors).toEqual([{ line: 2, message: "JSON 형식이 아닙니다", raw: "<13>bad" }])
+  })
+})
@@ -0,0 +1,86 @@
+/**
+ * 일반 NDJSON(JSON Lines) 로그 파서
+ *
+ * 필드 이름은 흔히 쓰이는 별칭을 모두 허용하며, 점 표기(source.ip)로 중첩 필드도 읽음
+ *
+ * 분류:
+ * - type 필드가 "normal" | "malicious" | "novel"이면 그대로 사용 (malicious는 attack 필드 필요)
+ * - 그렇지 않으면 message, signature 등 설명 필드에서 공격 키워드를 찾아 악성으로 분류
+ *
+ * @module logParsers/ndjson
+ */
+import { isAttackCategory, type LogEntry } from "../../types/log"
+import {
+  buildLogEntry,
+  bytesToKB,
+  classifyAttackText,
+  isJsonRecord,
+  LogLineError,
+  toText,
+  type JsonRecord,
+} from "./common"
+import { parseJsonObject } from "./suricata"
+
+// LogEntry 필드별로 허용하는 별칭
+const FIELD_ALIASES = {
+  timestamp: ["timestamp", "@timestamp", "time", "ts", "date"],
+  sourceIP: ["sourceIP", "src_ip", "srcip", "src", "source_ip", "source.ip", "client.ip"],
+  sourcePort: ["sourcePort", "src_port", "sport", "spt", "source_port", "source.port", "client.port"],
+  destinationIP: ["destinationIP", "dest_ip", "dst_ip", "dstip", "dst", "destination_ip", "destination.ip", "server.ip"],
+  destinationPort: ["destinationPort", "dest_port", "dst_port", "dport", "dpt", "destination_port", "destination.port", "server.port"],
+  protocol: ["protocol", "proto", "network.transport", "network.protocol"],
+  bytes: ["bytes", "network.bytes", "total_bytes"],
+  trafficVolume: ["trafficVolume"],
+  description: ["message", "msg", "signature", "rule.name", "event.action", "category"],
+}
+
+// 점 표기 경로로 중첩 객체의 값을 읽음
+const getPath = (record: JsonRecord, path: string): unknown => {
+  if (path in record) return record[path]
+  return path.split(".").reduce<unknown>((value, key) => (isJsonRecord(value) ? value[key] : undefined), record)
+}
+
+// 별칭 중 처음으로 값이 있는 필드를 반환
+const pick = (record: JsonRecord, aliases: string[]): unknown =>
+  aliases.map((alias) => getPath(record, alias)).find((value) => value !== undefined && value !== null && value !== "")
+
+// 숫자 시간은 epoch 초/밀리초 모두 허용
+const toTimestamp = (value: unknown) => {
+  if (typeof value === "number") return new Date(value < 1e12 ? value * 1000 : value)
+  if (typeof value === "string") return new Date(value)
+  throw new LogLineError("timestamp 필드가 없습니다")
+}
+
+// JSON 객체를 LogEntry로 변환
+export function jsonRecordToLogEntry(record: JsonRecord): LogEntry {
+  const trafficVolume = Number(pick(record, FIELD_ALIASES.trafficVolume))
+  const bytes = Number(pick(record, FIELD_ALIASES.bytes))
+  const fields = {
+    timestamp: toTimestamp(pick(record, FIELD_ALIASES.timestamp)),
+    sourceIP: toText(pick(record, FIELD_ALIASES.sourceIP)),
+    sourcePort: pick(record, FIELD_ALIASES.sourcePort),
+    destinationIP: toText(pick(record, FIELD_ALIASES.destinationIP)),
+    destinationPort: pick(record, FIELD_ALIASES.destinationPort),
+    protocol: toText(pick(record, FIELD_ALIASES.protocol)),
+    trafficVolume: Number.isFinite(trafficVolume) ? trafficVolume : Number.isFinite(bytes) ? bytesToKB(bytes) : 0,
+  }
+
+  // 이미 분류된 로그 (이 프로젝트의 LogEntry 형식)
+  if (record.type === "malicious") {
+    if (!isAttackCategory(record.attack)) {
+      throw new LogLineError(`알 수 없는 공격 유형입니다: ${toText(record.attack) ?? "없음"}`)
+    }
+    return buildLogEntry({ ...fields, attack: record.attack })
+  }
+  if (record.type === "normal" || record.type === "novel") {
+    return buildLogEntry({ ...fields, novel: record.type === "novel" })
+  }
+
+  const description = pick(record, FIELD_ALIASES.description)
+  return buildLogEntry({ ...fields, attack: typeof description === "string" ? classifyAttackText(description) : null })
+}
+
+// NDJSON 한 줄을 LogEntry로 변환
+export function parseNdjsonLine(line: string): LogEntry {
+  return jsonRecordToLogEntry(parseJsonObject(line))
+}
@@ -0,0 +1,63 @@
+/**
+ * Suricata eve.json 이벤트 파서
+ *
+ * 분류:
+ * - event_type "alert": 시그니처/카테고리에서 공격 유형을 찾으면 악성, 찾지 못하면 새로운 패턴
+ * - event_type "anomaly": 새로운 패턴
+ * - 그 외(flow, http, dns, tls 등): 정상
+ *
+ * 용량은 flow.bytes_toserver + flow.bytes_toclient (없으면 0)
+ *
+ * @module logParsers/suricata
+ */
+import type { LogEntry } from "../../types/log"
+import {
+  buildLogEntry,
+  bytesToKB,
+  classifyAttackText,
+  isJsonRecord,
+  LogLineError,
+  toText,
+  type JsonRecord,
+} from "./common"
+
+// JSON 한 줄을 객체로 파싱
+export const parseJsonObject = (line: string): JsonRecord => {
+  let value: unknown
+  try {
+    value = JSON.parse(line)
+  } catch {
+    throw new LogLineError("JSON 형식이 아닙니다")
+  }
+  if (!isJsonRecord(value)) throw new LogLineError("JSON 객체가 아닙니다")
+  return value
+}
+
+// Suricata 이벤트 객체를 LogEntry로 변환
+export function suricataEventToLogEntry(event: JsonRecord): LogEntry {
+  if (typeof event.event_type !== "string") throw new LogLineError("event_type 필드가 없습니다")
+
+  const alert = isJsonRecord(event.alert) ? event.alert : null
+  const alertText = alert ? `${toText(alert.signature) ?? ""} ${toText(alert.category) ?? ""}` : ""
+  const attack = event.event_type === "alert" ? classifyAttackText(alertText) : null
+  const flow = isJsonRecord(event.flow) ? event.flow : {}
+  const bytes = Number(flow.bytes_toserver ?? 0) + Number(flow.bytes_toclient ?? 0)
+  const appProto = toText(event.app_proto)
+
+  return buildLogEntry({
+    timestamp: new Date(typeof event.timestamp === "string" ? event.timestamp : NaN),
+    sourceIP: toText(event.src_ip),
+    sourcePort: event.src_port,
+    destinationIP: toText(event.dest_ip),
+    destinationPort: event.dest_port,
+    protocol: appProto && appProto !== "failed" ? appProto : toText(event.proto),
+    trafficVolume: Number.isFinite(bytes) ? bytesToKB(bytes) : 0,
+    attack,
+    novel: !attack && (event.event_type === "alert" || event.event_type === "anomaly"),
+  })
+}
+
+// eve.json 한 줄을 LogEntry로 변환
+export function parseSuricataLine(line: string): LogEntry {
+  return suricataEventToLogEntry(parseJsonObject(line))
+}
@@ -0,0 +1,64 @@
+/**
+ * syslog(RFC 5424, RFC 3164) 파서
+ *
+ * 5-tuple은 구조화 데이터([... src="..."])나 메시지의 key=value 쌍에서 읽음
+ * (iptables 형식 SRC=, DST=, SPT=, DPT=, PROTO=, LEN= 과 src=, dst=, sport=, dport=, proto=, bytes= 지원)
+ *
+ * 분류:
+ * - 메시지에서 공격 키워드가 발견되면 악성
+ * - 심각도(PRI % 8)가 3(error) 이하이면 새로운 패턴
+ * - 그 외에는 정상
+ *
+ * @module logParsers/syslog
+ */
+import type { LogEntry } from "../../types/log"
+import { buildLogEntry, bytesToKB, classifyAttackText, LogLineError, parseKeyValues } from "./common"
+
+const RFC5424_PATTERN = /^<(\d{1,3})>1 (\S+) (\S+) (\S+) (\S+) (\S+) (-|(?:\[.*?\])+)\s?(.*)$/
+const RFC3164_PATTERN = /^<(\d{1,3})>([A-Z][a-z]{2}\s+\d{1,2} \d{2}:\d{2}:\d{2}) (\S+) (.*)$/
+
+// RFC 3164 시간(연도 없음)을 현재 연도 기준 Date로 변환
+const parseRfc3164Time = (value: string) => {
+  const now = new Date()
+  const date = new Date(`${value.replace(/\s+/, " ")} ${now.getFullYear()}`)
+  // 연말에 받은 연초 로그처럼 미래가 되면 작년으로 보정
+  if (date.getTime() - now.getTime() > 24 * 60 * 60 * 1000) date.setFullYear(now.getFullYear() - 1)
+  return date
+}
+
+// 메시지와 구조화 데이터에서 5-tuple과 용량을 읽어 LogEntry 생성
+const toLogEntry = (timestamp: Date, severity: number, text: string): LogEntry => {
+  const values = parseKeyValues(text)
+  const bytes = Number(values.len ?? values.bytes)
+  const attack = classifyAttackText(text)
+
+  return buildLogEntry({
+    timestamp,
+    sourceIP: values.src ?? values.srcip ?? values.src_ip,
+    sourcePort: values.spt ?? values.sport ?? values.src_port,
+    destinationIP: values.dst ?? values.dstip ?? values.dst_ip,
+    destinationPort: values.dpt ?? values.dport ?? values.dst_port,
+    protocol: values.proto ?? values.protocol,
+    trafficVolume: Number.isFinite(bytes) ? bytesToKB(bytes) : 0,
+    attack,
+    novel: !attack && severity <= 3,
+  })
+}
+
+// syslog 한 줄을 LogEntry로 변환
+export function parseSyslogLine(line: string): LogEntry {
+  const rfc5424 = RFC5424_PATTERN.exec(line)
+  if (rfc5424) {
+    const [, pri, time, , , , , structuredData, message] = rfc5424
+    if (time === "-") throw new LogLineError("RFC 5424 시간 필드가 비어 있습니다")
+    return toLogEntry(new Date(time), Number(pri) % 8, `${structuredData} ${message}`)
+  }
+
+  const rfc3164 = RFC3164_PATTERN.exec(line)
+  if (rfc3164) {
+    const [, pri, time, , message] = rfc3164
+    return toLogEntry(parseRfc3164Time(time), Number(pri) % 8, message)
+  }
+
+  throw new LogLineError("syslog 형식(<PRI> 헤더)이 아닙니다")
+}
@@ -0,0 +1,153 @@
+import { describe, expect, it } from "@jest/globals"
+import { AttackCategory, type LogEntry } from "../types/log"
+import { appendQueryClause, filterLogs, matchesLogQuery, parseLogQuery, tryParseLogQuery } from "./logQuery"
+import { createLog, type TestLogOverrides } from "./testLogs"
+
+// 내부(10.0.0.1)에서 192.168.1.10의 443 포트로 가는 로그
+const internalLog = (overrides: TestLogOverrides & { id: string }) =>
+  createLog({ sourceIP: "10.0.0.1", destinationIP: "192.168.1.10", trafficVolume: 100, ...overrides })
+
+const LOGS: LogEntry[] = [
+  internalLog({ id: "web" }),
+  internalLog({
+    id: "ssh",
+    sourceIP: "203.0.113.5",
+    destinationPort: 22,
+    type: "malicious",
+    attack: AttackCategory.BruteForce,
+  }),
+  internalLog({ id: "dns", sourceIP: "10.1.2.3", destinationPort: 53, protocol: "UDP", trafficVolume: 2 }),
+  internalLog({
+    id: "c2",
+    destinationIP: "198.51.100.9",
+    destinationPort: 8080,
+    type: "malicious",
+    attack: AttackCategory.Malware,
+  }),
+  internalLog({ id: "v6", sourceIP: "2001:db8::7", destinationPort: 3000, type: "novel", trafficVolume: 900 }),
+]
+
+// 질의와 일치하는 로그의 ID
+const ids = (source: string) => filterLogs(LOGS, parseLogQuery(source)).map((log) => log.id)
+
+// 문법 오류의 위치와 메시지
+const syntaxError = (source: string) => {
+  const result = tryParseLogQuery(source)
+  return result.error && { position: result.error.position, message: result.error.message }
+}
+
+describe("parseLogQuery 우선순위", () => {
+  it("나열한 조건은 AND이고 AND가 OR보다 먼저 묶임", () => {
+    expect(ids("proto:TCP dport:22")).toEqual(["ssh"])
+    expect(ids("dport:53 OR proto:TCP dport:22")).toEqual(["ssh", "dns"])
+    expect(ids("(dport:53 OR proto:TCP) dport:22")).toEqual(["ssh"])
+    expect(ids("dport:53 || dport:22 && type:normal")).toEqual(["dns"])
+  })
+
+  it("빈 질의는 모든 로그와 일치", () => {
+    expect(parseLogQuery("  ").root).toBeNull()
+    expect(ids("")).toHaveLength(LOGS.length)
+  })
+})
+
+describe("parseLogQuery NOT", () => {
+  it("NOT, !, - 접두사와 != 연산자", () => {
+    const notMalicious = ["web", "dns", "v6"]
+    expect(ids("NOT type:malicious")).toEqual(notMalicious)
+    expect(ids("!type:malicious")).toEqual(notMalicious)
+    expect(ids("-type:malicious")).toEqual(notMalicious)
+    expect(ids("type!=malicious")).toEqual(notMalicious)
+  })
+
+  it("NOT은 바로 뒤 조건이나 괄호에만 적용", () => {
+    expect(ids("NOT type:malicious proto:UDP")).toEqual(["dns"])
+    expect(ids("NOT (type:malicious OR proto:UDP)")).toEqual(["web", "v6"])
+    expect(ids("NOT NOT dport:22")).toEqual(["ssh"])
+  })
+
+  it("단어 중간의 - 는 부정이 아님", () => {
+    expect(ids("dport:20-25")).toEqual(["ssh"])
+  })
+})
+
+describe("IP와 CIDR", () => {
+  it("IPv4, IPv6 CIDR와 출발/도착 중 하나인 ip 필드", () => {
+    expect(ids("src:10.0.0.0/8")).toEqual(["web", "dns", "c2"])
+    expect(ids("src:10.1.0.0/16,203.0.113.5")).toEqual(["ssh", "dns"])
+    expect(ids("src:2001:db8::/32")).toEqual(["v6"])
+    expect(ids("ip:198.51.100.0/24")).toEqual(["c2"])
+    expect(ids("dst:192.168.1.10/32 NOT src:10.0.0.0/8")).toEqual(["ssh", "v6"])
+  })
+})
+
+describe("포트와 숫자", () => {
+  it("범위, 목록, 비교 연산자", () => {
+    expect(ids("dport:1-1024")).toEqual(["web", "ssh", "dns"])
+    expect(ids("dport:22,53,8000-9000")).toEqual(["ssh", "dns", "c2"])
+    expect(ids("dport>443")).toEqual(["c2", "v6"])
+    expect(ids("dport>=443 dport<=3000")).toEqual(["web", "v6"])
+    expect(ids("port:50000")).toHaveLength(LOGS.length)
+    expect(ids("vol<10")).toEqual(["dns"])
+  })
+
+  it("age는 로그 시각부터 지난 시간", () => {
+    const now = Date.now()
+    const logs = [
+      internalLog({ id: "new", timestamp: new Date(now - 30_000) }),
+      internalLog({ id: "old", timestamp: new Date(now - 2 * 3_600_000) }),
+    ]
+    const match = (source: string) => filterLogs(logs, parseLogQuery(source)).map((log) => log.id)
+    expect(match("age:5m")).toEqual(["new"])
+    expect(match("age>1h")).toEqual(["old"])
+    expect(match("age<=60")).toEqual(["new"])
+  })
+})
+
+describe("유형과 자유 검색어", () => {
+  it("type은 분류와 공격 유형을, attack은 공격 유형만 받음", () => {
+    expect(ids("type:malicious")).toEqual(["ssh", "c2"])
+    expect(ids("type:malware")).toEqual(["c2"])
+    expect(ids("type:brute,novel")).toEqual(["ssh", "v6"])
+    expect(ids("attack:malware")).toEqual(["c2"])
+    expect(syntaxError("attack:novel")?.message).toBe('알 수 없는 공격 유형입니다: "novel"')
+  })
+
+  it("필드 없는 단어는 IP, 프로토콜에서 부분 일치", () => {
+    expect(ids("udp")).toEqual(["dns"])
+    expect(ids("203.0.113")).toEqual(["ssh"])
+  })
+
+  it("matchesLogQuery는 로그 하나를 평가", () => {
+    expect(matchesLogQuery(parseLogQuery("dport:22"), LOGS[1])).toBe(true)
+    expect(matchesLogQuery(parseLogQuery("dport:22"), LOGS[0])).toBe(false)
+  })
+})
+
+describe("appendQueryClause", () => {
+  it("빈 질의면 조건만, 아니면 AND로 덧붙이고 최상위 OR은 괄호로 묶음", () => {
+    expect(appendQueryClause("  ", "dport:22")).toBe("dport:22")
+    expect(appendQueryClause("proto:TCP ", "dport:22")).toBe("proto:TCP dport:22")
+    expect(appendQueryClause("dport:53 OR proto:TCP", "dport:22")).toBe("(dport:53 OR proto:TCP) dport:22")
+    expect(ids(appendQueryClause("dport:53 OR proto:TCP", "dport:22"))).toEqual(["ssh"])
+  })
+})
+
+describe("문법 오류 위치", () => {
+  it.each([
+    ["proto:TCP foo:bar", 10, '알 수 없는 필드입니다: "foo"'],
+    ["dport:abc", 6, '숫자가 아닙니다: "abc"'],
+    ["proto:TCP src:999.1.1.1", 14, 'IP 또는 CIDR가 아닙니다: "999.1.1.1"'],
+    ["dport:30-20", 6, '범위의 시작이 끝보다 큽니다: "30-20"'],
+    ["src>10.0.0.1", 4, "src 필드에는 > 연산자를 쓸 수 없습니다"],
+    ["dport:", 6, "값이 비어 있습니다"],
+    ['src:"10.0.0.1', 4, "따옴표가 닫히지 않았습니다"],
+    ["(dport:22 OR dport:53", 0, "괄호가 닫히지 않았습니다"],
+    ["dport:22 )", 9, "예상하지 못한 )입니다"],
+    ["dport:22 OR", 11, "조건이 필요합니다"],
+    ["OR dport:22", 0, "예상하지 못한 OR입니다"],
+    ["age:soon", 4, '시간 값이 아닙니다: "soon"'],
+    ["scountry:USA", 9, '국가 코드가 아닙니다: "USA"'],
+  ])("%s → %i번째 문자", (source, position, message) => {
+    expect(syntaxError(source)).toEqual({ position, message })
+  })
+})
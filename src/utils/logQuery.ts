@@ -0,0 +1,501 @@
+/**
+ * 로그 검색용 질의 언어 파서와 평가기
+ *
+ * 예: src:10.0.0.0/8 dport:22 proto:TCP type:malicious vol>500 NOT dst:192.168.1.1 age<5m scountry:US
+ *
+ * 문법:
+ * - 조건을 공백으로 나열하면 AND, OR 로 연결하면 OR (AND가 우선)
+ * - NOT, !, - 접두사로 부정, 괄호로 묶기
+ * - 필드:값 (쉼표로 여러 값, 포트·숫자는 1000-2000 범위 허용)
+ * - 필드>값, 필드>=값, 필드<값, 필드<=값, 필드=값, 필드!=값
+ * - 필드 없는 단어는 IP, 프로토콜, 유형 라벨에서 부분 일치 검색
+ * - 공백이 들어간 값은 "..."로 감쌈
+ *
+ * 필드:
+ * - src, dst, ip: IP 또는 CIDR (ip는 출발/도착 중 하나)
+ * - sport, dport, port: 포트 번호, 목록, 범위 (port는 출발/도착 중 하나)
+ * - proto: 프로토콜
+ * - type: normal | malicious | novel 또는 공격 유형 (sqli, xss, ddos ...)
+ * - attack: 공격 유형
+ * - vol: 트래픽 용량(KB)
+ * - scountry, dcountry, country: GeoIP로 찾은 국가 코드, 위치를 찾지 못한 로그는 unknown (country는 출발/도착 중 하나)
+ * - age: 로그 시각부터 지금까지 지난 시간 (단위 ms, s, m, h, d, 생략하면 초, age:5m은 age<=5m과 같음)
+ *
+ * @module logQuery
+ */
+import { AttackCategory, type LogEntry, type LogType } from "../types/log"
+import { cidrContains, ipToBytes, parseCidr, type Cidr } from "./ip"
+import { ATTACK_CATEGORY_LABELS, getLogLabel } from "./logLabels"
+
+// 질의 문법 오류 (position: 0부터 시작하는 문자 위치)
+export class LogQuerySyntaxError extends Error {
+  position: number
+
+  constructor(message: string, position: number) {
+    super(message)
+    this.name = "LogQuerySyntaxError"
+    this.position = position
+  }
+}
+
+export type ComparisonOperator = ":" | "=" | "!=" | ">" | ">=" | "<" | "<="
+
+export type LogQueryField =
+  | "src"
+  | "dst"
+  | "ip"
+  | "sport"
+  | "dport"
+  | "port"
+  | "proto"
+  | "type"
+  | "attack"
+  | "vol"
+  | "scountry"
+  | "dcountry"
+  | "country"
+  | "age"
+
+// 숫자 조건 (단일 값 또는 범위)
+interface NumberRange {
+  min: number
+  max: number
+}
+
+// 필드별로 해석된 조건 값
+type TermValue =
+  | { kind: "ip"; cidrs: Cidr[] }
+  | { kind: "number"; ranges: NumberRange[] }
+  | { kind: "text"; values: string[] }
+  | { kind: "type"; types: LogType[]; attacks: AttackCategory[] }
+  | { kind: "country"; countries: string[] } // 위치를 찾지 못한 로그는 빈 문자열
+
+// 질의 구문 트리
+export type LogQueryNode =
+  | { kind: "and"; left: LogQueryNode; right: LogQueryNode }
+  | { kind: "or"; left: LogQueryNode; right: LogQueryNode }
+  | { kind: "not"; operand: LogQueryNode }
+  | { kind: "term"; field: LogQueryField; operator: ComparisonOperator; value: TermValue; text: string }
+  | { kind: "text"; value: string }
+
+export interface LogQuery {
+  source: string
+  root: LogQueryNode | null // 빈 질의는 null (모든 로그와 일치)
+}
+
+// 필드 별칭
+const FIELD_ALIASES: Record<string, LogQueryField> = {
+  src: "src",
+  srcip: "src",
+  source: "src",
+  sourceip: "src",
+  dst: "dst",
+  dstip: "dst",
+  dest: "dst",
+  destination: "dst",
+  destinationip: "dst",
+  ip: "ip",
+  host: "ip",
+  sport: "sport",
+  srcport: "sport",
+  sourceport: "sport",
+  dport: "dport",
+  dstport: "dport",
+  destinationport: "dport",
+  port: "port",
+  proto: "proto",
+  protocol: "proto",
+  type: "type",
+  class: "type",
+  attack: "attack",
+  vol: "vol",
+  volume: "vol",
+  bytes: "vol",
+  scountry: "scountry",
+  srccountry: "scountry",
+  sourcecountry: "scountry",
+  dcountry: "dcountry",
+  dstcountry: "dcountry",
+  destinationcountry: "dcountry",
+  country: "country",
+  geo: "country",
+  age: "age",
+}
+
+// 로그 유형 이름과 별칭
+const TYPE_ALIASES: Record<string, LogType> = {
+  normal: "normal",
+  benign: "normal",
+  정상: "normal",
+  malicious: "malicious",
+  악성: "malicious",
+  novel: "novel",
+  new: "novel",
+  새로운패턴: "novel",
+}
+
+// 공격 유형 이름과 별칭 (enum 값, 라벨, 약어)
+const ATTACK_ALIASES: Record<string, AttackCategory> = {
+  ...Object.fromEntries(Object.values(AttackCategory).map((category) => [category, category])),
+  ...Object.fromEntries(
+    (Object.entries(ATTACK_CATEGORY_LABELS) as [AttackCategory, string][]).map(([category, label]) => [
+      label.toLowerCase().replace(/\s+/g, ""),
+      category,
+    ]),
+  ),
+  sqli: AttackCategory.SqlInjection,
+  sql: AttackCategory.SqlInjection,
+  dos: AttackCategory.DDoS,
+  scan: AttackCategory.PortScan,
+  brute: AttackCategory.BruteForce,
+  rce: AttackCategory.CommandInjection,
+  cmdi: AttackCategory.CommandInjection,
+  lfi: AttackCategory.FileInclusion,
+  rfi: AttackCategory.FileInclusion,
+}
+
+const IP_FIELDS: LogQueryField[] = ["src", "dst", "ip"]
+const NUMBER_FIELDS: LogQueryField[] = ["sport", "dport", "port", "vol"]
+const COUNTRY_FIELDS: LogQueryField[] = ["scountry", "dcountry", "country"]
+
+// 위치를 찾지 못한 로그를 가리키는 국가 값
+export const UNKNOWN_COUNTRY_VALUE = "unknown"
+
+// age 필드의 시간 단위 (ms)
+const DURATION_UNITS: Record<string, number> = { ms: 1, s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 }
+
+// ---------------------------------------------------------------------------
+// 토큰 분리
+// ---------------------------------------------------------------------------
+
+type Token =
+  | { type: "lparen" | "rparen" | "and" | "or" | "not"; start: number }
+  | { type: "atom"; text: string; start: number }
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = []
+  let index = 0
+
+  while (index < source.length) {
+    const char = source[index]
+    if (/\s/.test(char)) {
+      index++
+      continue
+    }
+    if (char === "(" || char === ")") {
+      tokens.push({ type: char === "(" ? "lparen" : "rparen", start: index })
+      index++
+      continue
+    }
+    if (source.startsWith("&&", index) || source.startsWith("||", index)) {
+      tokens.push({ type: char === "&" ? "and" : "or", start: index })
+      index += 2
+      continue
+    }
+    // 단어 앞의 ! 또는 - 는 부정
+    if ((char === "!" || char === "-") && /[A-Za-z("]/.test(source[index + 1] ?? "")) {
+      tokens.push({ type: "not", start: index })
+      index++
+      continue
+    }
+
+    // 공백이나 괄호가 나올 때까지 하나의 단어 (따옴표 안은 그대로 포함)
+    const start = index
+    let text = ""
+    while (index < source.length && !/[\s()]/.test(source[index])) {
+      if (source[index] === '"') {
+        const end = source.indexOf('"', index + 1)
+        if (end < 0) throw new LogQuerySyntaxError("따옴표가 닫히지 않았습니다", index)
+        text += source.slice(index + 1, end)
+        index = end + 1
+      } else {
+        text += source[index++]
+      }
+    }
+
+    const keyword = text.toUpperCase()
+    if (keyword === "AND") tokens.push({ type: "and", start })
+    else if (keyword === "OR") tokens.push({ type: "or", start })
+    else if (keyword === "NOT") tokens.push({ type: "not", start })
+    else tokens.push({ type: "atom", text, start })
+  }
+
+  return tokens
+}
+
+// ---------------------------------------------------------------------------
+// 조건 값 해석
+// ---------------------------------------------------------------------------
+
+const parseNumber = (text: string, position: number) => {
+  const value = Number(text)
+  if (text === "" || !Number.isFinite(value)) throw new LogQuerySyntaxError(`숫자가 아닙니다: "${text}"`, position)
+  return value
+}
+
+// 단위가 붙은 시간 값을 ms로 변환 (예: "90s", "5m", 단위가 없으면 초)
+const parseDuration = (text: string, position: number) => {
+  const match = /^(\d+(?:\.\d+)?)(ms|s|m|h|d)?$/i.exec(text)
+  if (!match) throw new LogQuerySyntaxError(`시간 값이 아닙니다: "${text}"`, position)
+  return Number(match[1]) * DURATION_UNITS[(match[2] ?? "s").toLowerCase()]
+}
+
+// 필드와 연산자에 맞게 값 문자열을 해석
+const parseTermValue = (field: LogQueryField, operator: ComparisonOperator, raw: string, position: number): TermValue => {
+  const isOrdering = operator === ">" || operator === ">=" || operator === "<" || operator === "<="
+  if (raw === "") throw new LogQuerySyntaxError("값이 비어 있습니다", position)
+
+  if (field === "age") {
+    const value = parseDuration(raw, position)
+    // age:5m, age=5m은 최근 5분 이내
+    const older = operator === ">" || operator === ">="
+    return { kind: "number", ranges: [older ? { min: value, max: Infinity } : { min: 0, max: value }] }
+  }
+
+  if (NUMBER_FIELDS.includes(field)) {
+    if (isOrdering) {
+      const value = parseNumber(raw, position)
+      const ranges: Record<string, NumberRange> = {
+        ">": { min: value, max: Infinity },
+        ">=": { min: value, max: Infinity },
+        "<": { min: -Infinity, max: value },
+        "<=": { min: -Infinity, max: value },
+      }
+      return { kind: "number", ranges: [ranges[operator]] }
+    }
+    // 쉼표 목록과 a-b 범위
+    return {
+      kind: "number",
+      ranges: raw.split(",").map((part) => {
+        const range = /^(\d+(?:\.\d+)?)-(\d+(?:\.\d+)?)$/.exec(part)
+        if (range) {
+          const min = Number(range[1])
+          const max = Number(range[2])
+          if (min > max) throw new LogQuerySyntaxError(`범위의 시작이 끝보다 큽니다: "${part}"`, position)
+          return { min, max }
+        }
+        const value = parseNumber(part, position)
+        return { min: value, max: value }
+      }),
+    }
+  }
+
+  if (isOrdering) throw new LogQuerySyntaxError(`${field} 필드에는 ${operator} 연산자를 쓸 수 없습니다`, position)
+
+  if (IP_FIELDS.includes(field)) {
+    return {
+      kind: "ip",
+      cidrs: raw.split(",").map((part) => {
+        const cidr = parseCidr(part)
+        if (!cidr) throw new LogQuerySyntaxError(`IP 또는 CIDR가 아닙니다: "${part}"`, position)
+        return cidr
+      }),
+    }
+  }
+
+  if (COUNTRY_FIELDS.includes(field)) {
+    return {
+      kind: "country",
+      countries: raw.split(",").map((part) => {
+        if (part.toLowerCase() === UNKNOWN_COUNTRY_VALUE) return ""
+        if (!/^[A-Za-z]{2}$/.test(part)) throw new LogQuerySyntaxError(`국가 코드가 아닙니다: "${part}"`, position)
+        return part.toUpperCase()
+      }),
+    }
+  }
+
+  if (field === "type" || field === "attack") {
+    const value: TermValue = { kind: "type", types: [], attacks: [] }
+    raw.split(",").forEach((part) => {
+      const key = part.toLowerCase().replace(/[\s_-]+/g, "")
+      const attack = ATTACK_ALIASES[key] ?? ATTACK_ALIASES[part.toLowerCase()]
+      if (field === "type" && TYPE_ALIASES[key]) value.types.push(TYPE_ALIASES[key])
+      else if (attack) value.attacks.push(attack)
+      else throw new LogQuerySyntaxError(`알 수 없는 ${field === "type" ? "유형" : "공격 유형"}입니다: "${part}"`, position)
+    })
+    return value
+  }
+
+  return { kind: "text", values: raw.split(",").map((part) => part.toLowerCase()) }
+}
+
+// "필드연산자값" 형식의 단어를 조건으로 변환, 필드가 없으면 자유 검색어
+const parseAtom = (text: string, start: number): LogQueryNode => {
+  const match = /^([A-Za-z_]+)(>=|<=|!=|:|=|>|<)(.*)$/.exec(text)
+  if (!match) return { kind: "text", value: text.toLowerCase() }
+
+  const [, name, operator, raw] = match
+  const field = FIELD_ALIASES[name.toLowerCase()]
+  if (!field) throw new LogQuerySyntaxError(`알 수 없는 필드입니다: "${name}"`, start)
+
+  const valuePosition = start + name.length + operator.length
+  const value = parseTermValue(field, operator as ComparisonOperator, raw, valuePosition)
+  const node: LogQueryNode = { kind: "term", field, operator: operator as ComparisonOperator, value, text }
+  // != 는 = 조건의 부정
+  return operator === "!=" ? { kind: "not", operand: { ...node, operator: "=" } } : node
+}
+
+// ---------------------------------------------------------------------------
+// 구문 분석 (재귀 하강)
+// ---------------------------------------------------------------------------
+
+// 질의 문자열을 구문 트리로 변환, 문법 오류는 LogQuerySyntaxError로 던짐
+export function parseLogQuery(source: string): LogQuery {
+  const tokens = tokenize(source)
+  let index = 0
+
+  const peek = () => tokens[index]
+  const endPosition = source.length
+
+  const parseOr = (): LogQueryNode => {
+    let left = parseAnd()
+    while (peek()?.type === "or") {
+      index++
+      left = { kind: "or", left, right: parseAnd() }
+    }
+    return left
+  }
+
+  const parseAnd = (): LogQueryNode => {
+    let left = parseNot()
+    // 명시적 AND 또는 다음 조건이 바로 이어지는 경우(암시적 AND)
+    while (peek() && (peek().type === "and" || ["atom", "not", "lparen"].includes(peek().type))) {
+      if (peek().type === "and") index++
+      left = { kind: "and", left, right: parseNot() }
+    }
+    return left
+  }
+
+  const parseNot = (): LogQueryNode => {
+    if (peek()?.type === "not") {
+      index++
+      return { kind: "not", operand: parseNot() }
+    }
+    return parsePrimary()
+  }
+
+  const parsePrimary = (): LogQueryNode => {
+    const token = peek()
+    if (!token) throw new LogQuerySyntaxError("조건이 필요합니다", endPosition)
+
+    if (token.type === "lparen") {
+      index++
+      const node = parseOr()
+      if (peek()?.type !== "rparen") throw new LogQuerySyntaxError("괄호가 닫히지 않았습니다", token.start)
+      index++
+      return node
+    }
+    if (token.type === "atom") {
+      index++
+      return parseAtom(token.text, token.start)
+    }
+    const names: Record<string, string> = { rparen: ")", and: "AND", or: "OR", not: "NOT" }
+    throw new LogQuerySyntaxError(`예상하지 못한 ${names[token.type]}입니다`, token.start)
+  }
+
+  if (tokens.length === 0) return { source, root: null }
+  const root = parseOr()
+  if (index < tokens.length) {
+    throw new LogQuerySyntaxError("예상하지 못한 )입니다", tokens[index].start)
+  }
+  return { source, root }
+}
+
+// ---------------------------------------------------------------------------
+// 평가
+// ---------------------------------------------------------------------------
+
+const matchesIp = (cidrs: Cidr[], ip: string) => {
+  const bytes = ipToBytes(ip)
+  return !!bytes && cidrs.some((cidr) => cidrContains(cidr, bytes))
+}
+
+const matchesNumber = (ranges: NumberRange[], value: number, operator: ComparisonOperator) =>
+  ranges.some(({ min, max }) =>
+    operator === ">" ? value > min : operator === "<" ? value < max : value >= min && value <= max,
+  )
+
+// 조건 하나를 로그에 적용
+const evaluateTerm = (node: Extract<LogQueryNode, { kind: "term" }>, log: LogEntry): boolean => {
+  const { field, value, operator } = node
+
+  switch (value.kind) {
+    case "ip":
+      if (field === "src") return matchesIp(value.cidrs, log.sourceIP)
+      if (field === "dst") return matchesIp(value.cidrs, log.destinationIP)
+      return matchesIp(value.cidrs, log.sourceIP) || matchesIp(value.cidrs, log.destinationIP)
+    case "number":
+      if (field === "sport") return matchesNumber(value.ranges, log.sourcePort, operator)
+      if (field === "dport") return matchesNumber(value.ranges, log.destinationPort, operator)
+      if (field === "vol") return matchesNumber(value.ranges, log.trafficVolume, operator)
+      if (field === "age") return matchesNumber(value.ranges, Date.now() - log.timestamp.getTime(), operator)
+      return (
+        matchesNumber(value.ranges, log.sourcePort, operator) ||
+        matchesNumber(value.ranges, log.destinationPort, operator)
+      )
+    case "type":
+      return (
+        value.types.includes(log.type) || (log.type === "malicious" && value.attacks.includes(log.attack))
+      )
+    case "country": {
+      const source = log.sourceGeo?.country ?? ""
+      const destination = log.destinationGeo?.country ?? ""
+      if (field === "scountry") return value.countries.includes(source)
+      if (field === "dcountry") return value.countries.includes(destination)
+      return value.countries.includes(source) || value.countries.includes(destination)
+    }
+    case "text":
+      return value.values.includes(String(log.protocol).toLowerCase())
+  }
+}
+
+// 구문 트리의 노드를 로그에 적용
+const evaluate = (node: LogQueryNode, log: LogEntry): boolean => {
+  switch (node.kind) {
+    case "and":
+      return evaluate(node.left, log) && evaluate(node.right, log)
+    case "or":
+      return evaluate(node.left, log) || evaluate(node.right, log)
+    case "not":
+      return !evaluate(node.operand, log)
+    case "term":
+      return evaluateTerm(node, log)
+    case "text":
+      return [log.sourceIP, log.destinationIP, log.protocol, getLogLabel(log)].some((field) =>
+        String(field).toLowerCase().includes(node.value),
+      )
+  }
+}
+
+// 로그가 질의와 일치하는지 확인
+export function matchesLogQuery(query: LogQuery, log: LogEntry): boolean {
+  return query.root === null || evaluate(query.root, log)
+}
+
+// 로그 목록을 질의로 필터링
+export function filterLogs(logs: LogEntry[], query: LogQuery): LogEntry[] {
+  return query.root === null ? logs : logs.filter((log) => evaluate(query.root!, log))
+}
+
+// 질의 문자열을 파싱하여 오류 또는 결과를 반환 (입력창에서 사용)
+export function tryParseLogQuery(source: string): { query: LogQuery; error: null } | { query: null; error: LogQuerySyntaxError } {
+  try {
+    return { query: parseLogQuery(source), error: null }
+  } catch (error) {
+    if (error instanceof LogQuerySyntaxError) return { query: null, error }
+    throw error
+  }
+}
+
+// 질의에 쓸 수 있도록 값을 따옴표로 감쌈 (공백이나 괄호가 있을 때만)
+export function quoteQueryValue(value: string): string {
+  return /[\s()"]/.test(value) ? `"${value.replace(/"/g, "")}"` : value
+}
+
+// 질의에 조건을 AND로 덧붙임 (최상위가 OR이면 기존 질의를 괄호로 묶어 우선순위를 유지)
+export function appendQueryClause(source: string, clause: string): string {
+  const text = source.trim()
+  if (!text) return clause
+  const { query } = tryParseLogQuery(text)
+  return query?.root?.kind === "or" ? `(${text}) ${clause}` : `${text} ${clause}`
+}
@@ -0,0 +1,86 @@
+/**
+ * 로그 상세 보기에서 선택한 로그와 관련된 활동을 찾는 함수들
+ *
+ * - 같은 출발 IP에서 발생한 다른 이벤트
+ * - 같은 도착 포트로 향한 다른 이벤트
+ * - 같은 출발 IP의 이벤트를 시간 구간별로 센 미니 타임라인
+ *
+ * @module logRelations
+ */
+import type { LogEntry, LogType } from "../types/log"
+
+// 관련 이벤트 목록에 담을 최대 건수
+const RELATED_LIMIT = 50
+const TIMELINE_BUCKETS = 24
+
+// 타임라인 한 구간의 분류별 이벤트 수
+export interface TimelineBucket {
+  start: Date
+  end: Date
+  counts: Record<LogType, number>
+}
+
+export interface RelatedActivity {
+  sameSource: LogEntry[] // 최신순, 최대 RELATED_LIMIT건
+  sameSourceTotal: number
+  sameDestinationPort: LogEntry[]
+  sameDestinationPortTotal: number
+  timeline: TimelineBucket[] // 같은 출발 IP의 이벤트 (선택한 로그 포함)
+}
+
+// 같은 출발 IP의 이벤트를 시간 구간별로 집계
+export function buildTimeline(logs: LogEntry[], bucketCount: number = TIMELINE_BUCKETS): TimelineBucket[] {
+  if (logs.length === 0) return []
+  let min = Infinity
+  let max = -Infinity
+  for (const log of logs) {
+    const time = log.timestamp.getTime()
+    if (time < min) min = time
+    if (time > max) max = time
+  }
+
+  // 모든 이벤트가 같은 시각이면 구간 하나로 표시
+  const count = max > min ? bucketCount : 1
+  const width = Math.max(1, (max - min) / count)
+  const buckets: TimelineBucket[] = Array.from({ length: count }, (_, index) => ({
+    start: new Date(min + index * width),
+    end: new Date(min + (index + 1) * width),
+    counts: { normal: 0, malicious: 0, novel: 0 },
+  }))
+
+  for (const log of logs) {
+    const index = Math.min(count - 1, Math.floor((log.timestamp.getTime() - min) / width))
+    buckets[index].counts[log.type] += 1
+  }
+  return buckets
+}
+
+// 로그 목록에서 선택한 로그와 관련된 활동을 찾음 (목록은 최신순이라고 가정)
+export function findRelatedActivity(logs: LogEntry[], selected: LogEntry): RelatedActivity {
+  const sameSource: LogEntry[] = []
+  const sameDestinationPort: LogEntry[] = []
+  const timelineLogs: LogEntry[] = [selected]
+  let sameSourceTotal = 0
+  let sameDestinationPortTotal = 0
+
+  for (const log of logs) {
+    if (log.id === selected.id) continue
+    if (log.sourceIP === selected.sourceIP) {
+      sameSourceTotal += 1
+      timelineLogs.push(log)
+      if (sameSource.length < RELATED_LIMIT) sameSource.push(log)
+    }
+    if (log.destinationPort === selected.destinationPort) {
+      sameDestinationPortTotal += 1
+      if (sameDestinationPort.length < RELATED_LIMIT) sameDestinationPort.push(log)
+    }
+  }
+
+  return {
+    sameSource,
+    sameSourceTotal,
+    sameDestinationPort,
+    sameDestinationPortTotal,
+    timeline: buildTimeline(timelineLogs),
+  }
+}
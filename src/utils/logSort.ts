@@ -0,0 +1,68 @@
+/**
+ * 로그 테이블의 열 정렬 함수
+ *
+ * IP는 문자열이 아니라 주소 바이트 순서로, 시간과 포트, 용량은 숫자로 비교하며
+ * 수십만 건을 정렬할 때 비교마다 변환하지 않도록 정렬 키를 미리 계산
+ *
+ * @module logSort
+ */
+import type { LogEntry } from "../types/log"
+import { ipToBytes } from "./ip"
+import { getLogLabel } from "./logLabels"
+
+export type LogSortKey =
+  | "timestamp"
+  | "sourceIP"
+  | "sourcePort"
+  | "destinationIP"
+  | "destinationPort"
+  | "protocol"
+  | "type"
+  | "trafficVolume"
+
+export interface LogSort {
+  key: LogSortKey
+  direction: "asc" | "desc"
+}
+
+// 실시간 로그의 기본 정렬 (최신순)
+export const DEFAULT_LOG_SORT: LogSort = { key: "timestamp", direction: "desc" }
+
+export const isDefaultLogSort = (sort: LogSort) =>
+  sort.key === DEFAULT_LOG_SORT.key && sort.direction === DEFAULT_LOG_SORT.direction
+
+// IP 주소를 정렬 가능한 문자열로 변환 (IPv4가 IPv6보다 앞)
+const ipSortKey = (ip: string) => {
+  const bytes = ipToBytes(ip)
+  if (!bytes) return `~${ip}`
+  return `${bytes.length}:${bytes.map((byte) => byte.toString(16).padStart(2, "0")).join("")}`
+}
+
+// 로그 하나의 정렬 키
+const sortKeyOf = (log: LogEntry, key: LogSortKey): number | string => {
+  switch (key) {
+    case "timestamp":
+      return log.timestamp.getTime()
+    case "sourceIP":
+      return ipSortKey(log.sourceIP)
+    case "destinationIP":
+      return ipSortKey(log.destinationIP)
+    case "type":
+      return getLogLabel(log)
+    default:
+      return log[key]
+  }
+}
+
+// 정렬한 새 배열을 반환 (같은 값은 원래 순서 유지)
+export function sortLogs(logs: LogEntry[], sort: LogSort): LogEntry[] {
+  const sign = sort.direction === "asc" ? 1 : -1
+  const keyed = logs.map((log, index) => ({ log, index, key: sortKeyOf(log, sort.key) }))
+
+  keyed.sort((a, b) => {
+    if (a.key < b.key) return -sign
+    if (a.key > b.key) return sign
+    return a.index - b.index
+  })
+  return keyed.map((item) => item.log)
+}
@@ -0,0 +1,127 @@
+/**
+ * 최근 로그를 초 단위로 묶어 세고, 기간별 유형/국가 통계를 만드는 집계기
+ *
+ * - 로그 시각이 속한 1초 구간마다 유형별, 출발 국가별 로그 수를 보관
+ * - 보관 기간이 지난 구간은 버리므로 로그가 많아도 메모리는 구간 수만큼만 사용
+ * - 통계 차트와 로그 검색 질의(age, type, scountry)가 같은 기준으로 로그를 셈
+ *
+ * @module logStatistics
+ */
+import { LOG_TYPES, type LogEntry, type LogType } from "../types/log"
+import { UNKNOWN_COUNTRY_VALUE } from "./logQuery"
+
+// 출발 국가를 찾지 못한 로그의 국가 키
+export const UNKNOWN_COUNTRY = ""
+
+const BUCKET_MS = 1000
+
+// 1초 구간의 로그 수
+interface LogBucket {
+  time: number // 구간 시작 시각 (ms)
+  types: Record<LogType, number>
+  countries: Map<string, number>
+}
+
+// 기간 안의 로그 수
+export interface LogCounts {
+  total: number
+  types: Record<LogType, number>
+  countries: Map<string, number> // 출발 국가 코드별 (찾지 못하면 UNKNOWN_COUNTRY)
+}
+
+// 국가별 차트의 항목 (상위 국가, 기타, 위치 불명)
+export interface CountrySlice {
+  key: string // 국가 코드, "other", "unknown"
+  count: number
+}
+
+export interface LogCounter {
+  add(logs: LogEntry[]): void
+  counts(windowMs: number, now?: number): LogCounts
+  clear(): void
+}
+
+const emptyTypeCounts = (): Record<LogType, number> => ({ normal: 0, malicious: 0, novel: 0 })
+
+// 집계기를 생성하는 함수 (retentionMs보다 오래된 로그는 세지 않음)
+export function createLogCounter(retentionMs: number): LogCounter {
+  const buckets = new Map<number, LogBucket>()
+
+  // 보관 기간이 지난 구간을 버림
+  const prune = (now: number) => {
+    buckets.forEach((bucket, time) => {
+      if (time + BUCKET_MS <= now - retentionMs) buckets.delete(time)
+    })
+  }
+
+  return {
+    add(logs) {
+      const now = Date.now()
+      for (const log of logs) {
+        const timestamp = log.timestamp.getTime()
+        if (!(timestamp > now - retentionMs)) continue // 오래된 로그와 잘못된 시각
+        const time = Math.floor(timestamp / BUCKET_MS) * BUCKET_MS
+        let bucket = buckets.get(time)
+        if (!bucket) {
+          bucket = { time, types: emptyTypeCounts(), countries: new Map() }
+          buckets.set(time, bucket)
+        }
+        bucket.types[log.type]++
+        const country = log.sourceGeo?.country ?? UNKNOWN_COUNTRY
+        bucket.countries.set(country, (bucket.countries.get(country) ?? 0) + 1)
+      }
+      prune(now)
+    },
+    counts(windowMs, now = Date.now()) {
+      const result: LogCounts = { total: 0, types: emptyTypeCounts(), countries: new Map() }
+      buckets.forEach((bucket) => {
+        // 구간의 일부라도 기간 안에 들어오면 셈 (질의의 age<기간과 최대 1초 차이)
+        if (bucket.time + BUCKET_MS <= now - windowMs) return
+        LOG_TYPES.forEach((type) => {
+          result.types[type] += bucket.types[type]
+          result.total += bucket.types[type]
+        })
+        bucket.countries.forEach((count, country) => {
+          result.countries.set(country, (result.countries.get(country) ?? 0) + count)
+        })
+      })
+      return result
+    },
+    clear() {
+      buckets.clear()
+    },
+  }
+}
+
+// 국가별 로그 수를 상위 top개국, 기타, 위치 불명 항목으로 나눔
+export function toCountrySlices(countries: Map<string, number>, top: number): CountrySlice[] {
+  const ranked = Array.from(countries.entries())
+    .filter(([country]) => country !== UNKNOWN_COUNTRY)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+  const leaders = ranked.slice(0, top)
+  const others = ranked.slice(top).reduce((sum, [, count]) => sum + count, 0)
+  const unknown = countries.get(UNKNOWN_COUNTRY) ?? 0
+  return [
+    ...leaders.map(([country, count]) => ({ key: country, count })),
+    ...(others > 0 ? [{ key: "other", count: others }] : []),
+    ...(unknown > 0 ? [{ key: "unknown", count: unknown }] : []),
+  ]
+}
+
+// 국가별 항목에 속한 로그를 찾는 검색 질의 조건 (slices: 같은 차트의 전체 항목)
+export function countrySliceQuery(slice: CountrySlice, slices: CountrySlice[]): string {
+  if (slice.key === "unknown") return `scountry:${UNKNOWN_COUNTRY_VALUE}`
+  if (slice.key === "other") {
+    // 기타: 상위 국가도 위치 불명도 아닌 로그
+    const leaders = slices.filter(({ key }) => key !== "other" && key !== "unknown").map(({ key }) => key)
+    return `scountry!=${[...leaders, UNKNOWN_COUNTRY_VALUE].join(",")}`
+  }
+  return `scountry:${slice.key}`
+}
+
+// 기간을 검색 질의의 시간 값으로 변환 (예: 300000 → "5m")
+export function formatQueryDuration(ms: number): string {
+  if (ms % 3_600_000 === 0) return `${ms / 3_600_000}h`
+  if (ms % 60_000 === 0) return `${ms / 60_000}m`
+  return `${Math.round(ms / 1000)}s`
+}
@@ -0,0 +1,81 @@
+/**
+ * dataGenerators의 목 데이터 생성기를 텔레메트리 소스 인터페이스로 감싼 어댑터
+ *
+ * 각 채널은 기존 컴포넌트들이 사용하던 주기와 동일하게 발행됨
+ * - traffic: 2초마다 트래픽 샘플 1개
+ * - logs: 1초마다 마지막 트래픽 샘플을 기반으로 생성한 로그 묶음
+ * - flows: 5초마다 도시 경로 사이의 플로우 MOCK_FLOW_COUNT개 (마지막 로그 묶음의 주소를 대표 주소로 사용)
+ * - resources: 2초마다 리소스 지표
+ * - ports, system: 시작 시 한 번
+ *
+ * @module mockTelemetrySource
+ */
+import type { LogEntry, ResourceMetrics, TelemetrySource, TrafficSample } from "../types/telemetry"
+import {
+  generateFlowData,
+  generateLogData,
+  generatePortStatus,
+  generateResourceMetrics,
+  generateSystemInfo,
+  generateTrafficData,
+} from "./dataGenerators"
+import { createTelemetryEmitter } from "./telemetryEmitter"
+
+// 목 데이터 소스를 생성하는 함수
+export function createMockTelemetrySource(): TelemetrySource {
+  const emitter = createTelemetryEmitter()
+  let timers: ReturnType<typeof setInterval>[] = []
+  let lastTraffic: TrafficSample | null = null
+  let lastLogs: LogEntry[] = []
+  let resources: ResourceMetrics | undefined
+
+  // 트래픽 샘플 발행
+  const emitTraffic = () => {
+    const sample = generateTrafficData(1)[0]
+    if (sample) {
+      lastTraffic = sample
+      emitter.emit("traffic", sample)
+    }
+  }
+
+  // 마지막 트래픽 샘플을 기반으로 로그 발행
+  const emitLogs = () => {
+    if (!lastTraffic) return
+    const logs = generateLogData([lastTraffic], [])
+    if (logs.length > 0) {
+      lastLogs = logs
+      emitter.emit("logs", logs)
+    }
+  }
+
+  // 리소스 지표 발행 (이전 값에서 이어지는 랜덤 워크)
+  const emitResources = () => {
+    resources = generateResourceMetrics(resources)
+    emitter.emit("resources", resources)
+  }
+
+  return {
+    kind: "mock",
+    start() {
+      if (timers.length > 0) return // 이미 시작된 경우 무시
+
+      emitter.emit("ports", generatePortStatus())
+      emitter.emit("system", generateSystemInfo())
+      emitTraffic()
+      emitResources()
+      emitter.emit("flows", generateFlowData())
+
+      timers = [
+        setInterval(emitTraffic, 2000),
+        setInterval(emitLogs, 1000),
+        setInterval(() => emitter.emit("flows", generateFlowData(lastLogs)), 5000),
+        setInterval(emitResources, 2000),
+      ]
+    },
+    stop() {
+      timers.forEach((timer) => clearInterval(timer))
+      timers = []
+    },
+    subscribe: emitter.subscribe,
+  }
+}
@@ -0,0 +1,272 @@
+import { describe, expect, it } from "@jest/globals"
+import { detectCaptureFormat, parseCapture, PcapFormatError } from "./pcap"
+
+// ---------------------------------------------------------------------------
+// 캡처 파일을 만드는 도우미
+// ---------------------------------------------------------------------------
+
+// 필드 목록을 지정한 바이트 순서로 기록 ([바이트 수, 값] 또는 원본 바이트)
+const bytes = (littleEndian: boolean, ...fields: ([1 | 2 | 4, number] | Uint8Array)[]) => {
+  const length = fields.reduce((sum, field) => sum + (field instanceof Uint8Array ? field.length : field[0]), 0)
+  const out = new Uint8Array(length)
+  const view = new DataView(out.buffer)
+  let offset = 0
+  for (const field of fields) {
+    if (field instanceof Uint8Array) {
+      out.set(field, offset)
+      offset += field.length
+      continue
+    }
+    const [size, value] = field
+    if (size === 1) view.setUint8(offset, value)
+    else if (size === 2) view.setUint16(offset, value, littleEndian)
+    else view.setUint32(offset, value, littleEndian)
+    offset += size
+  }
+  return out
+}
+
+const concat = (...parts: Uint8Array[]) => bytes(false, ...parts)
+
+// 4바이트 경계까지 0으로 채움
+const pad4 = (data: Uint8Array) => concat(data, new Uint8Array((4 - (data.length % 4)) % 4))
+
+// 전송 계층 헤더 (포트만 의미 있음)
+const transport = (sourcePort: number, destinationPort: number) =>
+  bytes(false, [2, sourcePort], [2, destinationPort], new Uint8Array(16))
+
+const ipv4 = (source: number[], destination: number[], protocol: number, payload: Uint8Array, fragment = 0) =>
+  concat(
+    bytes(false, [1, 0x45], [1, 0], [2, 20 + payload.length], [2, 0], [2, fragment], [1, 64], [1, protocol], [2, 0]),
+    Uint8Array.from(source),
+    Uint8Array.from(destination),
+    payload,
+  )
+
+const ipv6 = (source: number[], destination: number[], nextHeader: number, payload: Uint8Array) =>
+  concat(
+    bytes(false, [4, 0x60000000], [2, payload.length], [1, nextHeader], [1, 64]),
+    Uint8Array.from(source),
+    Uint8Array.from(destination),
+    payload,
+  )
+
+const ethernet = (etherType: number, payload: Uint8Array, vlan?: number) =>
+  concat(
+    new Uint8Array(12),
+    vlan === undefined ? new Uint8Array() : bytes(false, [2, 0x8100], [2, vlan]),
+    bytes(false, [2, etherType]),
+    payload,
+  )
+
+const IPV6_SOURCE = [0x20, 0x01, 0x0d, 0xb8, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1]
+const IPV6_DESTINATION = [0xfe, 0x80, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 2]
+
+interface TestRecord {
+  seconds: number
+  fraction: number // 마이크로초 또는 나노초
+  data: Uint8Array
+  originalLength?: number
+}
+
+interface PcapOptions {
+  littleEndian: boolean
+  nanoseconds?: boolean
+  linkType: number
+}
+
+const pcapFile = ({ littleEndian, nanoseconds, linkType }: PcapOptions, records: TestRecord[]) => {
+  const header = bytes(
+    littleEndian,
+    [4, nanoseconds ? 0xa1b23c4d : 0xa1b2c3d4],
+    [2, 2],
+    [2, 4],
+    [4, 0],
+    [4, 0],
+    [4, 65535],
+    [4, linkType],
+  )
+  const body = records.map(({ seconds, fraction, data, originalLength }) =>
+    bytes(littleEndian, [4, seconds], [4, fraction], [4, data.length], [4, originalLength ?? data.length], data),
+  )
+  return concat(header, ...body).buffer
+}
+
+// pcapng 블록 (길이 필드를 앞뒤에 붙임)
+const block = (littleEndian: boolean, type: number, body: Uint8Array) => {
+  const padded = pad4(body)
+  const length = padded.length + 12
+  return bytes(littleEndian, [4, type], [4, length], padded, [4, length])
+}
+
+const pcapngFile = (
+  options: { littleEndian: boolean; linkType: number; tsresol?: number },
+  packets: { ticks: number; data: Uint8Array }[],
+) => {
+  const { littleEndian, linkType, tsresol } = options
+  const shbBody = bytes(littleEndian, [4, 0x1a2b3c4d], [2, 1], [2, 0], [4, 0xffffffff], [4, 0xffffffff])
+  const shb = block(littleEndian, 0x0a0d0d0a, shbBody)
+  const idbOptions =
+    tsresol === undefined ? new Uint8Array() : concat(bytes(littleEndian, [2, 9], [2, 1]), pad4(Uint8Array.of(tsresol)))
+  const idb = block(littleEndian, 1, concat(bytes(littleEndian, [2, linkType], [2, 0], [4, 65535]), idbOptions))
+  const epbs = packets.map(({ ticks, data }) =>
+    block(
+      littleEndian,
+      6,
+      bytes(
+        littleEndian,
+        [4, 0],
+        [4, Math.floor(ticks / 4294967296)],
+        [4, ticks % 4294967296],
+        [4, data.length],
+        [4, data.length],
+        data,
+      ),
+    ),
+  )
+  return concat(shb, idb, ...epbs).buffer
+}
+
+const TCP_FRAME = ethernet(0x0800, ipv4([10, 0, 0, 1], [192, 168, 1, 2], 6, transport(51000, 443)))
+
+// ---------------------------------------------------------------------------
+// 테스트
+// ---------------------------------------------------------------------------
+
+describe("detectCaptureFormat", () => {
+  it("매직 넘버로 pcap과 pcapng를 구분", () => {
+    expect(detectCaptureFormat(pcapFile({ littleEndian: true, linkType: 1 }, []))).toBe("pcap")
+    expect(detectCaptureFormat(pcapFile({ littleEndian: false, nanoseconds: true, linkType: 1 }, []))).toBe("pcap")
+    expect(detectCaptureFormat(pcapngFile({ littleEndian: true, linkType: 1 }, []))).toBe("pcapng")
+    expect(detectCaptureFormat(new ArrayBuffer(24))).toBeNull()
+    expect(() => parseCapture(new ArrayBuffer(8))).toThrow(PcapFormatError)
+  })
+})
+
+describe("parseCapture (pcap)", () => {
+  it.each([true, false])("리틀 엔디언 %s: 마이크로초 시간과 IPv4/TCP 5-tuple", (littleEndian) => {
+    const buffer = pcapFile({ littleEndian, linkType: 1 }, [
+      { seconds: 1_700_000_000, fraction: 250_000, data: TCP_FRAME, originalLength: 1500 },
+    ])
+    expect(parseCapture(buffer)).toEqual({
+      packets: [
+        {
+          timestamp: new Date(1_700_000_000_250),
+          sourceIP: "10.0.0.1",
+          destinationIP: "192.168.1.2",
+          transport: "TCP",
+          sourcePort: 51000,
+          destinationPort: 443,
+          length: 1500,
+        },
+      ],
+      skipped: 0,
+    })
+  })
+
+  it("나노초 시간", () => {
+    const buffer = pcapFile({ littleEndian: false, nanoseconds: true, linkType: 1 }, [
+      { seconds: 1_700_000_000, fraction: 500_000_000, data: TCP_FRAME },
+    ])
+    expect(parseCapture(buffer).packets[0].timestamp).toEqual(new Date(1_700_000_000_500))
+  })
+
+  it("VLAN 태그, Raw IP의 UDP, 조각난 IPv4와 ICMP", () => {
+    const udp = ipv4([10, 0, 0, 3], [8, 8, 8, 8], 17, transport(5353, 53))
+    const fragment = ipv4([10, 0, 0, 3], [8, 8, 8, 8], 17, transport(1, 2), 0x0010)
+    const icmp = ipv4([10, 0, 0, 3], [8, 8, 8, 8], 1, new Uint8Array(8))
+    const vlan = pcapFile({ littleEndian: true, linkType: 1 }, [
+      { seconds: 1, fraction: 0, data: ethernet(0x0800, udp, 100) },
+    ])
+    const raw = pcapFile({ littleEndian: true, linkType: 101 }, [
+      { seconds: 1, fraction: 0, data: udp },
+      { seconds: 1, fraction: 0, data: fragment },
+      { seconds: 1, fraction: 0, data: icmp },
+    ])
+
+    expect(parseCapture(vlan).packets[0]).toMatchObject({ transport: "UDP", sourcePort: 5353, destinationPort: 53 })
+    expect(parseCapture(raw).packets.map(({ transport, destinationPort }) => [transport, destinationPort])).toEqual([
+      ["UDP", 53],
+      ["UDP", 0], // 첫 조각이 아니면 포트를 읽지 않음
+      ["ICMP", 0],
+    ])
+  })
+
+  it("IP가 아니거나 잘린 프레임은 건너뛰고, 잘린 마지막 레코드는 무시", () => {
+    const arp = ethernet(0x0806, new Uint8Array(28))
+    const truncated = ethernet(0x0800, new Uint8Array(10))
+    const buffer = pcapFile({ littleEndian: true, linkType: 1 }, [
+      { seconds: 1, fraction: 0, data: TCP_FRAME },
+      { seconds: 1, fraction: 0, data: arp },
+      { seconds: 1, fraction: 0, data: truncated },
+    ])
+    const cut = buffer.slice(0, buffer.byteLength - 4)
+
+    expect(parseCapture(buffer)).toMatchObject({ skipped: 2 })
+    expect(parseCapture(cut)).toMatchObject({ skipped: 1 })
+    expect(parseCapture(cut).packets).toHaveLength(1)
+  })
+})
+
+describe("parseCapture (IPv6)", () => {
+  it("주소를 축약 표기로 읽고 확장 헤더를 따라 전송 계층을 찾음", () => {
+    const hopByHop = concat(bytes(false, [1, 6], [1, 0]), new Uint8Array(6))
+    const packet = ipv6(IPV6_SOURCE, IPV6_DESTINATION, 0, concat(hopByHop, transport(40000, 8443)))
+    const buffer = pcapFile({ littleEndian: true, linkType: 1 }, [
+      { seconds: 1, fraction: 0, data: ethernet(0x86dd, packet) },
+    ])
+
+    expect(parseCapture(buffer).packets[0]).toMatchObject({
+      sourceIP: "2001:db8::1",
+      destinationIP: "fe80::2",
+      transport: "TCP",
+      sourcePort: 40000,
+      destinationPort: 8443,
+    })
+  })
+
+  it("첫 조각이 아닌 Fragment 헤더 뒤에서는 포트를 읽지 않음, ICMPv6 이름", () => {
+    const fragment = concat(bytes(false, [1, 17], [1, 0], [2, 0x0008], [4, 1]), transport(1, 2))
+    const icmp = ipv6(IPV6_SOURCE, IPV6_DESTINATION, 58, new Uint8Array(8))
+    const buffer = pcapFile({ littleEndian: false, linkType: 229 }, [
+      { seconds: 1, fraction: 0, data: ipv6(IPV6_SOURCE, IPV6_DESTINATION, 44, fragment) },
+      { seconds: 1, fraction: 0, data: icmp },
+    ])
+
+    expect(parseCapture(buffer).packets.map(({ transport, sourcePort }) => [transport, sourcePort])).toEqual([
+      ["UDP", 0],
+      ["ICMPv6", 0],
+    ])
+  })
+})
+
+describe("parseCapture (pcapng)", () => {
+  it.each([true, false])("리틀 엔디언 %s: 기본 마이크로초 단위의 EPB", (littleEndian) => {
+    const ticks = 1_700_000_000_123_456
+    const result = parseCapture(pcapngFile({ littleEndian, linkType: 1 }, [{ ticks, data: TCP_FRAME }]))
+
+    expect(result.skipped).toBe(0)
+    expect(result.packets[0]).toMatchObject({ sourceIP: "10.0.0.1", destinationPort: 443, length: 54 })
+    expect(result.packets[0].timestamp).toEqual(new Date(1_700_000_000_123))
+  })
+
+  it("if_tsresol의 10진/2진 단위", () => {
+    const nano = pcapngFile({ littleEndian: true, linkType: 1, tsresol: 9 }, [
+      { ticks: 1_700_000_000_000_000_000, data: TCP_FRAME },
+    ])
+    const binary = pcapngFile({ littleEndian: true, linkType: 1, tsresol: 0x80 | 10 }, [
+      { ticks: 1024 * 5, data: TCP_FRAME },
+    ])
+
+    expect(parseCapture(nano).packets[0].timestamp.getTime()).toBeCloseTo(1_700_000_000_000, -1)
+    expect(parseCapture(binary).packets[0].timestamp).toEqual(new Date(5000))
+  })
+
+  it("Linux SLL2 링크 계층의 IPv6", () => {
+    const sll2 = concat(bytes(false, [2, 0x86dd]), new Uint8Array(18))
+    const packet = concat(sll2, ipv6(IPV6_SOURCE, IPV6_DESTINATION, 17, transport(546, 547)))
+    const result = parseCapture(pcapngFile({ littleEndian: false, linkType: 276 }, [{ ticks: 0, data: packet }]))
+
+    expect(result.packets[0]).toMatchObject({ sourceIP: "2001:db8::1", transport: "UDP", destinationPort: 547 })
+  })
+})
@@ -0,0 +1,315 @@
+/**
+ * pcap / pcapng 캡처 파일 파서
+ *
+ * 컨테이너:
+ * - pcap: 마이크로초(0xa1b2c3d4), 나노초(0xa1b23c4d) 타임스탬프, 리틀/빅 엔디언
+ * - pcapng: SHB, IDB(if_tsresol 포함), EPB, SPB, 구형 Packet Block
+ *
+ * 링크 계층: Ethernet(VLAN 포함), Raw IP, Linux SLL/SLL2, BSD Loopback
+ * 네트워크/전송 계층: IPv4, IPv6(확장 헤더 포함), TCP, UDP, ICMP, ICMPv6
+ *
+ * @module pcap
+ */
+import { formatIPv4, formatIPv6 } from "./ip"
+
+// 디코딩된 패킷 정보
+export interface DecodedPacket {
+  timestamp: Date
+  sourceIP: string
+  destinationIP: string
+  transport: string // TCP, UDP, ICMP, ICMPv6 또는 IP 프로토콜 번호
+  sourcePort: number
+  destinationPort: number
+  length: number // 원래 패킷 길이 (바이트)
+}
+
+// 캡처 파일 파싱 결과
+export interface CaptureParseResult {
+  packets: DecodedPacket[]
+  skipped: number // IP가 아니거나 잘린 패킷 수
+}
+
+export class PcapFormatError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "PcapFormatError"
+  }
+}
+
+// 컨테이너에서 꺼낸 원본 프레임
+interface RawFrame {
+  timestampMs: number
+  linkType: number
+  data: Uint8Array
+  originalLength: number
+}
+
+const LINKTYPE_NULL = 0
+const LINKTYPE_ETHERNET = 1
+const LINKTYPE_RAW = 101
+const LINKTYPE_LINUX_SLL = 113
+const LINKTYPE_IPV4 = 228
+const LINKTYPE_IPV6 = 229
+const LINKTYPE_LINUX_SLL2 = 276
+
+const ETHERTYPE_IPV4 = 0x0800
+const ETHERTYPE_IPV6 = 0x86dd
+const ETHERTYPE_VLAN = [0x8100, 0x88a8, 0x9100]
+
+const TRANSPORT_NAMES: Record<number, string> = { 1: "ICMP", 6: "TCP", 17: "UDP", 58: "ICMPv6" }
+
+// ---------------------------------------------------------------------------
+// 컨테이너 파싱
+// ---------------------------------------------------------------------------
+
+// 클래식 pcap 파일에서 프레임 목록을 읽음
+const readPcapFrames = (view: DataView): RawFrame[] => {
+  const magic = view.getUint32(0, false)
+  const littleEndian = magic === 0xd4c3b2a1 || magic === 0x4d3cb2a1
+  const nanoseconds = magic === 0xa1b23c4d || magic === 0x4d3cb2a1
+  const linkType = view.getUint32(20, littleEndian) & 0xffff
+  const frames: RawFrame[] = []
+
+  let offset = 24
+  while (offset + 16 <= view.byteLength) {
+    const seconds = view.getUint32(offset, littleEndian)
+    const fraction = view.getUint32(offset + 4, littleEndian)
+    const capturedLength = view.getUint32(offset + 8, littleEndian)
+    const originalLength = view.getUint32(offset + 12, littleEndian)
+    offset += 16
+    if (offset + capturedLength > view.byteLength) break // 잘린 마지막 레코드
+
+    frames.push({
+      timestampMs: seconds * 1000 + (nanoseconds ? fraction / 1e6 : fraction / 1e3),
+      linkType,
+      data: new Uint8Array(view.buffer, view.byteOffset + offset, capturedLength),
+      originalLength,
+    })
+    offset += capturedLength
+  }
+  return frames
+}
+
+// pcapng 인터페이스의 타임스탬프 단위(초당 틱 수)를 if_tsresol 옵션에서 읽음
+const readTimestampResolution = (view: DataView, start: number, end: number, littleEndian: boolean) => {
+  let offset = start
+  while (offset + 4 <= end) {
+    const code = view.getUint16(offset, littleEndian)
+    const length = view.getUint16(offset + 2, littleEndian)
+    if (code === 0) break // opt_endofopt
+    if (code === 9 && length >= 1) {
+      const value = view.getUint8(offset + 4)
+      return value & 0x80 ? Math.pow(2, value & 0x7f) : Math.pow(10, value)
+    }
+    offset += 4 + Math.ceil(length / 4) * 4
+  }
+  return 1e6 // 기본값: 마이크로초
+}
+
+// pcapng 파일에서 프레임 목록을 읽음
+const readPcapngFrames = (view: DataView): RawFrame[] => {
+  const frames: RawFrame[] = []
+  let interfaces: { linkType: number; ticksPerSecond: number }[] = []
+  let littleEndian = true
+  let offset = 0
+
+  while (offset + 12 <= view.byteLength) {
+    const blockType = view.getUint32(offset, littleEndian)
+
+    // Section Header Block: 바이트 순서를 다시 판별하고 인터페이스 목록 초기화
+    if (blockType === 0x0a0d0d0a) {
+      littleEndian = view.getUint32(offset + 8, true) === 0x1a2b3c4d
+      interfaces = []
+    }
+
+    const blockLength = view.getUint32(offset + 4, littleEndian)
+    if (blockLength < 12 || offset + blockLength > view.byteLength) break
+    const body = offset + 8
+
+    if (blockType === 1) {
+      // Interface Description Block
+      interfaces.push({
+        linkType: view.getUint16(body, littleEndian),
+        ticksPerSecond: readTimestampResolution(view, body + 8, offset + blockLength - 4, littleEndian),
+      })
+    } else if (blockType === 6 || blockType === 2) {
+      // Enhanced Packet Block / (구형) Packet Block
+      const isEnhanced = blockType === 6
+      const interfaceId = isEnhanced ? view.getUint32(body, littleEndian) : view.getUint16(body, littleEndian)
+      const iface = interfaces[interfaceId]
+      if (iface) {
+        const high = view.getUint32(body + 4, littleEndian)
+        const low = view.getUint32(body + 8, littleEndian)
+        const capturedLength = view.getUint32(body + 12, littleEndian)
+        const originalLength = view.getUint32(body + 16, littleEndian)
+        const dataStart = body + 20
+        if (dataStart + capturedLength <= offset + blockLength) {
+          frames.push({
+            timestampMs: ((high * 4294967296 + low) / iface.ticksPerSecond) * 1000,
+            linkType: iface.linkType,
+            data: new Uint8Array(view.buffer, view.byteOffset + dataStart, capturedLength),
+            originalLength,
+          })
+        }
+      }
+    } else if (blockType === 3) {
+      // Simple Packet Block: 타임스탬프가 없으므로 직전 패킷 시간을 사용
+      const iface = interfaces[0]
+      if (iface) {
+        const originalLength = view.getUint32(body, littleEndian)
+        const capturedLength = Math.min(originalLength, blockLength - 16)
+        frames.push({
+          timestampMs: frames.length > 0 ? frames[frames.length - 1].timestampMs : 0,
+          linkType: iface.linkType,
+          data: new Uint8Array(view.buffer, view.byteOffset + body + 4, capturedLength),
+          originalLength,
+        })
+      }
+    }
+
+    offset += blockLength
+  }
+  return frames
+}
+
+// ---------------------------------------------------------------------------
+// 프로토콜 디코딩
+// ---------------------------------------------------------------------------
+
+// 링크 계층 헤더를 건너뛰고 IP 패킷의 시작 위치와 버전을 반환
+const locateIpPacket = (frame: RawFrame): { offset: number; version: 4 | 6 } | null => {
+  const { data, linkType } = frame
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  const fromEtherType = (etherType: number, offset: number) => {
+    if (etherType === ETHERTYPE_IPV4) return { offset, version: 4 as const }
+    if (etherType === ETHERTYPE_IPV6) return { offset, version: 6 as const }
+    return null
+  }
+
+  switch (linkType) {
+    case LINKTYPE_ETHERNET: {
+      if (data.length < 14) return null
+      let offset = 12
+      let etherType = view.getUint16(offset)
+      // VLAN 태그(802.1Q, QinQ) 건너뛰기
+      while (ETHERTYPE_VLAN.includes(etherType) && offset + 6 <= data.length) {
+        offset += 4
+        etherType = view.getUint16(offset)
+      }
+      return fromEtherType(etherType, offset + 2)
+    }
+    case LINKTYPE_RAW:
+    case LINKTYPE_IPV4:
+    case LINKTYPE_IPV6: {
+      if (data.length < 1) return null
+      const version = data[0] >> 4
+      return version === 4 || version === 6 ? { offset: 0, version } : null
+    }
+    case LINKTYPE_LINUX_SLL:
+      return data.length < 16 ? null : fromEtherType(view.getUint16(14), 16)
+    case LINKTYPE_LINUX_SLL2:
+      return data.length < 20 ? null : fromEtherType(view.getUint16(0), 20)
+    case LINKTYPE_NULL: {
+      if (data.length < 4) return null
+      // 주소 패밀리는 캡처한 호스트의 바이트 순서로 저장됨
+      const family = view.getUint32(0, true) > 0xffff ? view.getUint32(0, false) : view.getUint32(0, true)
+      if (family === 2) return { offset: 4, version: 4 }
+      if (family === 24 || family === 28 || family === 30) return { offset: 4, version: 6 }
+      return null
+    }
+    default:
+      return null
+  }
+}
+
+// IPv6 확장 헤더 번호
+const IPV6_EXTENSION_HEADERS = [0, 43, 60, 51]
+const IPV6_FRAGMENT_HEADER = 44
+
+// 프레임을 디코딩하여 패킷 정보로 변환, IP 패킷이 아니거나 잘렸으면 null
+export function decodeFrame(frame: RawFrame): DecodedPacket | null {
+  const located = locateIpPacket(frame)
+  if (!located) return null
+
+  const { data } = frame
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  let offset = located.offset
+  let sourceIP: string
+  let destinationIP: string
+  let protocol: number
+  let hasTransportHeader = true
+
+  if (located.version === 4) {
+    if (offset + 20 > data.length) return null
+    const headerLength = (data[offset] & 0x0f) * 4
+    protocol = data[offset + 9]
+    // 첫 번째 조각이 아니면 전송 계층 헤더가 없음
+    hasTransportHeader = (view.getUint16(offset + 6) & 0x1fff) === 0
+    sourceIP = formatIPv4(data.subarray(offset + 12, offset + 16))
+    destinationIP = formatIPv4(data.subarray(offset + 16, offset + 20))
+    offset += headerLength
+  } else {
+    if (offset + 40 > data.length) return null
+    protocol = data[offset + 6]
+    sourceIP = formatIPv6(data.subarray(offset + 8, offset + 24))
+    destinationIP = formatIPv6(data.subarray(offset + 24, offset + 40))
+    offset += 40
+    // 확장 헤더를 따라가며 실제 전송 계층 프로토콜을 찾음
+    while (offset + 8 <= data.length) {
+      if (protocol === IPV6_FRAGMENT_HEADER) {
+        hasTransportHeader = (view.getUint16(offset + 2) & 0xfff8) === 0
+        protocol = data[offset]
+        offset += 8
+      } else if (IPV6_EXTENSION_HEADERS.includes(protocol)) {
+        const length = protocol === 51 ? (data[offset + 1] + 2) * 4 : (data[offset + 1] + 1) * 8
+        protocol = data[offset]
+        offset += length
+      } else {
+        break
+      }
+    }
+  }
+
+  let sourcePort = 0
+  let destinationPort = 0
+  if ((protocol === 6 || protocol === 17) && hasTransportHeader && offset + 4 <= data.length) {
+    sourcePort = view.getUint16(offset)
+    destinationPort = view.getUint16(offset + 2)
+  }
+
+  return {
+    timestamp: new Date(frame.timestampMs),
+    sourceIP,
+    destinationIP,
+    transport: TRANSPORT_NAMES[protocol] ?? String(protocol),
+    sourcePort,
+    destinationPort,
+    length: frame.originalLength,
+  }
+}
+
+// 캡처 파일의 종류를 판별
+export function detectCaptureFormat(buffer: ArrayBuffer): "pcap" | "pcapng" | null {
+  if (buffer.byteLength < 24) return null
+  const magic = new DataView(buffer).getUint32(0, false)
+  if (magic === 0x0a0d0d0a) return "pcapng"
+  if ([0xa1b2c3d4, 0xd4c3b2a1, 0xa1b23c4d, 0x4d3cb2a1].includes(magic)) return "pcap"
+  return null
+}
+
+// pcap 또는 pcapng 파일을 파싱하여 패킷 목록을 반환
+export function parseCapture(buffer: ArrayBuffer): CaptureParseResult {
+  const format = detectCaptureFormat(buffer)
+  if (!format) throw new PcapFormatError("pcap 또는 pcapng 파일이 아닙니다")
+
+  const view = new DataView(buffer)
+  const frames = format === "pcap" ? readPcapFrames(view) : readPcapngFrames(view)
+  const result: CaptureParseResult = { packets: [], skipped: 0 }
+
+  for (const frame of frames) {
+    const packet = decodeFrame(frame)
+    if (packet) result.packets.push(packet)
+    else result.skipped++
+  }
+  return result
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "@jest/globals"
+import { createRingBuffer } from "./ringBuffer"
+
+describe("createRingBuffer", () => {
+  it("크기는 1 이상의 정수여야 함", () => {
+    expect(() => createRingBuffer(0)).toThrow(RangeError)
+    expect(() => createRingBuffer(2.5)).toThrow(RangeError)
+  })
+
+  it("가득 차기 전에는 넣은 항목을 최신순으로 반환", () => {
+    const buffer = createRingBuffer<number>(4)
+    buffer.push([1, 2])
+    buffer.push([3])
+    expect(buffer.size()).toBe(3)
+    expect(buffer.toArray()).toEqual([3, 2, 1])
+    expect(buffer.at(0)).toBe(3)
+    expect(buffer.at(2)).toBe(1)
+    expect(buffer.at(3)).toBeUndefined()
+    expect(buffer.at(-1)).toBeUndefined()
+  })
+
+  it("가득 차면 가장 오래된 항목부터 덮어쓰며 여러 번 돌아도 순서를 유지", () => {
+    const buffer = createRingBuffer<number>(3)
+    buffer.push([1, 2, 3, 4, 5])
+    expect(buffer.toArray()).toEqual([5, 4, 3])
+    buffer.push([6])
+    expect(buffer.toArray()).toEqual([6, 5, 4])
+    buffer.push([7, 8, 9, 10])
+    expect(buffer.toArray()).toEqual([10, 9, 8])
+    expect(buffer.at(2)).toBe(8)
+    expect(buffer.at(3)).toBeUndefined()
+    expect(buffer.size()).toBe(3)
+    expect(buffer.totalPushed()).toBe(10)
+  })
+
+  it("한 번에 크기의 몇 배를 넣으면 마지막 항목들만 남음", () => {
+    const buffer = createRingBuffer<number>(4)
+    buffer.push([1])
+    buffer.push(Array.from({ length: 11 }, (_, i) => i + 2))
+    expect(buffer.toArray()).toEqual([12, 11, 10, 9])
+    expect(buffer.totalPushed()).toBe(12)
+  })
+
+  it("clear는 항목과 누적 수를 모두 비움", () => {
+    const buffer = createRingBuffer<string>(2)
+    buffer.push(["a", "b", "c"])
+    buffer.clear()
+    expect(buffer.size()).toBe(0)
+    expect(buffer.totalPushed()).toBe(0)
+    expect(buffer.toArray()).toEqual([])
+    buffer.push(["d"])
+    expect(buffer.toArray()).toEqual(["d"])
+  })
+})
@@ -0,0 +1,59 @@
+/**
+ * 크기가 고정된 원형 버퍼
+ *
+ * 가득 차면 가장 오래된 항목부터 덮어쓰므로, 수십만 건의 로그를 보관해도
+ * 배열 복사나 앞쪽 삽입 없이 일정한 메모리만 사용
+ *
+ * @module ringBuffer
+ */
+
+export interface RingBuffer<T> {
+  readonly capacity: number
+  size(): number
+  totalPushed(): number // 지금까지 추가된 항목 수 (덮어쓴 항목 포함)
+  push(items: T[]): void // 배열의 뒤쪽 항목일수록 최신으로 취급
+  at(index: number): T | undefined // 0이 가장 최신 항목
+  toArray(): T[] // 최신순
+  clear(): void
+}
+
+// 최대 capacity개까지 보관하는 원형 버퍼 생성
+export function createRingBuffer<T>(capacity: number): RingBuffer<T> {
+  if (!Number.isInteger(capacity) || capacity <= 0) throw new RangeError("capacity는 1 이상의 정수여야 합니다")
+
+  const items: (T | undefined)[] = new Array(capacity)
+  let head = 0 // 다음에 쓸 위치
+  let size = 0
+  let total = 0
+
+  const indexOf = (index: number) => (head - 1 - index + capacity * 2) % capacity
+
+  return {
+    capacity,
+    size: () => size,
+    totalPushed: () => total,
+    push(newItems) {
+      for (const item of newItems) {
+        items[head] = item
+        head = (head + 1) % capacity
+        if (size < capacity) size += 1
+      }
+      total += newItems.length
+    },
+    at(index) {
+      if (index < 0 || index >= size) return undefined
+      return items[indexOf(index)]
+    },
+    toArray() {
+      const result = new Array<T>(size)
+      for (let i = 0; i < size; i++) result[i] = items[indexOf(i)] as T
+      return result
+    },
+    clear() {
+      items.fill(undefined)
+      head = 0
+      size = 0
+      total = 0
+    },
+  }
+}
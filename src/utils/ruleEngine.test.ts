@@ -0,0 +1,103 @@
+import { describe, expect, it } from "@jest/globals"
+import { parseRuleDocument } from "./detectionRules"
+import { createRuleEngine } from "./ruleEngine"
+import { createLog, type TestLogOverrides } from "./testLogs"
+
+// seconds초에 22 포트로 가는 로그
+const logAt = (id: string, seconds: number, overrides: TestLogOverrides = {}) =>
+  createLog({ id, timestamp: new Date(seconds * 1000), destinationPort: 22, ...overrides })
+
+// 규칙 문서를 컴파일하여 엔진 생성
+const createEngine = (rules: object[]) => {
+  const { rules: compiled, errors } = parseRuleDocument(JSON.stringify({ rules }))
+  expect(errors).toEqual([])
+  return createRuleEngine(compiled)
+}
+
+const ssh = { dport: 22 }
+const rule = (id: string, threshold?: object, enabled = true) => ({
+  id,
+  title: id,
+  severity: "high",
+  enabled,
+  detection: { ssh, condition: "ssh" },
+  ...(threshold ? { threshold } : {}),
+})
+
+describe("createRuleEngine threshold 없는 규칙", () => {
+  it("일치하는 로그마다 알림, 비활성 규칙은 평가하지 않음", () => {
+    const engine = createEngine([rule("each"), rule("off", undefined, false)])
+    const alerts = engine.evaluate([
+      logAt("a", 0),
+      logAt("b", 1, { destinationPort: 80 }),
+      logAt("c", 2),
+    ])
+    expect(alerts.map((alert) => alert.logIds)).toEqual([["a"], ["c"]])
+    expect(alerts[0]).toMatchObject({ ruleId: "each", severity: "high", count: 1, group: {} })
+  })
+})
+
+describe("createRuleEngine 구간 기준", () => {
+  it("구간 안의 일치 건수가 count에 이르면 알리고, 구간 동안 다시 알리지 않음", () => {
+    const engine = createEngine([rule("brute", { count: 3, window: "10s", groupBy: "src" })])
+    expect(engine.evaluate([logAt("a", 0), logAt("b", 4)])).toEqual([])
+
+    const [alert] = engine.evaluate([logAt("c", 8)])
+    expect(alert).toMatchObject({
+      ruleId: "brute",
+      count: 3,
+      group: { sourceIP: "203.0.113.7" },
+      logIds: ["c", "b", "a"],
+      time: new Date(8000),
+    })
+    // 알림 후 구간(10초) 동안은 같은 그룹을 다시 알리지 않음
+    expect(engine.evaluate([logAt("d", 9), logAt("e", 17)])).toEqual([])
+    expect(engine.evaluate([logAt("f", 18)])).toHaveLength(1)
+  })
+
+  it("구간 밖으로 밀려난 로그는 세지 않음", () => {
+    const engine = createEngine([rule("brute", { count: 3, window: "10s" })])
+    // 0초의 로그는 10초 시점에 구간(10초 초과 ~ 10초)에서 빠짐
+    expect(engine.evaluate([logAt("a", 0), logAt("b", 5), logAt("c", 10)])).toEqual([])
+    expect(engine.evaluate([logAt("d", 11)])).toMatchObject([{ count: 3, logIds: ["d", "c", "b"] }])
+  })
+
+  it("groupBy 필드 값마다 따로 셈", () => {
+    const engine = createEngine([rule("brute", { count: 2, window: "1m", groupBy: ["src", "dst"] })])
+    const other = { sourceIP: "198.51.100.1" }
+    const alerts = engine.evaluate([
+      logAt("a", 0),
+      logAt("b", 1, other),
+      logAt("c", 2, { destinationIP: "10.0.0.6" }),
+      logAt("d", 3, other),
+      logAt("e", 4),
+    ])
+    expect(alerts.map((alert) => [alert.group, alert.logIds])).toEqual([
+      [{ sourceIP: "198.51.100.1", destinationIP: "10.0.0.5" }, ["d", "b"]],
+      [{ sourceIP: "203.0.113.7", destinationIP: "10.0.0.5" }, ["e", "a"]],
+    ])
+  })
+
+  it("distinct를 지정하면 서로 다른 값의 수를 셈", () => {
+    const engine = createEngine([
+      {
+        id: "scan",
+        title: "포트 스캔",
+        severity: "medium",
+        detection: { tcp: { proto: "TCP" }, condition: "tcp" },
+        threshold: { count: 3, window: "1m", groupBy: "src", distinct: "dport" },
+      },
+    ])
+    const ports = [22, 22, 80, 80]
+    expect(engine.evaluate(ports.map((port, i) => logAt(`p${i}`, i, { destinationPort: port })))).toEqual([])
+    expect(engine.evaluate([logAt("p4", 4, { destinationPort: 443 })])).toMatchObject([{ count: 3 }])
+  })
+
+  it("setRules는 규칙을 바꾸고 누적된 구간을 초기화", () => {
+    const engine = createEngine([rule("brute", { count: 2, window: "1m" })])
+    engine.evaluate([logAt("a", 0)])
+    engine.setRules(parseRuleDocument(JSON.stringify([rule("brute", { count: 2, window: "1m" })])).rules)
+    expect(engine.evaluate([logAt("b", 1)])).toEqual([])
+    expect(engine.evaluate([logAt("c", 2)])).toMatchObject([{ logIds: ["c", "b"] }])
+  })
+})
@@ -0,0 +1,131 @@
+/**
+ * 컴파일된 탐지 규칙으로 로그 스트림을 평가하여 알림을 만드는 엔진
+ *
+ * - threshold가 없는 규칙: 일치하는 로그마다 알림
+ * - threshold가 있는 규칙: groupBy 필드 값별로 window 안의 일치 건수(또는 distinct 값 수)를 세고,
+ *   count 이상이 되면 알림을 만든 뒤 같은 그룹은 window 동안 다시 알리지 않음
+ *
+ * 구간은 로그의 timestamp 기준이며, 로그는 오래된 순으로 전달해야 함
+ *
+ * @module ruleEngine
+ */
+import type { LogEntry } from "../types/log"
+import type { RuleAlert, RuleField } from "../types/rule"
+import { ruleFieldValue, type CompiledRule } from "./detectionRules"
+import { createId } from "./id"
+
+// 알림에 담는 로그 ID 수
+const ALERT_LOG_ID_LIMIT = 20
+// 오래된 그룹을 정리하는 주기 (평가한 로그 수)
+const SWEEP_INTERVAL = 1000
+
+// 그룹 하나의 구간 상태
+interface GroupWindow {
+  events: { time: number; logId: string; value: string }[] // 오래된 순
+  suppressedUntil: number
+}
+
+export interface RuleEngine {
+  // 로그 묶음을 평가하여 새 알림 목록을 반환
+  evaluate(logs: LogEntry[]): RuleAlert[]
+  // 규칙을 바꾸고 구간 상태를 초기화
+  setRules(rules: CompiledRule[]): void
+}
+
+// 그룹 키와 그룹 필드 값
+const groupOf = (log: LogEntry, fields: RuleField[]) => {
+  const group: Partial<Record<RuleField, string>> = {}
+  fields.forEach((field) => {
+    group[field] = String(ruleFieldValue(log, field) ?? "")
+  })
+  return { key: fields.map((field) => group[field]).join("\u0000"), group }
+}
+
+const createAlert = (
+  { rule }: CompiledRule,
+  log: LogEntry,
+  group: Partial<Record<RuleField, string>>,
+  count: number,
+  logIds: string[],
+): RuleAlert => ({
+  id: createId("alert"),
+  ruleId: rule.id,
+  ruleTitle: rule.title,
+  severity: rule.severity,
+  time: log.timestamp,
+  group,
+  count,
+  logIds,
+  sourceIP: log.sourceIP,
+  destinationIP: log.destinationIP,
+})
+
+// 규칙 엔진을 생성하는 함수
+export function createRuleEngine(initialRules: CompiledRule[] = []): RuleEngine {
+  let rules = initialRules.filter(({ rule }) => rule.enabled)
+  // 규칙 ID → 그룹 키 → 구간 상태
+  let windows = new Map<string, Map<string, GroupWindow>>()
+  let evaluated = 0
+
+  // 구간이 지난 그룹을 정리
+  const sweep = (now: number) => {
+    for (const compiled of rules) {
+      const groups = windows.get(compiled.rule.id)
+      if (!groups || !compiled.threshold) continue
+      const cutoff = now - compiled.threshold.windowMs
+      groups.forEach((window, key) => {
+        const last = window.events[window.events.length - 1]
+        if ((!last || last.time < cutoff) && window.suppressedUntil < now) groups.delete(key)
+      })
+    }
+  }
+
+  // threshold 규칙에 일치한 로그를 누적하고, 기준을 넘으면 알림을 반환
+  const accumulate = (compiled: CompiledRule, log: LogEntry): RuleAlert | null => {
+    const threshold = compiled.threshold!
+    const time = log.timestamp.getTime()
+    const { key, group } = groupOf(log, threshold.groupBy)
+    if (!windows.has(compiled.rule.id)) windows.set(compiled.rule.id, new Map())
+    const groups = windows.get(compiled.rule.id)!
+    const window = groups.get(key) ?? { events: [], suppressedUntil: -Infinity }
+    groups.set(key, window)
+
+    const value = threshold.distinct ? String(ruleFieldValue(log, threshold.distinct) ?? "") : ""
+    window.events.push({ time, logId: log.id, value })
+    const cutoff = time - threshold.windowMs
+    let start = 0
+    while (start < window.events.length && window.events[start].time <= cutoff) start++
+    if (start > 0) window.events.splice(0, start)
+
+    const count = threshold.distinct
+      ? new Set(window.events.map((event) => event.value)).size
+      : window.events.length
+    if (count < threshold.count || time < window.suppressedUntil) return null
+
+    window.suppressedUntil = time + threshold.windowMs
+    const logIds = window.events
+      .slice(-ALERT_LOG_ID_LIMIT)
+      .reverse()
+      .map((event) => event.logId)
+    return createAlert(compiled, log, group, count, logIds)
+  }
+
+  return {
+    evaluate(logs) {
+      const alerts: RuleAlert[] = []
+      for (const log of logs) {
+        for (const compiled of rules) {
+          if (!compiled.matches(log)) continue
+          const alert = compiled.threshold ? accumulate(compiled, log) : createAlert(compiled, log, {}, 1, [log.id])
+          if (alert) alerts.push(alert)
+        }
+        if (++evaluated % SWEEP_INTERVAL === 0) sweep(log.timestamp.getTime())
+      }
+      return alerts
+    },
+    setRules(next) {
+      rules = next.filter(({ rule }) => rule.enabled)
+      windows = new Map()
+    },
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * 탐지 규칙 심각도를 화면에 표시하기 위한 라벨과 색상
+ *
+ * @module ruleLabels
+ */
+import type { RuleSeverity } from "../types/rule"
+
+// 심각도별 라벨
+export const RULE_SEVERITY_LABELS: Record<RuleSeverity, string> = {
+  informational: "정보",
+  low: "낮음",
+  medium: "보통",
+  high: "높음",
+  critical: "심각",
+}
+
+// 심각도별 배지 색상
+export const RULE_SEVERITY_BADGE_COLORS: Record<RuleSeverity, string> = {
+  informational: "bg-gray-100 text-gray-700",
+  low: "bg-blue-100 text-blue-700",
+  medium: "bg-yellow-100 text-yellow-800",
+  high: "bg-orange-100 text-orange-800",
+  critical: "bg-red-100 text-red-700",
+}
@@ -0,0 +1,62 @@
+/**
+ * 탐지 규칙 문서를 불러오고 저장하는 함수들
+ *
+ * - 기본 규칙: public/rules/default.yml (REACT_APP_RULES_URL로 다른 주소 지정 가능)
+ * - 분석가가 화면에서 수정한 규칙은 브라우저 localStorage에 저장되어 기본 규칙보다 우선
+ * - 저장하거나 초기화하면 구독자(규칙 엔진)에게 새 문서를 알림
+ *
+ * @module ruleStore
+ */
+
+const STORAGE_KEY = "auto-guard-detection-rules"
+
+type RuleTextListener = (text: string) => void
+
+const listeners = new Set<RuleTextListener>()
+
+// 기본 규칙 문서의 주소
+export const defaultRulesUrl = (env: Record<string, string | undefined> = process.env) =>
+  env.REACT_APP_RULES_URL || `${env.PUBLIC_URL ?? ""}/rules/default.yml`
+
+// 기본 규칙 문서를 불러옴
+export async function loadDefaultRuleText(): Promise<string> {
+  const response = await fetch(defaultRulesUrl())
+  if (!response.ok) throw new Error(`기본 규칙을 불러오지 못했습니다 (${response.status})`)
+  return response.text()
+}
+
+// 저장된 규칙 문서 (없으면 null)
+export function loadSavedRuleText(): string | null {
+  try {
+    return localStorage.getItem(STORAGE_KEY)
+  } catch {
+    return null
+  }
+}
+
+// 사용할 규칙 문서 (저장된 문서가 없으면 기본 규칙)
+export async function loadRuleText(): Promise<string> {
+  return loadSavedRuleText() ?? loadDefaultRuleText()
+}
+
+// 규칙 문서를 저장하고 구독자에게 알림
+export function saveRuleText(text: string): void {
+  localStorage.setItem(STORAGE_KEY, text)
+  listeners.forEach((listener) => listener(text))
+}
+
+// 저장된 규칙을 지우고 기본 규칙으로 되돌림
+export async function resetRuleText(): Promise<string> {
+  localStorage.removeItem(STORAGE_KEY)
+  const text = await loadDefaultRuleText()
+  listeners.forEach((listener) => listener(text))
+  return text
+}
+
+// 규칙 문서 변경을 구독하고, 구독 해제 함수를 반환
+export function subscribeRuleText(listener: RuleTextListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
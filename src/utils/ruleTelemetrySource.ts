@@ -0,0 +1,64 @@
+/**
+ * 다른 텔레메트리 소스를 감싸 로그를 탐지 규칙으로 평가하는 어댑터
+ *
+ * 시작 시 규칙 문서(ruleStore)를 불러와 컴파일하고, 문서가 바뀌면 다시 컴파일
+ * 로그는 그대로 전달하면서 규칙과 일치한 알림을 alerts 채널로 발행
+ *
+ * @module ruleTelemetrySource
+ */
+import type { TelemetryChannel, TelemetrySource } from "../types/telemetry"
+import { parseRuleDocument } from "./detectionRules"
+import { createRuleEngine } from "./ruleEngine"
+import { loadRuleText, subscribeRuleText } from "./ruleStore"
+import { createTelemetryEmitter } from "./telemetryEmitter"
+
+// 평가 없이 그대로 전달하는 채널
+const PASSTHROUGH_CHANNELS: TelemetryChannel[] = ["traffic", "flows", "resources", "ports", "system"]
+
+// 탐지 규칙 소스를 생성하는 함수
+export function createRuleTelemetrySource(source: TelemetrySource): TelemetrySource {
+  const emitter = createTelemetryEmitter()
+  const engine = createRuleEngine()
+  let unsubscribes: (() => void)[] = []
+
+  // 규칙 문서를 컴파일하여 엔진에 적용 (오류가 있는 규칙은 제외)
+  const applyRules = (text: string) => {
+    const { rules, errors } = parseRuleDocument(text)
+    errors.forEach((error) => console.warn(`[rules] ${error.path}: ${error.message}`))
+    engine.setRules(rules)
+  }
+
+  const connect = () => {
+    unsubscribes = [
+      ...PASSTHROUGH_CHANNELS.map((channel) =>
+        source.subscribe(channel, (payload) => emitter.emit(channel, payload)),
+      ),
+      source.subscribe("logs", (logs) => {
+        emitter.emit("logs", logs)
+        // 묶음은 최신순이므로 오래된 순으로 평가
+        engine.evaluate([...logs].reverse()).forEach((alert) => emitter.emit("alerts", alert))
+      }),
+      subscribeRuleText(applyRules),
+    ]
+  }
+
+  return {
+    kind: source.kind,
+    start() {
+      if (unsubscribes.length > 0) return // 이미 시작된 경우 무시
+      connect()
+      loadRuleText()
+        .then((text) => {
+          if (unsubscribes.length > 0) applyRules(text)
+        })
+        .catch((error) => console.warn("[rules] 탐지 규칙을 불러오지 못했습니다", error))
+      source.start()
+    },
+    stop() {
+      unsubscribes.forEach((unsubscribe) => unsubscribe())
+      unsubscribes = []
+      source.stop()
+    },
+    subscribe: emitter.subscribe,
+  }
+}
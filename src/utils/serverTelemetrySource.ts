@@ -0,0 +1,98 @@
+/**
+ * Auto Guard 로컬 백엔드 서버(server/index.ts)에 연결하는 어댑터
+ *
+ * 시작 시 REST(/api/snapshot)로 현재 상태를 받아 각 채널로 발행한 뒤,
+ * WebSocket(/api/live) 실시간 피드를 이어서 구독
+ *
+ * 탐지 규칙, 위협 인텔리전스, 트래픽 기준선은 서버가 평가하여 alerts, baseline, anomalies 채널로 보냄
+ * 화면에서 저장한 규칙(ruleStore)과 가져온 지표(iocStore)는 시작할 때와 바뀔 때마다
+ * 서버(POST /api/rules, /api/indicators)로 보내 서버의 탐지에 적용
+ *
+ * @module serverTelemetrySource
+ */
+import type { Indicator } from "../types/ioc"
+import type { TelemetrySource } from "../types/telemetry"
+import { loadIndicators, subscribeIndicators } from "./iocStore"
+import { loadSavedRuleText, subscribeRuleText } from "./ruleStore"
+import { createTelemetryEmitter } from "./telemetryEmitter"
+import { createStreamTelemetrySource, reviveTelemetryPayload } from "./streamTelemetrySource"
+
+// http(s) 주소를 ws(s) 주소로 변환
+const toWebSocketUrl = (baseUrl: string) => baseUrl.replace(/^http/, "ws")
+
+// 로컬 백엔드 서버 소스를 생성하는 함수
+export function createServerTelemetrySource(baseUrl: string): TelemetrySource {
+  const apiUrl = baseUrl.replace(/\/$/, "")
+  const emitter = createTelemetryEmitter()
+  const live = createStreamTelemetrySource("websocket", `${toWebSocketUrl(apiUrl)}/api/live`, emitter)
+  let running = false
+  let unsubscribes: (() => void)[] = []
+
+  // 화면에서 바꾼 규칙 문서나 지표 목록을 서버로 보냄 (실패하면 서버는 이전 값으로 탐지)
+  const push = async (path: string, body: string, contentType: string) => {
+    const response = await fetch(`${apiUrl}${path}`, { method: "POST", headers: { "Content-Type": contentType }, body })
+    if (!response.ok) throw new Error(`${path} 요청 실패 (${response.status})`)
+  }
+  const pushRules = (text: string) =>
+    push("/api/rules", text, "text/plain; charset=utf-8").catch((error) =>
+      console.warn("[rules] 탐지 규칙을 서버에 적용하지 못했습니다", error),
+    )
+  const pushIndicators = (indicators: Indicator[]) =>
+    push("/api/indicators", JSON.stringify(indicators), "application/json").catch((error) =>
+      console.warn("[ioc] 위협 인텔리전스 지표를 서버에 적용하지 못했습니다", error),
+    )
+
+  // 서버의 현재 상태를 받아 채널별로 발행
+  const hydrate = async () => {
+    const response = await fetch(`${apiUrl}/api/snapshot`)
+    if (!response.ok) throw new Error(`스냅샷 요청 실패 (${response.status})`)
+    const snapshot = await response.json()
+    if (!running) return
+
+    if (snapshot.system) emitter.emit("system", snapshot.system)
+    if (Array.isArray(snapshot.ports)) emitter.emit("ports", snapshot.ports)
+    if (snapshot.resources) emitter.emit("resources", snapshot.resources)
+    if (Array.isArray(snapshot.flows)) emitter.emit("flows", snapshot.flows)
+    if (Array.isArray(snapshot.traffic)) {
+      const baseline: unknown[] = Array.isArray(snapshot.baseline) ? snapshot.baseline : []
+      snapshot.traffic.forEach((sample: unknown, index: number) => {
+        const traffic = reviveTelemetryPayload("traffic", sample)
+        if (!traffic) return
+        emitter.emit("traffic", traffic)
+        const point = reviveTelemetryPayload("baseline", baseline[index])
+        if (point) emitter.emit("baseline", point)
+      })
+    }
+    const logs = reviveTelemetryPayload("logs", snapshot.logs)
+    if (logs && logs.length > 0) emitter.emit("logs", logs)
+  }
+
+  return {
+    kind: "server",
+    start() {
+      if (running) return
+      running = true
+      unsubscribes = [subscribeRuleText(pushRules), subscribeIndicators(pushIndicators)]
+      // 저장한 규칙과 가져온 지표가 있으면 서버의 규칙(RULES_FILE)과 지표 대신 사용
+      const savedRules = loadSavedRuleText()
+      if (savedRules !== null) pushRules(savedRules)
+      loadIndicators()
+        .then((indicators) => {
+          if (running && indicators.length > 0) pushIndicators(indicators)
+        })
+        .catch((error) => console.warn("[ioc] 위협 인텔리전스 지표를 불러오지 못했습니다", error))
+      hydrate()
+        .catch((error) => console.warn("[telemetry] 서버 스냅샷을 불러오지 못했습니다", error))
+        .finally(() => {
+          if (running) live.start()
+        })
+    },
+    stop() {
+      running = false
+      unsubscribes.forEach((unsubscribe) => unsubscribe())
+      unsubscribes = []
+      live.stop()
+    },
+    subscribe: emitter.subscribe,
+  }
+}
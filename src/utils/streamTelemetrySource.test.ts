@@ -0,0 +1,174 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from "@jest/globals"
+import { AttackCategory, type LogEntry } from "../types/log"
+import { createStreamTelemetrySource, reviveLogEntry, reviveTelemetryPayload } from "./streamTelemetrySource"
+import { createTelemetryEmitter } from "./telemetryEmitter"
+
+const SENSOR_LOG = {
+  id: "sensor-1",
+  timestamp: "2024-05-01T00:00:00Z",
+  sourceIP: "203.0.113.7",
+  sourcePort: 50000,
+  destinationIP: "10.0.0.5",
+  destinationPort: 22,
+  protocol: "ssh",
+  trafficVolume: 12.5,
+  type: "malicious",
+  attack: "brute_force",
+}
+
+// 메시지를 직접 보낼 수 있는 WebSocket 대역
+class FakeWebSocket {
+  static instances: FakeWebSocket[] = []
+  onopen: (() => void) | null = null
+  onmessage: ((event: { data: string }) => void) | null = null
+  onclose: (() => void) | null = null
+  closed = false
+
+  constructor(readonly url: string) {
+    FakeWebSocket.instances.push(this)
+  }
+
+  close() {
+    this.closed = true
+  }
+
+  receive(message: unknown) {
+    this.onmessage?.({ data: typeof message === "string" ? message : JSON.stringify(message) })
+  }
+}
+
+beforeEach(() => {
+  jest.spyOn(console, "warn").mockImplementation(() => {})
+})
+
+afterEach(() => {
+  jest.restoreAllMocks()
+})
+
+describe("reviveLogEntry", () => {
+  it("LogEntry 형식의 로그는 날짜를 복원하고 ID를 유지", () => {
+    expect(reviveLogEntry(SENSOR_LOG)).toEqual({
+      id: "sensor-1",
+      timestamp: new Date("2024-05-01T00:00:00Z"),
+      sourceIP: "203.0.113.7",
+      sourcePort: 50000,
+      destinationIP: "10.0.0.5",
+      destinationPort: 22,
+      protocol: "SSH",
+      trafficVolume: 12.5,
+      type: "malicious",
+      attack: AttackCategory.BruteForce,
+    })
+    const { id, ...withoutId } = SENSOR_LOG
+    expect(reviveLogEntry({ ...withoutId, type: "novel", timestamp: 0 })).toMatchObject({
+      id: expect.any(String),
+      timestamp: new Date(0),
+      type: "novel",
+    })
+  })
+
+  it.each([
+    ["출발 IP 없음", { sourceIP: undefined }],
+    ["올바르지 않은 도착 IP", { destinationIP: "10.0.0.300" }],
+    ["범위를 벗어난 포트", { destinationPort: 70000 }],
+    ["문자열 포트", { sourcePort: "443" }],
+    ["음수 용량", { trafficVolume: -1 }],
+    ["알 수 없는 분류", { type: "suspicious" }],
+    ["공격 유형이 없는 악성 로그", { attack: undefined }],
+    ["알 수 없는 공격 유형", { attack: "worm" }],
+    ["올바르지 않은 시간", { timestamp: "yesterday" }],
+    ["형식이 다른 지표 일치", { iocMatches: [{ indicatorId: "x" }] }],
+  ])("%s은 null", (_, overrides) => {
+    expect(reviveLogEntry({ ...SENSOR_LOG, ...overrides })).toBeNull()
+  })
+
+  it("서버가 붙인 지표 일치 항목은 유지", () => {
+    const iocMatches = [
+      { indicatorId: "feed|203.0.113.7", field: "sourceIP", value: "203.0.113.7", source: "feed", confidence: 80 },
+    ]
+    expect(reviveLogEntry({ ...SENSOR_LOG, iocMatches })?.iocMatches).toEqual(iocMatches)
+  })
+})
+
+describe("reviveTelemetryPayload", () => {
+  it("logs는 올바른 로그만 남기고, 모두 올바르지 않으면 null", () => {
+    const logs = reviveTelemetryPayload("logs", [SENSOR_LOG, { ...SENSOR_LOG, sourceIP: "x" }, "text"])
+    expect(logs?.map((log) => log.id)).toEqual(["sensor-1"])
+    expect(console.warn).toHaveBeenCalledTimes(1)
+    expect(reviveTelemetryPayload("logs", SENSOR_LOG)).toHaveLength(1) // 객체 하나도 받음
+    expect(reviveTelemetryPayload("logs", [{ ...SENSOR_LOG, type: undefined }])).toBeNull()
+    expect(reviveTelemetryPayload("logs", [])).toEqual([])
+  })
+
+  it("traffic은 수치를 확인하고 시간을 복원", () => {
+    expect(reviveTelemetryPayload("traffic", { inbound: 1, outbound: 2, time: 1000 })).toEqual({
+      inbound: 1,
+      outbound: 2,
+      time: new Date(1000),
+    })
+    expect(reviveTelemetryPayload("traffic", { inbound: "1", outbound: 2 })).toBeNull()
+  })
+
+  it("flows와 ports는 배열, 탐지 결과 채널은 시간이 있는 객체만 받음", () => {
+    expect(reviveTelemetryPayload("flows", [{ start: "KR", end: "US" }, null])).toEqual([{ start: "KR", end: "US" }])
+    expect(reviveTelemetryPayload("ports", { port: 1 })).toBeNull()
+    expect(reviveTelemetryPayload("alerts", { ruleId: "r" })).toBeNull()
+    expect(reviveTelemetryPayload("anomalies", { time: "2024-05-01T00:00:00Z" })).toEqual({
+      time: new Date("2024-05-01T00:00:00Z"),
+    })
+  })
+})
+
+describe("createStreamTelemetrySource", () => {
+  const originalWebSocket = globalThis.WebSocket
+
+  beforeEach(() => {
+    FakeWebSocket.instances = []
+    globalThis.WebSocket = FakeWebSocket as unknown as typeof WebSocket
+    jest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    globalThis.WebSocket = originalWebSocket
+    jest.useRealTimers()
+  })
+
+  it("채널 메시지를 검증하여 구독자에게 전달하고, 잘못된 메시지는 무시", () => {
+    const source = createStreamTelemetrySource("websocket", "ws://sensor", createTelemetryEmitter())
+    const received: LogEntry[][] = []
+    source.subscribe("logs", (logs) => received.push(logs))
+    source.start()
+    const [socket] = FakeWebSocket.instances
+
+    socket.receive({ channel: "logs", payload: [SENSOR_LOG] })
+    socket.receive({ channel: "logs", payload: [{ ...SENSOR_LOG, destinationPort: -1 }] })
+    socket.receive({ channel: "unknown", payload: [] })
+    socket.receive("{not json")
+    expect(received).toHaveLength(1)
+    expect(received[0][0]).toMatchObject({ id: "sensor-1", type: "malicious" })
+    source.stop()
+  })
+
+  it("연결이 끊기면 지수 백오프로 다시 연결하고, stop 후에는 연결하지 않음", () => {
+    const source = createStreamTelemetrySource("websocket", "ws://sensor")
+    source.start()
+    FakeWebSocket.instances[0].onclose?.()
+    jest.advanceTimersByTime(999)
+    expect(FakeWebSocket.instances).toHaveLength(1)
+    jest.advanceTimersByTime(1)
+    expect(FakeWebSocket.instances).toHaveLength(2)
+
+    // 두 번째 재연결은 2초 뒤
+    FakeWebSocket.instances[1].onclose?.()
+    jest.advanceTimersByTime(1000)
+    expect(FakeWebSocket.instances).toHaveLength(2)
+    jest.advanceTimersByTime(1000)
+    expect(FakeWebSocket.instances).toHaveLength(3)
+
+    source.stop()
+    expect(FakeWebSocket.instances[2].closed).toBe(true)
+    FakeWebSocket.instances[2].onclose?.()
+    jest.advanceTimersByTime(60_000)
+    expect(FakeWebSocket.instances).toHaveLength(3)
+  })
+})
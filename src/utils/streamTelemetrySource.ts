@@ -0,0 +1,219 @@
+/**
+ * 실제 센서가 WebSocket 또는 SSE(Server-Sent Events)로 보내는 데이터를 수신하는 어댑터
+ *
+ * 센서는 채널별 메시지를 JSON으로 전송해야 함
+ *   { "channel": "traffic", "payload": { "inbound": 12, "outbound": 8, "time": "2025-01-24T10:00:00Z" } }
+ *   { "channel": "logs", "payload": [ { "timestamp": "...", "sourceIP": "...", ... } ] }
+ * 트래픽의 inbound/outbound는 Mbps, 초당 패킷 수(inboundPps, outboundPps)는 선택 항목
+ * 탐지 결과 채널(alerts, baseline, anomalies)은 로컬 백엔드 서버처럼 탐지를 직접 수행하는 소스가 보냄
+ *
+ * 날짜 필드(time, timestamp)는 문자열 또는 epoch 밀리초로 받아 Date로 변환
+ * 채널별 형태(객체, 배열, 트래픽 수치)가 맞지 않는 메시지는 무시
+ * 로그는 LogEntry 형식(IP, 포트, 분류와 악성 로그의 공격 유형)을 검증하여 올바르지 않은 항목만 버림
+ * 연결이 끊기면 지수 백오프(최대 30초)로 재연결
+ *
+ * @module streamTelemetrySource
+ */
+import type { IocMatch } from "../types/ioc"
+import { isAttackCategory, type LogEntry } from "../types/log"
+import type { TelemetryChannel, TelemetryChannels, TelemetrySource } from "../types/telemetry"
+import { buildLogEntry, LogLineError } from "./logParsers/common"
+import { createTelemetryEmitter, type TelemetryEmitter } from "./telemetryEmitter"
+
+const CHANNELS: TelemetryChannel[] = [
+  "traffic",
+  "logs",
+  "flows",
+  "resources",
+  "ports",
+  "system",
+  "alerts",
+  "baseline",
+  "anomalies",
+]
+const MAX_RECONNECT_DELAY = 30000
+
+// 스트림 메시지 형식
+interface StreamMessage {
+  channel: TelemetryChannel
+  payload: unknown
+}
+
+// 문자열 또는 숫자로 전달된 날짜를 Date로 변환
+const toDate = (value: unknown): Date => {
+  if (value instanceof Date) return value
+  if (typeof value === "string" || typeof value === "number") return new Date(value)
+  return new Date()
+}
+
+// JSON 객체인지 확인
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+// 배열 채널 (flows, ports)에서 객체인 항목만 남김
+const toRecords = (value: unknown): Record<string, unknown>[] =>
+  (Array.isArray(value) ? value : [value]).filter(isRecord)
+
+// 0 ~ 65535의 정수 포트
+const isPort = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0 && value <= 65535
+
+// 위협 인텔리전스 지표 일치 항목 (로컬 백엔드 서버가 붙여 보냄)
+const isIocMatch = (value: unknown): value is IocMatch =>
+  isRecord(value) &&
+  typeof value.indicatorId === "string" &&
+  (value.field === "sourceIP" || value.field === "destinationIP") &&
+  typeof value.value === "string" &&
+  typeof value.source === "string" &&
+  typeof value.confidence === "number"
+
+// 센서가 보낸 로그 객체를 검증하여 LogEntry로 변환하는 함수 (형식이 맞지 않으면 null)
+export function reviveLogEntry(record: Record<string, unknown>): LogEntry | null {
+  const { sourceIP, destinationIP, sourcePort, destinationPort, protocol, trafficVolume, type, attack, iocMatches } =
+    record
+  if (typeof sourceIP !== "string" || typeof destinationIP !== "string") return null
+  if (!isPort(sourcePort) || !isPort(destinationPort) || typeof protocol !== "string") return null
+  if (typeof trafficVolume !== "number" || !Number.isFinite(trafficVolume) || trafficVolume < 0) return null
+  if (type !== "normal" && type !== "novel" && !(type === "malicious" && isAttackCategory(attack))) return null
+  const matches = iocMatches === undefined ? [] : Array.isArray(iocMatches) ? iocMatches : null
+  if (!matches || !matches.every(isIocMatch)) return null
+
+  let entry: LogEntry
+  try {
+    entry = buildLogEntry({
+      timestamp: toDate(record.timestamp),
+      sourceIP,
+      sourcePort,
+      destinationIP,
+      destinationPort,
+      protocol,
+      trafficVolume,
+      attack: type === "malicious" && isAttackCategory(attack) ? attack : null,
+      novel: type === "novel",
+    })
+  } catch (error) {
+    if (error instanceof LogLineError) return null // 시간 또는 IP 형식 오류
+    throw error
+  }
+  return {
+    ...entry,
+    id: typeof record.id === "string" ? record.id : entry.id, // ID가 없는 외부 로그에는 새로 부여
+    ...(matches.length > 0 ? { iocMatches: matches } : {}),
+  }
+}
+
+// 채널별로 형태를 확인하고 날짜 필드를 복원하는 함수 (형태가 맞지 않으면 null)
+export function reviveTelemetryPayload<K extends TelemetryChannel>(
+  channel: K,
+  payload: unknown,
+): TelemetryChannels[K] | null {
+  const revive = (): unknown => {
+    switch (channel) {
+      case "traffic":
+        if (!isRecord(payload) || typeof payload.inbound !== "number" || typeof payload.outbound !== "number") {
+          return null
+        }
+        return { ...payload, time: toDate(payload.time) }
+      case "logs": {
+        const records = toRecords(payload)
+        const logs = records.map(reviveLogEntry).filter((log): log is LogEntry => log !== null)
+        if (records.length > 0 && logs.length === 0) return null
+        if (logs.length < records.length) {
+          console.warn(`[telemetry] 형식이 맞지 않는 로그 ${records.length - logs.length}개를 버립니다`)
+        }
+        return logs
+      }
+      case "flows":
+      case "ports":
+        return Array.isArray(payload) ? toRecords(payload) : null
+      case "alerts":
+      case "baseline":
+      case "anomalies":
+        return isRecord(payload) && payload.time !== undefined ? { ...payload, time: toDate(payload.time) } : null
+      default:
+        return isRecord(payload) ? payload : null
+    }
+  }
+  // 채널마다 필요한 형태를 확인했으므로 해당 채널의 데이터 타입으로 전달
+  return revive() as TelemetryChannels[K] | null
+}
+
+// 수신한 원본 문자열을 파싱해 해당 채널로 발행
+const dispatchMessage = (emitter: TelemetryEmitter, raw: string) => {
+  let message: StreamMessage
+  try {
+    message = JSON.parse(raw)
+  } catch (error) {
+    console.warn("[telemetry] JSON이 아닌 메시지를 무시합니다", error)
+    return
+  }
+  if (!message || !CHANNELS.includes(message.channel)) return
+  const payload = reviveTelemetryPayload(message.channel, message.payload)
+  if (payload === null) {
+    console.warn(`[telemetry] ${message.channel} 채널의 형식이 맞지 않는 메시지를 무시합니다`)
+    return
+  }
+  emitter.emit(message.channel, payload)
+}
+
+// WebSocket 또는 SSE 스트림 소스를 생성하는 함수
+export function createStreamTelemetrySource(
+  kind: "websocket" | "sse",
+  url: string,
+  emitter: TelemetryEmitter = createTelemetryEmitter(),
+): TelemetrySource {
+  let socket: WebSocket | EventSource | null = null
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  let reconnectDelay = 1000
+  let running = false
+
+  // 연결이 끊겼을 때 재연결 예약
+  const scheduleReconnect = () => {
+    if (!running || reconnectTimer) return
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null
+      connect()
+    }, reconnectDelay)
+    reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY)
+  }
+
+  const connect = () => {
+    if (kind === "websocket") {
+      const ws = new WebSocket(url)
+      ws.onopen = () => {
+        reconnectDelay = 1000
+      }
+      ws.onmessage = (event) => dispatchMessage(emitter, String(event.data))
+      ws.onclose = scheduleReconnect
+      socket = ws
+    } else {
+      const source = new EventSource(url)
+      source.onopen = () => {
+        reconnectDelay = 1000
+      }
+      source.onmessage = (event) => dispatchMessage(emitter, event.data)
+      // EventSource는 자체 재연결을 하지만, 닫힌 경우에는 직접 재연결
+      source.onerror = () => {
+        if (source.readyState === EventSource.CLOSED) scheduleReconnect()
+      }
+      socket = source
+    }
+  }
+
+  return {
+    kind,
+    start() {
+      if (running) return
+      running = true
+      connect()
+    },
+    stop() {
+      running = false
+      if (reconnectTimer) clearTimeout(reconnectTimer)
+      reconnectTimer = null
+      socket?.close()
+      socket = null
+    },
+    subscribe: emitter.subscribe,
+  }
+}
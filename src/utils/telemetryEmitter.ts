@@ -0,0 +1,56 @@
+/**
+ * 텔레메트리 소스 어댑터들이 공통으로 사용하는 채널별 구독/발행 도우미
+ *
+ * 상태성 채널(리소스, 포트, 시스템 정보, 플로우)은 마지막 값을 보관했다가
+ * 늦게 구독한 컴포넌트에게 즉시 전달
+ *
+ * @module telemetryEmitter
+ */
+import type { TelemetryChannel, TelemetryChannels, TelemetryListener } from "../types/telemetry"
+
+// 마지막 값을 새 구독자에게 다시 전달하는 채널 목록
+const REPLAYED_CHANNELS: TelemetryChannel[] = ["flows", "resources", "ports", "system"]
+
+export interface TelemetryEmitter {
+  subscribe<K extends TelemetryChannel>(channel: K, listener: TelemetryListener<K>): () => void
+  emit<K extends TelemetryChannel>(channel: K, payload: TelemetryChannels[K]): void
+}
+
+// 채널별 리스너 목록과 마지막 값 (채널마다 자기 데이터 타입만 보관)
+type ListenerSets = { [K in TelemetryChannel]: Set<TelemetryListener<K>> }
+type LastValues = { [K in TelemetryChannel]?: TelemetryChannels[K] }
+
+// 채널별 리스너 목록과 마지막 값을 관리하는 emitter 생성
+export function createTelemetryEmitter(): TelemetryEmitter {
+  const listeners: ListenerSets = {
+    traffic: new Set(),
+    logs: new Set(),
+    flows: new Set(),
+    resources: new Set(),
+    ports: new Set(),
+    system: new Set(),
+    baseline: new Set(),
+    anomalies: new Set(),
+    alerts: new Set(),
+  }
+  const lastValues: LastValues = {}
+
+  return {
+    subscribe(channel, listener) {
+      const channelListeners = listeners[channel]
+      channelListeners.add(listener)
+
+      // 상태성 채널은 보관된 마지막 값을 바로 전달
+      const last = lastValues[channel]
+      if (REPLAYED_CHANNELS.includes(channel) && last !== undefined) listener(last)
+
+      return () => {
+        channelListeners.delete(listener)
+      }
+    },
+    emit(channel, payload) {
+      if (REPLAYED_CHANNELS.includes(channel)) lastValues[channel] = payload
+      listeners[channel].forEach((listener) => listener(payload))
+    },
+  }
+}
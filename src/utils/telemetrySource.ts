@@ -0,0 +1,138 @@
+/**
+ * 환경 설정에 따라 텔레메트리 소스를 선택하는 모듈
+ *
+ * 환경 변수 (.env):
+ * - REACT_APP_TELEMETRY_SOURCE: "mock"(기본값) | "websocket" | "sse" | "server"
+ * - REACT_APP_TELEMETRY_URL: websocket/sse 소스의 접속 주소, server 소스의 기본 주소(예: http://localhost:4000)
+ * - REACT_APP_HISTORY: "off"이면 IndexedDB 기록을 사용하지 않음 (기본값: 사용)
+ * - REACT_APP_HISTORY_MAX_AGE_DAYS: 기록 보관 기간(일, 기본값 7)
+ * - REACT_APP_HISTORY_MAX_LOGS / REACT_APP_HISTORY_MAX_TRAFFIC / REACT_APP_HISTORY_MAX_FLOWS / REACT_APP_HISTORY_MAX_ALERTS:
+ *   저장소별 최대 보관 건수
+ * - REACT_APP_RULES_URL: 기본 탐지 규칙 문서 주소 (기본값: /rules/default.yml)
+ * - REACT_APP_GEOIP_URL: 쉼표로 구분한 GeoIP 데이터베이스(.mmdb 또는 .csv) 주소
+ *   (기본값: 없음, 지정하지 않거나 "off"이면 위치를 찾지 않아 모든 주소가 위치 불명)
+ * - REACT_APP_GEOIP_LOCAL: 내부 주소의 위치 "국가코드,위도,경도" (기본값: KR,37.5665,126.978), "off"이면 찾지 않음
+ *
+ * @module telemetrySource
+ */
+import type { GeoLocation } from "../types/geo"
+import type { TelemetrySource, TelemetrySourceKind } from "../types/telemetry"
+import { createBaselineTelemetrySource, type BaselineStateStore } from "./baselineTelemetrySource"
+import type { GeoIpConfig } from "./geoip"
+import { createGeoTelemetrySource } from "./geoTelemetrySource"
+import {
+  DEFAULT_HISTORY_RETENTION,
+  isHistorySupported,
+  openHistoryStore,
+  type HistoryRetention,
+} from "./historyStore"
+import { createHistoryTelemetrySource } from "./historyTelemetrySource"
+import { createIocTelemetrySource } from "./iocTelemetrySource"
+import { createMockTelemetrySource } from "./mockTelemetrySource"
+import { createRuleTelemetrySource } from "./ruleTelemetrySource"
+import { createServerTelemetrySource } from "./serverTelemetrySource"
+import { createStreamTelemetrySource } from "./streamTelemetrySource"
+import { DEFAULT_BASELINE_OPTIONS } from "./trafficBaseline"
+
+export interface TelemetrySourceConfig {
+  kind: TelemetrySourceKind
+  url?: string
+  history?: HistoryRetention | null // null이면 기록하지 않음
+  geoip?: GeoIpConfig | null // null이면 로그 주소의 위치를 찾지 않음
+}
+
+const SOURCE_KINDS: TelemetrySourceKind[] = ["mock", "websocket", "sse", "server"]
+
+// 양수 환경 변수를 읽고, 없거나 올바르지 않으면 기본값 사용
+const readPositiveNumber = (value: string | undefined, fallback: number) => {
+  const number = Number(value)
+  return value && Number.isFinite(number) && number > 0 ? number : fallback
+}
+
+// 환경 변수에서 기록 보관 정책을 읽는 함수
+export function readHistoryRetention(env: Record<string, string | undefined> = process.env): HistoryRetention | null {
+  if (isOff(env.REACT_APP_HISTORY)) return null
+  return {
+    maxAgeDays: readPositiveNumber(env.REACT_APP_HISTORY_MAX_AGE_DAYS, DEFAULT_HISTORY_RETENTION.maxAgeDays),
+    maxLogs: readPositiveNumber(env.REACT_APP_HISTORY_MAX_LOGS, DEFAULT_HISTORY_RETENTION.maxLogs),
+    maxTrafficSamples: readPositiveNumber(env.REACT_APP_HISTORY_MAX_TRAFFIC, DEFAULT_HISTORY_RETENTION.maxTrafficSamples),
+    maxFlowSnapshots: readPositiveNumber(env.REACT_APP_HISTORY_MAX_FLOWS, DEFAULT_HISTORY_RETENTION.maxFlowSnapshots),
+    maxAlerts: readPositiveNumber(env.REACT_APP_HISTORY_MAX_ALERTS, DEFAULT_HISTORY_RETENTION.maxAlerts),
+  }
+}
+
+// 환경 변수 값이 꺼짐을 뜻하는지 확인
+const isOff = (value: string | undefined) => ["off", "false", "0"].includes((value || "").toLowerCase())
+
+// 기본 내부 위치 (서울)
+const DEFAULT_LOCAL_LOCATION: GeoLocation = { country: "KR", city: "Seoul", latitude: 37.5665, longitude: 126.978 }
+
+// "국가코드,위도,경도" 형식의 내부 위치를 읽음 (올바르지 않으면 기본값)
+const readLocalLocation = (value: string | undefined): GeoLocation | null => {
+  if (isOff(value)) return null
+  const [country = "", latitude, longitude] = (value || "").split(",").map((part) => part.trim())
+  if (!/^[A-Za-z]{2}$/.test(country) || !Number.isFinite(Number(latitude)) || !Number.isFinite(Number(longitude))) {
+    if (value) console.warn(`[geoip] 내부 위치 "${value}"를 읽지 못해 기본값을 사용합니다`)
+    return DEFAULT_LOCAL_LOCATION
+  }
+  return { country: country.toUpperCase(), latitude: Number(latitude), longitude: Number(longitude) }
+}
+
+// 환경 변수에서 GeoIP 설정을 읽는 함수 (데이터베이스를 지정한 경우에만 사용)
+export function readGeoIpConfig(env: Record<string, string | undefined> = process.env): GeoIpConfig | null {
+  if (isOff(env.REACT_APP_GEOIP_URL)) return null
+  const urls = (env.REACT_APP_GEOIP_URL || "")
+    .split(",")
+    .map((url) => url.trim())
+    .filter(Boolean)
+  if (urls.length === 0) return null
+  return { urls, local: readLocalLocation(env.REACT_APP_GEOIP_LOCAL) }
+}
+
+// 환경 변수에서 텔레메트리 소스 설정을 읽는 함수
+export function readTelemetryConfig(env: Record<string, string | undefined> = process.env): TelemetrySourceConfig {
+  const history = readHistoryRetention(env)
+  const geoip = readGeoIpConfig(env)
+  const kind = (env.REACT_APP_TELEMETRY_SOURCE || "mock").toLowerCase() as TelemetrySourceKind
+  if (!SOURCE_KINDS.includes(kind)) {
+    console.warn(`[telemetry] 알 수 없는 소스 "${kind}", 목 데이터를 사용합니다`)
+    return { kind: "mock", history, geoip }
+  }
+  return { kind, url: env.REACT_APP_TELEMETRY_URL, history, geoip }
+}
+
+// 설정의 종류에 맞는 원본 소스를 생성
+const createBaseSource = (config: TelemetrySourceConfig): TelemetrySource => {
+  if (config.kind === "mock") return createMockTelemetrySource()
+  if (!config.url) {
+    console.warn(`[telemetry] ${config.kind} 소스에 REACT_APP_TELEMETRY_URL이 없어 목 데이터를 사용합니다`)
+    return createMockTelemetrySource()
+  }
+  if (config.kind === "server") return createServerTelemetrySource(config.url)
+  return createStreamTelemetrySource(config.kind, config.url)
+}
+
+// 기준선 학습 상태를 IndexedDB 기록 저장소에 보관
+const HISTORY_BASELINE_STORE: BaselineStateStore = {
+  load: () => openHistoryStore().then((store) => store.loadBaseline()),
+  save: (state) => openHistoryStore().then((store) => store.saveBaseline(state)),
+}
+
+// 설정에 맞는 텔레메트리 소스를 생성하는 함수
+// - 복원한 로그로 알림이 다시 만들어지지 않도록 탐지 규칙과 위협 인텔리전스 지표는 원본 소스 바로 바깥에서 평가
+//   (지표와 일치한 표시가 기록에도 남음)
+// - GeoIP를 사용하면 그 바깥에서 로그 위치를 찾고 로그에서 흐름을 만듦 (위치와 흐름도 기록에 남음)
+// - 기록을 사용하면 IndexedDB 기록 소스로 감쌈
+// - 복원한 트래픽까지 평가하도록 가장 바깥에서 기준선으로 평가 (기록을 사용하면 학습 상태도 함께 보관)
+// - 로컬 백엔드 서버는 탐지 규칙, 지표, 기준선을 서버에서 한 번만 평가하므로 탭마다 다시 평가하지 않음
+//   (화면에서 바꾼 규칙과 지표는 서버 소스가 서버로 보냄)
+export function createTelemetrySource(config: TelemetrySourceConfig = readTelemetryConfig()): TelemetrySource {
+  const base = createBaseSource(config)
+  const detecting = base.kind !== "server" // 서버 주소가 없어 목 데이터로 바뀐 경우에는 직접 평가
+  const evaluated = detecting ? createIocTelemetrySource(createRuleTelemetrySource(base)) : base
+  const source = config.geoip ? createGeoTelemetrySource(evaluated, config.geoip) : evaluated
+  const history = config.history && isHistorySupported() ? config.history : null
+  const recorded = history ? createHistoryTelemetrySource(source, history) : source
+  if (!detecting) return recorded
+  return createBaselineTelemetrySource(recorded, DEFAULT_BASELINE_OPTIONS, history ? HISTORY_BASELINE_STORE : null)
+}
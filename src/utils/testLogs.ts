@@ -0,0 +1,32 @@
+/**
+ * 테스트에서 쓰는 로그 항목을 만드는 도우미
+ *
+ * 기본값은 외부(203.0.113.7)에서 내부(10.0.0.5)의 443 포트로 가는 정상 TCP 로그이며,
+ * 분류를 바꿀 때는 type과 attack을 함께 지정해야 함 (악성 로그는 attack이 필수)
+ *
+ * @module testLogs
+ */
+import type { AttackCategory, LogEntry, NormalLogEntry } from "../types/log"
+
+// 분류를 제외한 필드와 분류 (악성 로그만 공격 유형을 가짐)
+export type TestLogOverrides = Partial<Omit<NormalLogEntry, "type">> &
+  ({ type?: "normal" | "novel"; attack?: undefined } | { type: "malicious"; attack: AttackCategory })
+
+const DEFAULT_LOG: NormalLogEntry = {
+  id: "log",
+  timestamp: new Date(0),
+  sourceIP: "203.0.113.7",
+  sourcePort: 50000,
+  destinationIP: "10.0.0.5",
+  destinationPort: 443,
+  protocol: "TCP",
+  trafficVolume: 10,
+  type: "normal",
+}
+
+// 기본값에 overrides를 덮어쓴 로그
+export function createLog(overrides: TestLogOverrides = {}): LogEntry {
+  if (overrides.type === "malicious") return { ...DEFAULT_LOG, ...overrides }
+  const { attack, ...fields } = overrides
+  return { ...DEFAULT_LOG, ...fields, type: fields.type ?? "normal" }
+}
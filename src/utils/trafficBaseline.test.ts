@@ -0,0 +1,131 @@
+import { describe, expect, it } from "@jest/globals"
+import {
+  anomalousDirections,
+  createTrafficBaseline,
+  DEFAULT_BASELINE_OPTIONS,
+  evaluateBaselineSeries,
+  type BaselineSlot,
+  type TrafficBaselineState,
+} from "./trafficBaseline"
+
+const MINUTE = 60 * 1000
+
+// 2024-01-01 00:00(현지 시각)부터 minutes분 뒤의 샘플
+const sampleAt = (minutes: number, inbound: number, outbound = inbound) => ({
+  time: new Date(new Date(2024, 0, 1).getTime() + minutes * MINUTE),
+  inbound,
+  outbound,
+})
+
+const slot = (mean: number, variance: number, count: number): BaselineSlot => ({ mean, variance, count })
+
+// 전체 평균 10, 3시만 평균 100으로 학습된 상태
+const seasonalState = (hourCount: number): TrafficBaselineState => {
+  const profile = () => ({
+    overall: slot(10, 4, 1000),
+    hours: Array.from({ length: 24 }, (_, hour) => (hour === 3 ? slot(100, 25, hourCount) : slot(10, 4, 40))),
+  })
+  return { learnedUntil: sampleAt(0, 0).time, profiles: { inbound: profile(), outbound: profile() } }
+}
+
+describe("EWMA 기준선", () => {
+  it("학습한 샘플이 warmupSamples개가 되기 전에는 평가하지 않음", () => {
+    const points = evaluateBaselineSeries(Array.from({ length: 31 }, (_, i) => sampleAt(i, 10)))
+    expect(points.slice(0, 30).every((point) => point.inbound === null && point.outbound === null)).toBe(true)
+    expect(points[30].inbound).not.toBeNull()
+  })
+
+  it("일정한 값은 평균으로 수렴하고, 분산이 없으면 평균의 minDeviationRatio를 표준편차로 사용", () => {
+    const baseline = createTrafficBaseline()
+    for (let i = 0; i < 60; i += 1) baseline.evaluate(sampleAt(i, 10))
+    const band = baseline.evaluate(sampleAt(60, 11)).inbound!
+    expect(band.expected).toBeCloseTo(10)
+    expect(band.lower).toBeCloseTo(8.5)
+    expect(band.upper).toBeCloseTo(11.5)
+    expect(band.zScore).toBeCloseTo(2)
+    expect(band.anomalous).toBe(false)
+  })
+
+  it("범위를 벗어난 값은 이상으로 평가하고 작은 가중치로만 학습", () => {
+    const baseline = createTrafficBaseline()
+    for (let i = 0; i < 60; i += 1) baseline.evaluate(sampleAt(i, 10))
+    const spike = baseline.evaluate(sampleAt(60, 40, 10))
+    expect(spike.inbound!.anomalous).toBe(true)
+    expect(spike.inbound!.zScore).toBeCloseTo(60)
+    expect(anomalousDirections(spike)).toEqual(["inbound"])
+
+    // 정상 값으로 학습했다면 평균이 1.5 올라가지만, 이상 값은 그 1/10만 반영
+    const next = baseline.evaluate(sampleAt(61, 10)).inbound!
+    expect(next.expected).toBeGreaterThan(10)
+    expect(next.expected).toBeLessThan(10.2)
+  })
+})
+
+describe("시간대별 기준선", () => {
+  it("충분히 학습한 시간대는 그 시간대의 평균으로 평가", () => {
+    const baseline = createTrafficBaseline()
+    baseline.restore(seasonalState(50))
+    const night = baseline.evaluate(sampleAt(24 * 60 + 3 * 60, 100)) // 다음 날 3시
+    expect(night.inbound).toMatchObject({ expected: 100, anomalous: false })
+    const noon = baseline.evaluate(sampleAt(24 * 60 + 12 * 60, 100)) // 다음 날 12시
+    expect(noon.inbound!.expected).toBeCloseTo(10, 0)
+    expect(noon.inbound!.anomalous).toBe(true)
+  })
+
+  it("학습이 부족한 시간대는 전체 기준선으로 평가", () => {
+    const baseline = createTrafficBaseline()
+    baseline.restore(seasonalState(DEFAULT_BASELINE_OPTIONS.warmupSamples - 1))
+    const night = baseline.evaluate(sampleAt(24 * 60 + 3 * 60, 100))
+    expect(night.inbound).toMatchObject({ expected: 10, anomalous: true })
+  })
+
+  it("여러 날 같은 시간대에 반복되는 값은 그 시간대의 정상 범위로 학습", () => {
+    const baseline = createTrafficBaseline()
+    const level = (minutes: number) => (Math.floor(minutes / 60) % 24 === 3 ? 60 : 10)
+    for (let minutes = 0; minutes < 7 * 24 * 60; minutes += 1) baseline.evaluate(sampleAt(minutes, level(minutes)))
+
+    const night = baseline.evaluate(sampleAt(7 * 24 * 60 + 3 * 60 + 30, 60)).inbound!
+    const evening = baseline.evaluate(sampleAt(7 * 24 * 60 + 18 * 60, 60)).inbound!
+    expect(night.anomalous).toBe(false)
+    expect(evening.anomalous).toBe(true)
+  })
+})
+
+describe("학습 상태 저장과 복원", () => {
+  it("복원한 기준선은 원래 기준선과 같은 평가를 함", () => {
+    const original = createTrafficBaseline()
+    for (let i = 0; i < 90; i += 1) original.evaluate(sampleAt(i, 10 + (i % 5), 3 + (i % 2)))
+    const state = original.snapshot()!
+    const copy = createTrafficBaseline()
+    expect(copy.restore(state)).toBe(true)
+    expect(copy.learnedUntil()).toEqual(sampleAt(89, 0).time)
+    expect(copy.evaluate(sampleAt(90, 25, 4))).toEqual(original.evaluate(sampleAt(90, 25, 4)))
+  })
+
+  it("snapshot은 복사본이며 학습 전에는 null", () => {
+    const baseline = createTrafficBaseline()
+    expect(baseline.snapshot()).toBeNull()
+    baseline.evaluate(sampleAt(0, 10))
+    const state = baseline.snapshot()!
+    baseline.evaluate(sampleAt(1, 20))
+    expect(state.profiles.inbound.overall).toEqual(slot(10, 0, 1))
+  })
+
+  it("이미 학습한 시각 이전의 샘플은 평가만 하고 학습하지 않음", () => {
+    const baseline = createTrafficBaseline()
+    baseline.restore(seasonalState(50))
+    const before = baseline.snapshot()
+    const point = baseline.evaluate(sampleAt(0, 500))
+    expect(point.inbound!.anomalous).toBe(true)
+    expect(baseline.snapshot()).toEqual(before)
+  })
+
+  it("형식이 맞지 않는 상태는 무시", () => {
+    const baseline = createTrafficBaseline()
+    const state = seasonalState(50)
+    const broken = { ...state, profiles: { ...state.profiles, outbound: { ...state.profiles.outbound, hours: [] } } }
+    expect(baseline.restore(broken)).toBe(false)
+    expect(baseline.restore({ ...state, learnedUntil: new Date(NaN) })).toBe(false)
+    expect(baseline.snapshot()).toBeNull()
+  })
+})
@@ -0,0 +1,200 @@
+/**
+ * 트래픽 시계열의 기준선을 학습하고 벗어난 값을 찾는 함수들
+ *
+ * 방향(인바운드/아웃바운드)마다 두 가지 지수 가중 이동 평균(EWMA)을 유지
+ * - 전체: 최근 값에 빠르게 따라가는 평균과 분산
+ * - 시간대별: 0~23시 각각의 평균과 분산 (하루 중 시간대에 따른 변화를 반영)
+ *
+ * 샘플마다 먼저 학습된 기준선으로 예상 범위(예상 값 ± 임계값 × 표준편차)를 구해 평가한 뒤 학습하며,
+ * 범위를 벗어난 값은 기준선이 공격 트래픽에 끌려가지 않도록 작은 가중치로만 학습
+ *
+ * 학습한 상태는 snapshot()으로 꺼내 저장했다가 restore()로 되살릴 수 있으며 (시간대별 평균은 며칠에 걸쳐 학습되므로),
+ * 이미 학습한 시각 이전의 샘플(예: 기록에서 복원한 샘플)은 평가만 하고 다시 학습하지 않음
+ *
+ * @module trafficBaseline
+ */
+import type { BaselineBand, TrafficBaselinePoint, TrafficDirection, TrafficSample } from "../types/telemetry"
+
+export interface BaselineOptions {
+  alpha: number // 전체 평균의 EWMA 가중치
+  seasonalAlpha: number // 시간대별 평균의 EWMA 가중치 (여러 날에 걸쳐 천천히 학습)
+  threshold: number // 이상으로 판단하는 z-점수
+  warmupSamples: number // 평가를 시작하기 전에 필요한 샘플 수
+  minDeviationRatio: number // 예상 값 대비 최소 표준편차 (변화가 거의 없는 구간의 오탐 방지)
+}
+
+export const DEFAULT_BASELINE_OPTIONS: BaselineOptions = {
+  alpha: 0.05,
+  seasonalAlpha: 0.002,
+  threshold: 3,
+  warmupSamples: 30,
+  minDeviationRatio: 0.05,
+}
+
+// 이상으로 판단한 값을 학습할 때 곱하는 가중치
+const ANOMALY_LEARNING_RATIO = 0.1
+// 값이 0 근처일 때의 최소 표준편차 (Mbps)
+const MIN_DEVIATION = 0.1
+
+// 평균과 분산의 EWMA 상태
+export interface BaselineSlot {
+  mean: number
+  variance: number
+  count: number
+}
+
+export interface DirectionProfile {
+  overall: BaselineSlot
+  hours: BaselineSlot[] // 0~23시
+}
+
+// 저장할 수 있는 학습 상태
+export interface TrafficBaselineState {
+  learnedUntil: Date // 마지막으로 학습한 샘플의 시각
+  profiles: Record<TrafficDirection, DirectionProfile>
+}
+
+export interface TrafficBaseline {
+  // 샘플을 평가한 뒤 기준선에 학습 (마지막으로 학습한 시각 이전의 샘플은 평가만 함)
+  evaluate(sample: TrafficSample): TrafficBaselinePoint
+  // 마지막으로 학습한 샘플의 시각 (학습 전이면 null)
+  learnedUntil(): Date | null
+  // 현재 학습 상태의 복사본 (학습 전이면 null)
+  snapshot(): TrafficBaselineState | null
+  // 저장한 학습 상태로 교체 (형식이 맞지 않으면 false를 반환하고 무시)
+  restore(state: TrafficBaselineState): boolean
+}
+
+const DIRECTIONS: TrafficDirection[] = ["inbound", "outbound"]
+
+const emptySlot = (): BaselineSlot => ({ mean: 0, variance: 0, count: 0 })
+
+const emptyProfile = (): DirectionProfile => ({
+  overall: emptySlot(),
+  hours: Array.from({ length: 24 }, emptySlot),
+})
+
+const copySlot = (slot: BaselineSlot): BaselineSlot => ({ mean: slot.mean, variance: slot.variance, count: slot.count })
+
+const copyProfile = (profile: DirectionProfile): DirectionProfile => ({
+  overall: copySlot(profile.overall),
+  hours: profile.hours.map(copySlot),
+})
+
+const isSlot = (value: unknown): value is BaselineSlot => {
+  const slot = value as BaselineSlot | null
+  return (
+    typeof slot === "object" &&
+    slot !== null &&
+    Number.isFinite(slot.mean) &&
+    Number.isFinite(slot.variance) &&
+    slot.variance >= 0 &&
+    Number.isInteger(slot.count) &&
+    slot.count >= 0
+  )
+}
+
+const isProfile = (value: unknown): value is DirectionProfile => {
+  const profile = value as DirectionProfile | null
+  return (
+    typeof profile === "object" &&
+    profile !== null &&
+    isSlot(profile.overall) &&
+    Array.isArray(profile.hours) &&
+    profile.hours.length === 24 &&
+    profile.hours.every(isSlot)
+  )
+}
+
+// EWMA로 평균과 분산을 갱신 (처음 몇 개는 단순 평균에 가깝게 빠르게 수렴하도록 가중치를 키우고, ratio로 학습 정도를 조절)
+const updateSlot = (slot: BaselineSlot, value: number, alpha: number, ratio: number) => {
+  const weight = Math.max(alpha, 1 / (slot.count + 1)) * ratio
+  const diff = value - slot.mean
+  const increment = weight * diff
+  slot.mean += increment
+  slot.variance = (1 - weight) * (slot.variance + diff * increment)
+  slot.count += 1
+}
+
+// 시간대별 기준선이 충분히 학습되었으면 사용하고, 아니면 전체 기준선 사용
+const pickSlot = (profile: DirectionProfile, time: Date, options: BaselineOptions): BaselineSlot | null => {
+  const hourly = profile.hours[time.getHours()]
+  if (hourly.count >= options.warmupSamples) return hourly
+  return profile.overall.count >= options.warmupSamples ? profile.overall : null
+}
+
+// 기준선에 대한 값의 예상 범위와 z-점수
+const toBand = (slot: BaselineSlot, value: number, options: BaselineOptions): BaselineBand => {
+  const deviation = Math.max(Math.sqrt(slot.variance), Math.abs(slot.mean) * options.minDeviationRatio, MIN_DEVIATION)
+  const zScore = (value - slot.mean) / deviation
+  return {
+    expected: slot.mean,
+    lower: Math.max(0, slot.mean - options.threshold * deviation),
+    upper: slot.mean + options.threshold * deviation,
+    zScore,
+    anomalous: Math.abs(zScore) >= options.threshold,
+  }
+}
+
+// 기준선 모델을 생성하는 함수
+export function createTrafficBaseline(options: BaselineOptions = DEFAULT_BASELINE_OPTIONS): TrafficBaseline {
+  let profiles: Record<TrafficDirection, DirectionProfile> = { inbound: emptyProfile(), outbound: emptyProfile() }
+  let learnedUntil: Date | null = null
+
+  // 한 방향의 값을 평가하고, learn이면 학습
+  const evaluateDirection = (direction: TrafficDirection, value: number, time: Date, learn: boolean) => {
+    const profile = profiles[direction]
+    const slot = pickSlot(profile, time, options)
+    const band = slot ? toBand(slot, value, options) : null
+    if (learn) {
+      const ratio = band?.anomalous ? ANOMALY_LEARNING_RATIO : 1
+      updateSlot(profile.overall, value, options.alpha, ratio)
+      updateSlot(profile.hours[time.getHours()], value, options.seasonalAlpha, ratio)
+    }
+    return band
+  }
+
+  return {
+    evaluate(sample) {
+      const learn = !learnedUntil || sample.time > learnedUntil
+      if (learn) learnedUntil = sample.time
+      return {
+        time: sample.time,
+        inbound: evaluateDirection("inbound", sample.inbound, sample.time, learn),
+        outbound: evaluateDirection("outbound", sample.outbound, sample.time, learn),
+      }
+    },
+    learnedUntil: () => learnedUntil,
+    snapshot() {
+      if (!learnedUntil) return null
+      return {
+        learnedUntil,
+        profiles: { inbound: copyProfile(profiles.inbound), outbound: copyProfile(profiles.outbound) },
+      }
+    },
+    restore(state) {
+      const valid =
+        state.learnedUntil instanceof Date &&
+        !Number.isNaN(state.learnedUntil.getTime()) &&
+        DIRECTIONS.every((direction) => isProfile(state.profiles?.[direction]))
+      if (!valid) return false
+      learnedUntil = state.learnedUntil
+      profiles = { inbound: copyProfile(state.profiles.inbound), outbound: copyProfile(state.profiles.outbound) }
+      return true
+    },
+  }
+}
+
+// 시계열 전체를 처음부터 학습하며 평가 (캡처 파일이나 과거 구간처럼 실시간 기준선이 없는 데이터용)
+export function evaluateBaselineSeries(
+  samples: TrafficSample[],
+  options: BaselineOptions = DEFAULT_BASELINE_OPTIONS,
+): TrafficBaselinePoint[] {
+  const baseline = createTrafficBaseline(options)
+  return samples.map((sample) => baseline.evaluate(sample))
+}
+
+// 평가 결과에서 이상 징후 방향 목록을 추출
+export function anomalousDirections(point: TrafficBaselinePoint): TrafficDirection[] {
+  return DIRECTIONS.filter((direction) => point[direction]?.anomalous)
+}
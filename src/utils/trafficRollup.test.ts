@@ -0,0 +1,129 @@
+import { describe, expect, it } from "@jest/globals"
+import type { TrafficSample } from "../types/telemetry"
+import {
+  chooseResolution,
+  RAW_RESOLUTION_SECONDS,
+  rollupBucketStart,
+  rollupSamples,
+  rollupsToSeriesPoints,
+  samplesToSeriesPoints,
+} from "./trafficRollup"
+
+const BASE = Date.UTC(2024, 4, 1, 0, 0, 0)
+
+const sampleAt = (seconds: number, inbound: number, outbound: number, pps?: [number, number]): TrafficSample => ({
+  time: new Date(BASE + seconds * 1000),
+  inbound,
+  outbound,
+  ...(pps ? { inboundPps: pps[0], outboundPps: pps[1] } : {}),
+})
+
+describe("rollupBucketStart", () => {
+  it("구간 시작 시각은 구간에 포함되고, 끝 직전 시각은 이전 구간에 속함", () => {
+    expect(rollupBucketStart(new Date(BASE + 60_000), 60)).toEqual(new Date(BASE + 60_000))
+    expect(rollupBucketStart(new Date(BASE + 59_999), 60)).toEqual(new Date(BASE))
+    expect(rollupBucketStart(new Date(BASE + 3_599_999), 600)).toEqual(new Date(BASE + 3_000_000))
+    expect(rollupBucketStart(new Date(BASE + 3_599_999), 3600)).toEqual(new Date(BASE))
+  })
+})
+
+describe("rollupSamples", () => {
+  it("샘플을 구간별 최소, 최대, 합계, 개수로 묶고 시간순으로 반환", () => {
+    const rollups = rollupSamples([sampleAt(62, 4, 1), sampleAt(0, 2, 8), sampleAt(58, 6, 3), sampleAt(60, 1, 1)], 60)
+    expect(rollups).toEqual([
+      {
+        resolution: 60,
+        time: new Date(BASE),
+        count: 2,
+        inbound: { min: 2, max: 6, sum: 8 },
+        outbound: { min: 3, max: 8, sum: 11 },
+        packets: undefined,
+      },
+      {
+        resolution: 60,
+        time: new Date(BASE + 60_000),
+        count: 2,
+        inbound: { min: 1, max: 4, sum: 5 },
+        outbound: { min: 1, max: 1, sum: 2 },
+        packets: undefined,
+      },
+    ])
+  })
+
+  it("기존 구간에 누적하고 샘플이 없는 기존 구간은 그대로 유지", () => {
+    const existing = rollupSamples([sampleAt(0, 5, 5), sampleAt(120, 9, 9)], 60)
+    const merged = rollupSamples([sampleAt(30, 1, 7), sampleAt(200, 3, 3)], 60, existing)
+    expect(merged.map((rollup) => [rollup.time.getTime() - BASE, rollup.count])).toEqual([
+      [0, 2],
+      [120_000, 1],
+      [180_000, 1],
+    ])
+    expect(merged[0].inbound).toEqual({ min: 1, max: 5, sum: 6 })
+    expect(merged[0].outbound).toEqual({ min: 5, max: 7, sum: 12 })
+    expect(merged[1]).toBe(existing[1])
+    // 나눠서 누적한 결과는 한 번에 묶은 결과와 같음
+    const all = [sampleAt(0, 5, 5), sampleAt(30, 1, 7), sampleAt(120, 9, 9), sampleAt(200, 3, 3)]
+    expect(merged).toEqual(rollupSamples(all, 60))
+  })
+
+  it("초당 패킷 수는 제공한 샘플만 따로 집계", () => {
+    const [rollup] = rollupSamples([sampleAt(0, 1, 1, [100, 40]), sampleAt(2, 1, 1), sampleAt(4, 1, 1, [300, 20])], 600)
+    expect(rollup.count).toBe(3)
+    expect(rollup.packets).toEqual({
+      count: 2,
+      inbound: { min: 100, max: 300, sum: 400 },
+      outbound: { min: 20, max: 40, sum: 60 },
+    })
+  })
+})
+
+describe("chooseResolution", () => {
+  const from = new Date(BASE)
+  const after = (seconds: number) => new Date(BASE + seconds * 1000)
+
+  it("점 수가 maxPoints 이하인 가장 세밀한 해상도", () => {
+    expect(chooseResolution(from, after(600), 300)).toBe(RAW_RESOLUTION_SECONDS)
+    expect(chooseResolution(from, after(602), 300)).toBe(60)
+    expect(chooseResolution(from, after(24 * 3600), 300)).toBe(600)
+    expect(chooseResolution(from, after(7 * 24 * 3600), 300)).toBe(3600)
+  })
+
+  it("가장 거친 해상도로도 넘으면 가장 거친 해상도, 거꾸로 된 구간은 원본", () => {
+    expect(chooseResolution(from, after(365 * 24 * 3600), 300)).toBe(3600)
+    expect(chooseResolution(after(60), from, 300)).toBe(RAW_RESOLUTION_SECONDS)
+  })
+})
+
+describe("그래프 점 변환", () => {
+  it("롤업은 합계/개수로 평균을 구하고, 패킷 통계가 없으면 null", () => {
+    const rollups = rollupSamples([sampleAt(0, 1, 2, [10, 20]), sampleAt(2, 3, 4, [30, 40]), sampleAt(60, 5, 6)], 60)
+    expect(rollupsToSeriesPoints(rollups)).toEqual([
+      {
+        time: new Date(BASE),
+        inbound: { min: 1, avg: 2, max: 3 },
+        outbound: { min: 2, avg: 3, max: 4 },
+        inboundPps: { min: 10, avg: 20, max: 30 },
+        outboundPps: { min: 20, avg: 30, max: 40 },
+      },
+      {
+        time: new Date(BASE + 60_000),
+        inbound: { min: 5, avg: 5, max: 5 },
+        outbound: { min: 6, avg: 6, max: 6 },
+        inboundPps: null,
+        outboundPps: null,
+      },
+    ])
+  })
+
+  it("원본 샘플은 최소 = 평균 = 최대", () => {
+    expect(samplesToSeriesPoints([sampleAt(0, 7, 8, [1, 2])])).toEqual([
+      {
+        time: new Date(BASE),
+        inbound: { min: 7, avg: 7, max: 7 },
+        outbound: { min: 8, avg: 8, max: 8 },
+        inboundPps: { min: 1, avg: 1, max: 1 },
+        outboundPps: { min: 2, avg: 2, max: 2 },
+      },
+    ])
+  })
+})
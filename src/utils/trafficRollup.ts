@@ -0,0 +1,153 @@
+/**
+ * 트래픽 샘플을 시간 구간별 최소/평균/최대로 묶는(다운샘플링) 함수들
+ *
+ * 원본 샘플(2초 간격)은 1분, 10분, 1시간 해상도의 롤업으로 누적되며,
+ * 조회 구간 길이에 따라 그래프에 표시할 점 수를 넘지 않는 가장 세밀한 해상도를 선택
+ *
+ * @module trafficRollup
+ */
+import type { TrafficSample } from "../types/telemetry"
+
+// 원본 샘플 간격과 롤업 해상도(초)
+export const RAW_RESOLUTION_SECONDS = 2
+export const ROLLUP_RESOLUTIONS = [60, 600, 3600]
+
+// 한 구간의 통계 (평균은 합계/개수로 계산하여 누적이 가능하도록 함)
+export interface RollupStats {
+  min: number
+  max: number
+  sum: number
+}
+
+// 해상도별 한 구간의 롤업
+export interface TrafficRollup {
+  resolution: number // 초
+  time: Date // 구간 시작 시각
+  count: number
+  inbound: RollupStats
+  outbound: RollupStats
+  packets?: PacketRollup // 초당 패킷 수를 제공한 샘플이 있을 때만 존재
+}
+
+// 초당 패킷 수 통계 (패킷 수를 제공한 샘플만 집계)
+export interface PacketRollup {
+  count: number
+  inbound: RollupStats
+  outbound: RollupStats
+}
+
+// 그래프에 표시하는 한 점 (원본 샘플은 최소 = 평균 = 최대)
+export interface SeriesStats {
+  min: number
+  avg: number
+  max: number
+}
+
+export interface TrafficSeriesPoint {
+  time: Date
+  inbound: SeriesStats
+  outbound: SeriesStats
+  inboundPps: SeriesStats | null // 초당 패킷 수가 없으면 null
+  outboundPps: SeriesStats | null
+}
+
+export interface TrafficSeries {
+  resolutionSeconds: number
+  points: TrafficSeriesPoint[] // 오래된 순
+}
+
+// 시각이 속한 구간의 시작 시각
+export const rollupBucketStart = (time: Date, resolution: number) =>
+  new Date(Math.floor(time.getTime() / (resolution * 1000)) * resolution * 1000)
+
+const addToStats = (stats: RollupStats, value: number): RollupStats => ({
+  min: Math.min(stats.min, value),
+  max: Math.max(stats.max, value),
+  sum: stats.sum + value,
+})
+
+const singleStats = (value: number): RollupStats => ({ min: value, max: value, sum: value })
+
+// 샘플의 초당 패킷 수를 기존 통계에 누적
+const addPackets = (packets: PacketRollup | undefined, sample: TrafficSample): PacketRollup | undefined => {
+  if (sample.inboundPps === undefined || sample.outboundPps === undefined) return packets
+  if (!packets) return { count: 1, inbound: singleStats(sample.inboundPps), outbound: singleStats(sample.outboundPps) }
+  return {
+    count: packets.count + 1,
+    inbound: addToStats(packets.inbound, sample.inboundPps),
+    outbound: addToStats(packets.outbound, sample.outboundPps),
+  }
+}
+
+const toSeriesStats = (stats: RollupStats, count: number): SeriesStats => ({
+  min: stats.min,
+  avg: stats.sum / count, // 반올림은 표시할 때만
+  max: stats.max,
+})
+
+const sampleStats = (value: number | undefined): SeriesStats | null =>
+  value === undefined ? null : { min: value, avg: value, max: value }
+
+// 샘플을 해상도별 구간으로 묶어 기존 롤업에 누적 (existing은 같은 해상도의 기존 구간)
+export function rollupSamples(
+  samples: TrafficSample[],
+  resolution: number,
+  existing: TrafficRollup[] = [],
+): TrafficRollup[] {
+  const buckets = new Map<number, TrafficRollup>(existing.map((rollup) => [rollup.time.getTime(), rollup]))
+
+  for (const sample of samples) {
+    const time = rollupBucketStart(sample.time, resolution)
+    const bucket = buckets.get(time.getTime())
+    if (bucket) {
+      buckets.set(time.getTime(), {
+        ...bucket,
+        count: bucket.count + 1,
+        inbound: addToStats(bucket.inbound, sample.inbound),
+        outbound: addToStats(bucket.outbound, sample.outbound),
+        packets: addPackets(bucket.packets, sample),
+      })
+    } else {
+      buckets.set(time.getTime(), {
+        resolution,
+        time,
+        count: 1,
+        inbound: singleStats(sample.inbound),
+        outbound: singleStats(sample.outbound),
+        packets: addPackets(undefined, sample),
+      })
+    }
+  }
+
+  return Array.from(buckets.values()).sort((a, b) => a.time.getTime() - b.time.getTime())
+}
+
+// 구간 길이에 맞는 해상도를 선택 (점 수가 maxPoints 이하인 가장 세밀한 해상도)
+export function chooseResolution(from: Date, to: Date, maxPoints: number): number {
+  const seconds = Math.max(0, (to.getTime() - from.getTime()) / 1000)
+  if (seconds / RAW_RESOLUTION_SECONDS <= maxPoints) return RAW_RESOLUTION_SECONDS
+  return (
+    ROLLUP_RESOLUTIONS.find((resolution) => seconds / resolution <= maxPoints) ??
+    ROLLUP_RESOLUTIONS[ROLLUP_RESOLUTIONS.length - 1]
+  )
+}
+
+// 원본 샘플을 그래프 점으로 변환
+export const samplesToSeriesPoints = (samples: TrafficSample[]): TrafficSeriesPoint[] =>
+  samples.map((sample) => ({
+    time: sample.time,
+    inbound: { min: sample.inbound, avg: sample.inbound, max: sample.inbound },
+    outbound: { min: sample.outbound, avg: sample.outbound, max: sample.outbound },
+    inboundPps: sampleStats(sample.inboundPps),
+    outboundPps: sampleStats(sample.outboundPps),
+  }))
+
+// 롤업을 그래프 점으로 변환
+export const rollupsToSeriesPoints = (rollups: TrafficRollup[]): TrafficSeriesPoint[] =>
+  rollups.map((rollup) => ({
+    time: rollup.time,
+    inbound: toSeriesStats(rollup.inbound, rollup.count),
+    outbound: toSeriesStats(rollup.outbound, rollup.count),
+    inboundPps: rollup.packets ? toSeriesStats(rollup.packets.inbound, rollup.packets.count) : null,
+    outboundPps: rollup.packets ? toSeriesStats(rollup.packets.outbound, rollup.packets.count) : null,
+  }))
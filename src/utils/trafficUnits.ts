@@ -0,0 +1,46 @@
+/**
+ * 트래픽 값의 단위를 자동으로 고르는 함수들
+ *
+ * - 비트: bps, Kbps, Mbps, Gbps, Tbps (1000 단위)
+ * - 패킷: pps, Kpps, Mpps, Gpps
+ *
+ * 트래픽 샘플의 대역폭은 Mbps로 저장되므로 bps로 환산한 뒤 단위를 고름
+ *
+ * @module trafficUnits
+ */
+
+// 그래프에 표시할 지표 (초당 비트 / 초당 패킷)
+export type TrafficMetric = "bps" | "pps"
+
+export interface TrafficUnit {
+  label: string
+  divisor: number
+}
+
+const UNIT_LABELS: Record<TrafficMetric, string[]> = {
+  bps: ["bps", "Kbps", "Mbps", "Gbps", "Tbps"],
+  pps: ["pps", "Kpps", "Mpps", "Gpps"],
+}
+
+export const TRAFFIC_METRIC_LABELS: Record<TrafficMetric, string> = {
+  bps: "초당 비트",
+  pps: "초당 패킷",
+}
+
+// Mbps → bps
+export const mbpsToBps = (mbps: number) => mbps * 1e6
+
+// 값이 1 이상 1000 미만이 되는 단위를 선택
+export function chooseTrafficUnit(value: number, metric: TrafficMetric): TrafficUnit {
+  const labels = UNIT_LABELS[metric]
+  let index = 0
+  while (index < labels.length - 1 && Math.abs(value) >= 1000 ** (index + 1)) index += 1
+  return { label: labels[index], divisor: 1000 ** index }
+}
+
+// 단위를 붙여 표시 (예: 1250000 → "1.25 Mbps")
+export function formatTrafficValue(value: number, metric: TrafficMetric, unit?: TrafficUnit): string {
+  const { label, divisor } = unit ?? chooseTrafficUnit(value, metric)
+  const scaled = value / divisor
+  return `${Number.isInteger(scaled) ? scaled : Number(scaled.toFixed(scaled < 10 ? 2 : 1))} ${label}`
+}